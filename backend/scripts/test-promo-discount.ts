@@ -0,0 +1,55 @@
+// Run from backend/ with its .env: npx tsx scripts/test-promo-discount.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  PromoCode,
+  PromoCodeService,
+  PromoDiscountType,
+} from "../src/services/promoCodeService.js";
+
+function promoCode(
+  discountType: PromoDiscountType,
+  discountValue: number
+): PromoCode {
+  return {
+    discount_type: discountType,
+    discount_value: discountValue,
+  } as PromoCode;
+}
+
+test("percentage codes take their share of the price", () => {
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("percentage", 20), 50),
+    10
+  );
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("percentage", 15), 19.99),
+    3
+  );
+});
+
+test("fixed codes take their amount off", () => {
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("fixed", 5), 25),
+    5
+  );
+});
+
+test("a discount never exceeds the price or goes negative", () => {
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("percentage", 150), 40),
+    40
+  );
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("fixed", 30), 25),
+    25
+  );
+  assert.equal(
+    PromoCodeService.calculateDiscount(promoCode("fixed", -5), 25),
+    0
+  );
+});
+
+test("codes are matched case-insensitively", () => {
+  assert.equal(PromoCodeService.normalizeCode("  summer24 "), "SUMMER24");
+});
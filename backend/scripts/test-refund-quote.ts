@@ -0,0 +1,106 @@
+// Run from backend/ with its .env: npx tsx scripts/test-refund-quote.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  RefundPolicy,
+  RefundService,
+  RefundablePayment,
+} from "../src/services/refundService.js";
+
+const EVENT_START = "2030-06-01T18:00:00.000Z";
+const NOW = new Date("2030-05-01T12:00:00.000Z");
+
+const payment: RefundablePayment = {
+  id: "payment-1",
+  registration_id: "registration-1",
+  amount: 49.99,
+  refunded_amount: 0,
+  currency: "USD",
+  status: "completed",
+  gateway_payment_id: null,
+};
+
+function policy(overrides: Partial<RefundPolicy> = {}): RefundPolicy {
+  return {
+    event_id: "event-1",
+    policy_type: "partial",
+    refund_percentage: 50,
+    refund_deadline: null,
+    updated_at: null,
+    ...overrides,
+  };
+}
+
+test("events without a policy refund nothing", () => {
+  const quote = RefundService.quote(
+    RefundService.defaultPolicy("event-1"),
+    EVENT_START,
+    payment,
+    NOW
+  );
+
+  assert.equal(quote.eligible, false);
+  assert.equal(quote.amount, 0);
+});
+
+test("a full policy refunds everything paid", () => {
+  const quote = RefundService.quote(
+    policy({ policy_type: "full", refund_percentage: 100 }),
+    EVENT_START,
+    payment,
+    NOW
+  );
+
+  assert.equal(quote.eligible, true);
+  assert.equal(quote.amount, 49.99);
+});
+
+test("a partial policy refunds its percentage, rounded to the cent", () => {
+  const quote = RefundService.quote(policy(), EVENT_START, payment, NOW);
+
+  assert.equal(quote.amount, 25);
+  assert.equal(quote.paidAmount, 49.99);
+  assert.equal(quote.percentage, 50);
+});
+
+test("refunds never exceed what is left to refund", () => {
+  const full = policy({ policy_type: "full", refund_percentage: 100 });
+
+  const partlyRefunded = RefundService.quote(
+    full,
+    EVENT_START,
+    { ...payment, refunded_amount: 30 },
+    NOW
+  );
+  assert.equal(partlyRefunded.amount, 19.99);
+
+  const fullyRefunded = RefundService.quote(
+    full,
+    EVENT_START,
+    { ...payment, refunded_amount: 49.99 },
+    NOW
+  );
+  assert.equal(fullyRefunded.eligible, false);
+});
+
+test("nothing is refunded after the deadline", () => {
+  const quote = RefundService.quote(
+    policy({ refund_deadline: "2030-04-30T00:00:00.000Z" }),
+    EVENT_START,
+    payment,
+    NOW
+  );
+
+  assert.equal(quote.eligible, false);
+});
+
+test("nothing is refunded once the event has started", () => {
+  const quote = RefundService.quote(
+    policy({ refund_deadline: "2030-07-01T00:00:00.000Z" }),
+    EVENT_START,
+    payment,
+    new Date("2030-06-02T00:00:00.000Z")
+  );
+
+  assert.equal(quote.eligible, false);
+});
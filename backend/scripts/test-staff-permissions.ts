@@ -0,0 +1,48 @@
+// Run from backend/: npx tsx scripts/test-staff-permissions.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ROLE_TEMPLATES,
+  resolveStaffPermissions,
+  ungrantablePermissions,
+} from "../../shared/src/permissions.js";
+
+test("a role template wins over explicit permissions", () => {
+  assert.deepEqual(
+    resolveStaffPermissions({
+      permissions: ["check-in"],
+      roleTemplate: "finance",
+    }),
+    ROLE_TEMPLATES.finance.permissions
+  );
+});
+
+test("explicit permissions are kept", () => {
+  assert.deepEqual(resolveStaffPermissions({ permissions: ["check-in"] }), [
+    "check-in",
+  ]);
+});
+
+test("assignments without permissions default to door staff", () => {
+  assert.deepEqual(
+    resolveStaffPermissions({}),
+    ROLE_TEMPLATES["door-staff"].permissions
+  );
+});
+
+test("managers can only grant permissions they hold", () => {
+  const held = ["manage-staff", "check-in", "manage-registrations"] as const;
+
+  assert.deepEqual(ungrantablePermissions(["check-in"], held), []);
+  assert.deepEqual(
+    ungrantablePermissions(["check-in", "delete-event", "manage-event"], held),
+    ["delete-event", "manage-event"]
+  );
+});
+
+test("manage permissions let managers grant the matching view", () => {
+  assert.deepEqual(
+    ungrantablePermissions(["view-registrations"], ["manage-registrations"]),
+    []
+  );
+});
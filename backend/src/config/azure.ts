@@ -15,6 +15,7 @@ interface AzureConfig {
   connectionString: string;
   containerName: string;
   templatesContainerName: string;
+  attachmentsContainerName: string;
   accountName: string;
   accountKey: string;
 }
@@ -24,6 +25,8 @@ const azureConfig: AzureConfig = {
   containerName: process.env.AZURE_CONTAINER_NAME || "certificates",
   templatesContainerName:
     process.env.AZURE_TEMPLATES_CONTAINER_NAME || "certificate-templates",
+  attachmentsContainerName:
+    process.env.AZURE_ATTACHMENTS_CONTAINER_NAME || "form-attachments",
   accountName: process.env.AZURE_STORAGE_ACCOUNT_NAME || "",
   accountKey: process.env.AZURE_STORAGE_ACCOUNT_KEY || "",
 };
@@ -32,6 +35,7 @@ export class AzureBlobService {
   private blobServiceClient: BlobServiceClient;
   private containerName: string;
   private templatesContainerName: string;
+  private attachmentsContainerName: string;
 
   constructor() {
     if (!azureConfig.connectionString) {
@@ -43,6 +47,7 @@ export class AzureBlobService {
     );
     this.containerName = azureConfig.containerName;
     this.templatesContainerName = azureConfig.templatesContainerName;
+    this.attachmentsContainerName = azureConfig.attachmentsContainerName;
   }
 
   /**
@@ -305,6 +310,53 @@ export class AzureBlobService {
     }
   }
 
+  /**
+   * Upload a file attached to a registration form answer
+   */
+  async uploadAttachment(
+    fileName: string,
+    fileBuffer: Buffer,
+    contentType: string
+  ): Promise<string> {
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(
+        this.attachmentsContainerName
+      );
+
+      // Attachments hold participant data, so the container stays private
+      await containerClient.createIfNotExists();
+
+      const blockBlobClient = containerClient.getBlockBlobClient(fileName);
+      await blockBlobClient.upload(fileBuffer, fileBuffer.length, {
+        blobHTTPHeaders: {
+          blobContentType: contentType,
+        },
+      });
+
+      return blockBlobClient.url;
+    } catch (error) {
+      console.error("Error uploading attachment to Azure:", error);
+      throw new Error("Failed to upload attachment to cloud storage");
+    }
+  }
+
+  /**
+   * Download a form attachment
+   */
+  async downloadAttachment(fileName: string): Promise<Buffer> {
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(
+        this.attachmentsContainerName
+      );
+      const blockBlobClient = containerClient.getBlockBlobClient(fileName);
+
+      return await blockBlobClient.downloadToBuffer();
+    } catch (error) {
+      console.error("Error downloading attachment from Azure:", error);
+      throw new Error("Failed to download attachment from cloud storage");
+    }
+  }
+
   async deleteCertificate(fileName: string): Promise<boolean> {
     try {
       const containerClient = this.blobServiceClient.getContainerClient(
@@ -0,0 +1,331 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  ManualCheckInSchema,
+  CheckOutSchema,
+  UndoCheckInSchema,
+  AttendanceQuerySchema,
+} from "../../../shared/dist/schemas.js";
+import { AttendanceService } from "../services/attendanceService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+// Confirm the requester can run check-in for the event
+async function authorize(
+  req: AuthenticatedRequest,
+  res: Response,
+  eventId: string
+): Promise<string | null> {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+    return null;
+  }
+
+  const { status, error } = await AttendanceService.hasCheckInAccess(
+    eventId,
+    req.user!
+  );
+  if (error) {
+    res.status(status).json({ success: false, error });
+    return null;
+  }
+
+  return userId;
+}
+
+// Load an attendance record and confirm the requester can change it
+async function getManagedAttendance(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<{ attendance: any; userId: string } | null> {
+  const attendance = await AttendanceService.getById(req.params.attendanceId);
+
+  if (!attendance) {
+    res.status(404).json({
+      success: false,
+      error: "Attendance record not found",
+    });
+    return null;
+  }
+
+  const userId = await authorize(req, res, attendance.event_id);
+  if (!userId) return null;
+
+  return { attendance, userId };
+}
+
+function handleError(res: Response, error: unknown, label: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      details: error.errors,
+    });
+    return;
+  }
+
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "Internal server error",
+  });
+}
+
+export class AttendanceController {
+  /**
+   * List attendance for an event with pagination and filters
+   * GET /api/attendance/event/:eventId
+   */
+  static async getEventAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      if (!(await authorize(req, res, eventId))) return;
+
+      const filters = AttendanceQuerySchema.parse(req.query);
+      const [list, summary] = await Promise.all([
+        AttendanceService.listForEvent(eventId, filters),
+        AttendanceService.getSummary(eventId),
+      ]);
+
+      res.json({
+        success: true,
+        data: { ...list, summary },
+      });
+    } catch (error) {
+      handleError(res, error, "Get event attendance");
+    }
+  }
+
+  /**
+   * Search confirmed registrations for manual check-in
+   * GET /api/attendance/event/:eventId/search?q=
+   */
+  static async searchRegistrations(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      if (!(await authorize(req, res, eventId))) return;
+
+      const search = String(req.query.q || "").trim();
+      if (search.length < 2) {
+        res.status(400).json({
+          success: false,
+          error: "Enter at least 2 characters to search",
+        });
+        return;
+      }
+
+      const registrations = await AttendanceService.searchRegistrations(
+        eventId,
+        search.slice(0, 100)
+      );
+
+      res.json({
+        success: true,
+        data: { registrations },
+      });
+    } catch (error) {
+      handleError(res, error, "Search registrations for check-in");
+    }
+  }
+
+  /**
+   * Audit trail of check-ins, check-outs and undone check-ins
+   * GET /api/attendance/event/:eventId/audit
+   */
+  static async getAuditLog(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      if (!(await authorize(req, res, eventId))) return;
+
+      const entries = await AttendanceService.getAuditLog(eventId);
+
+      res.json({
+        success: true,
+        data: { entries },
+      });
+    } catch (error) {
+      handleError(res, error, "Get attendance audit log");
+    }
+  }
+
+  /**
+   * Check in an attendee found by name or email
+   * POST /api/attendance/checkin
+   */
+  static async manualCheckIn(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId, registrationId, location } = ManualCheckInSchema.parse(
+        req.body
+      );
+
+      const userId = await authorize(req, res, eventId);
+      if (!userId) return;
+
+      const { data: registration, error: regError } = await supabase
+        .from("registrations")
+        .select("id, name, email, status")
+        .eq("id", registrationId)
+        .eq("event_id", eventId)
+        .single();
+
+      if (regError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      if (registration.status !== "confirmed") {
+        res.status(400).json({
+          success: false,
+          error: "Registration is not confirmed",
+        });
+        return;
+      }
+
+      const { data: existing } = await supabase
+        .from("attendance")
+        .select("id, checked_in_at")
+        .eq("registration_id", registrationId)
+        .eq("event_id", eventId)
+        .single();
+
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: "Participant already checked in",
+          data: { attendance: existing },
+        });
+        return;
+      }
+
+      const attendance = await AttendanceService.manualCheckIn(
+        eventId,
+        registrationId,
+        userId,
+        location
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `${registration.name} checked in`,
+        data: {
+          attendance,
+          participant: {
+            id: registration.id,
+            name: registration.name,
+            email: registration.email,
+          },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, "Manual check-in");
+    }
+  }
+
+  /**
+   * Record that an attendee has left
+   * POST /api/attendance/:attendanceId/checkout
+   */
+  static async checkOut(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { checkedOutAt } = CheckOutSchema.parse(req.body || {});
+
+      const managed = await getManagedAttendance(req, res);
+      if (!managed) return;
+
+      if (managed.attendance.checked_out_at) {
+        res.status(409).json({
+          success: false,
+          error: "Participant is already checked out",
+        });
+        return;
+      }
+
+      const when = checkedOutAt || new Date();
+      if (when < new Date(managed.attendance.checked_in_at)) {
+        res.status(400).json({
+          success: false,
+          error: "Check-out time cannot be before check-in",
+        });
+        return;
+      }
+
+      const attendance = await AttendanceService.checkOut(
+        managed.attendance,
+        managed.userId,
+        when
+      );
+
+      res.json({
+        success: true,
+        message: "Participant checked out",
+        data: { attendance },
+      });
+    } catch (error) {
+      handleError(res, error, "Check-out");
+    }
+  }
+
+  /**
+   * Undo a check-in made by mistake, keeping the reason in the audit log
+   * POST /api/attendance/:attendanceId/undo
+   */
+  static async undoCheckIn(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { reason } = UndoCheckInSchema.parse(req.body);
+
+      const managed = await getManagedAttendance(req, res);
+      if (!managed) return;
+
+      await AttendanceService.undoCheckIn(
+        managed.attendance,
+        managed.userId,
+        reason
+      );
+
+      res.json({
+        success: true,
+        message: "Check-in undone",
+      });
+    } catch (error) {
+      handleError(res, error, "Undo check-in");
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  CreateCategorySchema,
+  UpdateCategorySchema,
+} from "../../../shared/dist/schemas.js";
+import { CategoryService } from "../services/categoryService.js";
+
+const SLUG_TAKEN_ERROR = "Another category already uses this slug";
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid category data",
+      details: error.errors,
+    });
+    return;
+  }
+
+  console.error(`${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "Internal server error",
+  });
+}
+
+export class CategoryController {
+  /**
+   * List every category
+   * GET /api/categories
+   */
+  static async getCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const categories = await CategoryService.getCategories();
+      res.json({ success: true, data: { categories } });
+    } catch (error) {
+      handleError(res, error, "Get categories");
+    }
+  }
+
+  /**
+   * Tags in use on upcoming public events
+   * GET /api/categories/tags?limit=30
+   */
+  static async getPopularTags(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 30, 1), 100);
+      const tags = await CategoryService.getPopularTags(limit);
+      res.json({ success: true, data: { tags } });
+    } catch (error) {
+      handleError(res, error, "Get tags");
+    }
+  }
+
+  /**
+   * Get a category by id or slug
+   * GET /api/categories/:idOrSlug
+   */
+  static async getCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await CategoryService.getCategory(req.params.idOrSlug);
+      if (!category) {
+        res.status(404).json({ success: false, error: "Category not found" });
+        return;
+      }
+
+      res.json({ success: true, data: { category } });
+    } catch (error) {
+      handleError(res, error, "Get category");
+    }
+  }
+
+  /**
+   * Create a category (admin only)
+   * POST /api/categories
+   */
+  static async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const input = CreateCategorySchema.parse(req.body);
+      const category = await CategoryService.createCategory(input);
+      if (!category) {
+        res.status(409).json({ success: false, error: SLUG_TAKEN_ERROR });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: "Category created successfully",
+        data: { category },
+      });
+    } catch (error) {
+      handleError(res, error, "Create category");
+    }
+  }
+
+  /**
+   * Update a category (admin only)
+   * PUT /api/categories/:idOrSlug
+   */
+  static async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const input = UpdateCategorySchema.parse(req.body);
+      const existing = await CategoryService.getCategory(req.params.idOrSlug);
+      if (!existing) {
+        res.status(404).json({ success: false, error: "Category not found" });
+        return;
+      }
+
+      const category = await CategoryService.updateCategory(
+        existing.id,
+        input
+      );
+      if (!category) {
+        res.status(409).json({ success: false, error: SLUG_TAKEN_ERROR });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Category updated successfully",
+        data: { category },
+      });
+    } catch (error) {
+      handleError(res, error, "Update category");
+    }
+  }
+
+  /**
+   * Delete a category; its events stay but become uncategorized (admin only)
+   * DELETE /api/categories/:idOrSlug
+   */
+  static async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const existing = await CategoryService.getCategory(req.params.idOrSlug);
+      if (!existing) {
+        res.status(404).json({ success: false, error: "Category not found" });
+        return;
+      }
+
+      await CategoryService.deleteCategory(existing.id);
+      res.json({ success: true, message: "Category deleted successfully" });
+    } catch (error) {
+      handleError(res, error, "Delete category");
+    }
+  }
+}
@@ -10,45 +10,54 @@ import {
   type PlaceholderMapping,
 } from "../services/certificateGenerator.js";
 import { TemplateService } from "../services/templateService.js";
+import {
+  CertificateSigningService,
+} from "../services/certificateSigningService.js";
+import { OpenBadgeService } from "../services/openBadgeService.js";
+import { CertificateJobService } from "../services/certificateJobService.js";
+import {
+  CertificateLifecycleService,
+  getCertificateStatus,
+} from "../services/certificateLifecycleService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+import {
+  hasEventPermission,
+  normalizePermissions,
+  type EventPermission,
+} from "../../../shared/dist/permissions.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_KEY!
 );
 
-// Helper function to check if user has permission to manage certificates for an event
+// For routes keyed by a job or certificate rather than the event, so
+// requireEventPermission can't run before the handler
 async function hasCertificatePermission(
-  userId: string,
-  eventId: string
+  user: { id: string; role?: string },
+  eventId: string,
+  permission: EventPermission = "manage-certificates"
 ): Promise<boolean> {
-  // Check if user is the event organizer
-  const { data: event } = await supabase
-    .from("events")
-    .select("organizer_id")
-    .eq("id", eventId)
-    .single();
-
-  if (event && event.organizer_id === userId) {
-    return true;
-  }
-
-  // Check if user is staff with create-certificate permission
-  const { data: staffAssignment } = await supabase
-    .from("event_users")
-    .select("permissions")
-    .eq("user_id", userId)
-    .eq("event_id", eventId)
-    .eq("role", "staff")
-    .single();
-
-  if (staffAssignment) {
-    const permissions = staffAssignment.permissions || [];
-    return permissions.includes("create-certificate");
-  }
-
-  return false;
+  const { error } = await EventPermissionService.checkPermission(
+    eventId,
+    user,
+    permission
+  );
+  return !error;
 }
 
+// Codes look like CERT-XXXX or VERIFY-XXXX; anything else can't match and
+// must not reach the PostgREST filter below
+const CERTIFICATE_CODE_PATTERN = /^[A-Z0-9-]+$/i;
+
+// Look a certificate up by either code printed on it
+const findCertificateByCode = (code: string, columns: string) =>
+  supabase
+    .from("certificates")
+    .select(columns)
+    .or(`verification_code.eq.${code},certificate_code.eq.${code}`)
+    .maybeSingle();
+
 // Configure multer for template uploads
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
@@ -336,17 +345,6 @@ export const certificateController = {
   getEligibleParticipants: async (req: Request, res: Response) => {
     try {
       const { eventId } = req.params;
-      const userId = (req as any).user.id;
-
-      // Check if user has permission to manage certificates for this event
-      const hasPermission = await hasCertificatePermission(userId, eventId);
-      if (!hasPermission) {
-        return res.status(403).json({
-          success: false,
-          message:
-            "You don't have permission to manage certificates for this event",
-        });
-      }
 
       const participants = await CertificateGenerator.getEligibleParticipants(
         eventId
@@ -376,16 +374,6 @@ export const certificateController = {
       const { templateId, participantIds } = req.body;
       const userId = (req as any).user.id;
 
-      // Check if user has permission to manage certificates for this event
-      const hasPermission = await hasCertificatePermission(userId, eventId);
-      if (!hasPermission) {
-        return res.status(403).json({
-          success: false,
-          message:
-            "You don't have permission to generate certificates for this event",
-        });
-      }
-
       if (!templateId) {
         return res.status(400).json({
           success: false,
@@ -422,8 +410,18 @@ export const certificateController = {
         });
       }
 
-      // Get event data
-      const eventData = await CertificateGenerator.getEventData(eventId);
+      // Two jobs at once would issue duplicate certificates
+      const eventJobs = await CertificateJobService.getEventJobs(eventId);
+      const activeJob = eventJobs.find(
+        (job) => job.status === "queued" || job.status === "running"
+      );
+      if (activeJob) {
+        return res.status(409).json({
+          success: false,
+          message: "Certificates are already being generated for this event",
+          data: { job: activeJob },
+        });
+      }
 
       // Get participants
       const allParticipants =
@@ -439,175 +437,206 @@ export const certificateController = {
         });
       }
 
-      const results = [];
-      let serialNumber = 1;
+      const job = await CertificateJobService.createJob(
+        eventId,
+        templateId,
+        participants,
+        userId
+      );
 
-      for (const participant of participants) {
-        try {
-          // Generate unique certificate code and verification code
-          const certificateCode =
-            CertificateGenerator.generateCertificateCode();
-          const verificationCode =
-            CertificateGenerator.generateVerificationCode();
-
-          // Generate certificate dcata
-          const certificateData = CertificateGenerator.generateCertificateData(
-            participant,
-            eventData,
-            certificateCode,
-            serialNumber++
-          );
+      res.status(202).json({
+        success: true,
+        data: { job },
+        message: `Queued ${participants.length} certificates for generation`,
+      });
+    } catch (error) {
+      console.error("Error generating certificates:", error);
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to generate certificates",
+      });
+    }
+  },
 
-          let certificateBuffer: Buffer;
-          let fileExtension: string;
-
-          if (
-            template.type === "powerpoint" &&
-            (template.file_path || template.uses_azure_storage)
-          ) {
-            console.log(
-              `🎯 Generating PowerPoint certificate using template ${templateId} (will convert to PDF)`
-            );
-            certificateBuffer =
-              await CertificateGenerator.generatePowerPointCertificate(
-                template.file_path || "", // Fallback path for legacy templates
-                certificateData,
-                template.placeholder_mapping,
-                templateId // Pass template ID for Azure storage lookup
-              );
-
-            // Determine file extension based on buffer content (PDF conversion may fall back to PPTX)
-            // Check if buffer starts with PDF signature %PDF
-            const isPdf =
-              certificateBuffer.subarray(0, 4).toString() === "%PDF";
-            fileExtension = isPdf ? "pdf" : "pptx";
-
-            console.log(
-              `📄 Certificate generated as ${fileExtension.toUpperCase()}`
-            );
-          } else {
-            console.log(
-              `🎯 Generating Canvas certificate using template ${templateId}`
-            );
-            certificateBuffer =
-              await CertificateGenerator.generateCanvasCertificate(
-                certificateData,
-                template.template_data
-              );
-            fileExtension = "png";
-          }
+  // List recent generation jobs for an event with their progress
+  getGenerationJobs: async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
 
-          // Save certificate
-          const certificateUrl = await CertificateGenerator.saveCertificate(
-            participant.id,
-            eventId,
-            templateId,
-            certificateBuffer,
-            certificateCode,
-            verificationCode,
-            fileExtension
-          );
+      const jobs = await CertificateJobService.getEventJobs(eventId);
+      const jobsWithProgress = await Promise.all(
+        jobs.map(async (job) => ({
+          ...job,
+          progress: await CertificateJobService.getProgress(job.id),
+        }))
+      );
 
-          results.push({
-            participantId: participant.id,
-            participantName: participant.name,
-            certificateCode,
-            verificationCode,
-            certificateUrl,
-            status: "success",
-          });
-        } catch (error) {
-          console.error(
-            `❌ Error generating certificate for ${participant.name}:`,
-            error
-          );
-          console.error("❌ Error details:", {
-            participantId: participant.id,
-            participantName: participant.name,
-            eventId,
-            templateId,
-            errorMessage:
-              error instanceof Error ? error.message : "Unknown error",
-            errorStack: error instanceof Error ? error.stack : undefined,
-          });
+      res.json({
+        success: true,
+        data: { jobs: jobsWithProgress },
+      });
+    } catch (error) {
+      console.error("Error fetching certificate jobs:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch certificate jobs",
+      });
+    }
+  },
 
-          results.push({
-            participantId: participant.id,
-            participantName: participant.name,
-            status: "error",
-            error: error instanceof Error ? error.message : "Unknown error",
-          });
-        }
+  // Get one generation job with per-participant status
+  getGenerationJob: async (req: Request, res: Response) => {
+    try {
+      const { jobId } = req.params;
+
+      const job = await CertificateJobService.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate job not found",
+        });
       }
 
-      const successCount = results.filter((r) => r.status === "success").length;
-      const errorCount = results.filter((r) => r.status === "error").length;
-
-      console.log("📊 Certificate generation summary:", {
-        totalParticipants: participants.length,
-        totalResults: results.length,
-        successCount,
-        errorCount,
-        results: results.map((r) => ({
-          name: r.participantName,
-          status: r.status,
-          error: r.error,
-        })),
-      });
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        job.event_id
+      );
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "You don't have permission to manage certificates for this event",
+        });
+      }
 
-      const responseData = {
+      const [progress, items] = await Promise.all([
+        CertificateJobService.getProgress(job.id),
+        CertificateJobService.getItems(job.id),
+      ]);
+
+      res.json({
         success: true,
-        data: {
-          results,
-          summary: {
-            total: participants.length,
-            successful: successCount,
-            failed: errorCount,
-          },
-        },
-        message: `Generated ${successCount} certificates successfully${
-          errorCount > 0 ? `, ${errorCount} failed` : ""
-        }`,
-      };
+        data: { job: { ...job, progress }, items },
+      });
+    } catch (error) {
+      console.error("Error fetching certificate job:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch certificate job",
+      });
+    }
+  },
+
+  // Stop a generation job; certificates already issued are kept
+  cancelGenerationJob: async (req: Request, res: Response) => {
+    try {
+      const { jobId } = req.params;
+
+      const job = await CertificateJobService.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate job not found",
+        });
+      }
 
-      console.log(
-        "📤 Sending response:",
-        JSON.stringify(responseData, null, 2)
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        job.event_id
       );
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "You don't have permission to manage certificates for this event",
+        });
+      }
 
-      res.json(responseData);
+      if (job.status !== "queued" && job.status !== "running") {
+        return res.status(409).json({
+          success: false,
+          message: `Job is already ${job.status}`,
+        });
+      }
+
+      await CertificateJobService.cancelJob(job);
+
+      res.json({
+        success: true,
+        message: "Certificate generation cancelled",
+      });
     } catch (error) {
-      console.error("Error generating certificates:", error);
+      console.error("Error cancelling certificate job:", error);
       res.status(500).json({
         success: false,
-        message:
-          error instanceof Error
-            ? error.message
-            : "Failed to generate certificates",
+        message: "Failed to cancel certificate job",
       });
     }
   },
 
-  // Get all certificates for an event
-  getCertificates: async (req: Request, res: Response) => {
+  // Requeue failed items, plus cancelled ones when resuming a cancelled job
+  retryGenerationJob: async (req: Request, res: Response) => {
     try {
-      const { eventId } = req.params;
-      const userId = (req as any).user.id;
+      const { jobId } = req.params;
 
-      if (!eventId) {
-        return res.status(400).json({
+      const job = await CertificateJobService.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({
           success: false,
-          message: "Event ID is required",
+          message: "Certificate job not found",
         });
       }
 
-      // Check if user has permission to view certificates for this event
-      const hasPermission = await hasCertificatePermission(userId, eventId);
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        job.event_id
+      );
       if (!hasPermission) {
         return res.status(403).json({
           success: false,
           message:
-            "You don't have permission to view certificates for this event",
+            "You don't have permission to manage certificates for this event",
+        });
+      }
+
+      const requeued = await CertificateJobService.retryJob(
+        job,
+        job.status === "cancelled"
+      );
+
+      if (requeued === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "There are no failed certificates to retry",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { requeued },
+        message: `Retrying ${requeued} certificates`,
+      });
+    } catch (error) {
+      console.error("Error retrying certificate job:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to retry certificate job",
+      });
+    }
+  },
+
+  // Get all certificates for an event
+  getCertificates: async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      if (!eventId) {
+        return res.status(400).json({
+          success: false,
+          message: "Event ID is required",
         });
       }
 
@@ -661,7 +690,6 @@ export const certificateController = {
     try {
       const { eventId } = req.params;
       const { certificateIds, message } = req.body; // Optional: specific certificates to email
-      const userId = (req as any).user.id;
 
       if (!eventId) {
         return res.status(400).json({
@@ -670,16 +698,6 @@ export const certificateController = {
         });
       }
 
-      // Check if user has permission to manage certificates for this event
-      const hasPermission = await hasCertificatePermission(userId, eventId);
-      if (!hasPermission) {
-        return res.status(403).json({
-          success: false,
-          message:
-            "You don't have permission to email certificates for this event",
-        });
-      }
-
       // Get certificates to email
       let query = supabase
         .from("certificates")
@@ -698,7 +716,8 @@ export const certificateController = {
           )
         `
         )
-        .eq("event_id", eventId);
+        .eq("event_id", eventId)
+        .or("status.is.null,status.eq.valid");
 
       if (certificateIds && certificateIds.length > 0) {
         query = query.in("id", certificateIds);
@@ -832,12 +851,13 @@ export const certificateController = {
         });
       }
 
-      // Get events where user is staff with certificate creation permission
+      // Get events where user is assigned with certificate permissions
       const { data: staffAssignments, error: staffError } = await supabase
         .from("event_users")
         .select(
           `
           event_id,
+          role,
           permissions,
           events:events!inner(
             id,
@@ -851,19 +871,24 @@ export const certificateController = {
         `
         )
         .eq("user_id", userId)
-        .eq("role", "staff")
+        .eq("is_active", true)
         .lt("events.end_date", now); // Only past events
 
       if (staffError) {
         console.error("Database error fetching staff events:", staffError);
       }
 
-      // Filter staff events to only include those with create-certificate permission
+      // Keep co-organized events and staff events where they can manage
+      // certificates
       const staffEvents = (staffAssignments || [])
-        .filter((assignment: any) => {
-          const permissions = assignment.permissions || [];
-          return permissions.includes("create-certificate");
-        })
+        .filter(
+          (assignment: any) =>
+            assignment.role === "organizer" ||
+            hasEventPermission(
+              normalizePermissions(assignment.permissions),
+              "manage-certificates"
+            )
+        )
         .map((assignment: any) => assignment.events);
 
       // Combine owned events and staff events, removing duplicates
@@ -899,17 +924,6 @@ export const certificateController = {
   getEventCertificates: async (req: Request, res: Response) => {
     try {
       const { eventId } = req.params;
-      const userId = (req as any).user.id;
-
-      // Check if user has permission to view certificates for this event
-      const hasPermission = await hasCertificatePermission(userId, eventId);
-      if (!hasPermission) {
-        return res.status(403).json({
-          success: false,
-          message:
-            "You don't have permission to view certificates for this event",
-        });
-      }
 
       const { data, error } = await supabase
         .from("certificates")
@@ -947,29 +961,32 @@ export const certificateController = {
     }
   },
 
-  // Verify certificate by code
+  // Verify certificate by code, reporting whether it is still valid
   verifyCertificate: async (req: Request, res: Response) => {
     try {
       const { code } = req.params;
 
-      const { data, error } = await supabase
-        .from("certificates")
-        .select(
-          `
+      if (!CERTIFICATE_CODE_PATTERN.test(code)) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate not found",
+        });
+      }
+
+      const { data, error } = await findCertificateByCode(
+        code,
+        `
           *,
           registrations(
             name,
             email,
-            events(title, start_date, end_date, location)
-          ),
-          certificate_templates(
-            name,
-            type
+            events(
+              title, start_date, end_date, location,
+              organizer:organizer_id(name, organization_name)
+            )
           )
         `
-        )
-        .eq("verification_code", code)
-        .single();
+      );
 
       if (error || !data) {
         return res.status(404).json({
@@ -978,9 +995,55 @@ export const certificateController = {
         });
       }
 
+      const certificate = data as any;
+      const status = getCertificateStatus(certificate);
+      const registration = certificate.registrations;
+      const event = registration?.events;
+      const organizer = Array.isArray(event?.organizer)
+        ? event.organizer[0]
+        : event?.organizer;
+
+      let replacement = null;
+      if (status === "superseded" && certificate.superseded_by_id) {
+        const { data: next } = await supabase
+          .from("certificates")
+          .select("certificate_code, created_at")
+          .eq("id", certificate.superseded_by_id)
+          .maybeSingle();
+        if (next) {
+          replacement = {
+            code: next.certificate_code,
+            issuedAt: next.created_at,
+          };
+        }
+      }
+
       res.json({
         success: true,
-        data,
+        data: {
+          valid: status === "valid",
+          status,
+          certificate: {
+            code: certificate.certificate_code,
+            participantName: registration?.name,
+            participantEmail: registration?.email,
+            issuedAt: certificate.created_at,
+            fileUrl:
+              status === "valid"
+                ? certificate.certificate_url || certificate.file_url
+                : null,
+            event: {
+              title: event?.title,
+              date: event?.start_date,
+              location: event?.location,
+            },
+            issuer: organizer?.organization_name || organizer?.name || null,
+          },
+          revokedAt: certificate.revoked_at,
+          revocationReason: certificate.revocation_reason,
+          supersededAt: certificate.superseded_at,
+          replacement,
+        },
       });
     } catch (error) {
       console.error("Error verifying certificate:", error);
@@ -991,6 +1054,292 @@ export const certificateController = {
     }
   },
 
+  // Public key that certificate QR signatures can be checked against
+  getSigningKey: async (_req: Request, res: Response) => {
+    try {
+      res.json({
+        success: true,
+        data: CertificateSigningService.getPublicKey(),
+      });
+    } catch (error) {
+      console.error("Error loading certificate signing key:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to load signing key",
+      });
+    }
+  },
+
+  // Certificate as an Open Badges 3.0 credential, JSON-LD or ?format=jwt
+  getOpenBadgeCredential: async (req: Request, res: Response) => {
+    try {
+      const { code } = req.params;
+
+      const badge = CERTIFICATE_CODE_PATTERN.test(code)
+        ? await OpenBadgeService.getCredential(code)
+        : null;
+      if (!badge) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate not found",
+        });
+      }
+
+      if (badge.status !== "valid") {
+        return res.status(410).json({
+          success: false,
+          message:
+            badge.status === "revoked"
+              ? "This certificate has been revoked"
+              : "This certificate has been replaced by a newer one",
+        });
+      }
+
+      if (req.query.download === "true") {
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${code}.${
+            req.query.format === "jwt" ? "jwt" : "json"
+          }"`
+        );
+      }
+
+      if (req.query.format === "jwt") {
+        res
+          .type("application/jwt")
+          .send(OpenBadgeService.toJwt(badge.credential));
+        return;
+      }
+
+      res.type("application/ld+json").json(badge.credential);
+    } catch (error) {
+      console.error("Error exporting Open Badge credential:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to export credential",
+      });
+    }
+  },
+
+  // Issuer profile referenced by Open Badges credentials
+  getIssuerProfile: async (req: Request, res: Response) => {
+    try {
+      const profile = await OpenBadgeService.getIssuerProfile(
+        req.params.organizerId
+      );
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          message: "Issuer not found",
+        });
+      }
+
+      res.type("application/ld+json").json(profile);
+    } catch (error) {
+      console.error("Error fetching issuer profile:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch issuer profile",
+      });
+    }
+  },
+
+  // Revoke a certificate so it no longer verifies
+  revokeCertificate: async (req: Request, res: Response) => {
+    try {
+      const { certificateId } = req.params;
+      const { reason } = req.body;
+      const userId = (req as any).user.id;
+
+      const certificate = await CertificateLifecycleService.getCertificate(
+        certificateId
+      );
+      if (!certificate) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate not found",
+        });
+      }
+
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        certificate.event_id
+      );
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "You don't have permission to revoke certificates for this event",
+        });
+      }
+
+      if (typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "A reason is required to revoke a certificate",
+        });
+      }
+
+      const revoked = await CertificateLifecycleService.revoke(
+        certificate,
+        userId,
+        reason.trim()
+      );
+      if (!revoked) {
+        return res.status(409).json({
+          success: false,
+          message: `This certificate is already ${getCertificateStatus(
+            certificate
+          )}`,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { certificate: revoked },
+        message: "Certificate revoked",
+      });
+    } catch (error) {
+      console.error("Error revoking certificate:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to revoke certificate",
+      });
+    }
+  },
+
+  // Replace a certificate with a new one, optionally correcting the name
+  reissueCertificate: async (req: Request, res: Response) => {
+    try {
+      const { certificateId } = req.params;
+      const { reason, participantName } = req.body;
+      const userId = (req as any).user.id;
+
+      const certificate = await CertificateLifecycleService.getCertificate(
+        certificateId
+      );
+      if (!certificate) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate not found",
+        });
+      }
+
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        certificate.event_id
+      );
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "You don't have permission to reissue certificates for this event",
+        });
+      }
+
+      if (typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "A reason is required to reissue a certificate",
+        });
+      }
+
+      if (
+        participantName !== undefined &&
+        (typeof participantName !== "string" || !participantName.trim())
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Participant name cannot be empty",
+        });
+      }
+
+      const status = getCertificateStatus(certificate);
+      if (status !== "valid") {
+        return res.status(409).json({
+          success: false,
+          message:
+            status === "revoked"
+              ? "Revoked certificates cannot be reissued"
+              : "This certificate has already been reissued",
+        });
+      }
+
+      const replacement = await CertificateLifecycleService.reissue(
+        certificate,
+        userId,
+        reason.trim(),
+        participantName?.trim()
+      );
+      if (!replacement) {
+        return res.status(409).json({
+          success: false,
+          message: "This certificate has already been reissued",
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { certificate: replacement },
+        message: `Certificate reissued as ${replacement.certificate_code}`,
+      });
+    } catch (error) {
+      console.error("Error reissuing certificate:", error);
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to reissue certificate",
+      });
+    }
+  },
+
+  // Revocations and reissues recorded for a certificate
+  getCertificateHistory: async (req: Request, res: Response) => {
+    try {
+      const { certificateId } = req.params;
+
+      const certificate = await CertificateLifecycleService.getCertificate(
+        certificateId
+      );
+      if (!certificate) {
+        return res.status(404).json({
+          success: false,
+          message: "Certificate not found",
+        });
+      }
+
+      const hasPermission = await hasCertificatePermission(
+        (req as any).user,
+        certificate.event_id,
+        "view-certificates"
+      );
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "You don't have permission to view certificates for this event",
+        });
+      }
+
+      const history = await CertificateLifecycleService.getHistory(
+        certificate.id
+      );
+
+      res.json({
+        success: true,
+        data: { certificate, history },
+      });
+    } catch (error) {
+      console.error("Error fetching certificate history:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch certificate history",
+      });
+    }
+  },
+
   // Delete a certificate template
   deleteTemplate: async (req: Request, res: Response) => {
     try {
@@ -1040,10 +1389,17 @@ export const certificateController = {
     try {
       const { code } = req.params;
 
-      const { data, error } = await supabase
-        .from("certificates")
-        .select(
-          `
+      if (!CERTIFICATE_CODE_PATTERN.test(code)) {
+        return res.status(404).json({
+          success: false,
+          error: "Certificate not found",
+        });
+      }
+
+      const { data: certificate, error } = await findCertificateByCode(
+        code,
+        `
+          status,
           certificate_url,
           azure_file_name,
           uses_azure_storage,
@@ -1051,17 +1407,27 @@ export const certificateController = {
             name
           )
         `
-        )
-        .eq("verification_code", code)
-        .single();
+      );
 
-      if (error || !data) {
+      if (error || !certificate) {
         return res.status(404).json({
           success: false,
           error: "Certificate not found",
         });
       }
 
+      const data = certificate as any;
+      const status = getCertificateStatus(data);
+      if (status !== "valid") {
+        return res.status(410).json({
+          success: false,
+          error:
+            status === "revoked"
+              ? "This certificate has been revoked"
+              : "This certificate has been replaced by a newer one",
+        });
+      }
+
       const registrationData = Array.isArray(data.registrations)
         ? data.registrations[0]
         : data.registrations;
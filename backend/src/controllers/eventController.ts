@@ -3,8 +3,14 @@ import { createClient } from "@supabase/supabase-js";
 import { z } from "zod";
 import {
   CreateEventSchema,
+  EventTagSchema,
   UpdateEventSchema,
 } from "../../../shared/dist/schemas.js";
+import { WaitlistService } from "../services/waitlistService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+import { EventOrganizerService } from "../services/eventOrganizerService.js";
+import { OrganizationService } from "../services/organizationService.js";
+import { ALL_EVENT_PERMISSIONS } from "../../../shared/dist/permissions.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -19,6 +25,19 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+// Query string lists arrive as "a,b" or as repeated ?key=a&key=b
+function parseListParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+const CategoryIdsSchema = z.array(z.string().uuid());
+const TagListSchema = z.array(EventTagSchema);
+
 export class EventController {
   // Create a new event (Organizers only)
   static async createEvent(
@@ -58,6 +77,20 @@ export class EventController {
 
       const validatedData = CreateEventSchema.parse(req.body);
 
+      if (
+        validatedData.organizationId &&
+        !(await OrganizationService.getMemberRole(
+          validatedData.organizationId,
+          userId
+        ))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: "You can only create events for organizations you belong to",
+        });
+        return;
+      }
+
       // Create the event
       const { data: event, error } = await supabase
         .from("events")
@@ -69,9 +102,11 @@ export class EventController {
           location: validatedData.location,
           capacity: validatedData.capacity,
           category_id: validatedData.categoryId,
+          tags: validatedData.tags ?? [],
           banner_url: validatedData.bannerUrl,
           visibility: validatedData.visibility,
           organizer_id: userId,
+          organization_id: validatedData.organizationId,
           registration_deadline: validatedData.registrationDeadline,
           is_paid: validatedData.isPaid,
           price: validatedData.price,
@@ -82,9 +117,9 @@ export class EventController {
           `
           id, title, description, start_date, end_date, location, 
           capacity, banner_url, visibility, registration_deadline,
-          is_paid, price, created_at, updated_at,
+          is_paid, price, tags, created_at, updated_at,
           organizer:organizer_id(id, name, email),
-          category:category_id(id, name, color)
+          category:category_id(id, name, slug, color, icon)
         `
         )
         .single();
@@ -99,27 +134,13 @@ export class EventController {
       }
 
       // Add creator to event_users as organizer with full permissions
-      const defaultOrganizerPermissions = [
-        "manage-event",
-        "delete-event",
-        "view-registrations",
-        "manage-registrations",
-        "export-registrations",
-        "check-in",
-        "manage-staff",
-        "view-reports",
-        "manage-reports",
-        "send-emails",
-        "send-notifications",
-      ];
-
       const { error: eventUserError } = await supabase
         .from("event_users")
         .insert({
           event_id: event.id,
           user_id: userId,
           role: "organizer",
-          permissions: defaultOrganizerPermissions,
+          permissions: ALL_EVENT_PERMISSIONS,
           assigned_by: userId,
           is_active: true,
         });
@@ -159,6 +180,7 @@ export class EventController {
         limit = 10,
         visibility,
         categoryId,
+        tags,
         organizerId,
         search,
         upcoming = "true",
@@ -166,6 +188,30 @@ export class EventController {
         week,
       } = req.query;
 
+      // Comma-separated list; an event matches any of the given categories
+      const parsedCategoryIds = CategoryIdsSchema.safeParse(
+        parseListParam(categoryId)
+      );
+      if (!parsedCategoryIds.success) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid category id",
+        });
+        return;
+      }
+      const categoryIds = parsedCategoryIds.data;
+
+      // Comma-separated list; an event matches any of the given tags
+      const parsedTags = TagListSchema.safeParse(parseListParam(tags));
+      if (!parsedTags.success) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid tag",
+        });
+        return;
+      }
+      const tagList = parsedTags.data;
+
       const offset = (Number(page) - 1) * Number(limit);
 
       let query = supabase
@@ -174,9 +220,9 @@ export class EventController {
           `
           id, title, description, start_date, end_date, location,
           capacity, banner_url, visibility, registration_deadline,
-          is_paid, price, created_at,
+          is_paid, price, tags, created_at,
           organizer:organizer_id(id, name, email, organization_name),
-          category:category_id(id, name, color),
+          category:category_id(id, name, slug, color, icon),
           registrations:registrations(count)
         `,
           { count: "exact" }
@@ -192,8 +238,12 @@ export class EventController {
         query = query.eq("visibility", "public");
       }
 
-      if (categoryId) {
-        query = query.eq("category_id", categoryId);
+      if (categoryIds.length > 0) {
+        query = query.in("category_id", categoryIds);
+      }
+
+      if (tagList.length > 0) {
+        query = query.overlaps("tags", tagList);
       }
 
       if (organizerId) {
@@ -282,7 +332,10 @@ export class EventController {
   }
 
   // Get a single event by ID
-  static async getEventById(req: Request, res: Response): Promise<void> {
+  static async getEventById(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -292,9 +345,10 @@ export class EventController {
           `
           id, title, description, start_date, end_date, location,
           capacity, banner_url, visibility, registration_deadline,
-          is_paid, price, created_at, updated_at,
+          is_paid, price, tags, created_at, updated_at,
           organizer:organizer_id(id, name, email, organization_name, phone_number),
-          category:category_id(id, name, color, description),
+          organization:organization_id(id, name, logo_url, brand_color),
+          category:category_id(id, name, slug, color, icon, description),
           registrations:registrations(
             id, status, created_at,
             user:user_id(id, name, email)
@@ -312,13 +366,21 @@ export class EventController {
         return;
       }
 
-      // For public endpoint, only show public events
+      // Non-public events are only visible to the people who run them:
+      // admins, the owner, organization admins and the event team.
+      // Invitees reach them through /api/invitations/token/:token instead.
       if (event.visibility !== "public") {
-        res.status(404).json({
-          success: false,
-          error: "Event not found",
-        });
-        return;
+        const access = req.user
+          ? await EventPermissionService.getAccess(id, req.user)
+          : null;
+
+        if (!access?.role) {
+          res.status(404).json({
+            success: false,
+            error: "Event not found",
+          });
+          return;
+        }
       }
 
       res.json({
@@ -334,47 +396,13 @@ export class EventController {
     }
   }
 
-  // Update an event (Organizers only - own events)
+  // Update an event (requires manage-event)
   static async updateEvent(
     req: AuthenticatedRequest,
     res: Response
   ): Promise<void> {
     try {
       const { id } = req.params;
-      const userId = req.user?.id;
-      const userRole = req.user?.role;
-
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          error: "Authentication required",
-        });
-        return;
-      }
-
-      // Check if event exists and user has permission
-      const { data: existingEvent, error: fetchError } = await supabase
-        .from("events")
-        .select("organizer_id")
-        .eq("id", id)
-        .single();
-
-      if (fetchError || !existingEvent) {
-        res.status(404).json({
-          success: false,
-          error: "Event not found",
-        });
-        return;
-      }
-
-      // Check permissions - only event owner can edit
-      if (existingEvent.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You can only edit your own events",
-        });
-        return;
-      }
 
       const validatedData = UpdateEventSchema.parse(req.body);
 
@@ -389,9 +417,9 @@ export class EventController {
           `
           id, title, description, start_date, end_date, location,
           capacity, banner_url, visibility, registration_deadline,
-          is_paid, price, created_at, updated_at,
+          is_paid, price, tags, created_at, updated_at,
           organizer:organizer_id(id, name, email),
-          category:category_id(id, name, color)
+          category:category_id(id, name, slug, color, icon)
         `
         )
         .single();
@@ -405,6 +433,11 @@ export class EventController {
         return;
       }
 
+      // Extra capacity is offered to the waitlist straight away
+      if (validatedData.capacity !== undefined) {
+        await WaitlistService.promoteNext(id);
+      }
+
       res.json({
         success: true,
         message: "Event updated successfully",
@@ -428,47 +461,13 @@ export class EventController {
     }
   }
 
-  // Delete an event (Organizers only - own events)
+  // Delete an event (requires delete-event)
   static async deleteEvent(
     req: AuthenticatedRequest,
     res: Response
   ): Promise<void> {
     try {
       const { id } = req.params;
-      const userId = req.user?.id;
-      const userRole = req.user?.role;
-
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          error: "Authentication required",
-        });
-        return;
-      }
-
-      // Check if event exists and user has permission
-      const { data: existingEvent, error: fetchError } = await supabase
-        .from("events")
-        .select("organizer_id")
-        .eq("id", id)
-        .single();
-
-      if (fetchError || !existingEvent) {
-        res.status(404).json({
-          success: false,
-          error: "Event not found",
-        });
-        return;
-      }
-
-      // Check permissions - only event owner can delete
-      if (existingEvent.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You can only delete your own events",
-        });
-        return;
-      }
 
       const { error } = await supabase.from("events").delete().eq("id", id);
 
@@ -494,7 +493,7 @@ export class EventController {
     }
   }
 
-  // Get events for the authenticated organizer (Dashboard)
+  // Get events the authenticated user owns or co-organizes (Dashboard)
   static async getMyEvents(
     req: AuthenticatedRequest,
     res: Response
@@ -515,6 +514,9 @@ export class EventController {
         ? parseInt(req.query.limit as string)
         : undefined;
 
+      const coOrganizedIds =
+        await EventOrganizerService.getCoOrganizedEventIds(userId);
+
       let query = supabase
         .from("events")
         .select(
@@ -526,7 +528,11 @@ export class EventController {
           registrations:registrations(count)
         `
         )
-        .eq("organizer_id", userId)
+        .or(
+          coOrganizedIds.length > 0
+            ? `organizer_id.eq.${userId},id.in.(${coOrganizedIds.join(",")})`
+            : `organizer_id.eq.${userId}`
+        )
         .order("created_at", { ascending: false });
 
       // Apply limit if provided
@@ -586,31 +592,19 @@ export class EventController {
         return;
       }
 
-      // Check if user has a role in event_users table for this event
-      const { data: eventUser, error } = await supabase
-        .from("event_users")
-        .select("role, permissions, is_active")
-        .eq("event_id", id)
-        .eq("user_id", userId)
-        .eq("is_active", true)
-        .single();
-
-      if (error && error.code !== "PGRST116") {
-        // PGRST116 is "no rows returned" which is okay
-        console.error("Get user event role error:", error);
-        res.status(500).json({
-          success: false,
-          error: "Failed to fetch user role",
-        });
+      // Role and permissions are the effective ones, so owners, admins and
+      // organization admins count as organizers without an event_users row
+      const access = await EventPermissionService.getAccess(id, req.user!);
+      if (access.error) {
+        res.status(access.status).json({ success: false, error: access.error });
         return;
       }
 
-      // Return the role if found, otherwise null
       res.json({
         success: true,
         data: {
-          role: eventUser?.role || null,
-          permissions: eventUser?.permissions || [],
+          role: access.role,
+          permissions: access.permissions,
         },
       });
     } catch (error) {
@@ -0,0 +1,306 @@
+import { Response } from "express";
+import { z } from "zod";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import { EventOrganizerService } from "../services/eventOrganizerService.js";
+
+const OrganizerEmailSchema = z.object({
+  email: z.string().email(),
+});
+
+const RespondToTransferSchema = z.object({
+  accept: z.boolean(),
+});
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+    return;
+  }
+
+  console.error(`${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "Internal server error",
+  });
+}
+
+export class EventOrganizerController {
+  /**
+   * List the owner, co-organizers and any pending ownership transfer
+   * GET /api/events/:id/organizers
+   */
+  static async getOrganizers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const event = await EventOrganizerService.getEvent(req.params.id);
+      if (!event) {
+        res.status(404).json({ success: false, error: "Event not found" });
+        return;
+      }
+
+      const organizers = await EventOrganizerService.getOrganizers(event);
+      res.json({ success: true, data: organizers });
+    } catch (error) {
+      handleError(res, error, "Get organizers");
+    }
+  }
+
+  /**
+   * Add an existing user as a co-organizer (owner, co-organizer or admin)
+   * POST /api/events/:id/organizers
+   */
+  static async addCoOrganizer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { email } = OrganizerEmailSchema.parse(req.body);
+
+      const event = await EventOrganizerService.getEvent(req.params.id);
+      if (!event) {
+        res.status(404).json({ success: false, error: "Event not found" });
+        return;
+      }
+      if (
+        !(await EventOrganizerService.canManageOrganizers(event, req.user!))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: "Only the event owner or a co-organizer can add co-organizers",
+        });
+        return;
+      }
+
+      const user = await EventOrganizerService.findUserByEmail(email);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: "No account found with that email",
+        });
+        return;
+      }
+      if (user.id === event.organizer_id) {
+        res.status(400).json({
+          success: false,
+          error: "This user already owns the event",
+        });
+        return;
+      }
+
+      await EventOrganizerService.addCoOrganizer(event, user, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        message: "Co-organizer added successfully",
+      });
+    } catch (error) {
+      handleError(res, error, "Add co-organizer");
+    }
+  }
+
+  /**
+   * Remove a co-organizer (owner, co-organizer or admin). The owner can
+   * only leave by transferring.
+   * DELETE /api/events/:id/organizers/:userId
+   */
+  static async removeCoOrganizer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const event = await EventOrganizerService.getEvent(req.params.id);
+      if (!event) {
+        res.status(404).json({ success: false, error: "Event not found" });
+        return;
+      }
+      if (
+        !(await EventOrganizerService.canManageOrganizers(event, req.user!))
+      ) {
+        res.status(403).json({
+          success: false,
+          error:
+            "Only the event owner or a co-organizer can remove co-organizers",
+        });
+        return;
+      }
+      if (req.params.userId === event.organizer_id) {
+        res.status(400).json({
+          success: false,
+          error: "The owner can't be removed. Transfer ownership first.",
+        });
+        return;
+      }
+
+      const removed = await EventOrganizerService.removeCoOrganizer(
+        event,
+        req.params.userId
+      );
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          error: "Co-organizer not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Co-organizer removed successfully",
+      });
+    } catch (error) {
+      handleError(res, error, "Remove co-organizer");
+    }
+  }
+
+  /**
+   * Offer ownership to another user (owner or admin only)
+   * POST /api/events/:id/transfer
+   */
+  static async requestTransfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { email } = OrganizerEmailSchema.parse(req.body);
+
+      const event = await EventOrganizerService.getEvent(req.params.id);
+      if (!event) {
+        res.status(404).json({ success: false, error: "Event not found" });
+        return;
+      }
+      if (event.organizer_id !== req.user!.id && req.user!.role !== "admin") {
+        res.status(403).json({
+          success: false,
+          error: "Only the event owner can transfer ownership",
+        });
+        return;
+      }
+
+      const recipient = await EventOrganizerService.findUserByEmail(email);
+      if (!recipient) {
+        res.status(404).json({
+          success: false,
+          error: "No account found with that email",
+        });
+        return;
+      }
+      if (recipient.id === event.organizer_id) {
+        res.status(400).json({
+          success: false,
+          error: "This user already owns the event",
+        });
+        return;
+      }
+
+      const transfer = await EventOrganizerService.requestTransfer(
+        event,
+        recipient
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `Transfer requested. ${email} needs to accept it.`,
+        data: { transfer },
+      });
+    } catch (error) {
+      handleError(res, error, "Request ownership transfer");
+    }
+  }
+
+  /**
+   * Withdraw a pending transfer (owner or admin only)
+   * DELETE /api/events/:id/transfer
+   */
+  static async cancelTransfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const event = await EventOrganizerService.getEvent(req.params.id);
+      if (!event) {
+        res.status(404).json({ success: false, error: "Event not found" });
+        return;
+      }
+      if (event.organizer_id !== req.user!.id && req.user!.role !== "admin") {
+        res.status(403).json({
+          success: false,
+          error: "Only the event owner can cancel a transfer",
+        });
+        return;
+      }
+
+      const cancelled = await EventOrganizerService.cancelTransfer(event.id);
+      if (!cancelled) {
+        res.status(404).json({
+          success: false,
+          error: "No pending transfer for this event",
+        });
+        return;
+      }
+
+      res.json({ success: true, message: "Transfer cancelled" });
+    } catch (error) {
+      handleError(res, error, "Cancel ownership transfer");
+    }
+  }
+
+  /**
+   * Transfers waiting on the caller's answer
+   * GET /api/events/transfers/pending
+   */
+  static async getPendingTransfers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const transfers = await EventOrganizerService.getPendingTransfers(
+        req.user!.id
+      );
+      res.json({ success: true, data: { transfers } });
+    } catch (error) {
+      handleError(res, error, "Get ownership transfers");
+    }
+  }
+
+  /**
+   * Accept or decline a transfer offered to the caller
+   * POST /api/events/transfers/:transferId/respond
+   */
+  static async respondToTransfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { accept } = RespondToTransferSchema.parse(req.body);
+
+      const transfer = await EventOrganizerService.respondToTransfer(
+        req.params.transferId,
+        req.user!.id,
+        accept
+      );
+      if (!transfer) {
+        res.status(409).json({
+          success: false,
+          error: "This transfer is no longer pending",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: accept
+          ? "You are now the owner of this event"
+          : "Transfer declined",
+        data: { transfer },
+      });
+    } catch (error) {
+      handleError(res, error, "Respond to ownership transfer");
+    }
+  }
+}
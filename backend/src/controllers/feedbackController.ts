@@ -0,0 +1,386 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  FeedbackScheduleSchema,
+  SubmitFeedbackSchema,
+} from "../../../shared/dist/schemas.js";
+import { FeedbackService } from "../services/feedbackService.js";
+import { FormValidationService } from "../services/formValidationService.js";
+import { FormAttachmentService } from "../services/formAttachmentService.js";
+import { FeedbackRequestService } from "../services/feedbackRequestService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+// Event fields the handlers below use once access is checked
+const EVENT_COLUMNS = "id, organizer_id, end_date";
+
+export class FeedbackController {
+  /**
+   * Submit feedback for an event the caller attended
+   * POST /api/feedback/events/:eventId
+   */
+  static async submitFeedback(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { responses, isAnonymous } = SubmitFeedbackSchema.parse(req.body);
+
+      const form = await FormValidationService.getEventForm(
+        eventId,
+        "feedback"
+      );
+      if (!form) {
+        res.status(404).json({
+          success: false,
+          error: "This event doesn't have a feedback form",
+        });
+        return;
+      }
+
+      const registration = await FeedbackService.getAttendedRegistration(
+        eventId,
+        userId
+      );
+      if (!registration) {
+        res.status(403).json({
+          success: false,
+          error: "Only checked-in attendees can leave feedback",
+        });
+        return;
+      }
+
+      const fieldErrors = FormValidationService.validateResponses(
+        form.fields,
+        responses
+      );
+      if (Object.keys(fieldErrors).length > 0) {
+        res.status(400).json({
+          success: false,
+          error: "Please correct the highlighted fields",
+          fieldErrors,
+        });
+        return;
+      }
+
+      const attachments = await FormAttachmentService.resolveAnswers(
+        eventId,
+        userId,
+        form.fields,
+        FormValidationService.removeHiddenAnswers(form.fields, responses)
+      );
+      if (Object.keys(attachments.fieldErrors).length > 0) {
+        res.status(400).json({
+          success: false,
+          error: "Please correct the highlighted fields",
+          fieldErrors: attachments.fieldErrors,
+        });
+        return;
+      }
+
+      const submission = await FeedbackService.submit({
+        eventId,
+        formId: form.id,
+        registrationId: registration.id,
+        responses: attachments.responses,
+        isAnonymous,
+      });
+      if (!submission) {
+        res.status(409).json({
+          success: false,
+          error: "You have already shared feedback for this event",
+        });
+        return;
+      }
+
+      await FormAttachmentService.linkToRegistration(
+        attachments.attachmentIds,
+        registration.id
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Thank you for your feedback!",
+        data: {
+          submission: {
+            id: submission.id,
+            isAnonymous: submission.is_anonymous,
+            submittedAt: submission.submitted_at,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid feedback data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Submit feedback error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Whether the caller can leave feedback, or already has
+   * GET /api/feedback/events/:eventId/status
+   */
+  static async getFeedbackStatus(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const registration = await FeedbackService.getAttendedRegistration(
+        eventId,
+        userId
+      );
+      const submission = registration
+        ? await FeedbackService.getSubmissionForRegistration(registration.id)
+        : null;
+
+      res.json({
+        success: true,
+        data: {
+          attended: !!registration,
+          hasSubmitted: !!submission,
+          canSubmit: !!registration && !submission,
+        },
+      });
+    } catch (error) {
+      console.error("Get feedback status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Individual submissions for organizers
+   * GET /api/feedback/events/:eventId/submissions
+   */
+  static async getSubmissions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "view-reports",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const submissions = await FeedbackService.getEventSubmissions(eventId);
+
+      res.json({
+        success: true,
+        data: { submissions },
+      });
+    } catch (error) {
+      console.error("Get feedback submissions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Per-question aggregates built from the feedback form's field types
+   * GET /api/feedback/events/:eventId/summary
+   */
+  static async getSummary(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "view-reports",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const [form, submissions, attendeeCount] = await Promise.all([
+        FormValidationService.getEventForm(eventId, "feedback"),
+        FeedbackService.getEventSubmissions(eventId),
+        FeedbackService.countAttendees(eventId),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          summary: FeedbackService.summarize(
+            form?.fields || [],
+            submissions,
+            attendeeCount
+          ),
+        },
+      });
+    } catch (error) {
+      console.error("Get feedback summary error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Automatic feedback emails for the event and how many have gone out
+   * GET /api/feedback/events/:eventId/schedule
+   */
+  static async getSchedule(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "view-reports",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const schedule = await FeedbackRequestService.getStatus(
+        eventId,
+        event.end_date
+      );
+
+      res.json({
+        success: true,
+        data: { schedule },
+      });
+    } catch (error) {
+      console.error("Get feedback schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Turn automatic feedback emails on or off and set their timing
+   * PUT /api/feedback/events/:eventId/schedule
+   */
+  static async updateSchedule(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-reports",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const schedule = FeedbackScheduleSchema.parse(req.body);
+
+      if (schedule.enabled) {
+        const form = await FormValidationService.getEventForm(
+          eventId,
+          "feedback"
+        );
+        if (!form) {
+          res.status(400).json({
+            success: false,
+            error: "Create a feedback form before scheduling feedback emails",
+          });
+          return;
+        }
+      }
+
+      await FeedbackRequestService.saveSchedule(eventId, schedule);
+
+      res.json({
+        success: true,
+        message: schedule.enabled
+          ? "Feedback emails scheduled"
+          : "Feedback emails turned off",
+        data: {
+          schedule: await FeedbackRequestService.getStatus(
+            eventId,
+            event.end_date
+          ),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid feedback schedule",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update feedback schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { Request, Response } from "express";
 import { createClient } from "@supabase/supabase-js";
 import { z } from "zod";
+import { FormValidationService } from "../services/formValidationService.js";
+import { FormAttachmentService } from "../services/formAttachmentService.js";
+import { FormVersionService } from "../services/formVersionService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -28,6 +32,11 @@ const FieldTypeEnum = z.enum([
   "date",
   "number",
   "url",
+  "rating",
+  "nps",
+  "likert",
+  "ranking",
+  "slider",
 ]);
 
 // Form field schema
@@ -37,23 +46,73 @@ const FormFieldSchema = z.object({
   label: z.string(),
   placeholder: z.string().optional(),
   required: z.boolean().default(false),
-  options: z.array(z.string()).optional(), // For select, radio, checkbox
+  // Choices; the scale columns of a Likert field; the items to rank
+  options: z.array(z.string()).optional(),
+  rows: z.array(z.string().min(1)).optional(), // Likert statements
+  scale: z.number().int().min(3).max(10).optional(), // Rating stars
+  step: z.number().positive().optional(), // Slider increment
   validation: z
     .object({
       min: z.number().optional(),
       max: z.number().optional(),
       pattern: z.string().optional(),
       message: z.string().optional(),
+      // File fields: MIME types (e.g. "application/pdf", "image/*") and size
+      allowedFileTypes: z.array(z.string().min(1)).optional(),
+      maxFileSizeMb: z.number().positive().max(25).optional(),
+    })
+    .optional(),
+  // Only show the field when another field's answer matches
+  conditionalLogic: z
+    .object({
+      dependsOn: z.string(),
+      condition: z.enum(["equals", "not_equals", "contains"]),
+      value: z.string(),
     })
     .optional(),
 });
 
+// Conditional rules must point at another field on the same form, and
+// Likert and ranking fields need something to answer with
+const FormFieldsSchema = z
+  .array(FormFieldSchema)
+  .superRefine((fields, ctx) => {
+    const fieldIds = new Set(fields.map((field) => field.id));
+    fields.forEach((field, index) => {
+      const dependsOn = field.conditionalLogic?.dependsOn;
+      if (dependsOn && (dependsOn === field.id || !fieldIds.has(dependsOn))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "conditionalLogic", "dependsOn"],
+          message: `"${field.label}" depends on a field that isn't on this form`,
+        });
+      }
+      if (
+        (field.type === "likert" || field.type === "ranking") &&
+        (field.options?.length || 0) < 2
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "options"],
+          message: `"${field.label}" needs at least two options`,
+        });
+      }
+      if (field.type === "likert" && !field.rows?.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "rows"],
+          message: `"${field.label}" needs at least one statement`,
+        });
+      }
+    });
+  });
+
 // Form schema (supports both registration and feedback)
 const CreateFormSchema = z.object({
   title: z.string().min(1, "Form title is required"),
   description: z.string().optional(),
   form_type: z.enum(["registration", "feedback"]).default("registration"),
-  fields: z.array(FormFieldSchema),
+  fields: FormFieldsSchema,
   is_multi_step: z.boolean().default(false),
   steps: z
     .array(
@@ -68,6 +127,35 @@ const CreateFormSchema = z.object({
 
 const UpdateFormSchema = CreateFormSchema.partial();
 
+const EditImpactSchema = z.object({ fields: z.array(FormFieldSchema) });
+
+const FORM_COLUMNS = `
+  id, event_id, title, description, form_type, fields, is_multi_step, steps,
+  current_version_id, created_at, updated_at
+`;
+
+// Load one of an event's forms; the route has already checked access
+async function getEventForm(
+  eventId: string,
+  match: { formId: string } | { formType: string }
+) {
+  let query = supabase
+    .from("forms")
+    .select(FORM_COLUMNS)
+    .eq("event_id", eventId);
+  query =
+    "formId" in match
+      ? query.eq("id", match.formId)
+      : query.eq("form_type", match.formType);
+
+  const { data: form, error } = await query.single();
+  if (error || !form) {
+    return { form: null, status: 404, error: "Form not found" };
+  }
+
+  return { form, status: 200, error: null };
+}
+
 export class FormController {
   // Create a form for an event (registration or feedback)
   static async createForm(
@@ -86,18 +174,17 @@ export class FormController {
         return;
       }
 
-      // Verify the event exists and user is the organizer
+      // Verify the event exists (access was checked by requireEventPermission)
       const { data: event, error: eventError } = await supabase
         .from("events")
-        .select("id, title, organizer_id")
+        .select("id, title")
         .eq("id", eventId)
-        .eq("organizer_id", userId)
         .single();
 
       if (eventError || !event) {
         res.status(404).json({
           success: false,
-          error: "Event not found or you don't have permission to modify it",
+          error: "Event not found",
         });
         return;
       }
@@ -162,10 +249,12 @@ export class FormController {
         return;
       }
 
+      const version = await FormVersionService.publish(form.id, form, userId);
+
       res.status(201).json({
         success: true,
         message: "Form created successfully",
-        data: { form },
+        data: { form: { ...form, current_version_id: version.id } },
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -200,7 +289,7 @@ export class FormController {
         .select(
           `
           id, title, description, form_type, fields, is_multi_step, steps, 
-          created_at, updated_at,
+          current_version_id, created_at, updated_at,
           event:event_id(id, title, organizer_id)
         `
         )
@@ -246,39 +335,32 @@ export class FormController {
         return;
       }
 
-      // Verify the form exists and user has permission
-      const { data: form, error: formError } = await supabase
-        .from("forms")
-        .select(
-          `
-          id, event_id,
-          event:event_id(organizer_id)
-        `
-        )
-        .eq("id", formId)
-        .eq("event_id", eventId)
-        .single();
-
-      if (formError || !form) {
-        res.status(404).json({
-          success: false,
-          error: "Form not found",
-        });
-        return;
-      }
-
-      const eventData = Array.isArray(form.event) ? form.event[0] : form.event;
-      if (eventData.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You don't have permission to modify this form",
-        });
+      const {
+        form,
+        status,
+        error: accessError,
+      } = await getEventForm(eventId, { formId });
+      if (!form) {
+        res.status(status).json({ success: false, error: accessError });
         return;
       }
 
       // Validate update data
       const validatedData = UpdateFormSchema.parse(req.body);
 
+      // Make sure the questions existing answers were given for are kept
+      // as a version before they're replaced
+      const next = {
+        title: validatedData.title ?? form.title,
+        fields: validatedData.fields ?? form.fields,
+        is_multi_step: validatedData.is_multi_step ?? form.is_multi_step,
+        steps: validatedData.steps ?? form.steps,
+      };
+      const changesQuestions = FormVersionService.changesQuestions(form, next);
+      if (changesQuestions) {
+        await FormVersionService.getCurrentVersionId(form);
+      }
+
       // Update the form
       const { data: updatedForm, error: updateError } = await supabase
         .from("forms")
@@ -300,7 +382,7 @@ export class FormController {
           updated_at: new Date().toISOString(),
         })
         .eq("id", formId)
-        .select("*")
+        .select(FORM_COLUMNS)
         .single();
 
       if (updateError) {
@@ -312,10 +394,21 @@ export class FormController {
         return;
       }
 
+      // Each edit to the questions is published as a new version
+      const version = changesQuestions
+        ? await FormVersionService.publish(formId, updatedForm, userId)
+        : null;
+
       res.json({
         success: true,
-        message: "Form updated successfully",
-        data: { form: updatedForm },
+        message: version
+          ? `Form updated and published as version ${version.version}`
+          : "Form updated successfully",
+        data: {
+          form: version
+            ? { ...updatedForm, current_version_id: version.id }
+            : updatedForm,
+        },
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -335,6 +428,90 @@ export class FormController {
     }
   }
 
+  /**
+   * Which fields an edit would remove or retype that people have already
+   * answered, so the builder can warn before saving
+   * POST /api/forms/events/:eventId/form/:formId/impact
+   */
+  static async checkEditImpact(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId, formId } = req.params;
+      const { form, status, error } = await getEventForm(eventId, { formId });
+      if (!form) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { fields } = EditImpactSchema.parse(req.body);
+      const orphanedFields = await FormVersionService.findOrphanedFields(
+        form,
+        Array.isArray(form.fields) ? form.fields : [],
+        fields
+      );
+
+      res.json({
+        success: true,
+        data: { orphanedFields },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid form data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Check form edit impact error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Every published version of an event's form, newest first
+   * GET /api/forms/events/:eventId/form/versions?type=registration
+   */
+  static async getFormVersions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const formType =
+        req.query.type === "feedback" ? "feedback" : "registration";
+      const { form, status, error } = await getEventForm(eventId, {
+        formType,
+      });
+      if (!form) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const versions = await FormVersionService.getVersions(form.id);
+
+      res.json({
+        success: true,
+        data: {
+          currentVersionId: form.current_version_id,
+          versions,
+        },
+      });
+    } catch (error) {
+      console.error("Get form versions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
   // Delete form
   static async deleteForm(
     req: AuthenticatedRequest,
@@ -352,15 +529,10 @@ export class FormController {
         return;
       }
 
-      // Verify the form exists and user has permission
+      // Verify the form exists (access was checked by requireEventPermission)
       const { data: form, error: formError } = await supabase
         .from("forms")
-        .select(
-          `
-          id, event_id,
-          event:event_id(organizer_id)
-        `
-        )
+        .select("id, event_id")
         .eq("id", formId)
         .eq("event_id", eventId)
         .single();
@@ -373,15 +545,6 @@ export class FormController {
         return;
       }
 
-      const eventData = Array.isArray(form.event) ? form.event[0] : form.event;
-      if (eventData.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You don't have permission to delete this form",
-        });
-        return;
-      }
-
       // Delete the form
       const { error: deleteError } = await supabase
         .from("forms")
@@ -562,4 +725,140 @@ export class FormController {
       });
     }
   }
+
+  // Upload a file for a registration form's file field
+  static async uploadAttachment(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+      const { fieldId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      if (!req.file || typeof fieldId !== "string") {
+        res.status(400).json({
+          success: false,
+          error: "A file and field ID are required",
+        });
+        return;
+      }
+
+      // File answers belong to the registration form unless stated
+      const formType =
+        req.body.formType === "feedback" ? "feedback" : "registration";
+      const form = await FormValidationService.getEventForm(eventId, formType);
+      const field = form?.fields.find(
+        (item) => item.id === fieldId && item.type === "file"
+      );
+
+      if (!field) {
+        res.status(404).json({
+          success: false,
+          error: `File field not found on this event's ${formType} form`,
+        });
+        return;
+      }
+
+      const fileError = FormAttachmentService.checkFile(field, req.file);
+      if (fileError) {
+        res.status(400).json({
+          success: false,
+          error: fileError,
+          fieldErrors: { [field.id]: fileError },
+        });
+        return;
+      }
+
+      const attachment = await FormAttachmentService.store(
+        eventId,
+        userId,
+        field,
+        req.file
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "File uploaded successfully",
+        data: { attachment: FormAttachmentService.toReference(attachment) },
+      });
+    } catch (error) {
+      console.error("Upload attachment error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  // Download an attachment (event organizer or the person who uploaded it)
+  static async downloadAttachment(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId, attachmentId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const attachment = z.string().uuid().safeParse(attachmentId).success
+        ? await FormAttachmentService.getAttachment(attachmentId)
+        : null;
+
+      if (!attachment || attachment.event_id !== eventId) {
+        res.status(404).json({
+          success: false,
+          error: "Attachment not found",
+        });
+        return;
+      }
+
+      if (
+        attachment.user_id !== userId &&
+        !(await EventPermissionService.hasPermission(
+          eventId,
+          req.user!,
+          "view-registrations"
+        ))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: "You don't have permission to download this file",
+        });
+        return;
+      }
+
+      const fileBuffer = await FormAttachmentService.read(attachment);
+
+      res.setHeader("Content-Type", attachment.content_type);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename*=UTF-8''${encodeURIComponent(
+          attachment.file_name
+        )}`
+      );
+      res.send(fileBuffer);
+    } catch (error) {
+      console.error("Download attachment error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
 }
@@ -0,0 +1,524 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  InvitationService,
+  Invitation,
+  InviteeInput,
+} from "../services/invitationService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+const CreateInvitationsSchema = z
+  .object({
+    invitees: z
+      .array(
+        z.object({
+          email: z.string().email(),
+          name: z.string().min(1).optional(),
+        })
+      )
+      .optional()
+      .default([]),
+    csv: z.string().optional(), // Raw CSV text: "email,name" per line
+    message: z.string().max(1000).optional(),
+    expiresAt: z.string().datetime().optional(),
+  })
+  .refine((data) => data.invitees.length > 0 || !!data.csv, {
+    message: "Provide at least one invitee email or a CSV file",
+  });
+
+const CreateInviteLinkSchema = z.object({
+  maxUses: z.number().int().positive().optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+const MAX_INVITEES_PER_REQUEST = 500;
+
+// Event fields the handlers below use once access is checked
+const EVENT_COLUMNS =
+  "id, organizer_id, title, start_date, location, visibility";
+
+export class InvitationController {
+  /**
+   * Invite people by email (single address, list, or CSV upload)
+   * POST /api/invitations/events/:eventId
+   */
+  static async createInvitations(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const validatedData = CreateInvitationsSchema.parse(req.body);
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-registrations",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      // Merge explicit invitees with CSV rows, de-duplicating by email
+      const inviteeMap = new Map<string, InviteeInput>();
+      const csvInvitees = validatedData.csv
+        ? InvitationService.parseInviteeCsv(validatedData.csv)
+        : [];
+      for (const invitee of [...validatedData.invitees, ...csvInvitees]) {
+        const email = invitee.email.toLowerCase();
+        if (!inviteeMap.has(email)) {
+          inviteeMap.set(email, { email, name: invitee.name });
+        }
+      }
+
+      if (inviteeMap.size === 0) {
+        res.status(400).json({
+          success: false,
+          error: "No valid email addresses found",
+        });
+        return;
+      }
+
+      if (inviteeMap.size > MAX_INVITEES_PER_REQUEST) {
+        res.status(400).json({
+          success: false,
+          error: `You can invite at most ${MAX_INVITEES_PER_REQUEST} people at a time`,
+        });
+        return;
+      }
+
+      // Skip people who already hold an active invitation for this event
+      const { data: existingInvitations } = await supabase
+        .from("event_invitations")
+        .select("email")
+        .eq("event_id", eventId)
+        .eq("type", "email")
+        .neq("status", "revoked")
+        .in("email", Array.from(inviteeMap.keys()));
+
+      const alreadyInvited = new Set(
+        (existingInvitations || []).map((invite: any) => invite.email)
+      );
+      const newInvitees = Array.from(inviteeMap.values()).filter(
+        (invitee) => !alreadyInvited.has(invitee.email)
+      );
+
+      let created: Invitation[] = [];
+      if (newInvitees.length > 0) {
+        const { data: inserted, error: insertError } = await supabase
+          .from("event_invitations")
+          .insert(
+            newInvitees.map((invitee) => ({
+              event_id: eventId,
+              type: "email",
+              email: invitee.email,
+              name: invitee.name || null,
+              token: InvitationService.generateToken(),
+              status: "sent",
+              use_count: 0,
+              expires_at: validatedData.expiresAt || null,
+              invited_by: userId,
+            }))
+          )
+          .select("*");
+
+        if (insertError) {
+          console.error("Create invitations error:", insertError);
+          res.status(500).json({
+            success: false,
+            error: "Failed to create invitations",
+          });
+          return;
+        }
+
+        created = (inserted || []) as Invitation[];
+      }
+
+      // Send emails (failures are reported but don't undo the invitation)
+      const { data: organizer } = await supabase
+        .from("users")
+        .select("name, organization_name")
+        .eq("id", userId)
+        .single();
+      const organizerName =
+        organizer?.organization_name || organizer?.name || "The organizer";
+
+      const failedEmails: string[] = [];
+      for (const invitation of created) {
+        const sent = await InvitationService.sendInvitationEmail(
+          invitation,
+          event,
+          organizerName,
+          validatedData.message
+        );
+        if (!sent && invitation.email) {
+          failedEmails.push(invitation.email);
+        }
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `${created.length} invitation(s) sent`,
+        data: {
+          invitations: created,
+          skipped: Array.from(alreadyInvited),
+          failedEmails,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid invitation data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Create invitations error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Create a shareable invite link with optional use limit and expiry
+   * POST /api/invitations/events/:eventId/links
+   */
+  static async createInviteLink(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const validatedData = CreateInviteLinkSchema.parse(req.body);
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-registrations",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { data: invitation, error: insertError } = await supabase
+        .from("event_invitations")
+        .insert({
+          event_id: eventId,
+          type: "link",
+          token: InvitationService.generateToken(),
+          status: "sent",
+          max_uses: validatedData.maxUses ?? null,
+          use_count: 0,
+          expires_at: validatedData.expiresAt || null,
+          invited_by: userId,
+        })
+        .select("*")
+        .single();
+
+      if (insertError || !invitation) {
+        console.error("Create invite link error:", insertError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to create invite link",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: "Invite link created",
+        data: {
+          invitation,
+          inviteUrl: InvitationService.buildInviteUrl(invitation.token),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid invite link data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Create invite link error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * List invitations for an event with a status summary
+   * GET /api/invitations/events/:eventId
+   */
+  static async getEventInvitations(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "view-registrations",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { data: invitations, error: fetchError } = await supabase
+        .from("event_invitations")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("created_at", { ascending: false });
+
+      if (fetchError) {
+        console.error("Get invitations error:", fetchError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to fetch invitations",
+        });
+        return;
+      }
+
+      const summary = { sent: 0, opened: 0, accepted: 0, revoked: 0 };
+      const withUrls = (invitations || []).map((invitation: Invitation) => {
+        summary[invitation.status] += 1;
+        return {
+          ...invitation,
+          invite_url: InvitationService.buildInviteUrl(invitation.token),
+        };
+      });
+
+      res.json({
+        success: true,
+        data: {
+          visibility: event.visibility,
+          invitations: withUrls,
+          summary,
+        },
+      });
+    } catch (error) {
+      console.error("Get invitations error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Revoke an invitation so its token can no longer be used
+   * PUT /api/invitations/:invitationId/revoke
+   */
+  static async revokeInvitation(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { invitationId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { data: invitation, error: fetchError } = await supabase
+        .from("event_invitations")
+        .select("id, event_id, status")
+        .eq("id", invitationId)
+        .single();
+
+      if (fetchError || !invitation) {
+        res.status(404).json({
+          success: false,
+          error: "Invitation not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          invitation.event_id,
+          req.user!,
+          "manage-registrations",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      if (invitation.status === "revoked") {
+        res.status(400).json({
+          success: false,
+          error: "Invitation is already revoked",
+        });
+        return;
+      }
+
+      const { error: updateError } = await supabase
+        .from("event_invitations")
+        .update({
+          status: "revoked",
+          revoked_at: new Date().toISOString(),
+        })
+        .eq("id", invitationId);
+
+      if (updateError) {
+        console.error("Revoke invitation error:", updateError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to revoke invitation",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Invitation revoked",
+      });
+    } catch (error) {
+      console.error("Revoke invitation error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Resolve an invite token to its event (public; marks the invite opened)
+   * GET /api/invitations/token/:token
+   */
+  static async getInvitationByToken(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const invitation = await InvitationService.findByToken(token);
+      const validation = InvitationService.validate(
+        invitation,
+        invitation?.event_id || ""
+      );
+
+      if (!validation.valid || !invitation) {
+        res.status(invitation ? 410 : 404).json({
+          success: false,
+          error: validation.error || "Invitation not found",
+        });
+        return;
+      }
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select(
+          `
+          id, title, description, start_date, end_date, location,
+          capacity, banner_url, visibility, registration_deadline,
+          is_paid, price, created_at, updated_at,
+          organizer:organizer_id(id, name, email, organization_name),
+          category:category_id(id, name, color)
+        `
+        )
+        .eq("id", invitation.event_id)
+        .single();
+
+      if (eventError || !event) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+        });
+        return;
+      }
+
+      await InvitationService.markOpened(invitation);
+
+      res.json({
+        success: true,
+        data: {
+          invitation: {
+            id: invitation.id,
+            type: invitation.type,
+            email: invitation.email,
+            name: invitation.name,
+            expires_at: invitation.expires_at,
+          },
+          event,
+        },
+      });
+    } catch (error) {
+      console.error("Get invitation by token error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
@@ -0,0 +1,352 @@
+import { Response } from "express";
+import { z } from "zod";
+import {
+  AddOrganizationMemberSchema,
+  CreateOrganizationSchema,
+  UpdateOrganizationMemberSchema,
+  UpdateOrganizationSchema,
+  type OrganizationRole,
+} from "../../../shared/dist/schemas.js";
+import { AuthenticatedRequest } from "../middleware/auth.js";
+import { OrganizationService } from "../services/organizationService.js";
+import { EventOrganizerService } from "../services/eventOrganizerService.js";
+import { getUserGmailToken } from "../routes/emailAuth.js";
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid organization data",
+      details: error.errors,
+    });
+    return;
+  }
+
+  console.error(`${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "Internal server error",
+  });
+}
+
+// The caller's role, with platform admins treated as owners
+async function getActorRole(
+  organizationId: string,
+  user: { id: string; role: string }
+): Promise<OrganizationRole | null> {
+  if (user.role === "admin") return "owner";
+  return OrganizationService.getMemberRole(organizationId, user.id);
+}
+
+export class OrganizationController {
+  /**
+   * List the organizations the caller belongs to
+   * GET /api/organizations
+   */
+  static async getMyOrganizations(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const organizations = await OrganizationService.getUserOrganizations(
+        req.user!.id
+      );
+      res.json({ success: true, data: { organizations } });
+    } catch (error) {
+      handleError(res, error, "Get organizations");
+    }
+  }
+
+  /**
+   * Create an organization with the caller as its owner
+   * POST /api/organizations
+   */
+  static async createOrganization(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const input = CreateOrganizationSchema.parse(req.body);
+      const organization = await OrganizationService.createOrganization(
+        req.user!.id,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Organization created successfully",
+        data: { organization: { ...organization, role: "owner" } },
+      });
+    } catch (error) {
+      handleError(res, error, "Create organization");
+    }
+  }
+
+  /**
+   * Get an organization and the caller's role in it
+   * GET /api/organizations/:id
+   */
+  static async getOrganization(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const [organization, role] = await Promise.all([
+        OrganizationService.getOrganization(id),
+        getActorRole(id, req.user!),
+      ]);
+
+      res.json({
+        success: true,
+        data: { organization: { ...organization, role } },
+      });
+    } catch (error) {
+      handleError(res, error, "Get organization");
+    }
+  }
+
+  /**
+   * Update branding, the Gmail sender or the Stripe account
+   * PUT /api/organizations/:id
+   */
+  static async updateOrganization(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const input = UpdateOrganizationSchema.parse(req.body);
+      const role = await getActorRole(id, req.user!);
+
+      if (input.stripeAccountId !== undefined && role !== "owner") {
+        res.status(403).json({
+          success: false,
+          error: "Only organization owners can change the Stripe account",
+        });
+        return;
+      }
+
+      // A member can only offer their own Gmail authorization as the sender
+      if (input.gmailSenderUserId) {
+        if (input.gmailSenderUserId !== req.user!.id) {
+          res.status(403).json({
+            success: false,
+            error: "You can only set yourself as the email sender",
+          });
+          return;
+        }
+        if (!getUserGmailToken(req.user!.id)) {
+          res.status(400).json({
+            success: false,
+            error: "Grant Gmail permission before sending as the organization",
+          });
+          return;
+        }
+      }
+
+      const organization = await OrganizationService.updateOrganization(
+        id,
+        input
+      );
+
+      res.json({
+        success: true,
+        message: "Organization updated successfully",
+        data: { organization: { ...organization, role } },
+      });
+    } catch (error) {
+      handleError(res, error, "Update organization");
+    }
+  }
+
+  /**
+   * List every event the organization owns
+   * GET /api/organizations/:id/events
+   */
+  static async getEvents(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const events = await OrganizationService.getEvents(req.params.id);
+      res.json({ success: true, data: { events } });
+    } catch (error) {
+      handleError(res, error, "Get organization events");
+    }
+  }
+
+  /**
+   * List members and their roles
+   * GET /api/organizations/:id/members
+   */
+  static async getMembers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const members = await OrganizationService.getMembers(req.params.id);
+      res.json({ success: true, data: { members } });
+    } catch (error) {
+      handleError(res, error, "Get organization members");
+    }
+  }
+
+  /**
+   * Add an existing user to the organization. Only owners can add owners.
+   * POST /api/organizations/:id/members
+   */
+  static async addMember(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { email, role } = AddOrganizationMemberSchema.parse(req.body);
+
+      if (role === "owner" && (await getActorRole(id, req.user!)) !== "owner") {
+        res.status(403).json({
+          success: false,
+          error: "Only organization owners can add owners",
+        });
+        return;
+      }
+
+      const user = await EventOrganizerService.findUserByEmail(email);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: "No account found with that email",
+        });
+        return;
+      }
+      if (await OrganizationService.getMemberRole(id, user.id)) {
+        res.status(409).json({
+          success: false,
+          error: "This user is already a member",
+        });
+        return;
+      }
+
+      await OrganizationService.addMember(id, user.id, role);
+
+      res.status(201).json({
+        success: true,
+        message: "Member added successfully",
+      });
+    } catch (error) {
+      handleError(res, error, "Add organization member");
+    }
+  }
+
+  /**
+   * Change a member's role. Only owners can change or grant the owner role,
+   * and the last owner can't step down.
+   * PUT /api/organizations/:id/members/:userId
+   */
+  static async updateMember(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      const { role } = UpdateOrganizationMemberSchema.parse(req.body);
+
+      const [actorRole, currentRole] = await Promise.all([
+        getActorRole(id, req.user!),
+        OrganizationService.getMemberRole(id, userId),
+      ]);
+      if (!currentRole) {
+        res.status(404).json({ success: false, error: "Member not found" });
+        return;
+      }
+      if (
+        (role === "owner" || currentRole === "owner") &&
+        actorRole !== "owner"
+      ) {
+        res.status(403).json({
+          success: false,
+          error: "Only organization owners can change owners",
+        });
+        return;
+      }
+      if (
+        currentRole === "owner" &&
+        role !== "owner" &&
+        (await OrganizationService.getOtherOwners(id, userId)).length === 0
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "An organization needs at least one owner",
+        });
+        return;
+      }
+
+      await OrganizationService.updateMemberRole(id, userId, role);
+
+      res.json({ success: true, message: "Member updated successfully" });
+    } catch (error) {
+      handleError(res, error, "Update organization member");
+    }
+  }
+
+  /**
+   * Remove a member, or leave when removing yourself. Their organization
+   * events stay with the organization.
+   * DELETE /api/organizations/:id/members/:userId
+   */
+  static async removeMember(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      const leaving = userId === req.user!.id;
+
+      const [organization, actorRole, currentRole] = await Promise.all([
+        OrganizationService.getOrganization(id),
+        getActorRole(id, req.user!),
+        OrganizationService.getMemberRole(id, userId),
+      ]);
+      if (!organization || !currentRole) {
+        res.status(404).json({ success: false, error: "Member not found" });
+        return;
+      }
+      if (!leaving && actorRole !== "owner" && actorRole !== "admin") {
+        res.status(403).json({
+          success: false,
+          error: "Only organization owners and admins can remove members",
+        });
+        return;
+      }
+      if (!leaving && currentRole === "owner" && actorRole !== "owner") {
+        res.status(403).json({
+          success: false,
+          error: "Only organization owners can remove owners",
+        });
+        return;
+      }
+      if (
+        (await OrganizationService.getOtherOwners(id, userId)).length === 0
+      ) {
+        res.status(400).json({
+          success: false,
+          error:
+            "An organization needs at least one owner. Make someone else an owner first.",
+        });
+        return;
+      }
+
+      await OrganizationService.removeMember(organization, userId);
+
+      res.json({
+        success: true,
+        message: leaving
+          ? "You have left the organization"
+          : "Member removed successfully",
+      });
+    } catch (error) {
+      handleError(res, error, "Remove organization member");
+    }
+  }
+}
@@ -0,0 +1,654 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  CreatePromoCodeSchema,
+  UpdatePromoCodeSchema,
+} from "../../../shared/dist/schemas.js";
+import {
+  PromoCodeService,
+  PromoCode,
+  PROMO_CODE_COLUMNS,
+} from "../services/promoCodeService.js";
+import { TicketTierService } from "../services/ticketTierService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+const ValidatePromoCodeSchema = z.object({
+  code: z.string().min(1),
+  ticketTierId: z.string().uuid().optional(),
+});
+
+// Load a promo code and confirm the requester can manage its event
+async function getOrganizerPromoCode(
+  promoCodeId: string,
+  user: { id: string; role?: string }
+) {
+  const { data: promoCode, error } = await supabase
+    .from("promo_codes")
+    .select(PROMO_CODE_COLUMNS)
+    .eq("id", promoCodeId)
+    .single();
+
+  if (error || !promoCode) {
+    return { promoCode: null, status: 404, error: "Promo code not found" };
+  }
+
+  const { status, error: accessError } =
+    await EventPermissionService.checkPermission(
+      promoCode.event_id,
+      user,
+      "manage-event"
+    );
+  if (accessError) {
+    return { promoCode: null, status, error: accessError };
+  }
+
+  return { promoCode: promoCode as PromoCode, status: 200, error: null };
+}
+
+// Restricting a code to tiers only makes sense for tiers of the same event
+async function tiersBelongToEvent(eventId: string, tierIds: string[]) {
+  if (tierIds.length === 0) return true;
+  const tiers = await TicketTierService.getEventTiers(eventId);
+  const eventTierIds = new Set(tiers.map((tier) => tier.id));
+  return tierIds.every((tierId) => eventTierIds.has(tierId));
+}
+
+export class PromoCodeController {
+  /**
+   * List an event's promo codes with redemption counts
+   * GET /api/promo-codes/events/:eventId
+   */
+  static async getEventPromoCodes(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-event"
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { data: promoCodes, error: fetchError } = await supabase
+        .from("promo_codes")
+        .select(PROMO_CODE_COLUMNS)
+        .eq("event_id", eventId)
+        .order("created_at", { ascending: false });
+
+      if (fetchError) {
+        console.error("Get promo codes error:", fetchError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to fetch promo codes",
+        });
+        return;
+      }
+
+      const withUsage = await Promise.all(
+        (promoCodes || []).map(async (promoCode: any) => ({
+          ...promoCode,
+          redemptions: await PromoCodeService.countRedemptions(promoCode.id),
+        }))
+      );
+
+      res.json({
+        success: true,
+        data: { promoCodes: withUsage },
+      });
+    } catch (error) {
+      console.error("Get promo codes error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Create a promo code
+   * POST /api/promo-codes/events/:eventId
+   */
+  static async createPromoCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-event"
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = CreatePromoCodeSchema.parse(req.body);
+
+      if (!(await tiersBelongToEvent(eventId, validatedData.tierIds || []))) {
+        res.status(400).json({
+          success: false,
+          error: "Promo codes can only be restricted to this event's ticket types",
+        });
+        return;
+      }
+
+      const existing = await PromoCodeService.findByCode(
+        eventId,
+        validatedData.code
+      );
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: "A promo code with this code already exists for this event",
+        });
+        return;
+      }
+
+      const { data: promoCode, error: insertError } = await supabase
+        .from("promo_codes")
+        .insert({
+          event_id: eventId,
+          code: validatedData.code,
+          discount_type: validatedData.discountType,
+          discount_value: validatedData.discountValue,
+          tier_ids:
+            validatedData.tierIds && validatedData.tierIds.length > 0
+              ? validatedData.tierIds
+              : null,
+          max_uses: validatedData.maxUses ?? null,
+          valid_from: validatedData.validFrom ?? null,
+          valid_until: validatedData.validUntil ?? null,
+          single_use_per_user: validatedData.singleUsePerUser ?? false,
+          is_active: validatedData.isActive ?? true,
+          created_by: userId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select(PROMO_CODE_COLUMNS)
+        .single();
+
+      if (insertError) {
+        console.error("Create promo code error:", insertError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to create promo code",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: "Promo code created successfully",
+        data: { promoCode: { ...promoCode, redemptions: 0 } },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid promo code data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Create promo code error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Update a promo code
+   * PUT /api/promo-codes/:promoCodeId
+   */
+  static async updatePromoCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { promoCodeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { promoCode: existing, status, error } =
+        await getOrganizerPromoCode(promoCodeId, req.user!);
+      if (!existing) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = UpdatePromoCodeSchema.parse(req.body);
+
+      const discountType = validatedData.discountType ?? existing.discount_type;
+      const discountValue =
+        validatedData.discountValue ?? Number(existing.discount_value);
+      if (discountType === "percentage" && discountValue > 100) {
+        res.status(400).json({
+          success: false,
+          error: "Percentage discounts cannot exceed 100",
+        });
+        return;
+      }
+
+      if (
+        validatedData.tierIds &&
+        !(await tiersBelongToEvent(existing.event_id, validatedData.tierIds))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Promo codes can only be restricted to this event's ticket types",
+        });
+        return;
+      }
+
+      if (validatedData.code && validatedData.code !== existing.code) {
+        const duplicate = await PromoCodeService.findByCode(
+          existing.event_id,
+          validatedData.code
+        );
+        if (duplicate) {
+          res.status(409).json({
+            success: false,
+            error: "A promo code with this code already exists for this event",
+          });
+          return;
+        }
+      }
+
+      const updates: Record<string, any> = {
+        updated_at: new Date().toISOString(),
+      };
+      if (validatedData.code !== undefined) updates.code = validatedData.code;
+      if (validatedData.discountType !== undefined)
+        updates.discount_type = validatedData.discountType;
+      if (validatedData.discountValue !== undefined)
+        updates.discount_value = validatedData.discountValue;
+      if (validatedData.tierIds !== undefined)
+        updates.tier_ids =
+          validatedData.tierIds && validatedData.tierIds.length > 0
+            ? validatedData.tierIds
+            : null;
+      if (validatedData.maxUses !== undefined)
+        updates.max_uses = validatedData.maxUses;
+      if (validatedData.validFrom !== undefined)
+        updates.valid_from = validatedData.validFrom;
+      if (validatedData.validUntil !== undefined)
+        updates.valid_until = validatedData.validUntil;
+      if (validatedData.singleUsePerUser !== undefined)
+        updates.single_use_per_user = validatedData.singleUsePerUser;
+      if (validatedData.isActive !== undefined)
+        updates.is_active = validatedData.isActive;
+
+      const { data: promoCode, error: updateError } = await supabase
+        .from("promo_codes")
+        .update(updates)
+        .eq("id", promoCodeId)
+        .select(PROMO_CODE_COLUMNS)
+        .single();
+
+      if (updateError) {
+        console.error("Update promo code error:", updateError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to update promo code",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Promo code updated successfully",
+        data: {
+          promoCode: {
+            ...promoCode,
+            redemptions: await PromoCodeService.countRedemptions(promoCodeId),
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid promo code data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update promo code error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Delete a promo code that has never been redeemed
+   * DELETE /api/promo-codes/:promoCodeId
+   */
+  static async deletePromoCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { promoCodeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { promoCode, status, error } = await getOrganizerPromoCode(
+        promoCodeId,
+        req.user!
+      );
+      if (!promoCode) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { count: holders } = await supabase
+        .from("registrations")
+        .select("*", { count: "exact", head: true })
+        .eq("promo_code_id", promoCodeId);
+
+      if (holders && holders > 0) {
+        res.status(409).json({
+          success: false,
+          error:
+            "This promo code has been redeemed. Deactivate it instead to keep the redemption history.",
+        });
+        return;
+      }
+
+      const { error: deleteError } = await supabase
+        .from("promo_codes")
+        .delete()
+        .eq("id", promoCodeId);
+
+      if (deleteError) {
+        console.error("Delete promo code error:", deleteError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to delete promo code",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Promo code deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete promo code error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Redemption report for a promo code
+   * GET /api/promo-codes/:promoCodeId/redemptions
+   */
+  static async getRedemptions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { promoCodeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { promoCode, status, error } = await getOrganizerPromoCode(
+        promoCodeId,
+        req.user!
+      );
+      if (!promoCode) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { data: registrations, error: fetchError } = await supabase
+        .from("registrations")
+        .select(
+          `
+          id, name, email, status, payment_status, discount_amount, created_at,
+          ticket_tier:ticket_tier_id(id, name, price),
+          payments(id, amount, original_amount, discount_amount, status, payment_date)
+        `
+        )
+        .eq("promo_code_id", promoCodeId)
+        .order("created_at", { ascending: false });
+
+      if (fetchError) {
+        console.error("Get promo code redemptions error:", fetchError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to fetch redemptions",
+        });
+        return;
+      }
+
+      const redemptions = (registrations || []).map((registration: any) => {
+        const payments = Array.isArray(registration.payments)
+          ? registration.payments
+          : registration.payments
+          ? [registration.payments]
+          : [];
+        const completedPayment = payments.find(
+          (payment: any) => payment.status === "completed"
+        );
+
+        return {
+          registration_id: registration.id,
+          name: registration.name,
+          email: registration.email,
+          status: registration.status,
+          payment_status: registration.payment_status,
+          ticket_tier: registration.ticket_tier?.name || null,
+          discount_amount: Number(registration.discount_amount) || 0,
+          amount_paid: completedPayment ? Number(completedPayment.amount) : 0,
+          redeemed_at: registration.created_at,
+        };
+      });
+
+      // Only paid, non-cancelled redemptions count towards the totals
+      const settled = redemptions.filter(
+        (redemption) =>
+          redemption.status !== "cancelled" &&
+          (redemption.payment_status === "completed" ||
+            redemption.status === "confirmed")
+      );
+
+      res.json({
+        success: true,
+        data: {
+          promoCode,
+          redemptions,
+          summary: {
+            total_redemptions: redemptions.filter(
+              (redemption) => redemption.status !== "cancelled"
+            ).length,
+            completed_redemptions: settled.length,
+            total_discount: settled.reduce(
+              (sum, redemption) => sum + redemption.discount_amount,
+              0
+            ),
+            total_revenue: settled.reduce(
+              (sum, redemption) => sum + redemption.amount_paid,
+              0
+            ),
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Get promo code redemptions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Preview a promo code before registering
+   * POST /api/promo-codes/events/:eventId/validate
+   */
+  static async validatePromoCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const validatedData = ValidatePromoCodeSchema.parse(req.body);
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select("id, price, is_paid")
+        .eq("id", eventId)
+        .single();
+
+      if (eventError || !event) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+        });
+        return;
+      }
+
+      let amount = event.is_paid ? Number(event.price) || 0 : 0;
+      if (validatedData.ticketTierId) {
+        const tier = await TicketTierService.getTier(
+          validatedData.ticketTierId
+        );
+        if (!tier || tier.event_id !== eventId) {
+          res.status(400).json({
+            success: false,
+            error: "Ticket type not found for this event",
+          });
+          return;
+        }
+        amount = Number(tier.price);
+      }
+
+      const result = await PromoCodeService.validate(
+        eventId,
+        validatedData.code,
+        amount,
+        userId,
+        validatedData.ticketTierId
+      );
+
+      if (!result.valid) {
+        res.status(400).json({
+          success: false,
+          error: result.error,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          code: result.promoCode!.code,
+          discountType: result.promoCode!.discount_type,
+          discountValue: Number(result.promoCode!.discount_value),
+          originalAmount: result.originalAmount,
+          discountAmount: result.discountAmount,
+          finalAmount: result.finalAmount,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid promo code data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Validate promo code error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
@@ -0,0 +1,376 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  UpdateRefundPolicySchema,
+  CreateRefundSchema,
+} from "../../../shared/dist/schemas.js";
+import { RefundService } from "../services/refundService.js";
+import { PaymentService } from "../services/paymentService.js";
+import { WaitlistService } from "../services/waitlistService.js";
+import { SessionService } from "../services/sessionService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+// Event fields the handlers below use once access is checked
+const EVENT_COLUMNS = "id, organizer_id, start_date";
+
+export class RefundController {
+  /**
+   * Get the refund policy for an event
+   * GET /api/refunds/events/:eventId/policy
+   */
+  static async getRefundPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params;
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select("id")
+        .eq("id", eventId)
+        .single();
+
+      if (eventError || !event) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { policy: await RefundService.getPolicy(eventId) },
+      });
+    } catch (error) {
+      console.error("Get refund policy error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Set the refund policy for an event
+   * PUT /api/refunds/events/:eventId/policy
+   */
+  static async updateRefundPolicy(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-event",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = UpdateRefundPolicySchema.parse(req.body);
+
+      const policy = await RefundService.savePolicy(
+        eventId,
+        validatedData.policyType,
+        validatedData.refundPercentage,
+        validatedData.refundDeadline
+      );
+
+      res.json({
+        success: true,
+        message: "Refund policy updated successfully",
+        data: { policy },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid refund policy data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update refund policy error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Preview the refund an attendee would get for cancelling now
+   * GET /api/refunds/registrations/:registrationId/quote
+   */
+  static async getRefundQuote(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { registrationId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { data: registration, error: fetchError } = await supabase
+        .from("registrations")
+        .select(
+          `
+          id, user_id, status, payment_status,
+          event:event_id(id, start_date)
+        `
+        )
+        .eq("id", registrationId)
+        .single();
+
+      if (fetchError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      if (registration.user_id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "You can only view refunds for your own registrations",
+        });
+        return;
+      }
+
+      const eventData = Array.isArray(registration.event)
+        ? registration.event[0]
+        : registration.event;
+      const policy = await RefundService.getPolicy(eventData.id);
+      const payment =
+        registration.payment_status === "completed"
+          ? await RefundService.getRefundablePayment(registrationId)
+          : null;
+
+      res.json({
+        success: true,
+        data: {
+          policy,
+          quote: payment
+            ? RefundService.quote(policy, eventData.start_date, payment)
+            : {
+                eligible: false,
+                amount: 0,
+                paidAmount: 0,
+                percentage: 0,
+                reason: "No completed payment to refund",
+              },
+        },
+      });
+    } catch (error) {
+      console.error("Get refund quote error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Refund a registration regardless of the event's refund policy. Cancels
+   * the registration unless cancelRegistration is false (e.g. a goodwill
+   * partial refund where the attendee keeps their seat).
+   * POST /api/refunds/registrations/:registrationId
+   */
+  static async refundRegistration(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { registrationId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { data: registration, error: fetchError } = await supabase
+        .from("registrations")
+        .select("id, event_id, status, payment_status")
+        .eq("id", registrationId)
+        .single();
+
+      if (fetchError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          registration.event_id,
+          req.user!,
+          "manage-registrations",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = CreateRefundSchema.parse(req.body);
+
+      const payment = await RefundService.getRefundablePayment(registrationId);
+      if (!payment) {
+        res.status(400).json({
+          success: false,
+          error: "This registration has no completed payment to refund",
+        });
+        return;
+      }
+
+      const remaining = RefundService.remainingAmount(payment);
+      const amount = validatedData.amount ?? remaining;
+      if (amount > remaining) {
+        res.status(400).json({
+          success: false,
+          error: `Only $${remaining.toFixed(2)} is left to refund`,
+        });
+        return;
+      }
+
+      const shouldCancel =
+        validatedData.cancelRegistration && registration.status !== "cancelled";
+
+      // Cancel before refunding so a failed refund can never leave a
+      // refunded attendee holding their seat
+      if (shouldCancel) {
+        const { data: cancelled, error: updateError } = await supabase
+          .from("registrations")
+          .update({
+            status: "cancelled",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", registrationId)
+          .eq("status", registration.status)
+          .select("id");
+
+        if (updateError) {
+          console.error("Cancel refunded registration error:", updateError);
+          res.status(500).json({
+            success: false,
+            error: "Failed to cancel registration, no refund was issued",
+          });
+          return;
+        }
+
+        if (!cancelled || cancelled.length === 0) {
+          res.status(409).json({
+            success: false,
+            error: "This registration changed while refunding, please reload",
+          });
+          return;
+        }
+
+        await SessionService.releaseSignups(registrationId);
+        await WaitlistService.promoteNext(registration.event_id);
+      }
+
+      let refund;
+      try {
+        refund = await PaymentService.refundPayment(payment.id, {
+          amount,
+          reason: validatedData.reason || "Refunded by organizer",
+          initiatedBy: userId,
+        });
+      } catch (refundError) {
+        console.error("Organizer refund error:", refundError);
+        if (shouldCancel) {
+          await RefundService.markRefundFailed(registrationId);
+        }
+        const message =
+          refundError instanceof Error
+            ? refundError.message
+            : "Failed to process refund";
+        res.status(502).json({
+          success: false,
+          error: shouldCancel
+            ? `Registration cancelled but the refund failed: ${message}`
+            : message,
+        });
+        return;
+      }
+
+      // Recording the refund decides between refunded and partially_refunded
+      const { data: updated } = await supabase
+        .from("registrations")
+        .select("payment_status")
+        .eq("id", registrationId)
+        .single();
+
+      res.json({
+        success: true,
+        message: `Refunded $${refund.amount.toFixed(2)}${
+          shouldCancel ? " and cancelled the registration" : ""
+        }`,
+        data: {
+          refund,
+          registrationStatus: shouldCancel ? "cancelled" : registration.status,
+          paymentStatus: updated?.payment_status ?? registration.payment_status,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid refund data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Refund registration error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
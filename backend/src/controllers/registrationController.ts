@@ -1,8 +1,23 @@
 import { Request, Response } from "express";
+import crypto from "crypto";
 import { createClient } from "@supabase/supabase-js";
 import { z } from "zod";
 import { EmailService, EmailTemplateData } from "../services/emailService.js";
-import { getUserGmailToken, getFreshAccessToken } from "../routes/emailAuth.js";
+import {
+  InvitationService,
+  Invitation,
+} from "../services/invitationService.js";
+import { WaitlistService } from "../services/waitlistService.js";
+import { SessionService } from "../services/sessionService.js";
+import { TicketTierService } from "../services/ticketTierService.js";
+import { PromoCodeService } from "../services/promoCodeService.js";
+import { RefundService } from "../services/refundService.js";
+import { PaymentService } from "../services/paymentService.js";
+import { TicketSigningService } from "../services/ticketSigningService.js";
+import { FormValidationService } from "../services/formValidationService.js";
+import { FormAttachmentService } from "../services/formAttachmentService.js";
+import { FormVersionService } from "../services/formVersionService.js";
+import { OrganizationService } from "../services/organizationService.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -22,6 +37,10 @@ const CreateRegistrationSchema = z.object({
   formData: z.record(z.any()).optional().default({}), // Will be stored as 'responses'
   email: z.string().email().optional(), // Optional if user is logged in
   name: z.string().min(1).optional(), // Optional if user is logged in
+  inviteToken: z.string().min(1).optional(), // Required for private/invite-only events
+  ticketTierId: z.string().uuid().optional(), // Required when the event has ticket tiers
+  promoCode: z.string().trim().min(1).optional(),
+  sessionIds: z.array(z.string().uuid()).max(100).optional(), // Agenda sign-ups
 });
 
 export class RegistrationController {
@@ -47,6 +66,10 @@ export class RegistrationController {
         formData: req.body.formData || {},
         email: req.body.email,
         name: req.body.name,
+        inviteToken: req.body.inviteToken,
+        ticketTierId: req.body.ticketTierId,
+        promoCode: req.body.promoCode,
+        sessionIds: req.body.sessionIds,
       });
 
       // Get user info - either from authenticated user or request body
@@ -95,6 +118,55 @@ export class RegistrationController {
         return;
       }
 
+      // Answers must satisfy the event's registration form, if it has one
+      const registrationForm = await FormValidationService.getEventForm(
+        eventId,
+        "registration"
+      );
+      let attachmentIds: string[] = [];
+      let formVersionId: string | null = null;
+      if (registrationForm) {
+        const fieldErrors = FormValidationService.validateResponses(
+          registrationForm.fields,
+          validatedData.formData
+        );
+        if (Object.keys(fieldErrors).length > 0) {
+          res.status(400).json({
+            success: false,
+            error: "Please correct the highlighted fields",
+            fieldErrors,
+          });
+          return;
+        }
+
+        validatedData.formData = FormValidationService.removeHiddenAnswers(
+          registrationForm.fields,
+          validatedData.formData
+        );
+
+        // File answers must be this user's own uploads for this form
+        const attachments = await FormAttachmentService.resolveAnswers(
+          eventId,
+          userId,
+          registrationForm.fields,
+          validatedData.formData
+        );
+        if (Object.keys(attachments.fieldErrors).length > 0) {
+          res.status(400).json({
+            success: false,
+            error: "Please correct the highlighted fields",
+            fieldErrors: attachments.fieldErrors,
+          });
+          return;
+        }
+        validatedData.formData = attachments.responses;
+        attachmentIds = attachments.attachmentIds;
+        // Answers are read against the version they were given for
+        formVersionId = await FormVersionService.getCurrentVersionId(
+          registrationForm
+        );
+      }
+
       // Check if user is an organizer for this event in event_users table
       const { data: eventUser, error: eventUserError } = await supabase
         .from("event_users")
@@ -113,17 +185,35 @@ export class RegistrationController {
         return;
       }
 
-      // Check if event is private and user has access (for now, just check visibility)
+      // Private and invite-only events require a valid invitation token
+      let invitation: Invitation | null = null;
       if (
         event.visibility === "private" ||
         event.visibility === "invite-only"
       ) {
-        // TODO: Implement invitation system
-        res.status(403).json({
-          success: false,
-          error: "This event requires an invitation",
-        });
-        return;
+        if (!validatedData.inviteToken) {
+          res.status(403).json({
+            success: false,
+            error: "This event requires an invitation",
+          });
+          return;
+        }
+
+        const validation = InvitationService.validate(
+          await InvitationService.findByToken(validatedData.inviteToken),
+          eventId,
+          userEmail
+        );
+
+        if (!validation.valid || !validation.invitation) {
+          res.status(403).json({
+            success: false,
+            error: validation.error || "This event requires an invitation",
+          });
+          return;
+        }
+
+        invitation = validation.invitation;
       }
 
       // Check registration deadline
@@ -164,43 +254,114 @@ export class RegistrationController {
         return;
       }
 
-      // Check event capacity
-      const { count: registrationCount } = await supabase
-        .from("registrations")
-        .select("*", { count: "exact", head: true })
-        .eq("event_id", eventId)
-        .eq("status", "confirmed");
-
-      if (registrationCount && registrationCount >= event.capacity) {
+      // Events with ticket tiers price (and cap) each registration by tier
+      const { tier, error: tierError } =
+        await TicketTierService.selectTierForRegistration(
+          eventId,
+          validatedData.ticketTierId
+        );
+      if (tierError) {
+        res.status(400).json({
+          success: false,
+          error: tierError,
+        });
+        return;
+      }
+      const ticketPrice = tier ? Number(tier.price) : event.price || 0;
+      const isPaidTicket = tier ? ticketPrice > 0 : event.is_paid;
+
+      // Promo codes are checked now and the discount stored on the
+      // registration, so the payment step charges exactly what was quoted
+      let promoCodeId: string | null = null;
+      let discountAmount = 0;
+      if (validatedData.promoCode) {
+        const promo = await PromoCodeService.validate(
+          eventId,
+          validatedData.promoCode,
+          isPaidTicket ? ticketPrice : 0,
+          userId,
+          tier?.id
+        );
+        if (!promo.valid) {
+          res.status(400).json({
+            success: false,
+            error: promo.error,
+          });
+          return;
+        }
+        promoCodeId = promo.promoCode!.id;
+        discountAmount = promo.discountAmount;
+      }
+      // Session sign-ups are checked up front so a full session doesn't
+      // leave a half-finished registration behind
+      const sessionSelection = await SessionService.validateSelection(
+        eventId,
+        validatedData.sessionIds || []
+      );
+      if (sessionSelection.error) {
         res.status(400).json({
           success: false,
-          error: "Event is at full capacity",
+          error: sessionSelection.error,
         });
         return;
       }
 
-      // For paid events, create registration with pending payment status
-      const registrationStatus = event.is_paid ? "pending" : "confirmed";
+      const amountDue = Math.max(ticketPrice - discountAmount, 0);
+      const requiresPayment = isPaidTicket && amountDue > 0;
+
+      // Check event capacity. Seats held by promoted waitlist entries count
+      // as taken, and newcomers never jump ahead of people already queued.
+      const heldSeats = await WaitlistService.countHeldSeats(eventId);
+      const queuedCount = await WaitlistService.countQueued(eventId);
+      const joinWaitlist = heldSeats >= event.capacity || queuedCount > 0;
+
+      // For paid events, create registration with pending payment status.
+      // Waitlisted registrations settle payment only once a seat is claimed.
+      const registrationStatus = joinWaitlist
+        ? "waitlisted"
+        : requiresPayment
+        ? "pending"
+        : "confirmed";
       // Use null for free events since "not_required" is not a valid enum value
-      const paymentStatus = event.is_paid ? "pending" : null;
+      const paymentStatus = requiresPayment && !joinWaitlist ? "pending" : null;
+      const waitlistPosition = joinWaitlist
+        ? await WaitlistService.nextPosition(eventId)
+        : null;
+
+      // The QR code is a signed ticket so it can't be forged from an ID. Sign
+      // it before inserting so a signing failure never leaves a ticketless row.
+      const registrationId = crypto.randomUUID();
+      const qrCode = await TicketSigningService.signTicket({
+        id: registrationId,
+        event_id: eventId,
+        ticket_tier_id: tier?.id || null,
+      });
 
-      // Create registration first to get the ID
       const { data: registration, error: registrationError } = await supabase
         .from("registrations")
         .insert({
+          id: registrationId,
           event_id: eventId,
           user_id: userId || null,
           email: userEmail,
           name: userName,
           responses: validatedData.formData,
+          form_version_id: formVersionId,
           status: registrationStatus,
           payment_status: paymentStatus,
-          qr_code: "", // We'll update this after getting the ID
+          waitlist_position: waitlistPosition,
+          ticket_tier_id: tier?.id || null,
+          promo_code_id: promoCodeId,
+          discount_amount: discountAmount,
+          qr_code: qrCode,
         })
         .select(
           `
           id, status, payment_status, created_at, responses, qr_code, email, name,
+          waitlist_position, waitlist_offer_expires_at, ticket_tier_id,
+          promo_code_id, discount_amount,
           event:event_id(id, title, start_date, location, is_paid, price),
+          ticket_tier:ticket_tier_id(id, name, price),
           user:user_id(id, name, email)
         `
         )
@@ -215,26 +376,63 @@ export class RegistrationController {
         return;
       }
 
-      // Generate QR code using eventId:registrationId format
-      const qrCode = `${eventId}:${registration.id}`;
-
-      // Update registration with QR code
-      const { error: updateError } = await supabase
-        .from("registrations")
-        .update({ qr_code: qrCode })
-        .eq("id", registration.id);
+      // Claim the invitation use now that the registration exists; if a
+      // concurrent registration took the last use, undo this one
+      if (invitation) {
+        const claim = await InvitationService.consume(
+          invitation,
+          userId,
+          userEmail
+        );
+        if (!claim.valid) {
+          await supabase
+            .from("registrations")
+            .delete()
+            .eq("id", registration.id);
+          res.status(403).json({
+            success: false,
+            error: claim.error || "This event requires an invitation",
+          });
+          return;
+        }
+      }
 
-      if (updateError) {
-        console.error("Failed to update QR code:", updateError);
-        // Continue anyway, we can generate QR code on the fly if needed
+      if (sessionSelection.sessions.length > 0) {
+        await SessionService.replaceSignups(
+          eventId,
+          registration.id,
+          sessionSelection.sessions.map((session) => session.id)
+        );
       }
 
-      // Update the registration object with the QR code
-      registration.qr_code = qrCode;
+      await FormAttachmentService.linkToRegistration(
+        attachmentIds,
+        registration.id
+      );
+
+      if (joinWaitlist) {
+        const position = await WaitlistService.getQueuePosition(
+          eventId,
+          waitlistPosition as number
+        );
+
+        res.status(201).json({
+          success: true,
+          message: `Event is at full capacity. You have been added to the waitlist at position ${position}.`,
+          data: {
+            registration,
+            requiresPayment: false,
+            amount: amountDue,
+            waitlisted: true,
+            waitlistPosition: position,
+          },
+        });
+        return;
+      }
 
-      // Send registration confirmation email only for free events
-      // For paid events, email will be sent after payment confirmation
-      if (!event.is_paid) {
+      // Send registration confirmation email only for free tickets
+      // For paid tickets, email will be sent after payment confirmation
+      if (!requiresPayment) {
         console.log(
           "📧 Attempting to send registration confirmation email to:",
           userEmail
@@ -248,7 +446,10 @@ export class RegistrationController {
           }
 
           const freshTokenData = organizerUserId
-            ? await getFreshAccessToken(organizerUserId)
+            ? await OrganizationService.getEventSenderToken({
+                id: event.id,
+                organizer_id: organizerUserId,
+              })
             : null;
 
           if (freshTokenData) {
@@ -309,13 +510,15 @@ export class RegistrationController {
 
       res.status(201).json({
         success: true,
-        message: event.is_paid
+        message: requiresPayment
           ? "Registration created. Please complete payment to confirm your registration."
           : "Successfully registered for event",
         data: {
           registration,
-          requiresPayment: event.is_paid,
-          amount: event.price || 0,
+          requiresPayment,
+          amount: requiresPayment ? amountDue : 0,
+          originalAmount: isPaidTicket ? ticketPrice : 0,
+          discountAmount,
         },
       });
     } catch (error) {
@@ -336,54 +539,23 @@ export class RegistrationController {
     }
   }
 
-  // Get registrations for an event (organizers only)
+  // Get registrations for an event (requires view-registrations)
   static async getEventRegistrations(
     req: AuthenticatedRequest,
     res: Response
   ): Promise<void> {
     try {
-      const userId = req.user?.id;
-      const userRole = req.user?.role;
       const { eventId } = req.params;
 
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          error: "Authentication required",
-        });
-        return;
-      }
-
-      // Check if user is the organizer (only event owner can view registrations)
-      const { data: event, error: eventError } = await supabase
-        .from("events")
-        .select("organizer_id")
-        .eq("id", eventId)
-        .single();
-
-      if (eventError || !event) {
-        res.status(404).json({
-          success: false,
-          error: "Event not found",
-        });
-        return;
-      }
-
-      // Only the event owner can view registrations
-      if (event.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You can only view registrations for your own events",
-        });
-        return;
-      }
-
       // Get registrations
       const { data: registrations, error } = await supabase
         .from("registrations")
         .select(
           `
           id, status, created_at, updated_at, qr_code, user_id, event_id, responses,
+          form_version_id, waitlist_position, waitlist_offer_expires_at,
+          ticket_tier_id, payment_status, discount_amount,
+          ticket_tier:ticket_tier_id(id, name, price),
           user:user_id(id, phone_number)
         `
         )
@@ -471,6 +643,9 @@ export class RegistrationController {
         .select(
           `
           id, status, payment_status, created_at, qr_code, event_id, user_id, responses,
+          waitlist_position, waitlist_offer_expires_at, ticket_tier_id,
+          discount_amount,
+          ticket_tier:ticket_tier_id(id, name, price),
           event:event_id(
             id, title, description, start_date, end_date, 
             location, banner_url, is_paid, price
@@ -522,9 +697,14 @@ export class RegistrationController {
             email = email || regData?.email;
           }
 
-          if (!registration.qr_code || !registration.qr_code.includes(":")) {
-            // Generate correct QR code format: eventId:registrationId
-            const correctQrCode = `${registration.event.id}:${registration.id}`;
+          if (
+            !registration.qr_code ||
+            !TicketSigningService.isSignedTicket(registration.qr_code)
+          ) {
+            // Upgrade unsigned legacy QR codes to a signed ticket
+            const correctQrCode = await TicketSigningService.signTicket(
+              registration
+            );
 
             // Update in database
             await supabase
@@ -536,6 +716,19 @@ export class RegistrationController {
             registration.qr_code = correctQrCode;
           }
 
+          // Report the live place in line rather than the raw queue number
+          if (
+            registration.status === "waitlisted" &&
+            registration.waitlist_position &&
+            !registration.waitlist_offer_expires_at
+          ) {
+            registration.waitlist_position =
+              await WaitlistService.getQueuePosition(
+                registration.event_id,
+                registration.waitlist_position
+              );
+          }
+
           return {
             ...registration,
             name,
@@ -579,7 +772,7 @@ export class RegistrationController {
         .from("registrations")
         .select(
           `
-          id, user_id, status,
+          id, user_id, status, payment_status,
           event:event_id(id, title, start_date)
         `
         )
@@ -602,6 +795,14 @@ export class RegistrationController {
         return;
       }
 
+      if (registration.status === "cancelled") {
+        res.status(409).json({
+          success: false,
+          error: "This registration has already been cancelled",
+        });
+        return;
+      }
+
       // Check if event has already started
       const eventData = Array.isArray(registration.event)
         ? registration.event[0]
@@ -615,14 +816,17 @@ export class RegistrationController {
         return;
       }
 
-      // Update registration status to cancelled
-      const { error: updateError } = await supabase
+      // Cancel first so the seat is released exactly once, even if two
+      // requests race; only the request that wins the update issues a refund
+      const { data: cancelled, error: updateError } = await supabase
         .from("registrations")
         .update({
           status: "cancelled",
           updated_at: new Date().toISOString(),
         })
-        .eq("id", registrationId);
+        .eq("id", registrationId)
+        .eq("status", registration.status)
+        .select("id");
 
       if (updateError) {
         console.error("Cancel registration error:", updateError);
@@ -633,9 +837,67 @@ export class RegistrationController {
         return;
       }
 
+      if (!cancelled || cancelled.length === 0) {
+        res.status(409).json({
+          success: false,
+          error: "This registration has already been cancelled",
+        });
+        return;
+      }
+
+      await SessionService.releaseSignups(registrationId);
+
+      // A released seat goes to the next person on the waitlist
+      if (eventData) {
+        await WaitlistService.promoteNext(eventData.id);
+      }
+
+      // Paid attendees get money back according to the event's refund policy.
+      // A refund Stripe refuses is flagged so the organizer can retry it.
+      let refund = null;
+      let refundFailed = false;
+      if (eventData && registration.payment_status === "completed") {
+        const payment = await RefundService.getRefundablePayment(
+          registrationId
+        );
+        if (payment) {
+          const policy = await RefundService.getPolicy(eventData.id);
+          const quote = RefundService.quote(
+            policy,
+            eventData.start_date,
+            payment
+          );
+
+          if (quote.eligible) {
+            try {
+              refund = await PaymentService.refundPayment(payment.id, {
+                amount: quote.amount,
+                reason: "Cancelled by attendee",
+                initiatedBy: userId,
+              });
+            } catch (refundError) {
+              console.error("Cancellation refund error:", refundError);
+              refundFailed = true;
+              await RefundService.markRefundFailed(registrationId);
+            }
+          }
+        }
+      }
+
       res.json({
         success: true,
-        message: "Registration cancelled successfully",
+        message: refund
+          ? `Registration cancelled. $${refund.amount.toFixed(
+              2
+            )} will be refunded to your original payment method.`
+          : refundFailed
+          ? "Registration cancelled, but your refund could not be processed automatically. Please contact the organizer."
+          : "Registration cancelled successfully",
+        data: {
+          refund: refund
+            ? { amount: refund.amount, refundId: refund.refundId }
+            : null,
+        },
       });
     } catch (error) {
       console.error("Cancel registration error:", error);
@@ -646,6 +908,44 @@ export class RegistrationController {
     }
   }
 
+  // Claim a seat offered from the waitlist
+  static async claimWaitlistSpot(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { registrationId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const result = await WaitlistService.claim(registrationId, userId);
+
+      res.json({
+        success: true,
+        message: result.requiresPayment
+          ? "Seat claimed. Please complete payment to confirm your registration."
+          : "Seat claimed. You are now registered for this event.",
+        data: result,
+      });
+    } catch (error) {
+      console.error("Claim waitlist spot error:", error);
+      res.status(400).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to claim waitlist spot",
+      });
+    }
+  }
+
   // Check registration status for a specific event and user
   static async checkRegistrationStatus(
     req: AuthenticatedRequest,
@@ -665,7 +965,9 @@ export class RegistrationController {
 
       const { data: registration, error } = await supabase
         .from("registrations")
-        .select("id, status, payment_status, created_at")
+        .select(
+          "id, status, payment_status, created_at, waitlist_position, waitlist_offer_expires_at"
+        )
         .eq("event_id", eventId)
         .eq("user_id", userId)
         .neq("status", "cancelled")
@@ -716,7 +1018,8 @@ export class RegistrationController {
         .from("registrations")
         .select(
           `
-          id, qr_code, status, created_at, user_id, event_id,
+          id, qr_code, status, payment_status, created_at, user_id, event_id, ticket_tier_id,
+          ticket_tier:ticket_tier_id(id, name, description, price),
           event:event_id(
             id, title, start_date, end_date, location, 
             description, capacity, banner_url, is_paid, price,
@@ -791,9 +1094,16 @@ export class RegistrationController {
         ? registration.event[0]
         : registration.event;
 
-      // Fix QR code if it doesn't have the correct format
-      if (!registration.qr_code || !registration.qr_code.includes(":")) {
-        const correctQrCode = `${eventData.id}:${registration.id}`;
+      // Upgrade unsigned legacy QR codes to a signed ticket
+      if (
+        !registration.qr_code ||
+        !TicketSigningService.isSignedTicket(registration.qr_code)
+      ) {
+        const correctQrCode = await TicketSigningService.signTicket({
+          id: registration.id,
+          event_id: eventData.id,
+          ticket_tier_id: registration.ticket_tier_id,
+        });
 
         // Update in database
         await supabase
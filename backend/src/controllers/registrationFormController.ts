@@ -86,18 +86,17 @@ export class RegistrationFormController {
         return;
       }
 
-      // Verify the event exists and user is the organizer
+      // Verify the event exists (access was checked by requireEventPermission)
       const { data: event, error: eventError } = await supabase
         .from("events")
-        .select("id, title, organizer_id")
+        .select("id, title")
         .eq("id", eventId)
-        .eq("organizer_id", userId)
         .single();
 
       if (eventError || !event) {
         res.status(404).json({
           success: false,
-          error: "Event not found or you don't have permission to modify it",
+          error: "Event not found",
         });
         return;
       }
@@ -246,15 +245,10 @@ export class RegistrationFormController {
         return;
       }
 
-      // Verify the form exists and user has permission
+      // Verify the form exists (access was checked by requireEventPermission)
       const { data: form, error: formError } = await supabase
         .from("registration_forms")
-        .select(
-          `
-          id, event_id,
-          event:event_id(organizer_id)
-        `
-        )
+        .select("id, event_id")
         .eq("id", formId)
         .eq("event_id", eventId)
         .single();
@@ -267,15 +261,6 @@ export class RegistrationFormController {
         return;
       }
 
-      const eventData = Array.isArray(form.event) ? form.event[0] : form.event;
-      if (eventData.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You don't have permission to modify this form",
-        });
-        return;
-      }
-
       // Validate update data
       const validatedData = UpdateRegistrationFormSchema.parse(req.body);
 
@@ -352,15 +337,10 @@ export class RegistrationFormController {
         return;
       }
 
-      // Verify the form exists and user has permission
+      // Verify the form exists (access was checked by requireEventPermission)
       const { data: form, error: formError } = await supabase
         .from("registration_forms")
-        .select(
-          `
-          id, event_id,
-          event:event_id(organizer_id)
-        `
-        )
+        .select("id, event_id")
         .eq("id", formId)
         .eq("event_id", eventId)
         .single();
@@ -373,15 +353,6 @@ export class RegistrationFormController {
         return;
       }
 
-      const eventData = Array.isArray(form.event) ? form.event[0] : form.event;
-      if (eventData.organizer_id !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "You don't have permission to delete this form",
-        });
-        return;
-      }
-
       // Delete the form
       const { error: deleteError } = await supabase
         .from("registration_forms")
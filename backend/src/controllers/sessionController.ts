@@ -0,0 +1,800 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  CreateEventSessionSchema,
+  UpdateEventSessionSchema,
+  SessionSignupSchema,
+  UpdateCertificateEligibilitySchema,
+} from "../../../shared/dist/schemas.js";
+import {
+  SessionService,
+  SESSION_COLUMNS,
+} from "../services/sessionService.js";
+import { AttendanceService } from "../services/attendanceService.js";
+import { TicketSigningService } from "../services/ticketSigningService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+const SessionCheckInSchema = z
+  .object({
+    qrCode: z.string().min(1).optional(),
+    registrationId: z.string().uuid().optional(), // Manual check-in
+  })
+  .refine((body) => body.qrCode || body.registrationId, {
+    message: "A QR code or registration is required",
+  });
+
+// Event fields the handlers below use once access is checked
+const EVENT_COLUMNS = "id, organizer_id, start_date, end_date";
+
+export class SessionController {
+  /**
+   * List the agenda for an event with sign-up availability
+   * GET /api/sessions/events/:eventId
+   */
+  static async getEventSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params;
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select("id")
+        .eq("id", eventId)
+        .single();
+
+      if (eventError || !event) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+        });
+        return;
+      }
+
+      const sessions = await SessionService.getEventSessions(eventId);
+
+      res.json({
+        success: true,
+        data: { sessions: await SessionService.withAvailability(sessions) },
+      });
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Add a session to an event's agenda
+   * POST /api/sessions/events/:eventId
+   */
+  static async createSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-event",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = CreateEventSessionSchema.parse(req.body);
+
+      const { data: session, error: insertError } = await supabase
+        .from("event_sessions")
+        .insert({
+          event_id: eventId,
+          title: validatedData.title,
+          description: validatedData.description || null,
+          start_time: validatedData.startTime.toISOString(),
+          end_time: validatedData.endTime.toISOString(),
+          room: validatedData.room || null,
+          speaker: validatedData.speaker || null,
+          capacity: validatedData.capacity ?? null,
+          signup_required: validatedData.signupRequired,
+          sort_order: validatedData.sortOrder ?? 0,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select(SESSION_COLUMNS)
+        .single();
+
+      if (insertError) {
+        console.error("Create session error:", insertError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to create session",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: "Session created successfully",
+        data: { session },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid session data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Create session error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Update a session
+   * PUT /api/sessions/:sessionId
+   */
+  static async updateSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { sessionId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const existing = await SessionService.getSession(sessionId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          existing.event_id,
+          req.user!,
+          "manage-event",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = UpdateEventSessionSchema.parse(req.body);
+
+      const startTime =
+        validatedData.startTime || new Date(existing.start_time);
+      const endTime = validatedData.endTime || new Date(existing.end_time);
+      if (startTime >= endTime) {
+        res.status(400).json({
+          success: false,
+          error: "Session end must be after its start",
+        });
+        return;
+      }
+
+      // Never shrink a session below the people already signed up
+      if (validatedData.capacity) {
+        const signedUp = await SessionService.countSignups(sessionId);
+        if (validatedData.capacity < signedUp) {
+          res.status(400).json({
+            success: false,
+            error: `Capacity cannot be lower than the ${signedUp} attendees already signed up`,
+          });
+          return;
+        }
+      }
+
+      const updates: Record<string, any> = {
+        updated_at: new Date().toISOString(),
+      };
+      if (validatedData.title !== undefined) updates.title = validatedData.title;
+      if (validatedData.description !== undefined)
+        updates.description = validatedData.description || null;
+      if (validatedData.startTime !== undefined)
+        updates.start_time = validatedData.startTime.toISOString();
+      if (validatedData.endTime !== undefined)
+        updates.end_time = validatedData.endTime.toISOString();
+      if (validatedData.room !== undefined)
+        updates.room = validatedData.room || null;
+      if (validatedData.speaker !== undefined)
+        updates.speaker = validatedData.speaker || null;
+      if (validatedData.capacity !== undefined)
+        updates.capacity = validatedData.capacity;
+      if (validatedData.signupRequired !== undefined)
+        updates.signup_required = validatedData.signupRequired;
+      if (validatedData.sortOrder !== undefined)
+        updates.sort_order = validatedData.sortOrder;
+
+      const { data: session, error: updateError } = await supabase
+        .from("event_sessions")
+        .update(updates)
+        .eq("id", sessionId)
+        .select(SESSION_COLUMNS)
+        .single();
+
+      if (updateError) {
+        console.error("Update session error:", updateError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to update session",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Session updated successfully",
+        data: { session },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid session data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update session error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Delete a session nobody has been scanned into yet
+   * DELETE /api/sessions/:sessionId
+   */
+  static async deleteSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { sessionId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const existing = await SessionService.getSession(sessionId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          existing.event_id,
+          req.user!,
+          "manage-event",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { count: checkIns } = await supabase
+        .from("session_attendance")
+        .select("*", { count: "exact", head: true })
+        .eq("session_id", sessionId);
+
+      if (checkIns && checkIns > 0) {
+        res.status(409).json({
+          success: false,
+          error:
+            "Attendees have already been checked in to this session, so it can't be deleted",
+        });
+        return;
+      }
+
+      await supabase
+        .from("session_registrations")
+        .delete()
+        .eq("session_id", sessionId);
+
+      const { error: deleteError } = await supabase
+        .from("event_sessions")
+        .delete()
+        .eq("id", sessionId);
+
+      if (deleteError) {
+        console.error("Delete session error:", deleteError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to delete session",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Session deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete session error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Sessions a registration is signed up for
+   * GET /api/sessions/registrations/:registrationId
+   */
+  static async getRegistrationSessions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { registrationId } = req.params;
+
+      const { data: registration, error: regError } = await supabase
+        .from("registrations")
+        .select("id, user_id, event_id")
+        .eq("id", registrationId)
+        .single();
+
+      if (regError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      const canView =
+        registration.user_id === userId ||
+        (!!req.user &&
+          (await EventPermissionService.hasPermission(
+            registration.event_id,
+            req.user,
+            "view-registrations"
+          )));
+      if (!canView) {
+        res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          sessionIds: await SessionService.getSignups(registrationId),
+        },
+      });
+    } catch (error) {
+      console.error("Get registration sessions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Change which sessions a registration is signed up for
+   * PUT /api/sessions/registrations/:registrationId
+   */
+  static async updateRegistrationSessions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { registrationId } = req.params;
+      const { sessionIds } = SessionSignupSchema.parse(req.body);
+
+      const { data: registration, error: regError } = await supabase
+        .from("registrations")
+        .select("id, user_id, event_id, status")
+        .eq("id", registrationId)
+        .single();
+
+      if (regError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      if (registration.user_id !== userId) {
+        res.status(403).json({
+          success: false,
+          error: "You can only change your own session sign-ups",
+        });
+        return;
+      }
+
+      if (registration.status === "cancelled") {
+        res.status(400).json({
+          success: false,
+          error: "This registration has been cancelled",
+        });
+        return;
+      }
+
+      const selection = await SessionService.validateSelection(
+        registration.event_id,
+        sessionIds,
+        registrationId
+      );
+      if (selection.error) {
+        res.status(400).json({
+          success: false,
+          error: selection.error,
+        });
+        return;
+      }
+
+      await SessionService.replaceSignups(
+        registration.event_id,
+        registrationId,
+        selection.sessions.map((session) => session.id)
+      );
+
+      res.json({
+        success: true,
+        message: "Session sign-ups updated",
+        data: {
+          sessionIds: selection.sessions.map((session) => session.id),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid session selection",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update registration sessions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Scan an attendee into a session at the room door
+   * POST /api/sessions/:sessionId/checkin
+   */
+  static async checkIn(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { sessionId } = req.params;
+      const { qrCode, registrationId: manualRegistrationId } =
+        SessionCheckInSchema.parse(req.body);
+
+      const session = await SessionService.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      const access = await AttendanceService.hasCheckInAccess(
+        session.event_id,
+        req.user!
+      );
+      if (access.error) {
+        res.status(access.status).json({ success: false, error: access.error });
+        return;
+      }
+
+      let registrationId = manualRegistrationId;
+      let ticketTierId: string | null | undefined;
+      if (qrCode) {
+        const verification = await TicketSigningService.verifyTicket(qrCode);
+        if (!verification.valid || !verification.payload) {
+          res.status(400).json({
+            success: false,
+            error: "Invalid ticket",
+            details: verification.error,
+          });
+          return;
+        }
+        if (verification.payload.e !== session.event_id) {
+          res.status(400).json({
+            success: false,
+            error: "QR code is for a different event",
+          });
+          return;
+        }
+        registrationId = verification.payload.r;
+        ticketTierId = verification.payload.t || null;
+      }
+
+      const { data: registration, error: regError } = await supabase
+        .from("registrations")
+        .select("id, name, email, status, ticket_tier_id")
+        .eq("id", registrationId!)
+        .eq("event_id", session.event_id)
+        .single();
+
+      if (regError || !registration) {
+        res.status(404).json({
+          success: false,
+          error: "Registration not found",
+        });
+        return;
+      }
+
+      if (
+        ticketTierId !== undefined &&
+        ticketTierId !== (registration.ticket_tier_id || null)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Ticket is out of date",
+        });
+        return;
+      }
+
+      if (registration.status !== "confirmed") {
+        res.status(400).json({
+          success: false,
+          error: "Registration is not confirmed",
+        });
+        return;
+      }
+
+      if (
+        session.signup_required &&
+        !(await SessionService.isSignedUp(sessionId, registration.id))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: "Not signed up for this session",
+          details: `${registration.name} hasn't signed up for "${session.title}"`,
+        });
+        return;
+      }
+
+      const existing = await SessionService.getSessionCheckIn(
+        sessionId,
+        registration.id
+      );
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: "Participant already checked in to this session",
+          details: {
+            participant_name: registration.name,
+            checked_in_at: existing.checked_in_at,
+          },
+        });
+        return;
+      }
+
+      const attendance = await SessionService.checkIn(
+        session,
+        registration.id,
+        userId,
+        qrCode ? "qr_code" : "manual"
+      );
+
+      res.json({
+        success: true,
+        message: `${registration.name} checked in to ${session.title}`,
+        participant: {
+          id: registration.id,
+          name: registration.name,
+          email: registration.email,
+        },
+        data: { attendance, session: { id: session.id, title: session.title } },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid check-in data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Session check-in error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Attendees scanned into a session
+   * GET /api/sessions/:sessionId/attendance
+   */
+  static async getSessionAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const session = await SessionService.getSession(req.params.sessionId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+        return;
+      }
+
+      const access = await AttendanceService.hasCheckInAccess(
+        session.event_id,
+        req.user!
+      );
+      if (access.error) {
+        res.status(access.status).json({ success: false, error: access.error });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          attendance: await SessionService.getSessionAttendance(session.id),
+        },
+      });
+    } catch (error) {
+      console.error("Get session attendance error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Get the session attendance needed for a certificate
+   * GET /api/sessions/events/:eventId/certificate-eligibility
+   */
+  static async getCertificateEligibility(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          req.params.eventId,
+          req.user!,
+          "manage-certificates",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { rule: await SessionService.getEligibility(event.id) },
+      });
+    } catch (error) {
+      console.error("Get certificate eligibility error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Require a number of sessions or hours before a certificate is issued
+   * PUT /api/sessions/events/:eventId/certificate-eligibility
+   */
+  static async updateCertificateEligibility(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          req.params.eventId,
+          req.user!,
+          "manage-certificates",
+          EVENT_COLUMNS
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = UpdateCertificateEligibilitySchema.parse(req.body);
+      const rule = await SessionService.saveEligibility(
+        event.id,
+        validatedData
+      );
+
+      res.json({
+        success: true,
+        message: "Certificate eligibility saved",
+        data: { rule },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid eligibility rule",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update certificate eligibility error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
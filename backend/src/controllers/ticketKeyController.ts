@@ -0,0 +1,158 @@
+import { Request, Response } from "express";
+import { TicketSigningService } from "../services/ticketSigningService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+// Shared organizer check for every ticket key route
+async function authorize(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<string | null> {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+    return null;
+  }
+
+  const { event, status, error } =
+    await EventPermissionService.getPermittedEvent(
+      req.params.eventId,
+      req.user!,
+      "manage-event"
+    );
+  if (!event) {
+    res.status(status).json({ success: false, error });
+    return null;
+  }
+
+  return userId;
+}
+
+export class TicketKeyController {
+  /**
+   * List the signing keys for an event's tickets
+   * GET /api/ticket-keys/events/:eventId
+   */
+  static async getEventKeys(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      if (!(await authorize(req, res))) return;
+
+      const keys = await TicketSigningService.getEventKeys(req.params.eventId);
+
+      res.json({
+        success: true,
+        data: { keys },
+      });
+    } catch (error) {
+      console.error("Get ticket keys error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Retire the active key and start signing with a new one
+   * POST /api/ticket-keys/events/:eventId/rotate
+   */
+  static async rotateKey(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = await authorize(req, res);
+      if (!userId) return;
+
+      const key = await TicketSigningService.rotateKey(
+        req.params.eventId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        message:
+          "Signing key rotated. Existing tickets keep working until you revoke the old key.",
+        data: { key },
+      });
+    } catch (error) {
+      console.error("Rotate ticket key error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Re-sign every ticket for the event with the active key
+   * POST /api/ticket-keys/events/:eventId/reissue
+   */
+  static async reissueTickets(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      if (!(await authorize(req, res))) return;
+
+      const reissued = await TicketSigningService.reissueTickets(
+        req.params.eventId
+      );
+
+      res.json({
+        success: true,
+        message: `Reissued ${reissued} ticket${reissued === 1 ? "" : "s"}`,
+        data: { reissued },
+      });
+    } catch (error) {
+      console.error("Reissue tickets error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Stop accepting tickets signed with retired keys
+   * POST /api/ticket-keys/events/:eventId/revoke-retired
+   */
+  static async revokeRetiredKeys(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      if (!(await authorize(req, res))) return;
+
+      const revoked = await TicketSigningService.revokeRetiredKeys(
+        req.params.eventId
+      );
+
+      res.json({
+        success: true,
+        message: `Revoked ${revoked} key${revoked === 1 ? "" : "s"}`,
+        data: { revoked },
+      });
+    } catch (error) {
+      console.error("Revoke ticket keys error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
@@ -0,0 +1,369 @@
+import { Request, Response } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  CreateTicketTierSchema,
+  UpdateTicketTierSchema,
+} from "../../../shared/dist/schemas.js";
+import {
+  TicketTierService,
+  TICKET_TIER_COLUMNS,
+} from "../services/ticketTierService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: string;
+  };
+}
+
+export class TicketTierController {
+  /**
+   * List ticket tiers for an event. Organizers see every tier with sales
+   * figures; everyone else only sees public tiers, plus a hidden tier they
+   * were sent a direct link to (?tier=<id>).
+   * GET /api/ticket-tiers/events/:eventId
+   */
+  static async getEventTiers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { eventId } = req.params;
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select("id")
+        .eq("id", eventId)
+        .single();
+
+      if (eventError || !event) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+        });
+        return;
+      }
+
+      const canManage =
+        !!req.user &&
+        (await EventPermissionService.hasPermission(
+          eventId,
+          req.user,
+          "manage-event"
+        ));
+      const requestedTierId =
+        typeof req.query.tier === "string" ? req.query.tier : null;
+      const tiers = await TicketTierService.getEventTiers(eventId);
+      const visibleTiers = canManage
+        ? tiers
+        : tiers.filter(
+            (tier) =>
+              tier.visibility === "public" || tier.id === requestedTierId
+          );
+
+      res.json({
+        success: true,
+        data: {
+          tiers: await TicketTierService.withAvailability(visibleTiers),
+        },
+      });
+    } catch (error) {
+      console.error("Get ticket tiers error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Create a ticket tier
+   * POST /api/ticket-tiers/events/:eventId
+   */
+  static async createTier(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { eventId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          eventId,
+          req.user!,
+          "manage-event"
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = CreateTicketTierSchema.parse(req.body);
+
+      const { data: tier, error: insertError } = await supabase
+        .from("ticket_tiers")
+        .insert({
+          event_id: eventId,
+          name: validatedData.name,
+          description: validatedData.description || null,
+          price: validatedData.price,
+          quantity: validatedData.quantity ?? null,
+          sales_start: validatedData.salesStart ?? null,
+          sales_end: validatedData.salesEnd ?? null,
+          visibility: validatedData.visibility,
+          sort_order: validatedData.sortOrder ?? 0,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select(TICKET_TIER_COLUMNS)
+        .single();
+
+      if (insertError) {
+        console.error("Create ticket tier error:", insertError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to create ticket type",
+        });
+        return;
+      }
+
+      await TicketTierService.syncEventPricing(eventId);
+
+      res.status(201).json({
+        success: true,
+        message: "Ticket type created successfully",
+        data: { tier },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ticket type data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Create ticket tier error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Update a ticket tier
+   * PUT /api/ticket-tiers/:tierId
+   */
+  static async updateTier(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { tierId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const existing = await TicketTierService.getTier(tierId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: "Ticket type not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          existing.event_id,
+          req.user!,
+          "manage-event"
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const validatedData = UpdateTicketTierSchema.parse(req.body);
+
+      // Never shrink a tier below what has already been sold
+      if (validatedData.quantity) {
+        const sold = await TicketTierService.countSold(tierId);
+        if (validatedData.quantity < sold) {
+          res.status(400).json({
+            success: false,
+            error: `Quantity cannot be lower than the ${sold} tickets already sold`,
+          });
+          return;
+        }
+      }
+
+      const updates: Record<string, any> = {
+        updated_at: new Date().toISOString(),
+      };
+      if (validatedData.name !== undefined) updates.name = validatedData.name;
+      if (validatedData.description !== undefined)
+        updates.description = validatedData.description || null;
+      if (validatedData.price !== undefined)
+        updates.price = validatedData.price;
+      if (validatedData.quantity !== undefined)
+        updates.quantity = validatedData.quantity;
+      if (validatedData.salesStart !== undefined)
+        updates.sales_start = validatedData.salesStart;
+      if (validatedData.salesEnd !== undefined)
+        updates.sales_end = validatedData.salesEnd;
+      if (validatedData.visibility !== undefined)
+        updates.visibility = validatedData.visibility;
+      if (validatedData.sortOrder !== undefined)
+        updates.sort_order = validatedData.sortOrder;
+
+      const { data: tier, error: updateError } = await supabase
+        .from("ticket_tiers")
+        .update(updates)
+        .eq("id", tierId)
+        .select(TICKET_TIER_COLUMNS)
+        .single();
+
+      if (updateError) {
+        console.error("Update ticket tier error:", updateError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to update ticket type",
+        });
+        return;
+      }
+
+      await TicketTierService.syncEventPricing(existing.event_id);
+
+      res.json({
+        success: true,
+        message: "Ticket type updated successfully",
+        data: { tier },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ticket type data",
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error("Update ticket tier error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+
+  /**
+   * Delete a ticket tier that nobody holds yet
+   * DELETE /api/ticket-tiers/:tierId
+   */
+  static async deleteTier(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { tierId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const existing = await TicketTierService.getTier(tierId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: "Ticket type not found",
+        });
+        return;
+      }
+
+      const { event, status, error } =
+        await EventPermissionService.getPermittedEvent(
+          existing.event_id,
+          req.user!,
+          "manage-event"
+        );
+      if (!event) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      const { count: holders } = await supabase
+        .from("registrations")
+        .select("*", { count: "exact", head: true })
+        .eq("ticket_tier_id", tierId)
+        .neq("status", "cancelled");
+
+      if (holders && holders > 0) {
+        res.status(409).json({
+          success: false,
+          error:
+            "This ticket type already has registrations. Hide it or end its sale window instead.",
+        });
+        return;
+      }
+
+      const { error: deleteError } = await supabase
+        .from("ticket_tiers")
+        .delete()
+        .eq("id", tierId);
+
+      if (deleteError) {
+        console.error("Delete ticket tier error:", deleteError);
+        res.status(500).json({
+          success: false,
+          error: "Failed to delete ticket type",
+        });
+        return;
+      }
+
+      await TicketTierService.syncEventPricing(existing.event_id);
+
+      res.json({
+        success: true,
+        message: "Ticket type deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete ticket tier error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+}
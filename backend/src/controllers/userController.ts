@@ -1,7 +1,13 @@
 import { Request, Response } from "express";
 import { createClient } from "@supabase/supabase-js";
 import { OrganizerUpgradeSchema } from "../../../shared/dist/schemas.js";
+import {
+  CO_ORGANIZER_PERMISSIONS,
+  hasEventPermission,
+  normalizePermissions,
+} from "../../../shared/dist/permissions.js";
 import { AuthenticatedRequest } from "../middleware/auth.js";
+import { getAssignmentStatus } from "../services/staffAssignmentService.js";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -151,7 +157,7 @@ export class UserController {
       // Get all event_users entries for this user
       const { data: eventUsers, error } = await supabase
         .from("event_users")
-        .select("event_id, role, permissions, is_active")
+        .select("event_id, role, permissions, is_active, status")
         .eq("user_id", userId)
         .eq("is_active", true);
 
@@ -166,21 +172,21 @@ export class UserController {
 
       // Determine what the user can access
       const hasStaffAssignments = eventUsers && eventUsers.length > 0;
-      const canAccessCertificates =
-        eventUsers?.some(
-          (eu: any) =>
-            eu.role === "organizer" ||
-            eu.permissions?.includes("manage-certificates") ||
-            eu.permissions?.includes("view-certificates")
-        ) || false;
-
-      const canScanQR =
-        eventUsers?.some(
-          (eu: any) =>
-            eu.role === "organizer" ||
-            eu.role === "staff" ||
-            eu.permissions?.includes("check-in")
-        ) || false;
+      // Organizer rows grant the co-organizer template, whatever they store.
+      // Pending assignments only show up on the staff dashboard to answer.
+      const grants = (eventUsers || [])
+        .filter((eu: any) => getAssignmentStatus(eu) === "accepted")
+        .map((eu: any) =>
+          eu.role === "organizer"
+            ? CO_ORGANIZER_PERMISSIONS
+            : normalizePermissions(eu.permissions)
+        );
+      const canAccessCertificates = grants.some((permissions) =>
+        hasEventPermission(permissions, "view-certificates")
+      );
+      const canScanQR = grants.some((permissions) =>
+        hasEventPermission(permissions, "check-in")
+      );
 
       res.status(200).json({
         success: true,
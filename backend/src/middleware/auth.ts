@@ -106,6 +106,43 @@ export const authenticateToken = async (
   }
 };
 
+// Attach the user when a valid token is present, but never reject the request.
+// Used by public routes that show extra data to signed-in users.
+export const optionalAuthenticateToken = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = req.headers.authorization?.split(" ")[1]?.trim();
+
+  if (!token) {
+    next();
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+    const { data: user } = await supabase
+      .from("users")
+      .select("id, email, role")
+      .eq("id", decoded.userId)
+      .single();
+
+    if (user) {
+      req.user = {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      };
+    }
+  } catch (error) {
+    // Invalid or expired tokens are treated as anonymous access
+  }
+
+  next();
+};
+
 export const requireRole = (roles: string[]) => {
   return (
     req: AuthenticatedRequest,
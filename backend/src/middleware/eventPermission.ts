@@ -0,0 +1,46 @@
+import { Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "./auth.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+import type { EventPermission } from "../../../shared/dist/permissions.js";
+
+// Require a permission on the event named by a route parameter. Must run
+// after authenticateToken.
+export const requireEventPermission = (
+  permission: EventPermission,
+  param = "eventId"
+) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    try {
+      const { status, error } = await EventPermissionService.checkPermission(
+        req.params[param],
+        req.user,
+        permission
+      );
+
+      if (error) {
+        res.status(status).json({ success: false, error });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error("Event permission check error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check permissions",
+      });
+    }
+  };
+};
@@ -0,0 +1,60 @@
+import { Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "./auth.js";
+import {
+  OrganizationService,
+  hasOrganizationRole,
+} from "../services/organizationService.js";
+import type { OrganizationRole } from "../../../shared/dist/schemas.js";
+
+// Require at least the given role in the organization named by :id. Platform
+// admins pass. Must run after authenticateToken.
+export const requireOrganizationRole = (minimum: OrganizationRole) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+      return;
+    }
+
+    try {
+      const organization = await OrganizationService.getOrganization(
+        req.params.id
+      );
+      if (!organization) {
+        res.status(404).json({
+          success: false,
+          error: "Organization not found",
+        });
+        return;
+      }
+
+      if (req.user.role !== "admin") {
+        const role = await OrganizationService.getMemberRole(
+          organization.id,
+          req.user.id
+        );
+        if (!hasOrganizationRole(role, minimum)) {
+          res.status(403).json({
+            success: false,
+            error: `Access denied. You need to be an organization ${minimum} to do this.`,
+          });
+          return;
+        }
+      }
+
+      next();
+    } catch (error) {
+      console.error("Organization role check error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check organization role",
+      });
+    }
+  };
+};
@@ -1,15 +1,20 @@
 import { Router } from "express";
+import { AttendanceController } from "../controllers/attendanceController.js";
+import { authenticateToken } from "../middleware/auth.js";
 
 const router = Router();
 
-// POST /api/attendance/checkin
-router.post("/checkin", (req, res) => {
-  res.json({ message: "Check-in endpoint - to be implemented" });
-});
+// All attendance routes require authentication
+router.use(authenticateToken);
 
-// GET /api/attendance/event/:eventId
-router.get("/event/:eventId", (req, res) => {
-  res.json({ message: "Get event attendance endpoint - to be implemented" });
-});
+// Listing and lookup
+router.get("/event/:eventId", AttendanceController.getEventAttendance);
+router.get("/event/:eventId/search", AttendanceController.searchRegistrations);
+router.get("/event/:eventId/audit", AttendanceController.getAuditLog);
+
+// Manual check-in, check-out and corrections
+router.post("/checkin", AttendanceController.manualCheckIn);
+router.post("/:attendanceId/checkout", AttendanceController.checkOut);
+router.post("/:attendanceId/undo", AttendanceController.undoCheckIn);
 
 export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { CategoryController } from "../controllers/categoryController.js";
+import { authenticateToken, requireAdmin } from "../middleware/auth.js";
+
+const router = Router();
+
+// Public routes (tags must come before the :idOrSlug lookup)
+router.get("/", CategoryController.getCategories);
+router.get("/tags", CategoryController.getPopularTags);
+router.get("/:idOrSlug", CategoryController.getCategory);
+
+// Admin routes
+router.post(
+  "/",
+  authenticateToken,
+  requireAdmin,
+  CategoryController.createCategory
+);
+router.put(
+  "/:idOrSlug",
+  authenticateToken,
+  requireAdmin,
+  CategoryController.updateCategory
+);
+router.delete(
+  "/:idOrSlug",
+  authenticateToken,
+  requireAdmin,
+  CategoryController.deleteCategory
+);
+
+export default router;
@@ -1,5 +1,6 @@
 ﻿import { Router } from "express";
 import { authenticateToken } from "../middleware/auth.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 import { certificateController } from "../controllers/certificateController.js";
 
 const router = Router();
@@ -42,18 +43,44 @@ router.delete(
 router.get(
   "/events/:eventId/participants",
   authenticateToken,
+  requireEventPermission("manage-certificates"),
   certificateController.getEligibleParticipants
 );
 router.post(
   "/events/:eventId/generate",
   authenticateToken,
+  requireEventPermission("manage-certificates"),
   certificateController.generateCertificates
 );
 
+// Background generation jobs
+router.get(
+  "/events/:eventId/jobs",
+  authenticateToken,
+  requireEventPermission("manage-certificates"),
+  certificateController.getGenerationJobs
+);
+router.get(
+  "/jobs/:jobId",
+  authenticateToken,
+  certificateController.getGenerationJob
+);
+router.post(
+  "/jobs/:jobId/cancel",
+  authenticateToken,
+  certificateController.cancelGenerationJob
+);
+router.post(
+  "/jobs/:jobId/retry",
+  authenticateToken,
+  certificateController.retryGenerationJob
+);
+
 // Get all certificates for an event
 router.get(
   "/events/:eventId/certificates",
   authenticateToken,
+  requireEventPermission("view-certificates"),
   certificateController.getCertificates
 );
 
@@ -61,12 +88,31 @@ router.get(
 router.post(
   "/events/:eventId/email",
   authenticateToken,
+  requireEventPermission("manage-certificates"),
   certificateController.emailCertificates
 );
 
+// Revoke, reissue and audit history for a single certificate
+router.post(
+  "/:certificateId/revoke",
+  authenticateToken,
+  certificateController.revokeCertificate
+);
+router.post(
+  "/:certificateId/reissue",
+  authenticateToken,
+  certificateController.reissueCertificate
+);
+router.get(
+  "/:certificateId/history",
+  authenticateToken,
+  certificateController.getCertificateHistory
+);
+
 router.get(
   "/event/:eventId",
   authenticateToken,
+  requireEventPermission("view-certificates"),
   certificateController.getEventCertificates
 ); // Fixed: removed 's' to match frontend
 
@@ -75,7 +121,14 @@ router.get(
 // Certificate verification
 router.get("/verify/:code", certificateController.verifyCertificate);
 
+// Public key for checking signed certificates without the database
+router.get("/signing-key", certificateController.getSigningKey);
+
 // Certificate download
 router.get("/download/:code", certificateController.downloadCertificate);
 
+// Open Badges 3.0 credential and the issuer profile it points to
+router.get("/credentials/:code", certificateController.getOpenBadgeCredential);
+router.get("/issuers/:organizerId", certificateController.getIssuerProfile);
+
 export default router;
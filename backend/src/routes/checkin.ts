@@ -1,25 +1,81 @@
-import { Router } from "express";
-import { supabase, supabaseAdmin } from "../config/supabase.js";
+import { Router, Response } from "express";
+import { supabaseAdmin } from "../config/supabase.js";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 import { EmailService } from "../services/emailService.js";
-import { getUserGmailToken, getFreshAccessToken } from "./emailAuth.js";
+import {
+  TicketPayload,
+  TicketSigningService,
+} from "../services/ticketSigningService.js";
+import { OfflineCheckInService } from "../services/offlineCheckInService.js";
+import { OrganizationService } from "../services/organizationService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
+import {
+  StaffAssignmentService,
+  getAssignmentStatus,
+} from "../services/staffAssignmentService.js";
+import {
+  EVENT_PERMISSIONS,
+  EventPermissionSchema,
+  ROLE_TEMPLATES,
+  RoleTemplateIdSchema,
+  findRoleTemplate,
+  normalizePermissions,
+  resolveStaffPermissions,
+  ungrantablePermissions,
+  type EventPermission,
+} from "../../../shared/dist/permissions.js";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 
 const router = Router();
 
+// Staff get either a role template's permissions or a custom set
+const staffPermissionsSchema = z.object({
+  permissions: z.array(EventPermissionSchema).optional(),
+  roleTemplate: RoleTemplateIdSchema.optional(),
+});
+
 // Schema for adding staff
-const addStaffSchema = z.object({
+const addStaffSchema = staffPermissionsSchema.extend({
   email: z.string().email(),
   name: z.string().min(1),
-  permissions: z.array(z.string()).optional().default(["check-in"]),
+});
+
+/**
+ * Staff managers can only hand out permissions they hold themselves. Owners,
+ * organizers and admins hold every permission, so this never limits them.
+ */
+const findUngrantableError = async (
+  eventId: string,
+  user: { id: string; role?: string },
+  permissions: EventPermission[]
+): Promise<string | null> => {
+  const access = await EventPermissionService.getAccess(eventId, user);
+  const missing = ungrantablePermissions(permissions, access.permissions);
+  if (missing.length === 0) return null;
+
+  return `You can't grant permissions you don't have: ${missing
+    .map((permission) => EVENT_PERMISSIONS[permission])
+    .join(", ")}`;
+};
+
+const SELF_EDIT_ERROR = "You can't change your own staff access";
+
+// Permissions that can be granted and the role templates that bundle them
+router.get("/roles", authenticateToken, (_req, res) => {
+  res.json({
+    success: true,
+    data: { permissions: EVENT_PERMISSIONS, templates: ROLE_TEMPLATES },
+  });
 });
 
 // Add staff member to event
 router.post(
   "/events/:eventId/staff",
   authenticateToken,
+  requireEventPermission("manage-staff"),
   async (req: AuthenticatedRequest, res) => {
     try {
       const eventId = req.params.eventId; // Keep as string (UUID)
@@ -55,26 +111,34 @@ router.post(
         });
       }
 
-      const { email, name, permissions } = validationResult.data;
+      const { email, name } = validationResult.data;
+      const permissions = resolveStaffPermissions(validationResult.data);
+
+      const grantError = await findUngrantableError(
+        eventId,
+        req.user!,
+        permissions
+      );
+      if (grantError) {
+        return res.status(403).json({ error: grantError });
+      }
 
-      // Check if event exists and user is the creator
-      console.log("🔍 Checking event access...");
+      // Access was checked by requireEventPermission
+      console.log("🔍 Loading event...");
       console.log("Looking for event ID:", eventId);
-      console.log("User ID:", userId);
 
-      const { data: event, error: eventError } = await supabase
+      const { data: event, error: eventError } = await supabaseAdmin
         .from("events")
         .select("*")
         .eq("id", eventId)
-        .eq("organizer_id", userId)
         .single();
 
       console.log("📅 Event query result:", { event, eventError });
 
       if (eventError || !event) {
-        console.log("❌ Event not found or unauthorized");
+        console.log("❌ Event not found");
         return res.status(404).json({
-          error: "Event not found or unauthorized",
+          error: "Event not found",
         });
       }
 
@@ -217,7 +281,10 @@ router.post(
           );
 
           // Check if user has granted Gmail permission for delegated sending
-          const freshTokenData = await getFreshAccessToken(userId);
+          const freshTokenData = await OrganizationService.getEventSenderToken({
+            id: eventId,
+            organizer_id: userId,
+          });
 
           if (freshTokenData) {
             console.log(
@@ -267,7 +334,6 @@ router.post(
       }
 
       // Create staff assignment
-      // Permissions are already in array format from frontend
       const { data: assignment, error: assignmentError } = await supabaseAdmin
         .from("event_users")
         .insert({
@@ -276,6 +342,8 @@ router.post(
           role: "staff",
           assigned_by: userId,
           permissions: permissions,
+          is_active: true,
+          status: "pending",
         })
         .select("*")
         .single();
@@ -309,53 +377,14 @@ router.post(
 router.get(
   "/events/:eventId/staff",
   authenticateToken,
+  requireEventPermission("manage-staff"),
   async (req: AuthenticatedRequest, res) => {
     try {
       const eventId = req.params.eventId;
-      const userId = req.user!.id;
 
       // console.log("👥 Fetching staff for event:", eventId, "user:", userId);
       // console.log("👤 User object:", req.user);
 
-      // Check if user is the event organizer or admin
-      const { data: event, error: eventError } = await supabase
-        .from("events")
-        .select("id, organizer_id")
-        .eq("id", eventId)
-        .single();
-
-      // console.log("🎪 Event lookup result:", { event, eventError });
-
-      if (eventError || !event) {
-        console.log("❌ Event not found");
-        return res.status(404).json({ error: "Event not found" });
-      }
-
-      // Only organizer or admin can view staff list
-      const { data: user, error: userError } = await supabase
-        .from("users")
-        .select("role")
-        .eq("id", userId)
-        .single();
-
-      const isOrganizer = event.organizer_id === userId;
-      const isAdmin = user?.role === "admin";
-
-      // console.log("🔐 Authorization check:", {
-      //   isOrganizer,
-      //   isAdmin,
-      //   eventOrganizerId: event.organizer_id,
-      //   userId,
-      // });
-
-      if (!isOrganizer && !isAdmin) {
-        console.log("❌ Access denied - not organizer or admin");
-        return res.status(403).json({
-          error:
-            "Access denied. Only event organizers and admins can view staff.",
-        });
-      }
-
       // Fetch staff assignments with user details
       const { data: staffAssignments, error: staffError } = await supabaseAdmin
         .from("event_users")
@@ -363,6 +392,9 @@ router.get(
           `
           id,
           permissions,
+          is_active,
+          status,
+          responded_at,
           created_at,
           assigned_by,
           user_id,
@@ -399,16 +431,14 @@ router.get(
           .eq("id", assignment.assigned_by)
           .single();
 
+        const permissions = normalizePermissions(assignment.permissions);
         const transformedStaff = {
           id: assignment.id,
-          permissions: {
-            can_check_in: Array.isArray(assignment.permissions)
-              ? assignment.permissions.includes("check-in")
-              : assignment.permissions?.can_check_in || false,
-            can_view_stats: Array.isArray(assignment.permissions)
-              ? assignment.permissions.includes("view-stats")
-              : assignment.permissions?.can_view_stats || false,
-          },
+          permissions,
+          role_template: findRoleTemplate(permissions),
+          is_active: assignment.is_active !== false,
+          status: getAssignmentStatus(assignment),
+          responded_at: assignment.responded_at,
           assigned_at: assignment.created_at, // Map created_at to assigned_at for frontend
           user: staffUser,
           assigned_by_user: assignedByUser,
@@ -430,68 +460,181 @@ router.get(
   }
 );
 
-// Get check-in stats for an event
-router.get(
-  "/events/:eventId/stats",
+// Update a staff member's permissions
+router.put(
+  "/events/:eventId/staff/:staffId",
   authenticateToken,
+  requireEventPermission("manage-staff"),
   async (req: AuthenticatedRequest, res) => {
     try {
-      const eventId = req.params.eventId;
-      const userId = req.user!.id;
+      const { eventId, staffId } = req.params;
 
-      // console.log(
-      //   "📊 Fetching check-in stats for event:",
-      //   eventId,
-      //   "user:",
-      //   userId
-      // );
+      const validationResult = staffPermissionsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: validationResult.error.errors,
+        });
+      }
 
-      // Check if user has access to this event (either organizer or staff)
-      const { data: eventAccess, error: eventError } = await supabaseAdmin
-        .from("events")
-        .select("id, organizer_id")
-        .eq("id", eventId)
-        .single();
+      const event = await StaffAssignmentService.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const assignment = await StaffAssignmentService.getAssignment(
+        eventId,
+        staffId
+      );
+      if (!assignment) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      if (assignment.user_id === req.user!.id) {
+        return res.status(403).json({ error: SELF_EDIT_ERROR });
+      }
+
+      const permissions = resolveStaffPermissions(validationResult.data);
+      const grantError = await findUngrantableError(
+        eventId,
+        req.user!,
+        permissions
+      );
+      if (grantError) {
+        return res.status(403).json({ error: grantError });
+      }
+
+      const updated = await StaffAssignmentService.updatePermissions(
+        event,
+        assignment,
+        permissions
+      );
+
+      res.json({
+        message: "Staff permissions updated successfully",
+        assignment: updated,
+      });
+    } catch (error) {
+      console.error("❌ Update staff error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Suspend or reactivate a staff member without removing them
+const setStaffActive =
+  (isActive: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { eventId, staffId } = req.params;
 
-      if (eventError || !eventAccess) {
-        console.log("❌ Event not found or error:", eventError);
+      const event = await StaffAssignmentService.getEvent(eventId);
+      if (!event) {
         return res.status(404).json({ error: "Event not found" });
       }
 
-      const isOrganizer = eventAccess.organizer_id === userId;
-      // console.log(
-      //   "👑 Is organizer:",
-      //   isOrganizer,
-      //   "organizer_id:",
-      //   eventAccess.organizer_id,
-      //   "user_id:",
-      //   userId
-      // );
-      let isStaff = false;
-
-      if (!isOrganizer) {
-        console.log("🔍 Checking staff access...");
-        // Check if user is staff for this event - remove is_active constraint
-        const { data: staffAccess, error: staffError } = await supabase
-          .from("event_users")
-          .select("id, permissions")
-          .eq("user_id", userId)
-          .eq("event_id", eventId)
-          .eq("role", "staff")
-          .single();
+      const assignment = await StaffAssignmentService.getAssignment(
+        eventId,
+        staffId
+      );
+      if (!assignment) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      if (assignment.user_id === req.user!.id) {
+        return res.status(403).json({ error: SELF_EDIT_ERROR });
+      }
+
+      const updated = await StaffAssignmentService.setActive(
+        event,
+        assignment,
+        isActive
+      );
+      if (!updated) {
+        return res.status(400).json({
+          error:
+            getAssignmentStatus(assignment) === "declined"
+              ? "This staff member declined the assignment"
+              : `Staff member is already ${isActive ? "active" : "suspended"}`,
+        });
+      }
+
+      res.json({
+        message: isActive
+          ? "Staff member reactivated successfully"
+          : "Staff member suspended successfully",
+        assignment: updated,
+      });
+    } catch (error) {
+      console.error("❌ Suspend staff error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+router.post(
+  "/events/:eventId/staff/:staffId/suspend",
+  authenticateToken,
+  requireEventPermission("manage-staff"),
+  setStaffActive(false)
+);
+
+router.post(
+  "/events/:eventId/staff/:staffId/reactivate",
+  authenticateToken,
+  requireEventPermission("manage-staff"),
+  setStaffActive(true)
+);
 
-        // console.log("👷 Staff access result:", { staffAccess, staffError });
+// Remove staff member from event
+router.delete(
+  "/events/:eventId/staff/:staffId",
+  authenticateToken,
+  requireEventPermission("manage-staff"),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { eventId, staffId } = req.params;
 
-        isStaff =
-          !!staffAccess && staffAccess.permissions?.includes("check-in");
-        // console.log("👷 Is staff with check-in permission:", isStaff);
+      const event = await StaffAssignmentService.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
       }
 
-      if (!isOrganizer && !isStaff) {
-        console.log("❌ Access denied - user is neither organizer nor staff");
-        return res.status(403).json({ error: "Access denied" });
+      const assignment = await StaffAssignmentService.getAssignment(
+        eventId,
+        staffId
+      );
+      if (!assignment) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      if (assignment.user_id === req.user!.id) {
+        return res.status(403).json({ error: SELF_EDIT_ERROR });
       }
 
+      await StaffAssignmentService.remove(event, assignment);
+
+      res.json({ message: "Staff member removed successfully" });
+    } catch (error) {
+      console.error("❌ Remove staff error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Get check-in stats for an event
+router.get(
+  "/events/:eventId/stats",
+  authenticateToken,
+  requireEventPermission("check-in"),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const eventId = req.params.eventId;
+
       // Get total registrations
       const { count: totalRegistrations } = await supabaseAdmin
         .from("registrations")
@@ -505,9 +648,8 @@ router.get(
         .select("*", { count: "exact", head: true })
         .eq("event_id", eventId);
 
-      // Get check-ins - support optional 'all' parameter for attendance page
-      const getAllRecords = req.query.all === "true";
-      const limit = getAllRecords ? 1000 : 10; // Get up to 1000 records if 'all' is requested
+      // Latest check-ins for the dashboard; full listings live in /api/attendance
+      const limit = 10;
 
       const { data: recentCheckIns, error: recentError } = await supabaseAdmin
         .from("attendance")
@@ -518,7 +660,10 @@ router.get(
           location,
           registrations!inner (
             name,
-            email
+            email,
+            ticket_tier:ticket_tier_id (
+              name
+            )
           ),
           checked_in_by_user:users!checked_in_by (
             name
@@ -541,10 +686,45 @@ router.get(
             )
           : "0";
 
+      // Per-tier breakdown for events with multiple ticket types
+      const { data: tiers } = await supabaseAdmin
+        .from("ticket_tiers")
+        .select("id, name")
+        .eq("event_id", eventId)
+        .order("sort_order", { ascending: true });
+
+      const tierStats = await Promise.all(
+        (tiers || []).map(async (tier: any) => {
+          const { count: tierRegistrations } = await supabaseAdmin
+            .from("registrations")
+            .select("*", { count: "exact", head: true })
+            .eq("event_id", eventId)
+            .eq("ticket_tier_id", tier.id)
+            .eq("status", "confirmed");
+
+          const { count: tierCheckIns } = await supabaseAdmin
+            .from("attendance")
+            .select("id, registrations!inner(ticket_tier_id)", {
+              count: "exact",
+              head: true,
+            })
+            .eq("event_id", eventId)
+            .eq("registrations.ticket_tier_id", tier.id);
+
+          return {
+            tier_id: tier.id,
+            tier_name: tier.name,
+            registrations: tierRegistrations || 0,
+            check_ins: tierCheckIns || 0,
+          };
+        })
+      );
+
       const stats = {
         total_registrations: totalRegistrations || 0,
         total_check_ins: totalCheckIns || 0,
         check_in_rate: checkInRate,
+        by_tier: tierStats,
       };
 
       const formattedRecentCheckIns =
@@ -555,6 +735,7 @@ router.get(
           registration: {
             name: checkIn.registrations?.name || "Unknown",
             email: checkIn.registrations?.email || "Unknown",
+            ticket_tier: checkIn.registrations?.ticket_tier?.name || null,
           },
           checked_in_by_user: {
             name: checkIn.checked_in_by_user?.name || "System",
@@ -583,22 +764,139 @@ router.get(
   }
 );
 
+// Public key devices use to verify downloaded manifests
+router.get(
+  "/manifest-key",
+  authenticateToken,
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      res.json({
+        success: true,
+        data: OfflineCheckInService.getPublicKey(),
+      });
+    } catch (error) {
+      console.error("❌ Error loading manifest key:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Download the signed attendee manifest for offline scanning
+router.get(
+  "/events/:eventId/manifest",
+  authenticateToken,
+  requireEventPermission("check-in"),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const eventId = req.params.eventId;
+
+      const manifest = await OfflineCheckInService.createManifest(eventId);
+
+      res.json({
+        success: true,
+        data: manifest,
+      });
+    } catch (error) {
+      console.error("❌ Error building check-in manifest:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+const batchCheckInSchema = z.object({
+  device_id: z.string().min(1).max(100),
+  records: z
+    .array(
+      z.object({
+        client_id: z.string().min(1).max(100),
+        qr_code: z.string().min(1),
+        scanned_at: z.string().datetime(),
+        location: z.string().max(200).optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+// Upload check-ins a device recorded while offline
+router.post(
+  "/events/:eventId/batch",
+  authenticateToken,
+  requireEventPermission("check-in"),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const eventId = req.params.eventId;
+      const userId = req.user!.id;
+
+      const validationResult = batchCheckInSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { device_id, records } = validationResult.data;
+      const results = await OfflineCheckInService.processBatch(
+        eventId,
+        device_id,
+        records,
+        userId
+      );
+
+      const summary = {
+        checked_in: results.filter((r) => r.status === "checked_in").length,
+        already_synced: results.filter((r) => r.status === "already_synced")
+          .length,
+        conflicts: results.filter((r) => r.status === "conflict").length,
+        rejected: results.filter((r) => r.status === "rejected").length,
+      };
+
+      res.json({
+        success: true,
+        message: `Synced ${results.length} check-in${
+          results.length === 1 ? "" : "s"
+        }`,
+        data: { results, summary },
+      });
+    } catch (error) {
+      console.error("❌ Error syncing offline check-ins:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Duplicate scans that were resolved during batch sync
+router.get(
+  "/events/:eventId/conflicts",
+  authenticateToken,
+  requireEventPermission("check-in"),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const eventId = req.params.eventId;
+
+      const conflicts = await OfflineCheckInService.getConflicts(eventId);
+
+      res.json({
+        success: true,
+        data: { conflicts },
+      });
+    } catch (error) {
+      console.error("❌ Error fetching check-in conflicts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 // Check in a participant using QR code
 router.post(
   "/events/:eventId",
-  // authenticateToken, // Temporarily disabled for testing
-  async (req: any, res) => {
-    console.log("🚨 ROUTE HIT! Check-in route was called!");
-    console.log("🚨 Request reached check-in handler!");
+  authenticateToken,
+  requireEventPermission("check-in"),
+  async (req: AuthenticatedRequest, res) => {
     try {
       const eventId = req.params.eventId;
-      // Temporarily mock user for testing
-      const userId = "5a054e3a-034d-4a4c-a7fc-444514cb7e9e"; // Admin user ID from logs
-      req.user = {
-        id: userId,
-        email: "patelabhideep02@gmail.com",
-        role: "admin",
-      };
+      const userId = req.user!.id;
       const { qr_code, location = "Main Entrance", device_info } = req.body;
 
       console.log("🎫 === CHECK-IN REQUEST START ===");
@@ -614,101 +912,34 @@ router.post(
         return res.status(400).json({ error: "QR code is required" });
       }
 
-      console.log("🔍 Checking event access for eventId:", eventId);
-      // Check if user has access to this event (either organizer or staff)
-      const { data: eventAccess, error: eventError } = await supabaseAdmin
-        .from("events")
-        .select("id, organizer_id, title")
-        .eq("id", eventId)
-        .single();
-
-      console.log("🎪 Event access result:", { eventAccess, eventError });
-
-      if (eventError || !eventAccess) {
-        console.log("❌ Event not found or error:", eventError);
-        console.log("❌ eventId being queried:", eventId);
-        console.log(
-          "❌ eventError details:",
-          JSON.stringify(eventError, null, 2)
-        );
-        return res.status(404).json({ error: "Event not found" });
-      }
-
-      const isOrganizer = eventAccess.organizer_id === userId;
-      // console.log(
-      //   "👑 Is organizer:",
-      //   isOrganizer,
-      //   "organizer_id:",
-      //   eventAccess.organizer_id,
-      //   "user_id:",
-      //   userId
-      // );
-      let isStaff = false;
-
-      if (!isOrganizer) {
-        // Check if user is staff for this event
-        const { data: staffAccess } = await supabaseAdmin
-          .from("event_users")
-          .select("id, permissions")
-          .eq("user_id", userId)
-          .eq("event_id", eventId)
-          .eq("role", "staff")
-          .eq("is_active", true)
-          .single();
-
-        isStaff =
-          !!staffAccess && staffAccess.permissions?.includes("check-in");
-      }
-
-      if (!isOrganizer && !isStaff) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
-      // Enhanced QR code parsing - supports multiple formats
-      let registrationId;
-      try {
-        console.log("🔍 Parsing QR code format:", qr_code);
-
-        // Format 1: eventId:registrationId (preferred format)
-        if (qr_code.includes(":") && !qr_code.startsWith("QR_")) {
-          const [qrEventId, qrRegistrationId] = qr_code.split(":");
-          console.log("📋 Event-prefixed format detected:", {
-            qrEventId,
-            qrRegistrationId,
+      // Tickets are signed tokens, except those emailed before signing was
+      // introduced, which only scan while their registration is confirmed
+      const legacyTicket = TicketSigningService.parseLegacyTicket(qr_code);
+      let ticket: Pick<TicketPayload, "e" | "r" | "t">;
+      if (legacyTicket) {
+        console.log("🎫 Legacy unsigned ticket:", qr_code);
+        ticket = { ...legacyTicket, t: null };
+      } else {
+        const verification = await TicketSigningService.verifyTicket(qr_code);
+        if (!verification.valid || !verification.payload) {
+          console.log("❌ Ticket verification failed:", verification.error);
+          return res.status(400).json({
+            error: "Invalid ticket",
+            details: verification.error,
           });
-
-          if (qrEventId !== eventId) {
-            console.log("❌ Event ID mismatch:", qrEventId, "vs", eventId);
-            return res.status(400).json({
-              error: "QR code is for a different event",
-              details: `This QR code is for event ${qrEventId}, but you're scanning for event ${eventId}`,
-            });
-          }
-          registrationId = qrRegistrationId;
-        }
-        // Format 2: QR_XXX_timestamp (legacy format) or UUID format
-        else {
-          console.log("📋 Direct registration ID format detected");
-          registrationId = qr_code;
         }
+        ticket = verification.payload;
+      }
 
-        console.log("✅ Extracted registration ID:", registrationId);
-        console.log("🔍 About to validate registration ID format...");
-
-        // Validate registration ID format
-        if (!registrationId || registrationId.length < 5) {
-          console.log("❌ Registration ID validation failed:", registrationId);
-          throw new Error("Invalid registration ID format");
-        }
-        console.log("✅ Registration ID format validated successfully");
-      } catch (error) {
-        console.log("❌ QR parsing error:", error);
+      if (ticket.e !== eventId) {
+        console.log("❌ Event ID mismatch:", ticket.e, "vs", eventId);
         return res.status(400).json({
-          error: "Invalid QR code format",
-          details:
-            "QR code could not be parsed. Please ensure you're using a valid event ticket.",
+          error: "QR code is for a different event",
+          details: `This QR code is for event ${ticket.e}, but you're scanning for event ${eventId}`,
         });
       }
+      const registrationId = ticket.r;
+      console.log("✅ Verified ticket for registration:", registrationId);
 
       console.log("🔍 About to check event details...");
       // Check if event has ended - prevent check-ins after event end
@@ -766,7 +997,9 @@ router.post(
       // Find the registration
       const { data: registration, error: regError } = await supabaseAdmin
         .from("registrations")
-        .select("id, name, email, event_id, status, qr_code")
+        .select(
+          "id, name, email, event_id, status, qr_code, ticket_tier_id, ticket_tier:ticket_tier_id(name)"
+        )
         .eq("id", registrationId)
         .eq("event_id", eventId)
         .single();
@@ -784,6 +1017,19 @@ router.post(
         });
       }
 
+      // A ticket for a different tier than the attendee now holds is stale.
+      // Legacy tickets predate tiers being embedded, so they can't be checked
+      if (
+        !legacyTicket &&
+        (ticket.t || null) !== (registration.ticket_tier_id || null)
+      ) {
+        return res.status(400).json({
+          error: "Ticket is out of date",
+          details:
+            "This ticket was issued for a different ticket type. Ask the attendee to open their ticket again to get an updated QR code.",
+        });
+      }
+
       if (registration.status !== "confirmed") {
         console.log("❌ Registration not confirmed:", registration.status);
         return res.status(400).json({ error: "Registration is not confirmed" });
@@ -831,6 +1077,7 @@ router.post(
           event_id: eventId,
           checked_in_by: userId,
           checked_in_at: new Date().toISOString(),
+          method: "qr_code",
           location: location,
           device_info: device_info,
         })
@@ -855,6 +1102,7 @@ router.post(
           id: registration.id,
           name: registration.name,
           email: registration.email,
+          ticket_tier: (registration.ticket_tier as any)?.name || null,
         },
         attendance: {
           id: attendance.id,
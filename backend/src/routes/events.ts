@@ -1,12 +1,17 @@
 import { Router } from "express";
 import { EventController } from "../controllers/eventController.js";
-import { authenticateToken, requireOrganizer } from "../middleware/auth.js";
+import { EventOrganizerController } from "../controllers/eventOrganizerController.js";
+import {
+  authenticateToken,
+  optionalAuthenticateToken,
+} from "../middleware/auth.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 
 const router = Router();
 
 // Public routes
 router.get("/", EventController.getEvents);
-router.get("/:id", EventController.getEventById);
+router.get("/:id", optionalAuthenticateToken, EventController.getEventById);
 
 // Protected routes (require authentication)
 router.use(authenticateToken);
@@ -16,8 +21,43 @@ router.get("/:id/user-role", EventController.getUserEventRole);
 
 // Organizer routes
 router.post("/", EventController.createEvent);
-router.put("/:id", requireOrganizer, EventController.updateEvent);
-router.delete("/:id", requireOrganizer, EventController.deleteEvent);
+router.put(
+  "/:id",
+  requireEventPermission("manage-event", "id"),
+  EventController.updateEvent
+);
+router.delete(
+  "/:id",
+  requireEventPermission("delete-event", "id"),
+  EventController.deleteEvent
+);
 router.get("/my/events", EventController.getMyEvents);
 
+// Co-organizers (adding and removing is also limited to the owner and
+// existing co-organizers, checked in the controller)
+router.get(
+  "/:id/organizers",
+  requireEventPermission("manage-staff", "id"),
+  EventOrganizerController.getOrganizers
+);
+router.post(
+  "/:id/organizers",
+  requireEventPermission("manage-staff", "id"),
+  EventOrganizerController.addCoOrganizer
+);
+router.delete(
+  "/:id/organizers/:userId",
+  requireEventPermission("manage-staff", "id"),
+  EventOrganizerController.removeCoOrganizer
+);
+
+// Ownership transfer (the controller checks the caller owns the event)
+router.post("/:id/transfer", EventOrganizerController.requestTransfer);
+router.delete("/:id/transfer", EventOrganizerController.cancelTransfer);
+router.get("/transfers/pending", EventOrganizerController.getPendingTransfers);
+router.post(
+  "/transfers/:transferId/respond",
+  EventOrganizerController.respondToTransfer
+);
+
 export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { FeedbackController } from "../controllers/feedbackController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// All feedback routes require authentication
+router.use(authenticateToken);
+
+// Attendee routes
+router.post("/events/:eventId", FeedbackController.submitFeedback);
+router.get("/events/:eventId/status", FeedbackController.getFeedbackStatus);
+
+// Organizer routes
+router.get("/events/:eventId/submissions", FeedbackController.getSubmissions);
+router.get("/events/:eventId/summary", FeedbackController.getSummary);
+router.get("/events/:eventId/schedule", FeedbackController.getSchedule);
+router.put("/events/:eventId/schedule", FeedbackController.updateSchedule);
+
+export default router;
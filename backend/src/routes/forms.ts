@@ -1,10 +1,45 @@
-import { Router } from "express";
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
 import { authenticateToken } from "../middleware/auth.js";
 import { requireRole } from "../middleware/roleCheck.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
+import { fileUploadRateLimit } from "../middleware/rateLimiting.js";
 import { FormController } from "../controllers/formController.js";
+import { MAX_ATTACHMENT_SIZE_MB } from "../services/formAttachmentService.js";
 
 const router = Router();
 
+// Form attachments are kept in memory and handed to storage by the service.
+// Per-field type and size rules are checked in the controller.
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE_MB * 1024 * 1024,
+    files: 1,
+    fields: 5,
+  },
+}).single("file");
+
+const handleAttachmentUpload = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  attachmentUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({
+        success: false,
+        error:
+          err.code === "LIMIT_FILE_SIZE"
+            ? `Files must be smaller than ${MAX_ATTACHMENT_SIZE_MB} MB`
+            : err.message,
+      });
+      return;
+    }
+    next(err);
+  });
+};
+
 // Get form templates (for organizers)
 router.get(
   "/templates",
@@ -17,7 +52,7 @@ router.get(
 router.post(
   "/events/:eventId/form",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   FormController.createForm
 );
 
@@ -25,11 +60,28 @@ router.post(
 // Supports ?type=registration or ?type=feedback
 router.get("/events/:eventId/form", FormController.getForm);
 
+// Published versions of an event's form (organizers only)
+// Supports ?type=registration or ?type=feedback
+router.get(
+  "/events/:eventId/form/versions",
+  authenticateToken,
+  requireEventPermission("manage-event"),
+  FormController.getFormVersions
+);
+
+// Fields an edit would orphan existing answers for (organizers only)
+router.post(
+  "/events/:eventId/form/:formId/impact",
+  authenticateToken,
+  requireEventPermission("manage-event"),
+  FormController.checkEditImpact
+);
+
 // Update form (organizers only)
 router.put(
   "/events/:eventId/form/:formId",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   FormController.updateForm
 );
 
@@ -37,8 +89,24 @@ router.put(
 router.delete(
   "/events/:eventId/form/:formId",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   FormController.deleteForm
 );
 
+// Upload a file answer for a registration or feedback form (any signed-in user)
+router.post(
+  "/events/:eventId/attachments",
+  authenticateToken,
+  fileUploadRateLimit,
+  handleAttachmentUpload,
+  FormController.uploadAttachment
+);
+
+// Download a file answer (anyone who can view registrations, or the uploader)
+router.get(
+  "/events/:eventId/attachments/:attachmentId",
+  authenticateToken,
+  FormController.downloadAttachment
+);
+
 export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { InvitationController } from "../controllers/invitationController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// Public route - invitees open their invite link before logging in
+router.get("/token/:token", InvitationController.getInvitationByToken);
+
+// Organizer routes
+router.use(authenticateToken);
+
+router.get("/events/:eventId", InvitationController.getEventInvitations);
+router.post("/events/:eventId", InvitationController.createInvitations);
+router.post("/events/:eventId/links", InvitationController.createInviteLink);
+router.put("/:invitationId/revoke", InvitationController.revokeInvitation);
+
+export default router;
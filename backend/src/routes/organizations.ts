@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { OrganizationController } from "../controllers/organizationController.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { requireOrganizationRole } from "../middleware/organizationRole.js";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+router.get("/", OrganizationController.getMyOrganizations);
+router.post("/", OrganizationController.createOrganization);
+
+router.get(
+  "/:id",
+  requireOrganizationRole("member"),
+  OrganizationController.getOrganization
+);
+router.put(
+  "/:id",
+  requireOrganizationRole("admin"),
+  OrganizationController.updateOrganization
+);
+router.get(
+  "/:id/events",
+  requireOrganizationRole("member"),
+  OrganizationController.getEvents
+);
+
+// Members (anyone can remove themselves; the controller checks the rest)
+router.get(
+  "/:id/members",
+  requireOrganizationRole("member"),
+  OrganizationController.getMembers
+);
+router.post(
+  "/:id/members",
+  requireOrganizationRole("admin"),
+  OrganizationController.addMember
+);
+router.put(
+  "/:id/members/:userId",
+  requireOrganizationRole("admin"),
+  OrganizationController.updateMember
+);
+router.delete(
+  "/:id/members/:userId",
+  requireOrganizationRole("member"),
+  OrganizationController.removeMember
+);
+
+export default router;
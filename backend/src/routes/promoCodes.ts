@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { PromoCodeController } from "../controllers/promoCodeController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Attendee route - preview a discount before registering
+router.post(
+  "/events/:eventId/validate",
+  PromoCodeController.validatePromoCode
+);
+
+// Organizer routes
+router.get("/events/:eventId", PromoCodeController.getEventPromoCodes);
+router.post("/events/:eventId", PromoCodeController.createPromoCode);
+router.put("/:promoCodeId", PromoCodeController.updatePromoCode);
+router.delete("/:promoCodeId", PromoCodeController.deletePromoCode);
+router.get("/:promoCodeId/redemptions", PromoCodeController.getRedemptions);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { RefundController } from "../controllers/refundController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// Public route - attendees can read the policy before registering
+router.get("/events/:eventId/policy", RefundController.getRefundPolicy);
+
+// All other refund routes require authentication
+router.use(authenticateToken);
+
+// Organizer routes
+router.put("/events/:eventId/policy", RefundController.updateRefundPolicy);
+router.post(
+  "/registrations/:registrationId",
+  RefundController.refundRegistration
+);
+
+// Attendee route - preview the refund for cancelling now
+router.get(
+  "/registrations/:registrationId/quote",
+  RefundController.getRefundQuote
+);
+
+export default router;
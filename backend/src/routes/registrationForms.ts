@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { authenticateToken } from "../middleware/auth.js";
 import { requireRole } from "../middleware/roleCheck.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 import { RegistrationFormController } from "../controllers/registrationFormController.js";
 
 const router = Router();
@@ -17,7 +18,7 @@ router.get(
 router.post(
   "/events/:eventId/form",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   RegistrationFormController.createRegistrationForm
 );
 
@@ -31,7 +32,7 @@ router.get(
 router.put(
   "/events/:eventId/form/:formId",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   RegistrationFormController.updateRegistrationForm
 );
 
@@ -39,7 +40,7 @@ router.put(
 router.delete(
   "/events/:eventId/form/:formId",
   authenticateToken,
-  requireRole(["organizer", "admin"]),
+  requireEventPermission("manage-event"),
   RegistrationFormController.deleteRegistrationForm
 );
 
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { RegistrationController } from "../controllers/registrationController.js";
 import { authenticateToken } from "../middleware/auth.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 
 const router = Router();
 
@@ -14,6 +15,7 @@ router.post(
 );
 router.get(
   "/events/:eventId/registrations",
+  requireEventPermission("view-registrations"),
   RegistrationController.getEventRegistrations
 );
 router.get(
@@ -26,5 +28,9 @@ router.put(
   "/:registrationId/cancel",
   RegistrationController.cancelRegistration
 );
+router.post(
+  "/:registrationId/claim",
+  RegistrationController.claimWaitlistSpot
+);
 
 export default router;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { SessionController } from "../controllers/sessionController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// Public route - anyone can read an event's agenda
+router.get("/events/:eventId", SessionController.getEventSessions);
+
+// All other session routes require authentication
+router.use(authenticateToken);
+
+// Organizer routes
+router.post("/events/:eventId", SessionController.createSession);
+router.get(
+  "/events/:eventId/certificate-eligibility",
+  SessionController.getCertificateEligibility
+);
+router.put(
+  "/events/:eventId/certificate-eligibility",
+  SessionController.updateCertificateEligibility
+);
+router.put("/:sessionId", SessionController.updateSession);
+router.delete("/:sessionId", SessionController.deleteSession);
+
+// Attendee routes - session sign-ups
+router.get(
+  "/registrations/:registrationId",
+  SessionController.getRegistrationSessions
+);
+router.put(
+  "/registrations/:registrationId",
+  SessionController.updateRegistrationSessions
+);
+
+// Organizer and staff routes - scanning at the room door
+router.post("/:sessionId/checkin", SessionController.checkIn);
+router.get("/:sessionId/attendance", SessionController.getSessionAttendance);
+
+export default router;
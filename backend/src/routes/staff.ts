@@ -1,6 +1,14 @@
 import { Router } from "express";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.js";
 import { supabase } from "../config/supabase.js";
+import {
+  StaffAssignmentService,
+  getAssignmentStatus,
+} from "../services/staffAssignmentService.js";
+import {
+  hasEventPermission,
+  normalizePermissions,
+} from "../../../shared/dist/permissions.js";
 
 const router = Router();
 
@@ -59,7 +67,8 @@ router.get(
         .from("event_users")
         .select("*")
         .eq("user_id", userId)
-        .eq("role", "staff");
+        .eq("role", "staff")
+        .eq("is_active", true);
 
       // Apply limit if provided
       if (limit && limit > 0) {
@@ -110,6 +119,7 @@ router.get(
           const event = events?.find((e) => e.id === assignment.event_id);
           if (!event) return null;
 
+          const permissions = normalizePermissions(assignment.permissions);
           return {
             id: event.id,
             title: event.title,
@@ -118,11 +128,14 @@ router.get(
             end_date: event.end_date,
             location: event.location,
             permissions: {
-              can_check_in:
-                assignment.permissions?.includes("check-in") || false,
-              can_view_stats:
-                assignment.permissions?.includes("view-stats") || false,
+              can_check_in: hasEventPermission(permissions, "check-in"),
+              can_view_stats: hasEventPermission(permissions, "view-stats"),
+              can_create_certificate: hasEventPermission(
+                permissions,
+                "manage-certificates"
+              ),
             },
+            status: getAssignmentStatus(assignment),
             assigned_at: assignment.created_at,
           };
         })
@@ -189,6 +202,7 @@ router.get(
         .eq("user_id", userId)
         .eq("event_id", eventId)
         .eq("role", "staff")
+        .eq("is_active", true)
         .single();
 
       if (assignmentError || !assignment) {
@@ -218,6 +232,7 @@ router.get(
         });
       }
 
+      const permissions = normalizePermissions(assignment.permissions);
       const eventData = {
         id: event.id,
         title: event.title,
@@ -227,9 +242,8 @@ router.get(
         location: event.location,
         capacity: event.capacity,
         permissions: {
-          can_check_in: assignment.permissions?.includes("check-in") || false,
-          can_view_stats:
-            assignment.permissions?.includes("view-stats") || false,
+          can_check_in: hasEventPermission(permissions, "check-in"),
+          can_view_stats: hasEventPermission(permissions, "view-stats"),
         },
       };
 
@@ -249,4 +263,45 @@ router.get(
   }
 );
 
+// Accept or decline a pending staff assignment
+router.post(
+  "/events/:eventId/respond",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { eventId } = req.params;
+      const { accept } = req.body;
+
+      if (typeof accept !== "boolean") {
+        return res.status(400).json({ error: "accept must be true or false" });
+      }
+
+      const assignment = await StaffAssignmentService.respond(
+        eventId,
+        req.user!.id,
+        accept
+      );
+      if (!assignment) {
+        return res.status(404).json({
+          error: "No pending staff assignment found for this event.",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: accept
+          ? "Staff assignment accepted"
+          : "Staff assignment declined",
+        data: { status: getAssignmentStatus(assignment) },
+      });
+    } catch (error) {
+      console.error("❌ Error responding to staff assignment:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
+
 export default router;
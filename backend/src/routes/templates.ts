@@ -1,8 +1,10 @@
 import { Router, Request, Response } from "express";
 import { createClient } from "@supabase/supabase-js";
 import { authenticateToken } from "../middleware/auth.js";
+import { requireEventPermission } from "../middleware/eventPermission.js";
 import { fileUploadRateLimit } from "../middleware/rateLimiting.js";
 import { TemplateService } from "../services/templateService.js";
+import { EventPermissionService } from "../services/eventPermissionService.js";
 import {
   CertificateGenerator,
   AVAILABLE_DATA_FIELDS,
@@ -166,27 +168,10 @@ router.get(
 router.get(
   "/event/:eventId",
   authenticateToken,
+  requireEventPermission("manage-certificates"),
   async (req: Request, res: Response) => {
     try {
       const { eventId } = req.params;
-      const userId = (req as any).user.id;
-
-      // Check if user is organizer of the event
-      const { data: event, error: eventError } = await supabase
-        .from("events")
-        .select("id, organizer_id")
-        .eq("id", eventId)
-        .single();
-
-      if (eventError || !event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-
-      if (event.organizer_id !== userId) {
-        return res.status(403).json({
-          error: "Access denied. Only event organizers can view templates.",
-        });
-      }
 
       // Get custom templates for this event
       const { data: templates, error: templatesError } = await supabase
@@ -226,7 +211,6 @@ router.post(
   async (req: Request, res: Response) => {
     try {
       const { eventId, templateName, placeholderMapping } = req.body;
-      const userId = (req as any).user.id;
       const uploadedFile = req.file;
 
       if (!eventId || !templateName || !uploadedFile) {
@@ -235,21 +219,13 @@ router.post(
         });
       }
 
-      // Check if user is organizer of the event
-      const { data: event, error: eventError } = await supabase
-        .from("events")
-        .select("id, organizer_id")
-        .eq("id", eventId)
-        .single();
-
-      if (eventError || !event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-
-      if (event.organizer_id !== userId) {
-        return res.status(403).json({
-          error: "Access denied. Only event organizers can upload templates.",
-        });
+      const { status, error } = await EventPermissionService.checkPermission(
+        eventId,
+        (req as any).user,
+        "manage-certificates"
+      );
+      if (error) {
+        return res.status(status).json({ error });
       }
 
       // Extract placeholders from the uploaded PowerPoint file
@@ -382,7 +358,6 @@ router.put(
     try {
       const { templateId } = req.params;
       const { placeholderMapping } = req.body;
-      const userId = (req as any).user.id;
 
       if (!placeholderMapping) {
         return res
@@ -408,14 +383,13 @@ router.put(
         return res.status(404).json({ error: "Template not found" });
       }
 
-      const eventData = Array.isArray(existingTemplate.events)
-        ? existingTemplate.events[0]
-        : existingTemplate.events;
-
-      if (eventData.organizer_id !== userId) {
-        return res.status(403).json({
-          error: "Access denied. Only event organizers can update templates.",
-        });
+      const { status, error } = await EventPermissionService.checkPermission(
+        existingTemplate.event_id,
+        (req as any).user,
+        "manage-certificates"
+      );
+      if (error) {
+        return res.status(status).json({ error });
       }
 
       // Update template configuration with new mapping
@@ -455,7 +429,6 @@ router.delete(
   async (req: Request, res: Response) => {
     try {
       const { templateId } = req.params;
-      const userId = (req as any).user.id;
 
       // Check if template exists and user has permission
       const { data: existingTemplate, error: templateError } = await supabase
@@ -475,14 +448,13 @@ router.delete(
         return res.status(404).json({ error: "Template not found" });
       }
 
-      const eventData = Array.isArray(existingTemplate.events)
-        ? existingTemplate.events[0]
-        : existingTemplate.events;
-
-      if (eventData.organizer_id !== userId) {
-        return res.status(403).json({
-          error: "Access denied. Only event organizers can delete templates.",
-        });
+      const { status, error } = await EventPermissionService.checkPermission(
+        existingTemplate.event_id,
+        (req as any).user,
+        "manage-certificates"
+      );
+      if (error) {
+        return res.status(status).json({ error });
       }
 
       // Check if template is being used by any certificates
@@ -577,9 +549,8 @@ router.post(
   async (req: Request, res: Response) => {
     try {
       const { templateId } = req.params;
-      const userId = (req as any).user.id;
 
-      // Check if user is organizer of the event that owns this template
+      // Check if user can manage certificates for the template's event
       const { data: template, error: templateError } = await supabase
         .from("certificate_templates")
         .select(
@@ -597,17 +568,13 @@ router.post(
         return res.status(404).json({ error: "Template not found" });
       }
 
-      // Type assertion for events array
-      const events = template.events as any;
-      const organizerId = Array.isArray(events)
-        ? events[0]?.organizer_id
-        : events?.organizer_id;
-
-      if (organizerId !== userId) {
-        return res.status(403).json({
-          error:
-            "Access denied. Only event organizers can migrate their templates.",
-        });
+      const { status, error } = await EventPermissionService.checkPermission(
+        template.event_id,
+        (req as any).user,
+        "manage-certificates"
+      );
+      if (error) {
+        return res.status(status).json({ error });
       }
 
       if (template.uses_azure_storage) {
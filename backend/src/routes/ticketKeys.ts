@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { TicketKeyController } from "../controllers/ticketKeyController.js";
+import { authenticateToken } from "../middleware/auth.js";
+
+const router = Router();
+
+// All ticket key routes are organizer-only
+router.use(authenticateToken);
+
+router.get("/events/:eventId", TicketKeyController.getEventKeys);
+router.post("/events/:eventId/rotate", TicketKeyController.rotateKey);
+router.post("/events/:eventId/reissue", TicketKeyController.reissueTickets);
+router.post(
+  "/events/:eventId/revoke-retired",
+  TicketKeyController.revokeRetiredKeys
+);
+
+export default router;
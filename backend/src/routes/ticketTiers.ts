@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { TicketTierController } from "../controllers/ticketTierController.js";
+import {
+  authenticateToken,
+  optionalAuthenticateToken,
+} from "../middleware/auth.js";
+
+const router = Router();
+
+// Public route - organizers additionally see hidden tiers and sales figures
+router.get(
+  "/events/:eventId",
+  optionalAuthenticateToken,
+  TicketTierController.getEventTiers
+);
+
+// Organizer routes
+router.use(authenticateToken);
+
+router.post("/events/:eventId", TicketTierController.createTier);
+router.put("/:tierId", TicketTierController.updateTier);
+router.delete("/:tierId", TicketTierController.deleteTier);
+
+export default router;
@@ -26,6 +26,20 @@ import emailAuthRoutes from "./routes/emailAuth.js";
 import staffRoutes from "./routes/staff.js";
 import paymentRoutes from "./routes/payments.js";
 import mapsRoutes from "./routes/maps.js";
+import invitationRoutes from "./routes/invitations.js";
+import ticketTierRoutes from "./routes/ticketTiers.js";
+import promoCodeRoutes from "./routes/promoCodes.js";
+import refundRoutes from "./routes/refunds.js";
+import ticketKeyRoutes from "./routes/ticketKeys.js";
+import sessionRoutes from "./routes/sessions.js";
+import feedbackRoutes from "./routes/feedback.js";
+import organizationRoutes from "./routes/organizations.js";
+import categoryRoutes from "./routes/categories.js";
+
+// Import services
+import { WaitlistService } from "./services/waitlistService.js";
+import { CertificateJobService } from "./services/certificateJobService.js";
+import { FeedbackRequestService } from "./services/feedbackRequestService.js";
 
 // Import middleware
 import { errorHandler } from "./middleware/errorHandler.js";
@@ -162,6 +176,15 @@ app.use("/api/email", emailAuthRoutes);
 app.use("/api/staff", staffRoutes);
 app.use("/api/payments", paymentRoutes);
 app.use("/api/maps", mapsRoutes);
+app.use("/api/invitations", invitationRoutes);
+app.use("/api/ticket-tiers", ticketTierRoutes);
+app.use("/api/promo-codes", promoCodeRoutes);
+app.use("/api/refunds", refundRoutes);
+app.use("/api/ticket-keys", ticketKeyRoutes);
+app.use("/api/sessions", sessionRoutes);
+app.use("/api/feedback", feedbackRoutes);
+app.use("/api/organizations", organizationRoutes);
+app.use("/api/categories", categoryRoutes);
 
 // 404 handler
 app.use("*", (req, res) => {
@@ -183,8 +206,20 @@ const server = app.listen(PORT, () => {
   console.log(`🏥 Health check: http://localhost:${PORT}/api/health`);
 });
 
+// Roll expired waitlist offers to the next person in line
+const waitlistSweep = WaitlistService.startExpiryScheduler();
+
+// Render queued certificates in the background
+const certificateWorker = CertificateJobService.startWorker();
+
+// Email feedback requests and reminders once events have ended
+const feedbackRequestSweep = FeedbackRequestService.startScheduler();
+
 process.on("SIGTERM", () => {
   console.log("SIGTERM received. Shutting down gracefully...");
+  clearInterval(waitlistSweep);
+  clearInterval(certificateWorker);
+  clearInterval(feedbackRequestSweep);
   server.close(() => {
     console.log("Process terminated");
   });
@@ -192,6 +227,9 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   console.log("SIGINT received. Shutting down gracefully...");
+  clearInterval(waitlistSweep);
+  clearInterval(certificateWorker);
+  clearInterval(feedbackRequestSweep);
   server.close(() => {
     console.log("Process terminated");
   });
@@ -0,0 +1,350 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { EventPermissionService } from "./eventPermissionService.js";
+import { pickOne } from "../utils/common.js";
+
+export type AttendanceMethod = "qr_code" | "manual";
+
+export type AttendanceAuditAction = "check_in" | "check_out" | "undo_check_in";
+
+export interface AttendanceFilters {
+  page: number;
+  limit: number;
+  search?: string;
+  status: "all" | "checked_in" | "checked_out";
+  method?: AttendanceMethod;
+  ticketTierId?: string;
+}
+
+export interface AttendanceSummary {
+  total_registrations: number;
+  total_check_ins: number;
+  checked_out: number;
+  check_in_rate: string;
+}
+
+export const ATTENDANCE_COLUMNS = `
+  id, registration_id, event_id, checked_in_at, checked_in_by, method,
+  location, checked_out_at, checked_out_by
+`;
+
+// Attendance row with the attendee and staff member embedded
+const ATTENDANCE_LIST_COLUMNS = `
+  ${ATTENDANCE_COLUMNS},
+  registration:registrations!inner(
+    id, name, email, ticket_tier_id,
+    ticket_tier:ticket_tier_id(name)
+  ),
+  checked_in_by_user:users!checked_in_by(name)
+`;
+
+export const ATTENDANCE_AUDIT_COLUMNS = `
+  id, event_id, registration_id, attendance_id, action, reason,
+  performed_by, snapshot, created_at,
+  performed_by_user:users!performed_by(name)
+`;
+
+// PostgREST filter strings treat these characters as syntax
+const sanitizeSearch = (search: string) => search.replace(/[,()%*\\]/g, " ");
+
+const formatAttendance = (row: any) => {
+  const registration = pickOne(row.registration);
+  const checkedInBy = pickOne(row.checked_in_by_user);
+
+  return {
+    id: row.id,
+    registration_id: row.registration_id,
+    event_id: row.event_id,
+    checked_in_at: row.checked_in_at,
+    checked_in_by: row.checked_in_by,
+    method: row.method || "qr_code",
+    location: row.location,
+    checked_out_at: row.checked_out_at,
+    checked_out_by: row.checked_out_by,
+    registration: {
+      id: registration?.id,
+      name: registration?.name || "Unknown",
+      email: registration?.email || "Unknown",
+      ticket_tier: pickOne(registration?.ticket_tier)?.name || null,
+    },
+    checked_in_by_user: {
+      name: checkedInBy?.name || "System",
+    },
+  };
+};
+
+export class AttendanceService {
+  // Anyone with the check-in permission on the event runs the door
+  static hasCheckInAccess(
+    eventId: string,
+    user: { id: string; role?: string }
+  ): Promise<{ status: number; error: string | null }> {
+    return EventPermissionService.checkPermission(eventId, user, "check-in");
+  }
+
+  static async getById(attendanceId: string) {
+    const { data: attendance, error } = await supabaseAdmin
+      .from("attendance")
+      .select(ATTENDANCE_COLUMNS)
+      .eq("id", attendanceId)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      throw new Error(`Failed to fetch attendance: ${error.message}`);
+    }
+
+    return attendance;
+  }
+
+  static async listForEvent(eventId: string, filters: AttendanceFilters) {
+    const offset = (filters.page - 1) * filters.limit;
+
+    let query = supabaseAdmin
+      .from("attendance")
+      .select(ATTENDANCE_LIST_COLUMNS, { count: "exact" })
+      .eq("event_id", eventId)
+      .order("checked_in_at", { ascending: false })
+      .range(offset, offset + filters.limit - 1);
+
+    if (filters.status === "checked_in") {
+      query = query.is("checked_out_at", null);
+    } else if (filters.status === "checked_out") {
+      query = query.not("checked_out_at", "is", null);
+    }
+
+    if (filters.method) {
+      query = query.eq("method", filters.method);
+    }
+
+    if (filters.ticketTierId) {
+      query = query.eq("registration.ticket_tier_id", filters.ticketTierId);
+    }
+
+    if (filters.search) {
+      const term = sanitizeSearch(filters.search);
+      query = query.or(`name.ilike.%${term}%,email.ilike.%${term}%`, {
+        referencedTable: "registration",
+      });
+    }
+
+    const { data: rows, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch attendance: ${error.message}`);
+    }
+
+    return {
+      attendance: (rows || []).map(formatAttendance),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / filters.limit),
+      },
+    };
+  }
+
+  static async getSummary(eventId: string): Promise<AttendanceSummary> {
+    const [registrations, checkIns, checkedOut] = await Promise.all([
+      supabaseAdmin
+        .from("registrations")
+        .select("*", { count: "exact", head: true })
+        .eq("event_id", eventId)
+        .eq("status", "confirmed"),
+      supabaseAdmin
+        .from("attendance")
+        .select("*", { count: "exact", head: true })
+        .eq("event_id", eventId),
+      supabaseAdmin
+        .from("attendance")
+        .select("*", { count: "exact", head: true })
+        .eq("event_id", eventId)
+        .not("checked_out_at", "is", null),
+    ]);
+
+    const totalRegistrations = registrations.count || 0;
+    const totalCheckIns = checkIns.count || 0;
+
+    return {
+      total_registrations: totalRegistrations,
+      total_check_ins: totalCheckIns,
+      checked_out: checkedOut.count || 0,
+      check_in_rate:
+        totalRegistrations > 0
+          ? ((totalCheckIns / totalRegistrations) * 100).toFixed(1)
+          : "0",
+    };
+  }
+
+  /**
+   * Find confirmed registrations by name or email so staff can check in
+   * attendees who can't show their QR code.
+   */
+  static async searchRegistrations(eventId: string, search: string) {
+    const term = sanitizeSearch(search);
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from("registrations")
+      .select(
+        "id, name, email, status, ticket_tier:ticket_tier_id(name), attendance(id, checked_in_at, checked_out_at)"
+      )
+      .eq("event_id", eventId)
+      .eq("status", "confirmed")
+      .or(`name.ilike.%${term}%,email.ilike.%${term}%`)
+      .order("name", { ascending: true })
+      .limit(20);
+
+    if (error) {
+      throw new Error(`Failed to search registrations: ${error.message}`);
+    }
+
+    return (registrations || []).map((registration: any) => {
+      const attendance = pickOne(registration.attendance);
+
+      return {
+        id: registration.id,
+        name: registration.name,
+        email: registration.email,
+        ticket_tier: pickOne(registration.ticket_tier)?.name || null,
+        attendance: attendance
+          ? {
+              id: attendance.id,
+              checked_in_at: attendance.checked_in_at,
+              checked_out_at: attendance.checked_out_at,
+            }
+          : null,
+      };
+    });
+  }
+
+  static async recordAudit(entry: {
+    eventId: string;
+    registrationId: string;
+    attendanceId: string;
+    action: AttendanceAuditAction;
+    performedBy: string;
+    reason?: string;
+    snapshot?: Record<string, any>;
+  }): Promise<void> {
+    const { error } = await supabaseAdmin.from("attendance_audit_log").insert({
+      event_id: entry.eventId,
+      registration_id: entry.registrationId,
+      attendance_id: entry.attendanceId,
+      action: entry.action,
+      reason: entry.reason || null,
+      performed_by: entry.performedBy,
+      snapshot: entry.snapshot || null,
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to write attendance audit log: ${error.message}`);
+    }
+  }
+
+  static async getAuditLog(eventId: string) {
+    const { data: entries, error } = await supabaseAdmin
+      .from("attendance_audit_log")
+      .select(ATTENDANCE_AUDIT_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (error) {
+      throw new Error(`Failed to fetch attendance audit log: ${error.message}`);
+    }
+
+    return (entries || []).map((entry: any) => ({
+      ...entry,
+      performed_by_user: pickOne(entry.performed_by_user) || null,
+    }));
+  }
+
+  static async manualCheckIn(
+    eventId: string,
+    registrationId: string,
+    userId: string,
+    location?: string
+  ) {
+    const { data: attendance, error } = await supabaseAdmin
+      .from("attendance")
+      .insert({
+        registration_id: registrationId,
+        event_id: eventId,
+        checked_in_by: userId,
+        checked_in_at: new Date().toISOString(),
+        method: "manual",
+        location: location || "Main Entrance",
+      })
+      .select(ATTENDANCE_COLUMNS)
+      .single();
+
+    if (error || !attendance) {
+      throw new Error(
+        `Failed to check in participant: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    await this.recordAudit({
+      eventId,
+      registrationId,
+      attendanceId: attendance.id,
+      action: "check_in",
+      performedBy: userId,
+    });
+
+    return attendance;
+  }
+
+  static async checkOut(attendance: any, userId: string, checkedOutAt: Date) {
+    const { data: updated, error } = await supabaseAdmin
+      .from("attendance")
+      .update({
+        checked_out_at: checkedOutAt.toISOString(),
+        checked_out_by: userId,
+      })
+      .eq("id", attendance.id)
+      .select(ATTENDANCE_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      throw new Error(
+        `Failed to check out participant: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    await this.recordAudit({
+      eventId: attendance.event_id,
+      registrationId: attendance.registration_id,
+      attendanceId: attendance.id,
+      action: "check_out",
+      performedBy: userId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Remove a check-in made by mistake. The deleted row is kept in the audit
+   * log together with the reason so the correction can be traced later.
+   */
+  static async undoCheckIn(attendance: any, userId: string, reason: string) {
+    await this.recordAudit({
+      eventId: attendance.event_id,
+      registrationId: attendance.registration_id,
+      attendanceId: attendance.id,
+      action: "undo_check_in",
+      performedBy: userId,
+      reason,
+      snapshot: attendance,
+    });
+
+    const { error } = await supabaseAdmin
+      .from("attendance")
+      .delete()
+      .eq("id", attendance.id);
+
+    if (error) {
+      throw new Error(`Failed to undo check-in: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import type {
+  CreateCategory,
+  UpdateCategory,
+} from "../../../shared/dist/schemas.js";
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  color: string;
+  icon: string | null;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export const CATEGORY_COLUMNS =
+  "id, name, slug, color, icon, description, created_at, updated_at";
+
+// How many upcoming public events are scanned when counting tag usage
+const TAG_SCAN_LIMIT = 1000;
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50);
+
+/**
+ * Categories are a fixed list managed by platform admins. Tags are free-form
+ * and live on events.tags, so there is nothing to manage for them beyond
+ * reporting which ones are in use.
+ */
+export class CategoryService {
+  static async getCategories(): Promise<Category[]> {
+    const { data, error } = await supabaseAdmin
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch categories: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async getCategory(idOrSlug: string): Promise<Category | null> {
+    const column = /^[0-9a-f-]{36}$/i.test(idOrSlug) ? "id" : "slug";
+    const { data, error } = await supabaseAdmin
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq(column, idOrSlug)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch category: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Returns null when another category already uses the slug
+  static async createCategory(
+    input: CreateCategory
+  ): Promise<Category | null> {
+    // Names with no latin letters or digits still need a usable slug
+    const slug =
+      input.slug ||
+      slugify(input.name) ||
+      `category-${Date.now().toString(36)}`;
+    if (await this.getCategory(slug)) return null;
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from("categories")
+      .insert({
+        name: input.name,
+        slug,
+        color: input.color,
+        icon: input.icon ?? null,
+        description: input.description ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select(CATEGORY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create category: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Returns null when the new slug belongs to another category
+  static async updateCategory(
+    categoryId: string,
+    input: UpdateCategory
+  ): Promise<Category | null> {
+    if (input.slug) {
+      const existing = await this.getCategory(input.slug);
+      if (existing && existing.id !== categoryId) return null;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("categories")
+      .update({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.slug !== undefined ? { slug: input.slug } : {}),
+        ...(input.color !== undefined ? { color: input.color } : {}),
+        ...(input.icon !== undefined ? { icon: input.icon } : {}),
+        ...(input.description !== undefined
+          ? { description: input.description }
+          : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", categoryId)
+      .select(CATEGORY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update category: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Events in the category are kept and simply lose their category
+  static async deleteCategory(categoryId: string): Promise<void> {
+    const { error: eventsError } = await supabaseAdmin
+      .from("events")
+      .update({ category_id: null })
+      .eq("category_id", categoryId);
+
+    if (eventsError) {
+      throw new Error(
+        `Failed to detach events from category: ${eventsError.message}`
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from("categories")
+      .delete()
+      .eq("id", categoryId);
+
+    if (error) {
+      throw new Error(`Failed to delete category: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tags used on upcoming public events, most used first, for browsing and
+   * for suggestions while organizers type.
+   */
+  static async getPopularTags(limit = 30): Promise<TagUsage[]> {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select("tags")
+      .eq("visibility", "public")
+      .gte("start_date", new Date().toISOString())
+      .not("tags", "eq", "{}")
+      .limit(TAG_SCAN_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to fetch tags: ${error.message}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const event of data || []) {
+      for (const tag of (event.tags as string[] | null) || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
+  }
+}
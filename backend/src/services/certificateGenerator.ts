@@ -9,12 +9,21 @@ import EmailService from "./emailService.js";
 import { azureBlobService } from "../config/azure.js";
 import { TemplateService } from "./templateService.js";
 import { SimplePdfConverter } from "./simplePdfConverter.js";
+import { CertificateSigningService } from "./certificateSigningService.js";
+import {
+  SessionService,
+  CertificateEligibility,
+} from "./sessionService.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_KEY!
 );
 
+// Where the signature QR code goes on PowerPoint certificates
+const SIGNATURE_QR_FILE = "ppt/media/certificate-signature-qr.png";
+const SIGNATURE_QR_REL_ID = "rIdCertificateSignature";
+
 // Available data fields from database that can be mapped to certificate placeholders
 export interface CertificateDataField {
   key: string;
@@ -143,6 +152,22 @@ export const AVAILABLE_DATA_FIELDS: CertificateDataField[] = [
     dataType: "text",
     example: "REG-12345",
   },
+  {
+    key: "sessions_attended",
+    label: "Sessions Attended",
+    description: "Number of agenda sessions the participant was scanned into",
+    category: "registration",
+    dataType: "number",
+    example: "4",
+  },
+  {
+    key: "session_hours",
+    label: "Session Hours",
+    description: "Hours spent in agenda sessions",
+    category: "registration",
+    dataType: "number",
+    example: "6.5",
+  },
 
   // System fields
   {
@@ -188,6 +213,8 @@ export interface CertificateTemplate {
   name: string;
   type: "canvas" | "powerpoint";
   file_path?: string;
+  uses_azure_storage?: boolean;
+  template_data?: any;
   placeholder_mapping: PlaceholderMapping;
   created_at: string;
   updated_at: string;
@@ -202,9 +229,17 @@ export interface ParticipantData {
   registration_date: string;
   attendance_date?: string;
   registration_id: string;
+  sessions_attended?: number;
+  session_hours?: number;
   custom_fields: Record<string, any>;
 }
 
+export interface GeneratedCertificate {
+  certificateCode: string;
+  verificationCode: string;
+  certificateUrl: string;
+}
+
 export interface EventData {
   id: string;
   title: string;
@@ -218,11 +253,18 @@ export interface EventData {
 
 export class CertificateGenerator {
   /**
-   * Get all participants eligible for certificates (those who attended)
+   * Get all participants eligible for certificates. By default that is
+   * everyone checked in; events with a session rule instead require a
+   * number of sessions or hours attended.
    */
   static async getEligibleParticipants(
     eventId: string
   ): Promise<ParticipantData[]> {
+    const rule = await SessionService.getEligibility(eventId);
+    if (SessionService.usesSessionRule(rule)) {
+      return this.getSessionEligibleParticipants(eventId, rule);
+    }
+
     const { data, error } = await supabase
       .from("registrations")
       .select(
@@ -253,11 +295,63 @@ export class CertificateGenerator {
       organization: participant.responses?.organization || "",
       registration_date: participant.created_at,
       attendance_date: participant.attendance?.[0]?.checked_in_at,
-      registration_id: participant.qr_code,
+      registration_id: participant.id,
       custom_fields: participant.responses || {},
     }));
   }
 
+  private static async getSessionEligibleParticipants(
+    eventId: string,
+    rule: CertificateEligibility
+  ): Promise<ParticipantData[]> {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select(
+        `
+        id,
+        name,
+        email,
+        responses,
+        created_at,
+        attendance(
+          checked_in_at
+        )
+      `
+      )
+      .eq("event_id", eventId)
+      .eq("status", "confirmed");
+
+    if (error) {
+      throw new Error(`Failed to fetch participants: ${error.message}`);
+    }
+
+    const totals = await SessionService.getAttendanceTotals(eventId);
+
+    return data
+      .filter((participant) =>
+        SessionService.meetsRule(
+          rule,
+          totals.get(participant.id) || { sessions: 0, hours: 0 }
+        )
+      )
+      .map((participant) => {
+        const attended = totals.get(participant.id);
+        return {
+          id: participant.id,
+          name: participant.name,
+          email: participant.email,
+          phone: participant.responses?.phone || "",
+          organization: participant.responses?.organization || "",
+          registration_date: participant.created_at,
+          attendance_date: participant.attendance?.[0]?.checked_in_at,
+          registration_id: participant.id,
+          sessions_attended: attended?.sessions || 0,
+          session_hours: Math.round((attended?.hours || 0) * 10) / 10,
+          custom_fields: participant.responses || {},
+        };
+      });
+  }
+
   /**
    * Get event data for certificate generation
    */
@@ -350,6 +444,8 @@ export class CertificateGenerator {
         ? formatDate(participant.attendance_date)
         : "",
       registration_id: participant.registration_id,
+      sessions_attended: String(participant.sessions_attended ?? ""),
+      session_hours: String(participant.session_hours ?? ""),
 
       // System fields
       certificate_code: certificateCode,
@@ -428,7 +524,8 @@ export class CertificateGenerator {
     templatePath: string,
     certificateData: Record<string, string>,
     placeholderMapping: PlaceholderMapping,
-    templateId?: string
+    templateId?: string,
+    qrCode?: Buffer
   ): Promise<Buffer> {
     try {
       let templateData: Buffer;
@@ -481,6 +578,10 @@ export class CertificateGenerator {
         }
       }
 
+      if (qrCode) {
+        await this.addQrCodeToPresentation(zip, qrCode);
+      }
+
       // Generate the modified PowerPoint file with compression optimization
       const result = await zip.generateAsync({
         type: "uint8array",
@@ -515,7 +616,8 @@ export class CertificateGenerator {
    */
   static async generateCanvasCertificate(
     certificateData: Record<string, string>,
-    template: any
+    template: any,
+    qrCode?: Buffer
   ): Promise<Buffer> {
     const canvas = createCanvas(template.width || 1200, template.height || 800);
     const ctx = canvas.getContext("2d");
@@ -549,9 +651,76 @@ export class CertificateGenerator {
       }
     }
 
+    // Signature QR code in the bottom-right corner
+    if (qrCode) {
+      const image = await loadImage(qrCode);
+      const size = Math.round(Math.min(canvas.width, canvas.height) * 0.18);
+      const margin = Math.round(size * 0.15);
+      ctx.drawImage(
+        image,
+        canvas.width - size - margin,
+        canvas.height - size - margin,
+        size,
+        size
+      );
+    }
+
     return canvas.toBuffer("image/png");
   }
 
+  /**
+   * Place the signature QR code in the bottom-right corner of the first
+   * slide, registering the image with the slide and the package.
+   */
+  private static async addQrCodeToPresentation(
+    zip: JSZip,
+    qrCode: Buffer
+  ): Promise<void> {
+    const slidePath = "ppt/slides/slide1.xml";
+    const relsPath = "ppt/slides/_rels/slide1.xml.rels";
+    const slide = await zip.file(slidePath)?.async("string");
+    if (!slide) return;
+
+    // Slide size in EMUs, defaulting to 4:3
+    const presentation =
+      (await zip.file("ppt/presentation.xml")?.async("string")) || "";
+    const slideSize = presentation.match(
+      /<p:sldSz[^>]*cx="(\d+)"[^>]*cy="(\d+)"/
+    );
+    const width = slideSize ? Number(slideSize[1]) : 9144000;
+    const height = slideSize ? Number(slideSize[2]) : 6858000;
+    const size = Math.round(height * 0.16);
+    const margin = Math.round(height * 0.03);
+    const x = width - size - margin;
+    const y = height - size - margin;
+
+    zip.file(SIGNATURE_QR_FILE, qrCode);
+
+    const contentTypes =
+      (await zip.file("[Content_Types].xml")?.async("string")) || "";
+    if (!/Extension="png"/i.test(contentTypes)) {
+      zip.file(
+        "[Content_Types].xml",
+        contentTypes.replace(
+          /(<Types[^>]*>)/,
+          '$1<Default Extension="png" ContentType="image/png"/>'
+        )
+      );
+    }
+
+    const relationship = `<Relationship Id="${SIGNATURE_QR_REL_ID}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/certificate-signature-qr.png"/>`;
+    const rels = await zip.file(relsPath)?.async("string");
+    zip.file(
+      relsPath,
+      rels
+        ? rels.replace("</Relationships>", `${relationship}</Relationships>`)
+        : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationship}</Relationships>`
+    );
+
+    const picture = `<p:pic><p:nvPicPr><p:cNvPr id="9001" name="Certificate signature"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="${SIGNATURE_QR_REL_ID}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${size}" cy="${size}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+    zip.file(slidePath, slide.replace("</p:spTree>", `${picture}</p:spTree>`));
+  }
+
   /**
    * Generate a unique certificate code
    */
@@ -566,6 +735,80 @@ export class CertificateGenerator {
     return `VERIFY-${crypto.randomBytes(8).toString("hex").toUpperCase()}`;
   }
 
+  /**
+   * Render, upload and record one participant's certificate
+   */
+  static async generateForParticipant(
+    template: CertificateTemplate,
+    participant: ParticipantData,
+    eventData: EventData,
+    serialNumber: number,
+    issuedById?: string
+  ): Promise<GeneratedCertificate> {
+    const certificateCode = this.generateCertificateCode();
+    const verificationCode = this.generateVerificationCode();
+
+    // Signed claims let the certificate be checked without our database
+    const signatureToken = CertificateSigningService.sign({
+      c: certificateCode,
+      n: participant.name,
+      e: eventData.id,
+      t: eventData.title,
+      s: eventData.start_date,
+      f: eventData.end_date,
+      i: new Date().toISOString(),
+    });
+    const qrCode = await CertificateSigningService.renderQrCode(signatureToken);
+
+    const certificateData = this.generateCertificateData(
+      participant,
+      eventData,
+      certificateCode,
+      serialNumber
+    );
+
+    let certificateBuffer: Buffer;
+    let fileExtension: string;
+
+    if (
+      template.type === "powerpoint" &&
+      (template.file_path || template.uses_azure_storage)
+    ) {
+      certificateBuffer = await this.generatePowerPointCertificate(
+        template.file_path || "", // Fallback path for legacy templates
+        certificateData,
+        template.placeholder_mapping,
+        template.id, // Pass template ID for Azure storage lookup
+        qrCode
+      );
+
+      // PDF conversion may fall back to PPTX, so check for the %PDF signature
+      const isPdf = certificateBuffer.subarray(0, 4).toString() === "%PDF";
+      fileExtension = isPdf ? "pdf" : "pptx";
+    } else {
+      certificateBuffer = await this.generateCanvasCertificate(
+        certificateData,
+        template.template_data,
+        qrCode
+      );
+      fileExtension = "png";
+    }
+
+    const certificateUrl = await this.saveCertificate(
+      participant.id,
+      eventData.id,
+      template.id,
+      certificateBuffer,
+      certificateCode,
+      verificationCode,
+      fileExtension,
+      issuedById,
+      signatureToken
+    );
+
+    return { certificateCode, verificationCode, certificateUrl };
+  }
+
   /**
    * Save certificate to storage and database
    */
@@ -577,7 +820,8 @@ export class CertificateGenerator {
     certificateCode: string,
     verificationCode: string,
     fileExtension: string,
-    issuedById?: string
+    issuedById?: string,
+    signatureToken?: string
   ): Promise<string> {
     try {
       // Validate UUIDs format
@@ -690,6 +934,7 @@ export class CertificateGenerator {
         issued_by_id: finalIssuedById,
         certificate_url: secureUrl, // Preferred field
         file_url: secureUrl, // Backward compatibility
+        signature_token: signatureToken || null,
       };
 
       const { data, error } = await supabase
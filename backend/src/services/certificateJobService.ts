@@ -0,0 +1,451 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  CertificateGenerator,
+  type CertificateTemplate,
+  type EventData,
+  type ParticipantData,
+} from "./certificateGenerator.js";
+
+// How often the worker looks for queued certificates
+const WORKER_INTERVAL_MS = 5000;
+
+// Certificates rendered per worker tick before yielding to the next tick
+const ITEMS_PER_TICK = 10;
+
+// Items stuck in "running" this long were orphaned by a crash or restart
+const STALE_ITEM_MINUTES = 10;
+
+export type CertificateJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "cancelled";
+
+export type CertificateJobItemStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface CertificateJob {
+  id: string;
+  event_id: string;
+  template_id: string;
+  created_by: string;
+  status: CertificateJobStatus;
+  total: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface CertificateJobItem {
+  id: string;
+  job_id: string;
+  registration_id: string;
+  participant_name: string;
+  participant: ParticipantData;
+  serial_number: number;
+  status: CertificateJobItemStatus;
+  attempts: number;
+  error: string | null;
+  certificate_code: string | null;
+  certificate_url: string | null;
+  updated_at: string;
+}
+
+export type CertificateJobProgress = Record<CertificateJobItemStatus, number>;
+
+export const CERTIFICATE_JOB_COLUMNS = `
+  id, event_id, template_id, created_by, status, total, created_at,
+  started_at, finished_at, updated_at
+`;
+
+const ITEM_SUMMARY_COLUMNS = `
+  id, job_id, registration_id, participant_name, serial_number, status,
+  attempts, error, certificate_code, certificate_url, updated_at
+`;
+
+const ITEM_STATUSES: CertificateJobItemStatus[] = [
+  "queued",
+  "running",
+  "done",
+  "failed",
+  "cancelled",
+];
+
+let processing = false;
+
+/**
+ * Bulk certificate generation runs in the background: a job holds one item
+ * per participant, and a polling worker renders queued items a few at a time
+ * so large events never block an HTTP request. Items are claimed with a
+ * conditional update, so several API instances can share the queue.
+ */
+export class CertificateJobService {
+  static async createJob(
+    eventId: string,
+    templateId: string,
+    participants: ParticipantData[],
+    userId: string
+  ): Promise<CertificateJob> {
+    const now = new Date().toISOString();
+
+    const { data: job, error } = await supabaseAdmin
+      .from("certificate_jobs")
+      .insert({
+        event_id: eventId,
+        template_id: templateId,
+        created_by: userId,
+        status: "queued",
+        total: participants.length,
+        created_at: now,
+        updated_at: now,
+      })
+      .select(CERTIFICATE_JOB_COLUMNS)
+      .single();
+
+    if (error || !job) {
+      throw new Error(
+        `Failed to create certificate job: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    const { error: itemsError } = await supabaseAdmin
+      .from("certificate_job_items")
+      .insert(
+        participants.map((participant, index) => ({
+          job_id: job.id,
+          registration_id: participant.registration_id,
+          participant_name: participant.name,
+          participant,
+          serial_number: index + 1,
+          status: "queued",
+          attempts: 0,
+          updated_at: now,
+        }))
+      );
+
+    if (itemsError) {
+      await supabaseAdmin.from("certificate_jobs").delete().eq("id", job.id);
+      throw new Error(
+        `Failed to queue certificate job: ${itemsError.message}`
+      );
+    }
+
+    return job as CertificateJob;
+  }
+
+  static async getJob(jobId: string): Promise<CertificateJob | null> {
+    const { data: job, error } = await supabaseAdmin
+      .from("certificate_jobs")
+      .select(CERTIFICATE_JOB_COLUMNS)
+      .eq("id", jobId)
+      .single();
+
+    if (error || !job) {
+      return null;
+    }
+
+    return job as CertificateJob;
+  }
+
+  static async getEventJobs(eventId: string): Promise<CertificateJob[]> {
+    const { data: jobs, error } = await supabaseAdmin
+      .from("certificate_jobs")
+      .select(CERTIFICATE_JOB_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate jobs: ${error.message}`);
+    }
+
+    return (jobs || []) as CertificateJob[];
+  }
+
+  static async getItems(jobId: string) {
+    const { data: items, error } = await supabaseAdmin
+      .from("certificate_job_items")
+      .select(ITEM_SUMMARY_COLUMNS)
+      .eq("job_id", jobId)
+      .order("serial_number", { ascending: true });
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch certificate job items: ${error.message}`
+      );
+    }
+
+    return items || [];
+  }
+
+  static async getProgress(jobId: string): Promise<CertificateJobProgress> {
+    const counts = await Promise.all(
+      ITEM_STATUSES.map(async (status) => {
+        const { count } = await supabaseAdmin
+          .from("certificate_job_items")
+          .select("*", { count: "exact", head: true })
+          .eq("job_id", jobId)
+          .eq("status", status);
+        return [status, count || 0] as const;
+      })
+    );
+
+    return Object.fromEntries(counts) as CertificateJobProgress;
+  }
+
+  // Stop a job; the item being rendered right now is allowed to finish
+  static async cancelJob(job: CertificateJob): Promise<void> {
+    const now = new Date().toISOString();
+
+    await supabaseAdmin
+      .from("certificate_job_items")
+      .update({ status: "cancelled", updated_at: now })
+      .eq("job_id", job.id)
+      .eq("status", "queued");
+
+    const { error } = await supabaseAdmin
+      .from("certificate_jobs")
+      .update({ status: "cancelled", finished_at: now, updated_at: now })
+      .eq("id", job.id);
+
+    if (error) {
+      throw new Error(`Failed to cancel certificate job: ${error.message}`);
+    }
+  }
+
+  // Put failed (and optionally cancelled) items back on the queue
+  static async retryJob(
+    job: CertificateJob,
+    includeCancelled = false
+  ): Promise<number> {
+    const now = new Date().toISOString();
+    const statuses = includeCancelled ? ["failed", "cancelled"] : ["failed"];
+
+    const { data: requeued, error } = await supabaseAdmin
+      .from("certificate_job_items")
+      .update({ status: "queued", error: null, updated_at: now })
+      .eq("job_id", job.id)
+      .in("status", statuses)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to retry certificate job: ${error.message}`);
+    }
+
+    if (requeued && requeued.length > 0) {
+      await supabaseAdmin
+        .from("certificate_jobs")
+        .update({ status: "queued", finished_at: null, updated_at: now })
+        .eq("id", job.id);
+    }
+
+    return requeued?.length || 0;
+  }
+
+  /**
+   * One worker tick: pick the oldest unfinished job and render up to
+   * ITEMS_PER_TICK of its queued items. Ticks never overlap in one process.
+   */
+  static async processQueue(): Promise<void> {
+    if (processing) return;
+    processing = true;
+
+    try {
+      await this.requeueStaleItems();
+
+      const { data: job } = await supabaseAdmin
+        .from("certificate_jobs")
+        .select(CERTIFICATE_JOB_COLUMNS)
+        .in("status", ["queued", "running"])
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (!job) return;
+      await this.runJob(job as CertificateJob);
+    } catch (error) {
+      console.error("Certificate job worker error:", error);
+    } finally {
+      processing = false;
+    }
+  }
+
+  static startWorker(): NodeJS.Timeout {
+    return setInterval(() => {
+      this.processQueue();
+    }, WORKER_INTERVAL_MS);
+  }
+
+  private static async runJob(job: CertificateJob): Promise<void> {
+    if (job.status === "queued") {
+      const now = new Date().toISOString();
+      await supabaseAdmin
+        .from("certificate_jobs")
+        .update({
+          status: "running",
+          started_at: job.started_at || now,
+          updated_at: now,
+        })
+        .eq("id", job.id)
+        .eq("status", "queued");
+    }
+
+    const { data: template } = await supabaseAdmin
+      .from("certificate_templates")
+      .select("*")
+      .eq("id", job.template_id)
+      .single();
+
+    if (!template) {
+      await this.failRemaining(job.id, "Certificate template was deleted");
+      await this.finishIfDone(job.id);
+      return;
+    }
+
+    let eventData: EventData;
+    try {
+      eventData = await CertificateGenerator.getEventData(job.event_id);
+    } catch (error) {
+      await this.failRemaining(
+        job.id,
+        error instanceof Error ? error.message : "Event not found"
+      );
+      await this.finishIfDone(job.id);
+      return;
+    }
+
+    for (let i = 0; i < ITEMS_PER_TICK; i++) {
+      // Cancelling between items stops the job without waiting for the tick
+      const current = await this.getJob(job.id);
+      if (!current || current.status === "cancelled") return;
+
+      const item = await this.claimNextItem(job.id);
+      if (!item) break;
+
+      await this.processItem(template as CertificateTemplate, eventData, item);
+    }
+
+    await this.finishIfDone(job.id);
+  }
+
+  private static async claimNextItem(
+    jobId: string
+  ): Promise<CertificateJobItem | null> {
+    const { data: next } = await supabaseAdmin
+      .from("certificate_job_items")
+      .select("id, attempts")
+      .eq("job_id", jobId)
+      .eq("status", "queued")
+      .order("serial_number", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!next) return null;
+
+    // Another worker may have claimed it since the select
+    const { data: claimed } = await supabaseAdmin
+      .from("certificate_job_items")
+      .update({
+        status: "running",
+        attempts: next.attempts + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", next.id)
+      .eq("status", "queued")
+      .select("*")
+      .maybeSingle();
+
+    return (claimed as CertificateJobItem) || null;
+  }
+
+  private static async processItem(
+    template: CertificateTemplate,
+    eventData: EventData,
+    item: CertificateJobItem
+  ): Promise<void> {
+    try {
+      const result = await CertificateGenerator.generateForParticipant(
+        template,
+        item.participant,
+        eventData,
+        item.serial_number
+      );
+
+      await supabaseAdmin
+        .from("certificate_job_items")
+        .update({
+          status: "done",
+          error: null,
+          certificate_code: result.certificateCode,
+          certificate_url: result.certificateUrl,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", item.id);
+    } catch (error) {
+      console.error(
+        `❌ Error generating certificate for ${item.participant_name}:`,
+        error
+      );
+
+      await supabaseAdmin
+        .from("certificate_job_items")
+        .update({
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", item.id);
+    }
+  }
+
+  private static async failRemaining(jobId: string, reason: string) {
+    await supabaseAdmin
+      .from("certificate_job_items")
+      .update({
+        status: "failed",
+        error: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("job_id", jobId)
+      .eq("status", "queued");
+  }
+
+  // Mark a job completed once nothing is left queued or running
+  private static async finishIfDone(jobId: string): Promise<void> {
+    const { count } = await supabaseAdmin
+      .from("certificate_job_items")
+      .select("*", { count: "exact", head: true })
+      .eq("job_id", jobId)
+      .in("status", ["queued", "running"]);
+
+    if ((count || 0) > 0) return;
+
+    const now = new Date().toISOString();
+    await supabaseAdmin
+      .from("certificate_jobs")
+      .update({ status: "completed", finished_at: now, updated_at: now })
+      .eq("id", jobId)
+      .eq("status", "running");
+  }
+
+  private static async requeueStaleItems(): Promise<void> {
+    const cutoff = new Date(
+      Date.now() - STALE_ITEM_MINUTES * 60 * 1000
+    ).toISOString();
+
+    const { error } = await supabaseAdmin
+      .from("certificate_job_items")
+      .update({ status: "queued", updated_at: new Date().toISOString() })
+      .eq("status", "running")
+      .lt("updated_at", cutoff);
+
+    if (error) {
+      console.error("Failed to requeue stale certificate items:", error);
+    }
+  }
+}
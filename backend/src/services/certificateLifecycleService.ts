@@ -0,0 +1,304 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  CertificateGenerator,
+  type CertificateTemplate,
+} from "./certificateGenerator.js";
+
+// Certificates issued before revocation existed have no status and count
+// as valid
+export type CertificateStatus = "valid" | "revoked" | "superseded";
+
+export type CertificateAuditAction = "revoked" | "reissued";
+
+export interface CertificateRecord {
+  id: string;
+  event_id: string;
+  registration_id: string;
+  template_id: string | null;
+  certificate_code: string;
+  verification_code: string;
+  status: CertificateStatus | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_reason: string | null;
+  superseded_by_id: string | null;
+  superseded_at: string | null;
+  created_at: string;
+}
+
+export interface CertificateAuditEntry {
+  id: string;
+  certificate_id: string;
+  event_id: string;
+  action: CertificateAuditAction;
+  reason: string | null;
+  replacement_id: string | null; // The certificate issued by a reissue
+  details: Record<string, any>;
+  actor: { id: string; name: string; email: string } | null;
+  created_at: string;
+}
+
+export const CERTIFICATE_RECORD_COLUMNS = `
+  id, event_id, registration_id, template_id, certificate_code,
+  verification_code, status, revoked_at, revoked_by, revocation_reason,
+  superseded_by_id, superseded_at, created_at
+`;
+
+const AUDIT_COLUMNS = `
+  id, certificate_id, event_id, action, reason, replacement_id, details,
+  created_at, actor:actor_id(id, name, email)
+`;
+
+export const getCertificateStatus = (certificate: {
+  status?: CertificateStatus | null;
+}): CertificateStatus => certificate.status || "valid";
+
+/**
+ * Revocation and reissue of issued certificates. Both only act on a valid
+ * certificate and claim it with a conditional update, so two organizers
+ * acting at once can't revoke or replace it twice. Every change is written
+ * to certificate_audit_log.
+ */
+export class CertificateLifecycleService {
+  static async getCertificate(
+    certificateId: string
+  ): Promise<CertificateRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from("certificates")
+      .select(CERTIFICATE_RECORD_COLUMNS)
+      .eq("id", certificateId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+
+    return data as CertificateRecord | null;
+  }
+
+  // Returns null when the certificate was no longer valid
+  static async revoke(
+    certificate: CertificateRecord,
+    userId: string,
+    reason: string
+  ): Promise<CertificateRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from("certificates")
+      .update({
+        status: "revoked",
+        revoked_at: new Date().toISOString(),
+        revoked_by: userId,
+        revocation_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", certificate.id)
+      .or("status.is.null,status.eq.valid")
+      .select(CERTIFICATE_RECORD_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to revoke certificate: ${error.message}`);
+    }
+    if (!data) return null;
+
+    await this.record(certificate, "revoked", userId, reason);
+    return data as CertificateRecord;
+  }
+
+  /**
+   * Render a replacement with a new code and mark the original superseded.
+   * A corrected name is saved to the registration first so the replacement
+   * and its verification page both show it. Returns null when the
+   * certificate was no longer valid.
+   */
+  static async reissue(
+    certificate: CertificateRecord,
+    userId: string,
+    reason: string,
+    participantName?: string
+  ): Promise<CertificateRecord | null> {
+    if (!certificate.template_id) {
+      throw new Error("The template used for this certificate is unavailable");
+    }
+
+    const { data: template } = await supabaseAdmin
+      .from("certificate_templates")
+      .select("*")
+      .eq("id", certificate.template_id)
+      .maybeSingle();
+
+    if (!template) {
+      throw new Error("The template used for this certificate was deleted");
+    }
+
+    const participants = await CertificateGenerator.getEligibleParticipants(
+      certificate.event_id
+    );
+    const participant = participants.find(
+      (p) => p.registration_id === certificate.registration_id
+    );
+    if (!participant) {
+      throw new Error("This participant is no longer eligible");
+    }
+
+    // Claim the original before rendering so it can only be replaced once
+    const claimed = await this.setSuperseded(certificate.id);
+    if (!claimed) return null;
+
+    const previousName = participant.name;
+    try {
+      if (participantName && participantName !== previousName) {
+        await this.renameParticipant(
+          certificate.registration_id,
+          participantName
+        );
+        participant.name = participantName;
+      }
+
+      const serialNumber = await this.getSerialNumber(
+        certificate,
+        participants.indexOf(participant) + 1
+      );
+      const eventData = await CertificateGenerator.getEventData(
+        certificate.event_id
+      );
+      const result = await CertificateGenerator.generateForParticipant(
+        template as CertificateTemplate,
+        participant,
+        eventData,
+        serialNumber,
+        userId
+      );
+
+      const { data: replacement, error } = await supabaseAdmin
+        .from("certificates")
+        .select(CERTIFICATE_RECORD_COLUMNS)
+        .eq("certificate_code", result.certificateCode)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to fetch new certificate: ${error.message}`);
+      }
+
+      await supabaseAdmin
+        .from("certificates")
+        .update({ superseded_by_id: replacement.id })
+        .eq("id", certificate.id);
+
+      await this.record(certificate, "reissued", userId, reason, {
+        replacementId: replacement.id,
+        details:
+          participant.name !== previousName
+            ? { previousName, participantName: participant.name }
+            : {},
+      });
+
+      return replacement as CertificateRecord;
+    } catch (error) {
+      // Put the original back so the certificate isn't left with neither
+      await supabaseAdmin
+        .from("certificates")
+        .update({ status: "valid", superseded_at: null })
+        .eq("id", certificate.id);
+      if (participant.name !== previousName) {
+        await this.renameParticipant(
+          certificate.registration_id,
+          previousName
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Entries about this certificate, including the reissue that created it
+  static async getHistory(
+    certificateId: string
+  ): Promise<CertificateAuditEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from("certificate_audit_log")
+      .select(AUDIT_COLUMNS)
+      .or(
+        `certificate_id.eq.${certificateId},replacement_id.eq.${certificateId}`
+      )
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate history: ${error.message}`);
+    }
+
+    return (data || []).map((entry: any) => ({
+      ...entry,
+      details: entry.details || {},
+      actor: Array.isArray(entry.actor) ? entry.actor[0] : entry.actor,
+    }));
+  }
+
+  private static async setSuperseded(certificateId: string) {
+    const { data, error } = await supabaseAdmin
+      .from("certificates")
+      .update({
+        status: "superseded",
+        superseded_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", certificateId)
+      .or("status.is.null,status.eq.valid")
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to reissue certificate: ${error.message}`);
+    }
+    return !!data;
+  }
+
+  private static async renameParticipant(
+    registrationId: string,
+    name: string
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("registrations")
+      .update({ name })
+      .eq("id", registrationId);
+
+    if (error) {
+      throw new Error(`Failed to update participant name: ${error.message}`);
+    }
+  }
+
+  // Keep the serial the original was generated with where it's known
+  private static async getSerialNumber(
+    certificate: CertificateRecord,
+    fallback: number
+  ): Promise<number> {
+    const { data } = await supabaseAdmin
+      .from("certificate_job_items")
+      .select("serial_number")
+      .eq("certificate_code", certificate.certificate_code)
+      .maybeSingle();
+
+    return data?.serial_number || fallback;
+  }
+
+  private static async record(
+    certificate: CertificateRecord,
+    action: CertificateAuditAction,
+    actorId: string,
+    reason: string,
+    extra: { replacementId?: string; details?: Record<string, any> } = {}
+  ): Promise<void> {
+    const { error } = await supabaseAdmin.from("certificate_audit_log").insert({
+      certificate_id: certificate.id,
+      event_id: certificate.event_id,
+      action,
+      reason,
+      replacement_id: extra.replacementId || null,
+      details: extra.details || {},
+      actor_id: actorId,
+    });
+
+    if (error) {
+      console.error("Failed to record certificate audit entry:", error);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+
+// The facts a certificate vouches for, as carried in its QR code
+export interface CertificateClaims {
+  v: 1;
+  k: string; // Signing key id
+  c: string; // Certificate code
+  n: string; // Participant name
+  e: string; // Event id
+  t: string; // Event title
+  s: string; // Event start date
+  f: string; // Event end date
+  i: string; // Issued at
+}
+
+export interface CertificateVerificationKey {
+  key_id: string;
+  algorithm: "ES256";
+  jwk: crypto.JsonWebKey;
+  pem: string;
+}
+
+let signingKey: crypto.KeyObject | null = null;
+
+const base64url = (input: string) => Buffer.from(input).toString("base64url");
+
+/**
+ * Certificates carry a detached ECDSA P-256 signature over their claims so
+ * anyone holding the public key can check them without asking us. The
+ * token is "<claims>.<signature>", both base64url, where the signature is
+ * over the claims segment exactly as encoded. It goes into the certificate's
+ * QR code as a link to the verification page.
+ */
+export class CertificateSigningService {
+  private static getSigningKey(): crypto.KeyObject {
+    if (signingKey) {
+      return signingKey;
+    }
+
+    const pem = process.env.CERTIFICATE_SIGNING_PRIVATE_KEY;
+    if (pem) {
+      signingKey = crypto.createPrivateKey(pem.replace(/\\n/g, "\n"));
+    } else {
+      console.warn(
+        "⚠️ CERTIFICATE_SIGNING_PRIVATE_KEY is not set; using a temporary key. Certificates signed now can't be verified after a restart."
+      );
+      signingKey = crypto.generateKeyPairSync("ec", {
+        namedCurve: "P-256",
+      }).privateKey;
+    }
+
+    return signingKey;
+  }
+
+  // Public half of the signing key, as a JWK for WebCrypto and PEM for tools
+  static getPublicKey(): CertificateVerificationKey {
+    const publicKey = crypto.createPublicKey(this.getSigningKey());
+    const jwk = publicKey.export({ format: "jwk" });
+
+    return {
+      key_id: crypto
+        .createHash("sha256")
+        .update(`${jwk.x}.${jwk.y}`)
+        .digest("base64url")
+        .slice(0, 16),
+      algorithm: "ES256",
+      jwk,
+      pem: publicKey.export({ format: "pem", type: "spki" }).toString(),
+    };
+  }
+
+  private static signData(data: string): string {
+    return crypto
+      .sign("sha256", Buffer.from(data), {
+        key: this.getSigningKey(),
+        dsaEncoding: "ieee-p1363",
+      })
+      .toString("base64url");
+  }
+
+  static sign(claims: Omit<CertificateClaims, "v" | "k">): string {
+    const encoded = base64url(
+      JSON.stringify({ v: 1, k: this.getPublicKey().key_id, ...claims })
+    );
+    return `${encoded}.${this.signData(encoded)}`;
+  }
+
+  // Compact ES256 JWS with the same key, for credentials exported as JWTs
+  static signJwt(payload: Record<string, unknown>): string {
+    const { key_id, jwk } = this.getPublicKey();
+    const data = `${base64url(
+      JSON.stringify({ alg: "ES256", typ: "JWT", kid: key_id, jwk })
+    )}.${base64url(JSON.stringify(payload))}`;
+    return `${data}.${this.signData(data)}`;
+  }
+
+  static getVerificationUrl(token: string): string {
+    const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+    return `${frontendUrl}/certificate/verify?signed=${token}`;
+  }
+
+  // PNG of the QR code that links to the signed verification page
+  static renderQrCode(token: string, size = 240): Promise<Buffer> {
+    return QRCode.toBuffer(this.getVerificationUrl(token), {
+      type: "png",
+      width: size,
+      margin: 1,
+      errorCorrectionLevel: "M",
+    });
+  }
+}
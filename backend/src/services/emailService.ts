@@ -312,6 +312,61 @@ export interface EmailTemplateData {
   ticketUrl: string;
 }
 
+export interface EventInvitationEmailData {
+  inviteeName?: string;
+  organizerName: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  inviteUrl: string;
+  message?: string;
+  expiresAt?: string;
+}
+
+export interface WaitlistOfferEmailData {
+  participantName: string;
+  eventTitle: string;
+  claimUrl: string;
+  expiresAt: string;
+  requiresPayment: boolean;
+}
+
+export interface FeedbackRequestEmailData {
+  participantName: string;
+  eventTitle: string;
+  feedbackUrl: string;
+  closesAt: string;
+  isReminder: boolean;
+}
+
+export type StaffAccessChange =
+  | "permissions-updated"
+  | "suspended"
+  | "reactivated"
+  | "removed";
+
+export interface StaffAccessUpdateEmailData {
+  staffName: string;
+  eventTitle: string;
+  change: StaffAccessChange;
+  permissions: string[];
+  loginUrl: string;
+}
+
+export interface StaffAssignmentResponseEmailData {
+  organizerName: string;
+  staffName: string;
+  eventTitle: string;
+  accepted: boolean;
+}
+
+export interface OwnershipTransferEmailData {
+  recipientName: string;
+  ownerName: string;
+  eventTitle: string;
+  dashboardUrl: string;
+}
+
 export class EmailService {
   // Test email configuration
   static async testConnection(): Promise<boolean> {
@@ -1522,6 +1577,310 @@ export class EmailService {
       }
     }
   }
+
+  /**
+   * Send through SMTP (the organizer's Gmail when their tokens are given),
+   * falling back to the Gmail API with the same tokens. Resolves to whether
+   * the email went out and never throws.
+   */
+  private static async sendWithFallback(
+    to: string,
+    subject: string,
+    html: string,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    try {
+      const transporter = await getTransporter(
+        userEmail,
+        userAccessToken,
+        userRefreshToken
+      );
+
+      await transporter.sendMail({
+        from:
+          userEmail || process.env.FROM_EMAIL || "noreply@eventplatform.com",
+        to,
+        subject,
+        html,
+      });
+
+      console.log(`✅ "${subject}" sent successfully via SMTP to ${to}`);
+      return true;
+    } catch (smtpError) {
+      console.warn("⚠️ SMTP email failed, trying Gmail API:", smtpError);
+
+      if (!userEmail || !userAccessToken || !userRefreshToken) {
+        console.error("❌ No Gmail API credentials provided");
+        return false;
+      }
+
+      try {
+        await sendEmailViaGmailAPI(
+          userEmail,
+          userAccessToken,
+          userRefreshToken,
+          to,
+          subject,
+          html
+        );
+
+        console.log(
+          `✅ "${subject}" sent successfully via Gmail API to ${to}`
+        );
+        return true;
+      } catch (gmailError) {
+        console.error("❌ Gmail API email also failed:", gmailError);
+        return false;
+      }
+    }
+  }
+
+  // Send an invitation for a private or invite-only event
+  static async sendEventInvitation(
+    to: string,
+    data: EventInvitationEmailData,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    const subject = `You're invited: ${data.eventTitle}`;
+    const html = this.generateEventInvitationTemplate(data);
+
+    return this.sendWithFallback(
+      to,
+      subject,
+      html,
+      userEmail,
+      userAccessToken,
+      userRefreshToken
+    );
+  }
+
+  // Tell a waitlisted attendee that a seat has opened up for them
+  static async sendWaitlistOffer(
+    to: string,
+    data: WaitlistOfferEmailData,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    const subject = `A spot opened up - ${data.eventTitle}`;
+    const html = `
+      <p>Hi ${data.participantName},</p>
+      <p>Good news! A spot has opened up for <strong>${data.eventTitle}</strong> and you're next on the waitlist.</p>
+      <p>Your spot is held until <strong>${data.expiresAt}</strong>. ${
+        data.requiresPayment
+          ? "Claim it and complete payment before then to confirm your registration."
+          : "Claim it before then to confirm your registration."
+      }</p>
+      <p><a href="${data.claimUrl}">Claim your spot</a></p>
+      <p>If you don't claim it in time, the spot will be offered to the next person on the waitlist.</p>
+      <p>Best regards,<br/>The Event Team</p>
+    `;
+
+    return this.sendWithFallback(
+      to,
+      subject,
+      html,
+      userEmail,
+      userAccessToken,
+      userRefreshToken
+    );
+  }
+
+  // Ask a checked-in attendee for feedback once the event is over
+  static async sendFeedbackRequest(
+    to: string,
+    data: FeedbackRequestEmailData,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    const subject = data.isReminder
+      ? `Reminder: how was ${data.eventTitle}?`
+      : `How was ${data.eventTitle}?`;
+    const html = `
+      <p>Hi ${data.participantName},</p>
+      <p>${
+        data.isReminder
+          ? `We'd still love to hear what you thought of <strong>${data.eventTitle}</strong>.`
+          : `Thanks for attending <strong>${data.eventTitle}</strong>! We'd love to hear what you thought.`
+      }</p>
+      <p><a href="${data.feedbackUrl}">Share your feedback</a></p>
+      <p>It only takes a few minutes. Feedback is open until <strong>${data.closesAt}</strong>.</p>
+      <p>Best regards,<br/>The Event Team</p>
+    `;
+
+    return this.sendWithFallback(
+      to,
+      subject,
+      html,
+      userEmail,
+      userAccessToken,
+      userRefreshToken
+    );
+  }
+
+  // Tell a staff member their access to an event has changed
+  static async sendStaffAccessUpdate(
+    to: string,
+    data: StaffAccessUpdateEmailData,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    const summaries: Record<StaffAccessChange, [string, string]> = {
+      "permissions-updated": [
+        `Your staff permissions changed for ${data.eventTitle}`,
+        `Your permissions for <strong>${data.eventTitle}</strong> have been updated. You can now: <strong>${
+          data.permissions.join(", ") || "no actions"
+        }</strong>.`,
+      ],
+      suspended: [
+        `Your staff access is suspended for ${data.eventTitle}`,
+        `Your staff access for <strong>${data.eventTitle}</strong> has been suspended. You won't be able to work on this event until the organizer reactivates it.`,
+      ],
+      reactivated: [
+        `Your staff access is restored for ${data.eventTitle}`,
+        `Your staff access for <strong>${data.eventTitle}</strong> has been reactivated.`,
+      ],
+      removed: [
+        `You have been removed as staff from ${data.eventTitle}`,
+        `You are no longer a staff member for <strong>${data.eventTitle}</strong>.`,
+      ],
+    };
+    const [subject, summary] = summaries[data.change];
+    const html = `
+      <p>Hi ${data.staffName},</p>
+      <p>${summary}</p>
+      ${
+        data.change === "removed" || data.change === "suspended"
+          ? ""
+          : `<p>You can log in and view your event dashboard here: <a href="${data.loginUrl}">${data.loginUrl}</a></p>`
+      }
+      <p>If you have any questions, please contact the event organizer.</p>
+      <p>Best regards,<br/>Event Management Team</p>
+    `;
+
+    return this.sendWithFallback(
+      to,
+      subject,
+      html,
+      userEmail,
+      userAccessToken,
+      userRefreshToken
+    );
+  }
+
+  // Tell the organizer who assigned a staff member whether they accepted
+  static async sendStaffAssignmentResponse(
+    email: string,
+    data: StaffAssignmentResponseEmailData
+  ) {
+    const response = data.accepted ? "accepted" : "declined";
+    const subject = `${data.staffName} ${response} the staff assignment for ${data.eventTitle}`;
+    const html = `
+      <p>Hi ${data.organizerName},</p>
+      <p><strong>${data.staffName}</strong> has ${response} your staff assignment for <strong>${data.eventTitle}</strong>.</p>
+      ${
+        data.accepted
+          ? ""
+          : "<p>They no longer have access to the event. You can remove them from your staff list or add someone else.</p>"
+      }
+      <p>Best regards,<br/>Event Management Team</p>
+    `;
+
+    return this.sendWithFallback(email, subject, html);
+  }
+
+  // Ask a user to accept ownership of an event
+  static async sendOwnershipTransferRequest(
+    to: string,
+    data: OwnershipTransferEmailData,
+    userEmail?: string,
+    userAccessToken?: string,
+    userRefreshToken?: string
+  ): Promise<boolean> {
+    const subject = `${data.ownerName} wants to transfer ${data.eventTitle} to you`;
+    const html = `
+      <p>Hi ${data.recipientName},</p>
+      <p><strong>${data.ownerName}</strong> would like to make you the owner of <strong>${data.eventTitle}</strong>.</p>
+      <p>Once you accept, you'll have full control of the event and ${data.ownerName} will stay on as a co-organizer.</p>
+      <p>You can accept or decline from your dashboard: <a href="${data.dashboardUrl}">${data.dashboardUrl}</a></p>
+      <p>Best regards,<br/>Event Management Team</p>
+    `;
+
+    return this.sendWithFallback(
+      to,
+      subject,
+      html,
+      userEmail,
+      userAccessToken,
+      userRefreshToken
+    );
+  }
+
+  private static generateEventInvitationTemplate(
+    data: EventInvitationEmailData
+  ): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Event Invitation</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+        .event-details { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; }
+        .message { background: white; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #667eea; }
+        .button { background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>💌 You're Invited!</h1>
+            <p>${data.organizerName} invited you to ${data.eventTitle}</p>
+        </div>
+
+        <div class="content">
+            <h2>Hello${data.inviteeName ? ` ${data.inviteeName}` : ""}!</h2>
+            <p>You have been invited to register for <strong>${data.eventTitle}</strong>. This is an invitation-only event, so please use the link below to register.</p>
+
+            ${
+              data.message
+                ? `<div class="message"><p>${data.message}</p></div>`
+                : ""
+            }
+
+            <div class="event-details">
+                <h3>📅 Event Details</h3>
+                <p><strong>Date:</strong> ${data.eventDate}</p>
+                <p><strong>Location:</strong> ${data.eventLocation}</p>
+            </div>
+
+            <a href="${data.inviteUrl}" class="button">✅ Accept Invitation</a>
+
+            <p>This invitation is personal to you${
+              data.expiresAt ? ` and expires on ${data.expiresAt}` : ""
+            }. Please don't forward it.</p>
+        </div>
+
+        <div class="footer">
+            <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
 }
 
 export default EmailService;
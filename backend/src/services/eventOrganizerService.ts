@@ -0,0 +1,412 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { EmailService } from "./emailService.js";
+import { OrganizationService } from "./organizationService.js";
+import { CO_ORGANIZER_PERMISSIONS } from "../../../shared/dist/permissions.js";
+
+export type OwnershipTransferStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "cancelled";
+
+export interface OwnershipTransfer {
+  id: string;
+  event_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: OwnershipTransferStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+interface OrganizerEvent {
+  id: string;
+  title: string;
+  organizer_id: string;
+}
+
+interface OrganizerUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface EventOrganizers {
+  owner: OrganizerUser | null;
+  coOrganizers: (OrganizerUser & { assignment_id: string })[];
+  pendingTransfer: (OwnershipTransfer & { to_user: OrganizerUser }) | null;
+}
+
+const TRANSFER_COLUMNS =
+  "id, event_id, from_user_id, to_user_id, status, created_at, responded_at";
+
+const getDashboardUrl = () =>
+  `${process.env.FRONTEND_URL || "http://localhost:5173"}/dashboard`;
+
+/**
+ * Who runs an event. The owner is events.organizer_id; co-organizers are
+ * active event_users rows with the organizer role, holding the co-organizer
+ * template (everything but deleting the event). Only the owner, an admin or
+ * an existing organizer can change who co-organizes. Ownership moves only
+ * once the recipient accepts a transfer, and the previous owner stays on as
+ * a co-organizer.
+ */
+export class EventOrganizerService {
+  static async getEvent(eventId: string): Promise<OrganizerEvent | null> {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select("id, title, organizer_id")
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch event: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async findUserByEmail(email: string): Promise<OrganizerUser | null> {
+    const { data, error } = await supabaseAdmin
+      .from("users")
+      .select("id, name, email")
+      .eq("email", email.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch user: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The owner, admins and co-organizers decide who else co-organizes
+  static async canManageOrganizers(
+    event: OrganizerEvent,
+    user: { id: string; role?: string }
+  ): Promise<boolean> {
+    if (user.role === "admin" || event.organizer_id === user.id) {
+      return true;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .select("id")
+      .eq("event_id", event.id)
+      .eq("user_id", user.id)
+      .eq("role", "organizer")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch event assignment: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  // Events the user co-organizes, for listings that only look at organizer_id
+  static async getCoOrganizedEventIds(userId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .select("event_id")
+      .eq("user_id", userId)
+      .eq("role", "organizer")
+      .eq("is_active", true);
+
+    if (error) {
+      throw new Error(`Failed to fetch co-organized events: ${error.message}`);
+    }
+
+    return (data || []).map((row) => row.event_id);
+  }
+
+  static async getOrganizers(event: OrganizerEvent): Promise<EventOrganizers> {
+    const [
+      { data: owner, error: ownerError },
+      { data: rows, error: rowsError },
+      { data: transfer, error: transferError },
+    ] = await Promise.all([
+      supabaseAdmin
+        .from("users")
+        .select("id, name, email")
+        .eq("id", event.organizer_id)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("event_users")
+        .select("id, user:user_id(id, name, email)")
+        .eq("event_id", event.id)
+        .eq("role", "organizer")
+        .eq("is_active", true)
+        .neq("user_id", event.organizer_id),
+      supabaseAdmin
+        .from("event_ownership_transfers")
+        .select(`${TRANSFER_COLUMNS}, to_user:to_user_id(id, name, email)`)
+        .eq("event_id", event.id)
+        .eq("status", "pending")
+        .maybeSingle(),
+    ]);
+
+    const error = ownerError || rowsError || transferError;
+    if (error) {
+      throw new Error(`Failed to fetch organizers: ${error.message}`);
+    }
+
+    return {
+      owner,
+      coOrganizers: (rows || []).map((row: any) => ({
+        ...row.user,
+        assignment_id: row.id,
+      })),
+      pendingTransfer: transfer as EventOrganizers["pendingTransfer"],
+    };
+  }
+
+  /**
+   * Make a user a co-organizer. An existing staff assignment is promoted
+   * rather than duplicated.
+   */
+  static async addCoOrganizer(
+    event: OrganizerEvent,
+    user: OrganizerUser,
+    assignedBy: string
+  ): Promise<void> {
+    await this.upsertOrganizerRow(event.id, user.id, assignedBy);
+  }
+
+  // Returns false when the user isn't a co-organizer of the event
+  static async removeCoOrganizer(
+    event: OrganizerEvent,
+    userId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .delete()
+      .eq("event_id", event.id)
+      .eq("user_id", userId)
+      .eq("role", "organizer")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to remove co-organizer: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Offer ownership to another user. Any earlier pending offer for the event
+   * is cancelled so only one can be accepted.
+   */
+  static async requestTransfer(
+    event: OrganizerEvent,
+    recipient: OrganizerUser
+  ): Promise<OwnershipTransfer> {
+    await this.cancelTransfer(event.id);
+
+    const { data, error } = await supabaseAdmin
+      .from("event_ownership_transfers")
+      .insert({
+        event_id: event.id,
+        from_user_id: event.organizer_id,
+        to_user_id: recipient.id,
+        status: "pending",
+        created_at: new Date().toISOString(),
+      })
+      .select(TRANSFER_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create ownership transfer: ${error.message}`);
+    }
+
+    await this.notifyRecipient(event, recipient);
+    return data as OwnershipTransfer;
+  }
+
+  static async cancelTransfer(eventId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("event_ownership_transfers")
+      .update({
+        status: "cancelled",
+        responded_at: new Date().toISOString(),
+      })
+      .eq("event_id", eventId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to cancel ownership transfer: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Transfers waiting on the user's answer
+  static async getPendingTransfers(userId: string) {
+    const { data, error } = await supabaseAdmin
+      .from("event_ownership_transfers")
+      .select(
+        `${TRANSFER_COLUMNS},
+        event:event_id(id, title, start_date),
+        from_user:from_user_id(id, name, email)`
+      )
+      .eq("to_user_id", userId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch ownership transfers: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * The recipient's answer. Like staff responses the update only matches
+   * pending rows, so it returns null for a transfer that was already
+   * answered or cancelled. An offer made by someone who has since stopped
+   * owning the event is cancelled instead of accepted.
+   */
+  static async respondToTransfer(
+    transferId: string,
+    userId: string,
+    accept: boolean
+  ): Promise<OwnershipTransfer | null> {
+    const { data: pending, error: pendingError } = await supabaseAdmin
+      .from("event_ownership_transfers")
+      .select(`${TRANSFER_COLUMNS}, event:event_id(organizer_id)`)
+      .eq("id", transferId)
+      .eq("to_user_id", userId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (pendingError) {
+      throw new Error(
+        `Failed to fetch ownership transfer: ${pendingError.message}`
+      );
+    }
+    if (!pending) return null;
+
+    const stale =
+      (pending.event as any)?.organizer_id !== pending.from_user_id;
+
+    const { data, error } = await supabaseAdmin
+      .from("event_ownership_transfers")
+      .update({
+        status: stale ? "cancelled" : accept ? "accepted" : "declined",
+        responded_at: new Date().toISOString(),
+      })
+      .eq("id", transferId)
+      .eq("status", "pending")
+      .select(TRANSFER_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to respond to transfer: ${error.message}`);
+    }
+    if (!data || stale) return null;
+
+    const transfer = data as OwnershipTransfer;
+    if (accept) {
+      const { error: eventError } = await supabaseAdmin
+        .from("events")
+        .update({
+          organizer_id: transfer.to_user_id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", transfer.event_id);
+
+      if (eventError) {
+        throw new Error(
+          `Failed to transfer ownership: ${eventError.message}`
+        );
+      }
+
+      await this.upsertOrganizerRow(
+        transfer.event_id,
+        transfer.to_user_id,
+        transfer.from_user_id
+      );
+      await this.upsertOrganizerRow(
+        transfer.event_id,
+        transfer.from_user_id,
+        transfer.to_user_id
+      );
+    }
+
+    return transfer;
+  }
+
+  private static async upsertOrganizerRow(
+    eventId: string,
+    userId: string,
+    assignedBy: string
+  ): Promise<void> {
+    const organizerRow = {
+      role: "organizer",
+      permissions: CO_ORGANIZER_PERMISSIONS,
+      is_active: true,
+      status: "accepted",
+    };
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("event_users")
+      .select("id")
+      .eq("event_id", eventId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(
+        `Failed to fetch event assignment: ${existingError.message}`
+      );
+    }
+
+    const { error } = existing
+      ? await supabaseAdmin
+          .from("event_users")
+          .update(organizerRow)
+          .eq("id", existing.id)
+      : await supabaseAdmin.from("event_users").insert({
+          ...organizerRow,
+          event_id: eventId,
+          user_id: userId,
+          assigned_by: assignedBy,
+        });
+
+    if (error) {
+      throw new Error(`Failed to save organizer assignment: ${error.message}`);
+    }
+  }
+
+  // Emails never fail the change they report
+  private static async notifyRecipient(
+    event: OrganizerEvent,
+    recipient: OrganizerUser
+  ): Promise<void> {
+    try {
+      const { data: owner } = await supabaseAdmin
+        .from("users")
+        .select("name, email")
+        .eq("id", event.organizer_id)
+        .maybeSingle();
+
+      const tokenData = await OrganizationService.getEventSenderToken(event);
+      await EmailService.sendOwnershipTransferRequest(
+        recipient.email,
+        {
+          recipientName: recipient.name || "there",
+          ownerName: owner?.name || owner?.email || "The organizer",
+          eventTitle: event.title,
+          dashboardUrl: getDashboardUrl(),
+        },
+        tokenData?.email,
+        tokenData?.accessToken,
+        tokenData?.refreshToken
+      );
+    } catch (error) {
+      console.error("📧 Ownership transfer email failed:", error);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  OrganizationService,
+  hasOrganizationRole,
+} from "./organizationService.js";
+import { ACCEPTED_ASSIGNMENT_FILTER } from "./staffAssignmentService.js";
+import {
+  ALL_EVENT_PERMISSIONS,
+  CO_ORGANIZER_PERMISSIONS,
+  EVENT_PERMISSIONS,
+  hasEventPermission,
+  normalizePermissions,
+  type EventPermission,
+} from "../../../shared/dist/permissions.js";
+
+export interface EventAccess {
+  status: number;
+  error: string | null;
+  // "organizer" for anyone who runs the event, however they got there
+  role: "organizer" | "staff" | null;
+  permissions: EventPermission[];
+}
+
+/**
+ * Resolves what a user may do on an event. Admins, the event's owner and the
+ * owners and admins of the organization that owns it hold every permission.
+ * Co-organizers (active event_users rows with the organizer role) hold the
+ * co-organizer template, everything but deleting the event. Anyone else gets
+ * the permissions on their active event_users assignment, once they have
+ * accepted it.
+ * All event-scoped routes go through this, via requireEventPermission or,
+ * where the event comes from a looked-up record, checkPermission.
+ */
+export class EventPermissionService {
+  static async getAccess(
+    eventId: string,
+    user: { id: string; role?: string }
+  ): Promise<EventAccess> {
+    const { data: event } = await supabaseAdmin
+      .from("events")
+      .select("id, organizer_id, organization_id")
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (!event) {
+      return {
+        status: 404,
+        error: "Event not found",
+        role: null,
+        permissions: [],
+      };
+    }
+
+    const fullAccess: EventAccess = {
+      status: 200,
+      error: null,
+      role: "organizer",
+      permissions: ALL_EVENT_PERMISSIONS,
+    };
+
+    if (user.role === "admin" || event.organizer_id === user.id) {
+      return fullAccess;
+    }
+
+    if (event.organization_id) {
+      const role = await OrganizationService.getMemberRole(
+        event.organization_id,
+        user.id
+      );
+      if (hasOrganizationRole(role, "admin")) {
+        return fullAccess;
+      }
+    }
+
+    const { data: assignment } = await supabaseAdmin
+      .from("event_users")
+      .select("role, permissions")
+      .eq("event_id", eventId)
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .or(ACCEPTED_ASSIGNMENT_FILTER)
+      .maybeSingle();
+
+    if (assignment?.role === "organizer") {
+      return {
+        status: 200,
+        error: null,
+        role: "organizer",
+        permissions: CO_ORGANIZER_PERMISSIONS,
+      };
+    }
+
+    return {
+      status: 200,
+      error: null,
+      role: assignment ? "staff" : null,
+      permissions: normalizePermissions(assignment?.permissions),
+    };
+  }
+
+  static async checkPermission(
+    eventId: string,
+    user: { id: string; role?: string },
+    permission: EventPermission
+  ): Promise<{ status: number; error: string | null }> {
+    const access = await this.getAccess(eventId, user);
+    if (access.error) {
+      return { status: access.status, error: access.error };
+    }
+
+    if (!hasEventPermission(access.permissions, permission)) {
+      return {
+        status: 403,
+        error: `Access denied. You need the "${EVENT_PERMISSIONS[permission]}" permission for this event.`,
+      };
+    }
+
+    return { status: 200, error: null };
+  }
+
+  // Yes/no form of checkPermission, for handlers that adjust what they show
+  static async hasPermission(
+    eventId: string,
+    user: { id: string; role?: string },
+    permission: EventPermission
+  ): Promise<boolean> {
+    const { error } = await this.checkPermission(eventId, user, permission);
+    return !error;
+  }
+
+  /**
+   * Check a permission and load the event row the handler works with, for
+   * routes keyed by something other than the event (a tier, a promo code,
+   * a registration) or that need event fields after the check.
+   */
+  static async getPermittedEvent(
+    eventId: string,
+    user: { id: string; role?: string },
+    permission: EventPermission,
+    columns = "id, title, organizer_id"
+  ): Promise<{ event: any | null; status: number; error: string | null }> {
+    const { status, error } = await this.checkPermission(
+      eventId,
+      user,
+      permission
+    );
+    if (error) {
+      return { event: null, status, error };
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from("events")
+      .select(columns)
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (eventError || !event) {
+      return { event: null, status: 404, error: "Event not found" };
+    }
+
+    return { event, status: 200, error: null };
+  }
+}
@@ -0,0 +1,305 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { EmailService } from "./emailService.js";
+import { OrganizationService } from "./organizationService.js";
+import { FormValidationService } from "./formValidationService.js";
+import type { FeedbackSchedule } from "../../../shared/dist/schemas.js";
+
+// How often events are checked for feedback requests that are due
+const REQUEST_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_FEEDBACK_SCHEDULE: FeedbackSchedule = {
+  enabled: false,
+  sendAfterHours: 2,
+  reminderAfterHours: 72,
+  windowDays: 14,
+};
+
+export interface FeedbackScheduleStatus extends FeedbackSchedule {
+  opensAt: string | null; // When requests start going out
+  closesAt: string | null; // After this nothing more is sent
+  requestsSent: number;
+  remindersSent: number;
+}
+
+interface ScheduledEvent {
+  id: string;
+  title: string;
+  end_date: string;
+  organizer_id: string;
+}
+
+interface ScheduleRow {
+  event_id: string;
+  enabled: boolean;
+  send_after_hours: number;
+  reminder_after_hours: number;
+  window_days: number;
+}
+
+const SCHEDULE_COLUMNS =
+  "event_id, enabled, send_after_hours, reminder_after_hours, window_days";
+
+const toSchedule = (row: ScheduleRow): FeedbackSchedule => ({
+  enabled: row.enabled,
+  sendAfterHours: row.send_after_hours,
+  reminderAfterHours: row.reminder_after_hours,
+  windowDays: row.window_days,
+});
+
+// The send window, measured from the end of the event
+const getWindow = (endDate: string, schedule: FeedbackSchedule) => {
+  const end = new Date(endDate).getTime();
+  return {
+    opensAt: end + schedule.sendAfterHours * HOUR_MS,
+    closesAt: end + schedule.windowDays * 24 * HOUR_MS,
+  };
+};
+
+/**
+ * Emails the feedback form to checked-in attendees once an event is over,
+ * then one reminder to those who haven't answered. Each attendee gets a
+ * feedback_requests row, claimed before sending, so overlapping sweeps
+ * never email anyone twice.
+ */
+export class FeedbackRequestService {
+  static async getSchedule(eventId: string): Promise<FeedbackSchedule> {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_schedules")
+      .select(SCHEDULE_COLUMNS)
+      .eq("event_id", eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback schedule: ${error.message}`);
+    }
+
+    return data ? toSchedule(data) : { ...DEFAULT_FEEDBACK_SCHEDULE };
+  }
+
+  static async saveSchedule(
+    eventId: string,
+    schedule: FeedbackSchedule
+  ): Promise<FeedbackSchedule> {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_schedules")
+      .upsert(
+        {
+          event_id: eventId,
+          enabled: schedule.enabled,
+          send_after_hours: schedule.sendAfterHours,
+          reminder_after_hours: schedule.reminderAfterHours,
+          window_days: schedule.windowDays,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "event_id" }
+      )
+      .select(SCHEDULE_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save feedback schedule: ${error.message}`);
+    }
+
+    return toSchedule(data);
+  }
+
+  // The schedule plus when it runs and how much has gone out so far
+  static async getStatus(
+    eventId: string,
+    endDate: string | null
+  ): Promise<FeedbackScheduleStatus> {
+    const schedule = await this.getSchedule(eventId);
+
+    const { data: requests, error } = await supabaseAdmin
+      .from("feedback_requests")
+      .select("reminder_sent_at")
+      .eq("event_id", eventId);
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback requests: ${error.message}`);
+    }
+
+    const window = endDate ? getWindow(endDate, schedule) : null;
+    return {
+      ...schedule,
+      opensAt: window ? new Date(window.opensAt).toISOString() : null,
+      closesAt: window ? new Date(window.closesAt).toISOString() : null,
+      requestsSent: requests?.length || 0,
+      remindersSent: (requests || []).filter((r) => r.reminder_sent_at).length,
+    };
+  }
+
+  // Send whatever requests and reminders are due across all events
+  static async sendDueRequests(): Promise<void> {
+    try {
+      const { data: schedules, error } = await supabaseAdmin
+        .from("feedback_schedules")
+        .select(
+          `${SCHEDULE_COLUMNS}, event:event_id(id, title, end_date, organizer_id)`
+        )
+        .eq("enabled", true);
+
+      if (error || !schedules) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const row of schedules as any[]) {
+        const event: ScheduledEvent | null = Array.isArray(row.event)
+          ? row.event[0]
+          : row.event;
+        if (!event?.end_date) continue;
+
+        const schedule = toSchedule(row);
+        const { opensAt, closesAt } = getWindow(event.end_date, schedule);
+        if (now < opensAt || now >= closesAt) continue;
+
+        await this.sendForEvent(event, schedule, closesAt);
+      }
+    } catch (error) {
+      console.error("Feedback request sweep error:", error);
+    }
+  }
+
+  // Periodically send feedback requests for events that have ended
+  static startScheduler(): NodeJS.Timeout {
+    return setInterval(() => {
+      this.sendDueRequests();
+    }, REQUEST_SWEEP_INTERVAL_MS);
+  }
+
+  private static async sendForEvent(
+    event: ScheduledEvent,
+    schedule: FeedbackSchedule,
+    closesAt: number
+  ): Promise<void> {
+    const form = await FormValidationService.getEventForm(
+      event.id,
+      "feedback"
+    );
+    if (!form) return;
+
+    const [attendees, requests, submissions] = await Promise.all([
+      supabaseAdmin
+        .from("registrations")
+        .select("id, name, email, attendance!inner(id)")
+        .eq("event_id", event.id)
+        .neq("status", "cancelled"),
+      supabaseAdmin
+        .from("feedback_requests")
+        .select("registration_id, sent_at, reminder_sent_at")
+        .eq("event_id", event.id),
+      supabaseAdmin
+        .from("feedback_submissions")
+        .select("registration_id")
+        .eq("event_id", event.id),
+    ]);
+
+    if (attendees.error || requests.error || submissions.error) {
+      console.error(
+        `Failed to load feedback recipients for event ${event.id}:`,
+        attendees.error || requests.error || submissions.error
+      );
+      return;
+    }
+
+    const responded = new Set(
+      (submissions.data || []).map((row) => row.registration_id)
+    );
+    const requestsByRegistration = new Map(
+      (requests.data || []).map((row) => [row.registration_id, row])
+    );
+    const pending = (attendees.data || []).filter(
+      (attendee) => attendee.email && !responded.has(attendee.id)
+    );
+    if (pending.length === 0) return;
+
+    const tokenData = await OrganizationService.getEventSenderToken(event);
+    const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+    const feedbackUrl = `${frontendUrl}/events/${event.id}/register?type=feedback`;
+    const now = Date.now();
+
+    for (const attendee of pending) {
+      const request = requestsByRegistration.get(attendee.id);
+      const isReminder = !!request;
+
+      if (request) {
+        const remindAt =
+          new Date(request.sent_at).getTime() +
+          schedule.reminderAfterHours * HOUR_MS;
+        if (request.reminder_sent_at || now < remindAt) continue;
+        if (!(await this.claimReminder(attendee.id))) continue;
+      } else if (!(await this.claimRequest(event.id, attendee.id))) {
+        continue;
+      }
+
+      const sent = await EmailService.sendFeedbackRequest(
+        attendee.email,
+        {
+          participantName: attendee.name || "there",
+          eventTitle: event.title,
+          feedbackUrl,
+          closesAt: new Date(closesAt).toLocaleDateString(),
+          isReminder,
+        },
+        tokenData?.email,
+        tokenData?.accessToken,
+        tokenData?.refreshToken
+      );
+
+      // Release the claim so the next sweep tries again
+      if (!sent) {
+        await this.releaseClaim(attendee.id, isReminder);
+      }
+    }
+  }
+
+  // Returns false when another sweep already sent this attendee's request
+  private static async claimRequest(
+    eventId: string,
+    registrationId: string
+  ): Promise<boolean> {
+    const { error } = await supabaseAdmin.from("feedback_requests").insert({
+      event_id: eventId,
+      registration_id: registrationId,
+      sent_at: new Date().toISOString(),
+    });
+
+    if (error && error.code !== "23505") {
+      console.error("Failed to record feedback request:", error);
+    }
+    return !error;
+  }
+
+  private static async claimReminder(registrationId: string) {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_requests")
+      .update({ reminder_sent_at: new Date().toISOString() })
+      .eq("registration_id", registrationId)
+      .is("reminder_sent_at", null)
+      .select("registration_id");
+
+    if (error) {
+      console.error("Failed to record feedback reminder:", error);
+    }
+    return !error && (data?.length || 0) > 0;
+  }
+
+  private static async releaseClaim(
+    registrationId: string,
+    isReminder: boolean
+  ): Promise<void> {
+    const query = supabaseAdmin.from("feedback_requests");
+    const { error } = isReminder
+      ? await query
+          .update({ reminder_sent_at: null })
+          .eq("registration_id", registrationId)
+      : await query.delete().eq("registration_id", registrationId);
+
+    if (error) {
+      console.error("Failed to release feedback request:", error);
+    }
+  }
+}
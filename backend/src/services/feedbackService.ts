@@ -0,0 +1,357 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  DEFAULT_RATING_SCALE,
+  type FormFieldDefinition,
+  type FormFieldType,
+} from "./formValidationService.js";
+import { pickOne } from "../utils/common.js";
+
+export interface FeedbackSubmission {
+  id: string;
+  event_id: string;
+  form_id: string;
+  registration_id: string;
+  responses: Record<string, any>;
+  is_anonymous: boolean;
+  submitted_at: string;
+}
+
+// Submission as organizers see it; anonymous ones carry no attendee details
+export interface FeedbackSubmissionView
+  extends Omit<FeedbackSubmission, "registration_id"> {
+  attendee: { name: string; email: string } | null;
+}
+
+export interface OptionCount {
+  option: string;
+  count: number;
+  percentage: number;
+}
+
+// Net Promoter Score: % promoters (9-10) minus % detractors (0-6)
+export interface NpsBreakdown {
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+export interface LikertRowSummary {
+  row: string;
+  responseCount: number;
+  distribution: OptionCount[];
+}
+
+export interface RankingSummary {
+  option: string;
+  averagePosition: number | null; // 1 = ranked first
+}
+
+export interface QuestionSummary {
+  fieldId: string;
+  label: string;
+  type: FormFieldType;
+  responseCount: number;
+  distribution?: OptionCount[]; // Choice, number, rating, NPS and slider
+  average?: number | null; // Number, rating, NPS and slider
+  textAnswers?: string[]; // Free-text questions, newest first
+  nps?: NpsBreakdown | null;
+  rows?: LikertRowSummary[];
+  ranking?: RankingSummary[]; // Best average position first
+}
+
+export interface FeedbackSummary {
+  totalSubmissions: number;
+  attendeeCount: number;
+  responseRate: number; // Percent of checked-in attendees
+  questions: QuestionSummary[];
+}
+
+export const FEEDBACK_SUBMISSION_COLUMNS = `
+  id, event_id, form_id, registration_id, responses, is_anonymous,
+  submitted_at
+`;
+
+const CHOICE_TYPES: FormFieldType[] = ["select", "radio", "checkbox"];
+const TEXT_TYPES: FormFieldType[] = [
+  "text",
+  "textarea",
+  "email",
+  "phone",
+  "url",
+  "date",
+];
+const NUMERIC_TYPES: FormFieldType[] = ["number", "slider"];
+const TEXT_ANSWER_LIMIT = 50;
+
+const isAnswered = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  value !== "" &&
+  !(Array.isArray(value) && value.length === 0);
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+// Starts from `listed` so options nobody picked still show as 0
+const countValues = (values: string[], listed: string[] = []) => {
+  const counts = new Map<string, number>(listed.map((value) => [value, 0]));
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+};
+
+const toDistribution = (
+  counts: Map<string, number>,
+  total: number
+): OptionCount[] =>
+  Array.from(counts.entries()).map(([option, count]) => ({
+    option,
+    count,
+    percentage: total > 0 ? (count / total) * 100 : 0,
+  }));
+
+/**
+ * Feedback is stored apart from registrations: one submission per
+ * checked-in registration, optionally anonymous. Summaries are built from
+ * the feedback form's field types rather than from answer key names.
+ */
+export class FeedbackService {
+  // The caller's registration for the event, if they were checked in
+  static async getAttendedRegistration(
+    eventId: string,
+    userId: string
+  ): Promise<{ id: string } | null> {
+    const { data: registration, error } = await supabaseAdmin
+      .from("registrations")
+      .select("id, attendance!inner(id)")
+      .eq("event_id", eventId)
+      .eq("user_id", userId)
+      .neq("status", "cancelled")
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check attendance: ${error.message}`);
+    }
+
+    return registration ? { id: registration.id } : null;
+  }
+
+  static async getSubmissionForRegistration(
+    registrationId: string
+  ): Promise<FeedbackSubmission | null> {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_submissions")
+      .select(FEEDBACK_SUBMISSION_COLUMNS)
+      .eq("registration_id", registrationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback: ${error.message}`);
+    }
+
+    return data as FeedbackSubmission | null;
+  }
+
+  /**
+   * Store a submission. Returns null when the registration has already
+   * left feedback (the table is unique on registration_id).
+   */
+  static async submit(submission: {
+    eventId: string;
+    formId: string;
+    registrationId: string;
+    responses: Record<string, any>;
+    isAnonymous: boolean;
+  }): Promise<FeedbackSubmission | null> {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_submissions")
+      .insert({
+        event_id: submission.eventId,
+        form_id: submission.formId,
+        registration_id: submission.registrationId,
+        responses: submission.responses,
+        is_anonymous: submission.isAnonymous,
+      })
+      .select(FEEDBACK_SUBMISSION_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") return null;
+    if (error) {
+      throw new Error(`Failed to save feedback: ${error.message}`);
+    }
+
+    return data as FeedbackSubmission;
+  }
+
+  static async getEventSubmissions(
+    eventId: string
+  ): Promise<FeedbackSubmissionView[]> {
+    const { data, error } = await supabaseAdmin
+      .from("feedback_submissions")
+      .select(
+        `${FEEDBACK_SUBMISSION_COLUMNS},
+        registration:registration_id(name, email)`
+      )
+      .eq("event_id", eventId)
+      .order("submitted_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback: ${error.message}`);
+    }
+
+    // Anonymous feedback never exposes who sent it
+    return (data || []).map(
+      ({ registration, registration_id, ...row }: any) => {
+        const attendee = pickOne(registration);
+        return {
+          ...row,
+          attendee:
+            row.is_anonymous || !attendee
+              ? null
+              : { name: attendee.name, email: attendee.email },
+        };
+      }
+    );
+  }
+
+  static async countAttendees(eventId: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from("attendance")
+      .select("*", { count: "exact", head: true })
+      .eq("event_id", eventId);
+
+    if (error) {
+      throw new Error(`Failed to count attendees: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  static summarize(
+    fields: FormFieldDefinition[],
+    submissions: Pick<FeedbackSubmission, "responses">[],
+    attendeeCount: number
+  ): FeedbackSummary {
+    return {
+      totalSubmissions: submissions.length,
+      attendeeCount,
+      responseRate:
+        attendeeCount > 0 ? (submissions.length / attendeeCount) * 100 : 0,
+      questions: fields
+        .filter((field) => field.type !== "file")
+        .map((field) =>
+          this.summarizeQuestion(
+            field,
+            submissions
+              .map((submission) => submission.responses?.[field.id])
+              .filter(isAnswered)
+          )
+        ),
+    };
+  }
+
+  private static summarizeQuestion(
+    field: FormFieldDefinition,
+    answers: any[]
+  ): QuestionSummary {
+    const summary: QuestionSummary = {
+      fieldId: field.id,
+      label: field.label,
+      type: field.type,
+      responseCount: answers.length,
+    };
+
+    if (CHOICE_TYPES.includes(field.type)) {
+      const counts = countValues(
+        answers.flatMap((answer) =>
+          (Array.isArray(answer) ? answer : [answer]).map(String)
+        ),
+        field.options
+      );
+      summary.distribution = toDistribution(counts, answers.length);
+    } else if (NUMERIC_TYPES.includes(field.type)) {
+      const values = answers
+        .map(Number)
+        .filter((value) => Number.isFinite(value))
+        .sort((a, b) => a - b);
+      summary.responseCount = values.length;
+      summary.distribution = toDistribution(
+        countValues(values.map(String)),
+        values.length
+      );
+      summary.average = average(values);
+    } else if (field.type === "rating" || field.type === "nps") {
+      const [bottom, top] =
+        field.type === "nps"
+          ? [0, 10]
+          : [1, field.scale || DEFAULT_RATING_SCALE];
+      const scores = answers
+        .map(Number)
+        .filter((score) => Number.isInteger(score));
+      const steps = Array.from({ length: top - bottom + 1 }, (_, i) =>
+        String(bottom + i)
+      );
+      summary.responseCount = scores.length;
+      summary.distribution = toDistribution(
+        countValues(scores.map(String), steps),
+        scores.length
+      );
+      summary.average = average(scores);
+      if (field.type === "nps") {
+        summary.nps = this.npsBreakdown(scores);
+      }
+    } else if (field.type === "likert") {
+      summary.rows = (field.rows || []).map((row) => {
+        const choices = answers
+          .map((answer) => answer?.[row])
+          .filter((choice): choice is string => typeof choice === "string");
+        return {
+          row,
+          responseCount: choices.length,
+          distribution: toDistribution(
+            countValues(choices, field.options),
+            choices.length
+          ),
+        };
+      });
+    } else if (field.type === "ranking") {
+      const rankings = answers.filter(Array.isArray);
+      summary.responseCount = rankings.length;
+      summary.ranking = (field.options || [])
+        .map((option) => ({
+          option,
+          averagePosition: average(
+            rankings
+              .map((ranking) => ranking.indexOf(option) + 1)
+              .filter((position) => position > 0)
+          ),
+        }))
+        .sort(
+          (a, b) =>
+            (a.averagePosition ?? Infinity) - (b.averagePosition ?? Infinity)
+        );
+    } else if (TEXT_TYPES.includes(field.type)) {
+      summary.textAnswers = answers
+        .slice(0, TEXT_ANSWER_LIMIT)
+        .map((answer) => String(answer));
+    }
+
+    return summary;
+  }
+
+  private static npsBreakdown(scores: number[]): NpsBreakdown | null {
+    if (scores.length === 0) return null;
+
+    const promoters = scores.filter((score) => score >= 9).length;
+    const detractors = scores.filter((score) => score <= 6).length;
+    return {
+      score: Math.round(((promoters - detractors) / scores.length) * 100),
+      promoters,
+      passives: scores.length - promoters - detractors,
+      detractors,
+    };
+  }
+}
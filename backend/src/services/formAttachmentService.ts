@@ -0,0 +1,274 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { supabaseAdmin } from "../config/supabase.js";
+import type {
+  FieldErrors,
+  FormFieldDefinition,
+} from "./formValidationService.js";
+
+export interface FormAttachment {
+  id: string;
+  event_id: string;
+  field_id: string;
+  user_id: string;
+  registration_id: string | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage: "azure" | "local";
+  storage_key: string;
+  created_at: string;
+}
+
+// What a file field's answer holds in registrations.responses
+export interface AttachmentReference {
+  attachmentId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ResolvedAnswers {
+  responses: Record<string, any>;
+  fieldErrors: FieldErrors;
+  attachmentIds: string[];
+}
+
+export const FORM_ATTACHMENT_COLUMNS = `
+  id, event_id, field_id, user_id, registration_id, file_name, content_type,
+  size_bytes, storage, storage_key, created_at
+`;
+
+export const DEFAULT_MAX_FILE_SIZE_MB = 10;
+// Upload hard limit; fields can only lower it
+export const MAX_ATTACHMENT_SIZE_MB = 25;
+
+// Kept outside uploads/, which is served statically
+const LOCAL_ATTACHMENTS_DIR = path.join(
+  process.cwd(),
+  "storage",
+  "form-attachments"
+);
+
+const useAzure = () => !!process.env.AZURE_STORAGE_CONNECTION_STRING;
+
+const matchesMimeType = (allowed: string, mimeType: string) => {
+  const type = allowed.trim().toLowerCase();
+  return type.endsWith("/*")
+    ? mimeType.startsWith(type.slice(0, -1))
+    : mimeType === type;
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isReference = (value: unknown): value is AttachmentReference =>
+  typeof value === "object" &&
+  value !== null &&
+  UUID_PATTERN.test(String((value as AttachmentReference).attachmentId));
+
+/**
+ * Files uploaded for registration form answers. The file is stored as soon
+ * as it's picked, and the answer keeps a reference that is tied to the
+ * registration when the form is submitted. Files go to Azure when it's
+ * configured, otherwise to local disk.
+ */
+export class FormAttachmentService {
+  // Checks a file against the field's allowed types and size limit
+  static checkFile(
+    field: FormFieldDefinition,
+    file: { mimetype: string; size: number }
+  ): string | null {
+    const allowedTypes = field.validation?.allowedFileTypes || [];
+    const mimeType = file.mimetype.toLowerCase();
+
+    if (
+      allowedTypes.length > 0 &&
+      !allowedTypes.some((type) => matchesMimeType(type, mimeType))
+    ) {
+      return `${field.label} must be one of: ${allowedTypes.join(", ")}`;
+    }
+
+    const maxSizeMb = Math.min(
+      field.validation?.maxFileSizeMb || DEFAULT_MAX_FILE_SIZE_MB,
+      MAX_ATTACHMENT_SIZE_MB
+    );
+    if (file.size > maxSizeMb * 1024 * 1024) {
+      return `${field.label} must be smaller than ${maxSizeMb} MB`;
+    }
+
+    return null;
+  }
+
+  static async store(
+    eventId: string,
+    userId: string,
+    field: FormFieldDefinition,
+    file: Express.Multer.File
+  ): Promise<FormAttachment> {
+    const extension = path
+      .extname(file.originalname)
+      .toLowerCase()
+      .replace(/[^a-z0-9.]/g, "");
+    const storageKey = `${eventId}/${crypto.randomUUID()}${extension}`;
+    const storage = useAzure() ? "azure" : "local";
+
+    if (storage === "azure") {
+      const { azureBlobService } = await import("../config/azure.js");
+      await azureBlobService.uploadAttachment(
+        storageKey,
+        file.buffer,
+        file.mimetype
+      );
+    } else {
+      const filePath = path.join(LOCAL_ATTACHMENTS_DIR, storageKey);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.buffer);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("form_attachments")
+      .insert({
+        event_id: eventId,
+        field_id: field.id,
+        user_id: userId,
+        file_name: path.basename(file.originalname).slice(0, 255),
+        content_type: file.mimetype,
+        size_bytes: file.size,
+        storage,
+        storage_key: storageKey,
+      })
+      .select(FORM_ATTACHMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save attachment: ${error.message}`);
+    }
+
+    return data as FormAttachment;
+  }
+
+  static async getAttachment(
+    attachmentId: string
+  ): Promise<FormAttachment | null> {
+    const { data, error } = await supabaseAdmin
+      .from("form_attachments")
+      .select(FORM_ATTACHMENT_COLUMNS)
+      .eq("id", attachmentId)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      throw new Error(`Failed to fetch attachment: ${error.message}`);
+    }
+
+    return (data as FormAttachment) || null;
+  }
+
+  static async read(attachment: FormAttachment): Promise<Buffer> {
+    if (attachment.storage === "azure") {
+      const { azureBlobService } = await import("../config/azure.js");
+      return azureBlobService.downloadAttachment(attachment.storage_key);
+    }
+
+    return fs.readFile(
+      path.join(LOCAL_ATTACHMENTS_DIR, attachment.storage_key)
+    );
+  }
+
+  static toReference(attachment: FormAttachment): AttachmentReference {
+    return {
+      attachmentId: attachment.id,
+      fileName: attachment.file_name,
+      contentType: attachment.content_type,
+      size: attachment.size_bytes,
+    };
+  }
+
+  /**
+   * Checks that each file answer points at an upload this user made for
+   * this event and field, and that it isn't already part of a registration.
+   * Answers are rewritten from the stored record so the client can't
+   * relabel a file.
+   */
+  static async resolveAnswers(
+    eventId: string,
+    userId: string,
+    fields: FormFieldDefinition[],
+    responses: Record<string, any>
+  ): Promise<ResolvedAnswers> {
+    const fileFields = fields.filter(
+      (field) =>
+        field.type === "file" &&
+        responses[field.id] !== undefined &&
+        responses[field.id] !== null
+    );
+    const resolved = { ...responses };
+    const fieldErrors: FieldErrors = {};
+
+    if (fileFields.length === 0) {
+      return { responses: resolved, fieldErrors, attachmentIds: [] };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("form_attachments")
+      .select(FORM_ATTACHMENT_COLUMNS)
+      .in(
+        "id",
+        fileFields
+          .map((field) => responses[field.id])
+          .filter(isReference)
+          .map((reference) => reference.attachmentId)
+      );
+
+    if (error) {
+      throw new Error(`Failed to fetch attachments: ${error.message}`);
+    }
+
+    const byId = new Map(
+      ((data || []) as FormAttachment[]).map((item) => [item.id, item])
+    );
+
+    for (const field of fileFields) {
+      const answer = responses[field.id];
+      const attachment = isReference(answer)
+        ? byId.get(answer.attachmentId)
+        : undefined;
+      if (
+        !attachment ||
+        attachment.event_id !== eventId ||
+        attachment.field_id !== field.id ||
+        attachment.user_id !== userId ||
+        attachment.registration_id
+      ) {
+        fieldErrors[field.id] = `Please upload ${field.label} again`;
+        continue;
+      }
+      resolved[field.id] = this.toReference(attachment);
+    }
+
+    return {
+      responses: resolved,
+      fieldErrors,
+      attachmentIds: fileFields
+        .filter((field) => !fieldErrors[field.id])
+        .map((field) => resolved[field.id].attachmentId),
+    };
+  }
+
+  static async linkToRegistration(
+    attachmentIds: string[],
+    registrationId: string
+  ): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from("form_attachments")
+      .update({ registration_id: registrationId })
+      .in("id", attachmentIds);
+
+    if (error) {
+      throw new Error(`Failed to link attachments: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import { supabaseAdmin } from "../config/supabase.js";
+
+export type FormFieldType =
+  | "text"
+  | "email"
+  | "phone"
+  | "textarea"
+  | "select"
+  | "radio"
+  | "checkbox"
+  | "file"
+  | "date"
+  | "number"
+  | "url"
+  | "rating"
+  | "nps"
+  | "likert"
+  | "ranking"
+  | "slider";
+
+// A field as stored in forms.fields by the form builder
+export interface FormFieldDefinition {
+  id: string;
+  type: FormFieldType;
+  label: string;
+  required?: boolean;
+  options?: string[]; // Choices; Likert scale columns; items to rank
+  rows?: string[]; // Likert statements
+  scale?: number; // Rating fields: number of stars
+  step?: number; // Slider fields
+  validation?: {
+    min?: number;
+    max?: number;
+    pattern?: string;
+    message?: string;
+    allowedFileTypes?: string[];
+    maxFileSizeMb?: number;
+  };
+  conditionalLogic?: {
+    dependsOn: string;
+    condition: "equals" | "not_equals" | "contains";
+    value: string;
+  };
+}
+
+export interface EventForm {
+  id: string;
+  event_id: string;
+  form_type: "registration" | "feedback";
+  fields: FormFieldDefinition[];
+  current_version_id: string | null;
+}
+
+// Field id -> message, shown inline next to the field
+export type FieldErrors = Record<string, string>;
+
+// Defaults the form builder also uses when a field leaves them unset
+export const DEFAULT_RATING_SCALE = 5;
+export const DEFAULT_SLIDER_RANGE = { min: 0, max: 100 };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s\-().]{7,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown) =>
+  typeof value === "number"
+    ? value
+    : typeof value === "string" && value.trim() !== ""
+    ? Number(value)
+    : NaN;
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0) ||
+  (isPlainObject(value) && Object.keys(value).length === 0);
+
+const matchesRule = (
+  rule: NonNullable<FormFieldDefinition["conditionalLogic"]>,
+  answer: unknown
+) => {
+  const expected = rule.value.trim().toLowerCase();
+  const values = (Array.isArray(answer) ? answer : [answer])
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => String(value).trim().toLowerCase());
+
+  switch (rule.condition) {
+    case "equals":
+      return values.includes(expected);
+    case "not_equals":
+      return !values.includes(expected);
+    case "contains":
+      return values.some((value) => value.includes(expected));
+    default:
+      return true;
+  }
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks submitted answers against the event's form so the API enforces
+ * the same rules as the form builder, whatever the client sends. Fields
+ * that aren't on the form are left alone, and fields hidden by conditional
+ * logic are neither required nor kept.
+ */
+export class FormValidationService {
+  static async getEventForm(
+    eventId: string,
+    formType: "registration" | "feedback" = "registration"
+  ): Promise<EventForm | null> {
+    const { data: form, error } = await supabaseAdmin
+      .from("forms")
+      .select("id, event_id, form_type, fields, current_version_id")
+      .eq("event_id", eventId)
+      .eq("form_type", formType)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      throw new Error(`Failed to fetch form: ${error.message}`);
+    }
+
+    if (!form) return null;
+
+    return {
+      ...form,
+      fields: Array.isArray(form.fields) ? form.fields : [],
+    } as EventForm;
+  }
+
+  static validateResponses(
+    fields: FormFieldDefinition[],
+    responses: Record<string, any>
+  ): FieldErrors {
+    const errors: FieldErrors = {};
+    const visible = this.getVisibleFieldIds(fields, responses);
+
+    for (const field of fields) {
+      if (!visible.has(field.id)) continue;
+      const error = this.validateField(field, responses[field.id]);
+      if (error) {
+        errors[field.id] = error;
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fields currently shown given the answers. Mirrors the renderer: a field
+   * whose controlling field is hidden is hidden too, and rules pointing at
+   * missing fields or looping back are ignored.
+   */
+  static getVisibleFieldIds(
+    fields: FormFieldDefinition[],
+    responses: Record<string, any>
+  ): Set<string> {
+    const byId = new Map(fields.map((field) => [field.id, field]));
+    const visibility = new Map<string, boolean>();
+
+    const isVisible = (
+      field: FormFieldDefinition,
+      seen: Set<string>
+    ): boolean => {
+      const cached = visibility.get(field.id);
+      if (cached !== undefined) return cached;
+
+      const rule = field.conditionalLogic;
+      const parent = rule ? byId.get(rule.dependsOn) : undefined;
+      let visible = true;
+
+      if (rule && parent && !seen.has(parent.id)) {
+        seen.add(field.id);
+        visible =
+          isVisible(parent, seen) && matchesRule(rule, responses[parent.id]);
+      }
+
+      visibility.set(field.id, visible);
+      return visible;
+    };
+
+    fields.forEach((field) => isVisible(field, new Set()));
+
+    return new Set(
+      fields.filter((field) => visibility.get(field.id)).map((f) => f.id)
+    );
+  }
+
+  // Drop answers to hidden fields so a skipped branch isn't stored
+  static removeHiddenAnswers(
+    fields: FormFieldDefinition[],
+    responses: Record<string, any>
+  ): Record<string, any> {
+    const visible = this.getVisibleFieldIds(fields, responses);
+    const formFieldIds = new Set(fields.map((field) => field.id));
+
+    return Object.fromEntries(
+      Object.entries(responses).filter(
+        ([key]) => !formFieldIds.has(key) || visible.has(key)
+      )
+    );
+  }
+
+  private static validateField(
+    field: FormFieldDefinition,
+    value: unknown
+  ): string | null {
+    if (isEmpty(value)) {
+      return field.required ? `${field.label} is required` : null;
+    }
+
+    const { min, max, pattern, message } = field.validation || {};
+    const invalid = (fallback: string) => message || fallback;
+
+    switch (field.type) {
+      case "text":
+      case "textarea":
+      case "email":
+      case "phone":
+      case "url": {
+        if (typeof value !== "string") {
+          return `${field.label} must be text`;
+        }
+        const text = value.trim();
+
+        if (field.type === "email" && !EMAIL_PATTERN.test(text)) {
+          return `${field.label} must be a valid email address`;
+        }
+        if (field.type === "phone" && !PHONE_PATTERN.test(text)) {
+          return `${field.label} must be a valid phone number`;
+        }
+        if (field.type === "url" && !isValidUrl(text)) {
+          return `${field.label} must be a valid URL`;
+        }
+        if (min !== undefined && text.length < min) {
+          return invalid(`${field.label} must be at least ${min} characters`);
+        }
+        if (max !== undefined && text.length > max) {
+          return invalid(`${field.label} must be at most ${max} characters`);
+        }
+        if (pattern && !this.matchesPattern(pattern, text)) {
+          return invalid(`${field.label} is not in the expected format`);
+        }
+        return null;
+      }
+
+      case "number": {
+        const number = toNumber(value);
+
+        if (!Number.isFinite(number)) {
+          return `${field.label} must be a number`;
+        }
+        if (min !== undefined && number < min) {
+          return invalid(`${field.label} must be at least ${min}`);
+        }
+        if (max !== undefined && number > max) {
+          return invalid(`${field.label} must be at most ${max}`);
+        }
+        return null;
+      }
+
+      case "date": {
+        if (
+          typeof value !== "string" ||
+          !DATE_PATTERN.test(value) ||
+          Number.isNaN(new Date(value).getTime())
+        ) {
+          return `${field.label} must be a valid date`;
+        }
+        return null;
+      }
+
+      case "select":
+      case "radio": {
+        if (typeof value !== "string" || !field.options?.includes(value)) {
+          return `${field.label} must be one of the listed options`;
+        }
+        return null;
+      }
+
+      case "checkbox": {
+        if (
+          !Array.isArray(value) ||
+          value.some(
+            (choice) =>
+              typeof choice !== "string" || !field.options?.includes(choice)
+          )
+        ) {
+          return `${field.label} must only include the listed options`;
+        }
+        if (min !== undefined && value.length < min) {
+          return invalid(`Select at least ${min} options for ${field.label}`);
+        }
+        if (max !== undefined && value.length > max) {
+          return invalid(`Select at most ${max} options for ${field.label}`);
+        }
+        return null;
+      }
+
+      case "rating":
+      case "nps": {
+        const top =
+          field.type === "nps" ? 10 : field.scale || DEFAULT_RATING_SCALE;
+        const bottom = field.type === "nps" ? 0 : 1;
+        const score = toNumber(value);
+        if (!Number.isInteger(score) || score < bottom || score > top) {
+          return `${field.label} must be a whole number from ${bottom} to ${top}`;
+        }
+        return null;
+      }
+
+      case "slider": {
+        const low = min ?? DEFAULT_SLIDER_RANGE.min;
+        const high = max ?? DEFAULT_SLIDER_RANGE.max;
+        const number = toNumber(value);
+        if (!Number.isFinite(number) || number < low || number > high) {
+          return invalid(`${field.label} must be between ${low} and ${high}`);
+        }
+        return null;
+      }
+
+      case "likert": {
+        // Statement -> chosen scale column
+        const rows = field.rows || [];
+        if (
+          !isPlainObject(value) ||
+          Object.entries(value).some(
+            ([row, choice]) =>
+              !rows.includes(row) ||
+              typeof choice !== "string" ||
+              !field.options?.includes(choice)
+          )
+        ) {
+          return `${field.label} must only use the listed statements and options`;
+        }
+        if (field.required && rows.some((row) => !(row in value))) {
+          return `Please answer every statement in ${field.label}`;
+        }
+        return null;
+      }
+
+      case "ranking": {
+        // Every listed item exactly once, most preferred first
+        const items = field.options || [];
+        if (
+          !Array.isArray(value) ||
+          value.length !== items.length ||
+          new Set(value).size !== value.length ||
+          value.some((item) => !items.includes(item))
+        ) {
+          return `${field.label} must rank each listed option once`;
+        }
+        return null;
+      }
+
+      case "file": {
+        // Files are uploaded first; the answer is a reference to the upload
+        if (
+          typeof value !== "object" ||
+          typeof (value as { attachmentId?: unknown }).attachmentId !==
+            "string"
+        ) {
+          return `${field.label} must be an uploaded file`;
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // Matches the whole value like an HTML pattern attribute. Patterns come
+  // from organizers, so a broken one shouldn't block sign-ups.
+  private static matchesPattern(pattern: string, value: string): boolean {
+    try {
+      return new RegExp(`^(?:${pattern})$`).test(value);
+    } catch {
+      return true;
+    }
+  }
+}
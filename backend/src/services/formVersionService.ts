@@ -0,0 +1,205 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import type { FormFieldDefinition } from "./formValidationService.js";
+
+// A published snapshot of a form's questions. Registrations point at the
+// version they answered so later edits can't change what an answer meant.
+export interface FormVersion {
+  id: string;
+  form_id: string;
+  version: number;
+  title: string;
+  fields: FormFieldDefinition[];
+  is_multi_step: boolean;
+  steps: { title: string; description?: string; fields: string[] }[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A field whose existing answers would no longer line up after an edit
+export interface OrphanedField {
+  fieldId: string;
+  label: string;
+  change: "removed" | "retyped";
+  responseCount: number;
+}
+
+type VersionSource = Pick<
+  FormVersion,
+  "title" | "fields" | "is_multi_step" | "steps"
+>;
+
+export const FORM_VERSION_COLUMNS = `
+  id, form_id, version, title, fields, is_multi_step, steps, created_by,
+  created_at
+`;
+
+const hasAnswer = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  value !== "" &&
+  !(Array.isArray(value) && value.length === 0);
+
+export class FormVersionService {
+  // Snapshot the form as its next numbered version and make it current
+  static async publish(
+    formId: string,
+    source: VersionSource,
+    userId: string | null
+  ): Promise<FormVersion> {
+    const latest = await this.getLatestVersion(formId);
+
+    const { data: version, error } = await supabaseAdmin
+      .from("form_versions")
+      .insert({
+        form_id: formId,
+        version: (latest?.version || 0) + 1,
+        title: source.title,
+        fields: source.fields,
+        is_multi_step: source.is_multi_step,
+        steps: source.steps,
+        created_by: userId,
+      })
+      .select(FORM_VERSION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create form version: ${error.message}`);
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("forms")
+      .update({ current_version_id: version.id })
+      .eq("id", formId);
+
+    if (updateError) {
+      throw new Error(`Failed to publish form version: ${updateError.message}`);
+    }
+
+    return version as FormVersion;
+  }
+
+  static async getLatestVersion(formId: string): Promise<FormVersion | null> {
+    const { data, error } = await supabaseAdmin
+      .from("form_versions")
+      .select(FORM_VERSION_COLUMNS)
+      .eq("form_id", formId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch form version: ${error.message}`);
+    }
+
+    return data as FormVersion | null;
+  }
+
+  /**
+   * The version new answers are recorded against. Forms saved before
+   * versioning existed get their first version the first time they're used.
+   */
+  static async getCurrentVersionId(form: {
+    id: string;
+    current_version_id?: string | null;
+  }): Promise<string> {
+    if (form.current_version_id) return form.current_version_id;
+
+    const { data: current, error } = await supabaseAdmin
+      .from("forms")
+      .select("title, fields, is_multi_step, steps")
+      .eq("id", form.id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch form: ${error.message}`);
+    }
+
+    const version = await this.publish(
+      form.id,
+      {
+        ...current,
+        fields: Array.isArray(current.fields) ? current.fields : [],
+      },
+      null
+    );
+    return version.id;
+  }
+
+  // Every version of a form, newest first
+  static async getVersions(formId: string): Promise<FormVersion[]> {
+    const { data, error } = await supabaseAdmin
+      .from("form_versions")
+      .select(FORM_VERSION_COLUMNS)
+      .eq("form_id", formId)
+      .order("version", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch form versions: ${error.message}`);
+    }
+
+    return (data || []) as FormVersion[];
+  }
+
+  // Whether an edit changes what respondents are asked
+  static changesQuestions(current: VersionSource, next: VersionSource) {
+    return (
+      JSON.stringify(current.fields) !== JSON.stringify(next.fields) ||
+      JSON.stringify(current.steps || null) !==
+        JSON.stringify(next.steps || null) ||
+      current.is_multi_step !== next.is_multi_step
+    );
+  }
+
+  /**
+   * Fields that an edit removes or changes the type of, with how many
+   * stored answers use them. Answers live on registrations for registration
+   * forms and on feedback submissions for feedback forms.
+   */
+  static async findOrphanedFields(
+    form: { id: string; event_id: string; form_type: string },
+    currentFields: FormFieldDefinition[],
+    nextFields: FormFieldDefinition[]
+  ): Promise<OrphanedField[]> {
+    const nextById = new Map(nextFields.map((field) => [field.id, field]));
+    const changed = currentFields
+      .map((field) => {
+        const next = nextById.get(field.id);
+        const change: OrphanedField["change"] | null = !next
+          ? "removed"
+          : next.type !== field.type
+          ? "retyped"
+          : null;
+        return change ? { field, change } : null;
+      })
+      .filter((item): item is NonNullable<typeof item> => item !== null);
+
+    if (changed.length === 0) return [];
+
+    const { data, error } =
+      form.form_type === "feedback"
+        ? await supabaseAdmin
+            .from("feedback_submissions")
+            .select("responses")
+            .eq("form_id", form.id)
+        : await supabaseAdmin
+            .from("registrations")
+            .select("responses")
+            .eq("event_id", form.event_id);
+
+    if (error) {
+      throw new Error(`Failed to check existing answers: ${error.message}`);
+    }
+
+    const responses = (data || []).map((row) => row.responses || {});
+    return changed
+      .map(({ field, change }) => ({
+        fieldId: field.id,
+        label: field.label,
+        change,
+        responseCount: responses.filter((answers) =>
+          hasAnswer(answers[field.id])
+        ).length,
+      }))
+      .filter((field) => field.responseCount > 0);
+  }
+}
@@ -0,0 +1,271 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  EmailService,
+  EventInvitationEmailData,
+} from "./emailService.js";
+import { OrganizationService } from "./organizationService.js";
+
+export type InvitationStatus = "sent" | "opened" | "accepted" | "revoked";
+export type InvitationType = "email" | "link";
+
+export interface Invitation {
+  id: string;
+  event_id: string;
+  type: InvitationType;
+  email: string | null;
+  name: string | null;
+  token: string;
+  status: InvitationStatus;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  invited_by: string;
+  accepted_by: string | null;
+  opened_at: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface InvitationValidationResult {
+  valid: boolean;
+  invitation?: Invitation;
+  error?: string;
+}
+
+export interface InviteeInput {
+  email: string;
+  name?: string;
+}
+
+const INVITATION_COLUMNS = `
+  id, event_id, type, email, name, token, status, max_uses, use_count,
+  expires_at, invited_by, accepted_by, opened_at, accepted_at, revoked_at,
+  created_at
+`;
+
+// How often consume retries after losing a race for the same invitation
+const CONSUME_ATTEMPTS = 5;
+
+export class InvitationService {
+  // Generate an unguessable token for invite URLs
+  static generateToken(): string {
+    return crypto.randomBytes(24).toString("hex");
+  }
+
+  static buildInviteUrl(token: string): string {
+    const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+    return `${frontendUrl}/invite/${token}`;
+  }
+
+  // Parse "email[,name]" lines from an uploaded CSV, skipping a header row
+  static parseInviteeCsv(csv: string): InviteeInput[] {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+    return csv
+      .split(/\r?\n/)
+      .map((line) => line.split(",").map((cell) => cell.trim()))
+      .filter(([email]) => !!email && emailRegex.test(email))
+      .map(([email, name]) => ({
+        email: email.toLowerCase(),
+        name: name || undefined,
+      }));
+  }
+
+  static async findByToken(token: string): Promise<Invitation | null> {
+    const { data: invitation, error } = await supabaseAdmin
+      .from("event_invitations")
+      .select(INVITATION_COLUMNS)
+      .eq("token", token)
+      .single();
+
+    if (error || !invitation) {
+      return null;
+    }
+
+    return invitation as Invitation;
+  }
+
+  /**
+   * Check that an invitation can still be used to register for an event.
+   * Email invitations are bound to the invitee's address; link invitations
+   * are shared and limited by max_uses instead.
+   */
+  static validate(
+    invitation: Invitation | null,
+    eventId: string,
+    email?: string
+  ): InvitationValidationResult {
+    if (!invitation || invitation.event_id !== eventId) {
+      return { valid: false, error: "Invitation not found for this event" };
+    }
+
+    if (invitation.status === "revoked") {
+      return { valid: false, error: "This invitation has been revoked" };
+    }
+
+    if (invitation.expires_at && new Date() > new Date(invitation.expires_at)) {
+      return { valid: false, error: "This invitation has expired" };
+    }
+
+    if (invitation.type === "email") {
+      if (invitation.status === "accepted") {
+        return {
+          valid: false,
+          error: "This invitation has already been used",
+        };
+      }
+
+      if (
+        email &&
+        invitation.email &&
+        invitation.email.toLowerCase() !== email.toLowerCase()
+      ) {
+        return {
+          valid: false,
+          error: "This invitation was sent to a different email address",
+        };
+      }
+    }
+
+    if (
+      invitation.type === "link" &&
+      invitation.max_uses !== null &&
+      invitation.use_count >= invitation.max_uses
+    ) {
+      return {
+        valid: false,
+        error: "This invite link has reached its maximum number of uses",
+      };
+    }
+
+    return { valid: true, invitation };
+  }
+
+  // Record the first time an invitee opens their invitation
+  static async markOpened(invitation: Invitation): Promise<void> {
+    if (invitation.status !== "sent") {
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from("event_invitations")
+      .update({
+        status: "opened",
+        opened_at: new Date().toISOString(),
+      })
+      .eq("id", invitation.id)
+      .eq("status", "sent");
+
+    if (error) {
+      console.error("Failed to mark invitation as opened:", error);
+    }
+  }
+
+  /**
+   * Use up one of the invitation's uses once a registration has been created
+   * with it. The update only applies while use_count still holds the value
+   * that was read, so two registrations racing for the last use can't both
+   * win; the loser re-reads the row and is checked against max_uses again.
+   */
+  static async consume(
+    invitation: Invitation,
+    userId: string,
+    email?: string
+  ): Promise<InvitationValidationResult> {
+    let current = invitation;
+
+    for (let attempt = 0; attempt < CONSUME_ATTEMPTS; attempt++) {
+      const useCount = current.use_count + 1;
+      const exhausted =
+        current.type === "email" ||
+        (current.max_uses !== null && useCount >= current.max_uses);
+
+      const { data, error } = await supabaseAdmin
+        .from("event_invitations")
+        .update({
+          use_count: useCount,
+          status: exhausted ? "accepted" : "opened",
+          accepted_by: current.type === "email" ? userId : null,
+          accepted_at: new Date().toISOString(),
+          opened_at: current.opened_at || new Date().toISOString(),
+        })
+        .eq("id", current.id)
+        .eq("use_count", current.use_count)
+        .neq("status", "revoked")
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to consume invitation: ${error.message}`);
+      }
+      if ((data || []).length > 0) {
+        return { valid: true, invitation: current };
+      }
+
+      // Another registration got there first; re-check what is left
+      const validation = this.validate(
+        await this.findByToken(current.token),
+        current.event_id,
+        email
+      );
+      if (!validation.valid || !validation.invitation) {
+        return validation;
+      }
+      current = validation.invitation;
+    }
+
+    return {
+      valid: false,
+      error: "This invitation is busy right now, please try again",
+    };
+  }
+
+  // Send the invitation email, using the organizer's Gmail when delegated
+  static async sendInvitationEmail(
+    invitation: Invitation,
+    event: {
+      title: string;
+      start_date: string;
+      location?: string;
+      organizer_id: string;
+    },
+    organizerName: string,
+    message?: string
+  ): Promise<boolean> {
+    if (!invitation.email) {
+      return false;
+    }
+
+    try {
+      const freshTokenData = await OrganizationService.getEventSenderToken({
+        id: invitation.event_id,
+        organizer_id: event.organizer_id,
+      });
+
+      const emailData: EventInvitationEmailData = {
+        inviteeName: invitation.name || undefined,
+        organizerName,
+        eventTitle: event.title,
+        eventDate: new Date(event.start_date).toLocaleString(),
+        eventLocation: event.location || "TBA",
+        inviteUrl: this.buildInviteUrl(invitation.token),
+        message,
+        expiresAt: invitation.expires_at
+          ? new Date(invitation.expires_at).toLocaleString()
+          : undefined,
+      };
+
+      return await EmailService.sendEventInvitation(
+        invitation.email,
+        emailData,
+        freshTokenData?.email,
+        freshTokenData?.accessToken,
+        freshTokenData?.refreshToken
+      );
+    } catch (error) {
+      console.error("📧 Invitation email sending failed:", error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "../config/supabase.js";
+import {
+  TicketPayload,
+  TicketSigningService,
+} from "./ticketSigningService.js";
+
+// One attendee as the scanning device sees them
+export interface ManifestAttendee {
+  registration_id: string;
+  name: string;
+  email: string;
+  ticket_tier: string | null;
+  ticket_hashes: string[]; // SHA-256 of every QR code that still scans
+  checked_in_at: string | null;
+}
+
+export interface CheckInManifest {
+  version: 2;
+  key_id: string;
+  event_id: string;
+  event_title: string;
+  generated_at: string;
+  expires_at: string;
+  attendees: ManifestAttendee[];
+}
+
+// A scan recorded on a device while it was offline
+export interface OfflineCheckInRecord {
+  client_id: string;
+  qr_code: string;
+  scanned_at: string;
+  location?: string;
+}
+
+export type BatchCheckInStatus =
+  | "checked_in"
+  | "already_synced"
+  | "conflict"
+  | "rejected";
+
+export interface BatchCheckInResult {
+  client_id: string;
+  status: BatchCheckInStatus;
+  registration_id?: string;
+  name?: string;
+  checked_in_at?: string;
+  resolution?: "kept_existing" | "replaced_later_scan";
+  error?: string;
+}
+
+export const CHECK_IN_CONFLICT_COLUMNS = `
+  id, event_id, registration_id, attendance_id, device_id, scanned_at,
+  existing_checked_in_at, resolution, resolved_by, created_at,
+  registration:registration_id(name, email)
+`;
+
+let signingKey: crypto.KeyObject | null = null;
+
+/**
+ * Offline check-in lets a staff device keep scanning without a connection.
+ * The device downloads a manifest of confirmed attendees signed with an
+ * ECDSA P-256 key, checks scans against it locally, and later uploads the
+ * queued scans in one batch. The manifest carries a hash of each ticket
+ * rather than the ticket itself, so a leaked device can't mint QR codes.
+ * Scans are accepted by the same rules offline and online: replaced and
+ * pre-signing tickets scan as long as the server would still take them.
+ */
+export class OfflineCheckInService {
+  private static getSigningKey(): crypto.KeyObject {
+    if (signingKey) {
+      return signingKey;
+    }
+
+    const pem = process.env.CHECKIN_MANIFEST_PRIVATE_KEY;
+    if (pem) {
+      signingKey = crypto.createPrivateKey(pem.replace(/\\n/g, "\n"));
+    } else {
+      console.warn(
+        "⚠️ CHECKIN_MANIFEST_PRIVATE_KEY is not set; using a temporary key. Downloaded manifests stop verifying after a restart."
+      );
+      signingKey = crypto.generateKeyPairSync("ec", {
+        namedCurve: "P-256",
+      }).privateKey;
+    }
+
+    return signingKey;
+  }
+
+  // Public half of the manifest key, in a form WebCrypto can import
+  static getPublicKey(): { key_id: string; jwk: crypto.JsonWebKey } {
+    const jwk = crypto
+      .createPublicKey(this.getSigningKey())
+      .export({ format: "jwk" });
+
+    return {
+      key_id: crypto
+        .createHash("sha256")
+        .update(`${jwk.x}.${jwk.y}`)
+        .digest("base64url")
+        .slice(0, 16),
+      jwk,
+    };
+  }
+
+  static hashTicket(qrCode: string): string {
+    return crypto.createHash("sha256").update(qrCode.trim()).digest("hex");
+  }
+
+  /**
+   * Build and sign the attendee manifest for an event. The manifest is
+   * returned as the exact string that was signed so the device can verify
+   * it byte for byte.
+   */
+  static async createManifest(
+    eventId: string
+  ): Promise<{ manifest: string; signature: string; key_id: string }> {
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from("events")
+      .select("id, title, end_date")
+      .eq("id", eventId)
+      .single();
+
+    if (eventError || !event) {
+      throw new Error("Event not found");
+    }
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from("registrations")
+      .select(
+        "id, event_id, name, email, qr_code, previous_qr_codes, ticket_tier_id, ticket_tier:ticket_tier_id(name), attendance(checked_in_at)"
+      )
+      .eq("event_id", eventId)
+      .eq("status", "confirmed");
+
+    if (error) {
+      throw new Error(`Failed to fetch registrations: ${error.message}`);
+    }
+
+    const keys = await TicketSigningService.getEventKeys(eventId);
+
+    const attendees: ManifestAttendee[] = (registrations || []).map(
+      (registration) => {
+        const tier = Array.isArray(registration.ticket_tier)
+          ? registration.ticket_tier[0]
+          : registration.ticket_tier;
+        const attendance = Array.isArray(registration.attendance)
+          ? registration.attendance[0]
+          : registration.attendance;
+
+        return {
+          registration_id: registration.id,
+          name: registration.name,
+          email: registration.email,
+          ticket_tier: (tier as any)?.name || null,
+          ticket_hashes: TicketSigningService.acceptedTicketCodes(
+            registration,
+            keys
+          ).map((code) => this.hashTicket(code)),
+          checked_in_at: (attendance as any)?.checked_in_at || null,
+        };
+      }
+    );
+
+    const { key_id } = this.getPublicKey();
+    const manifest: CheckInManifest = {
+      version: 2,
+      key_id,
+      event_id: event.id,
+      event_title: event.title,
+      generated_at: new Date().toISOString(),
+      expires_at: event.end_date,
+      attendees,
+    };
+
+    const serialized = JSON.stringify(manifest);
+    const signature = crypto
+      .sign("sha256", Buffer.from(serialized), {
+        key: this.getSigningKey(),
+        dsaEncoding: "ieee-p1363",
+      })
+      .toString("base64url");
+
+    return { manifest: serialized, signature, key_id };
+  }
+
+  /**
+   * Apply scans uploaded by a device. Each record is re-verified against the
+   * ticket signature. When the same ticket was already checked in (usually
+   * by another device) the earliest scan wins and the clash is recorded in
+   * check_in_conflicts so staff can review it. Scan times come from the
+   * device, so they are clamped to the event and to the time of sync.
+   */
+  static async processBatch(
+    eventId: string,
+    deviceId: string,
+    records: OfflineCheckInRecord[],
+    userId: string
+  ): Promise<BatchCheckInResult[]> {
+    const { data: event, error } = await supabaseAdmin
+      .from("events")
+      .select("id, start_date, end_date")
+      .eq("id", eventId)
+      .single();
+
+    if (error || !event) {
+      throw new Error("Event not found");
+    }
+
+    const syncedAt = new Date();
+    const scanWindow = {
+      earliest: new Date(event.start_date),
+      latest: new Date(
+        Math.min(new Date(event.end_date).getTime(), syncedAt.getTime())
+      ),
+    };
+
+    const results: BatchCheckInResult[] = [];
+
+    for (const record of records) {
+      results.push(
+        await this.processRecord(
+          eventId,
+          deviceId,
+          record,
+          userId,
+          scanWindow
+        )
+      );
+    }
+
+    return results;
+  }
+
+  private static async processRecord(
+    eventId: string,
+    deviceId: string,
+    record: OfflineCheckInRecord,
+    userId: string,
+    scanWindow: { earliest: Date; latest: Date }
+  ): Promise<BatchCheckInResult> {
+    const reject = (error: string): BatchCheckInResult => ({
+      client_id: record.client_id,
+      status: "rejected",
+      error,
+    });
+
+    // Pre-signing tickets scan while their registration is confirmed, as
+    // they do online
+    let ticket: Pick<TicketPayload, "e" | "r" | "t">;
+    const legacyTicket = TicketSigningService.parseLegacyTicket(
+      record.qr_code
+    );
+    if (legacyTicket) {
+      ticket = { ...legacyTicket, t: null };
+    } else {
+      const verification = await TicketSigningService.verifyTicket(
+        record.qr_code
+      );
+      if (!verification.valid || !verification.payload) {
+        return reject(verification.error || "Invalid ticket");
+      }
+      ticket = verification.payload;
+    }
+
+    if (ticket.e !== eventId) {
+      return reject("QR code is for a different event");
+    }
+
+    const { data: registration } = await supabaseAdmin
+      .from("registrations")
+      .select("id, name, status, ticket_tier_id")
+      .eq("id", ticket.r)
+      .eq("event_id", eventId)
+      .single();
+
+    if (!registration) {
+      return reject("Registration not found");
+    }
+    if (
+      !legacyTicket &&
+      (ticket.t || null) !== (registration.ticket_tier_id || null)
+    ) {
+      return reject("Ticket is out of date");
+    }
+    if (registration.status !== "confirmed") {
+      return reject("Registration is not confirmed");
+    }
+
+    const scannedAt = new Date(
+      Math.min(
+        Math.max(
+          new Date(record.scanned_at).getTime(),
+          scanWindow.earliest.getTime()
+        ),
+        scanWindow.latest.getTime()
+      )
+    ).toISOString();
+    const deviceInfo = {
+      device_id: deviceId,
+      client_id: record.client_id,
+      offline: true,
+      synced_at: new Date().toISOString(),
+    };
+
+    const { data: existing } = await supabaseAdmin
+      .from("attendance")
+      .select("id, checked_in_at, device_info")
+      .eq("registration_id", registration.id)
+      .eq("event_id", eventId)
+      .single();
+
+    if (!existing) {
+      const { data: attendance, error } = await supabaseAdmin
+        .from("attendance")
+        .insert({
+          registration_id: registration.id,
+          event_id: eventId,
+          checked_in_by: userId,
+          checked_in_at: scannedAt,
+          method: "qr_code",
+          location: record.location || "Main Entrance",
+          device_info: deviceInfo,
+        })
+        .select("id, checked_in_at")
+        .single();
+
+      if (error || !attendance) {
+        return reject("Failed to record check-in");
+      }
+
+      return {
+        client_id: record.client_id,
+        status: "checked_in",
+        registration_id: registration.id,
+        name: registration.name,
+        checked_in_at: attendance.checked_in_at,
+      };
+    }
+
+    // A retried upload of a scan the server already has
+    if ((existing.device_info as any)?.client_id === record.client_id) {
+      return {
+        client_id: record.client_id,
+        status: "already_synced",
+        registration_id: registration.id,
+        name: registration.name,
+        checked_in_at: existing.checked_in_at,
+      };
+    }
+
+    const replaces = new Date(scannedAt) < new Date(existing.checked_in_at);
+    if (replaces) {
+      const { error } = await supabaseAdmin
+        .from("attendance")
+        .update({
+          checked_in_by: userId,
+          checked_in_at: scannedAt,
+          location: record.location || "Main Entrance",
+          device_info: deviceInfo,
+        })
+        .eq("id", existing.id);
+
+      if (error) {
+        return reject("Failed to resolve duplicate check-in");
+      }
+    }
+
+    const resolution = replaces ? "replaced_later_scan" : "kept_existing";
+    const { error: conflictError } = await supabaseAdmin
+      .from("check_in_conflicts")
+      .insert({
+        event_id: eventId,
+        registration_id: registration.id,
+        attendance_id: existing.id,
+        device_id: deviceId,
+        scanned_at: scannedAt,
+        existing_checked_in_at: existing.checked_in_at,
+        resolution,
+        resolved_by: userId,
+        created_at: new Date().toISOString(),
+      });
+
+    if (conflictError) {
+      console.error("Failed to record check-in conflict:", conflictError);
+    }
+
+    return {
+      client_id: record.client_id,
+      status: "conflict",
+      registration_id: registration.id,
+      name: registration.name,
+      checked_in_at: replaces ? scannedAt : existing.checked_in_at,
+      resolution,
+    };
+  }
+
+  static async getConflicts(eventId: string) {
+    const { data: conflicts, error } = await supabaseAdmin
+      .from("check_in_conflicts")
+      .select(CHECK_IN_CONFLICT_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch check-in conflicts: ${error.message}`);
+    }
+
+    return (conflicts || []).map((conflict: any) => ({
+      ...conflict,
+      registration: Array.isArray(conflict.registration)
+        ? conflict.registration[0]
+        : conflict.registration,
+    }));
+  }
+}
@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "../config/supabase.js";
+import { CertificateSigningService } from "./certificateSigningService.js";
+import {
+  getCertificateStatus,
+  type CertificateStatus,
+} from "./certificateLifecycleService.js";
+
+const OPEN_BADGES_CONTEXT = [
+  "https://www.w3.org/ns/credentials/v2",
+  "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json",
+];
+
+export interface IssuerProfile {
+  "@context": string[];
+  id: string;
+  type: string[];
+  name: string;
+  url?: string;
+}
+
+export interface OpenBadgeExport {
+  status: CertificateStatus;
+  credential: Record<string, any>;
+}
+
+const getApiUrl = () =>
+  `${process.env.BACKEND_URL || "http://localhost:3001"}/api/certificates`;
+
+const getFrontendUrl = () =>
+  process.env.FRONTEND_URL || "http://localhost:5173";
+
+export const getCredentialUrl = (certificateCode: string) =>
+  `${getApiUrl()}/credentials/${certificateCode}`;
+
+const getIssuerUrl = (organizerId: string) =>
+  `${getApiUrl()}/issuers/${organizerId}`;
+
+// Open Badges identity hashes are "sha256$" + hex(sha256(value + salt))
+const hashIdentity = (value: string, salt: string) =>
+  `sha256$${crypto
+    .createHash("sha256")
+    .update(value.trim().toLowerCase() + salt)
+    .digest("hex")}`;
+
+const single = <T>(value: T | T[] | null): T | null =>
+  Array.isArray(value) ? value[0] || null : value;
+
+/**
+ * Exports issued certificates as Open Badges 3.0 credentials (W3C Verifiable
+ * Credentials in JSON-LD). The organizer is the issuer and the event is the
+ * achievement. Credentials, issuer profiles and achievements all have URLs
+ * on this API so wallets can resolve them. The JWT form is signed with the
+ * certificate signing key.
+ */
+export class OpenBadgeService {
+  static async getIssuerProfile(
+    organizerId: string
+  ): Promise<IssuerProfile | null> {
+    const { data: organizer, error } = await supabaseAdmin
+      .from("users")
+      .select("id, name, organization_name")
+      .eq("id", organizerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch issuer: ${error.message}`);
+    }
+    if (!organizer) return null;
+
+    return {
+      "@context": OPEN_BADGES_CONTEXT,
+      id: getIssuerUrl(organizer.id),
+      type: ["Profile"],
+      name: organizer.organization_name || organizer.name,
+    };
+  }
+
+  // The credential for a certificate by either of its codes
+  static async getCredential(code: string): Promise<OpenBadgeExport | null> {
+    const { data, error } = await supabaseAdmin
+      .from("certificates")
+      .select(
+        `
+        id, certificate_code, status, created_at,
+        registrations(name, email),
+        events(
+          id, title, description, start_date, end_date, organizer_id,
+          organizer:organizer_id(id, name, organization_name)
+        )
+      `
+      )
+      .or(`verification_code.eq.${code},certificate_code.eq.${code}`)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const certificate = data as any;
+    const registration = single<any>(certificate.registrations);
+    const event = single<any>(certificate.events);
+    const organizer = single<any>(event?.organizer);
+    if (!registration || !event || !organizer) return null;
+
+    const eventUrl = `${getFrontendUrl()}/events/${event.id}`;
+    const credential = {
+      "@context": OPEN_BADGES_CONTEXT,
+      id: getCredentialUrl(certificate.certificate_code),
+      type: ["VerifiableCredential", "OpenBadgeCredential"],
+      name: `${event.title} Certificate`,
+      issuer: {
+        id: getIssuerUrl(organizer.id),
+        type: ["Profile"],
+        name: organizer.organization_name || organizer.name,
+      },
+      validFrom: new Date(certificate.created_at).toISOString(),
+      credentialSubject: {
+        type: ["AchievementSubject"],
+        identifier: [
+          {
+            type: "IdentityObject",
+            identityType: "emailAddress",
+            hashed: true,
+            identityHash: hashIdentity(registration.email, certificate.id),
+            salt: certificate.id,
+          },
+          {
+            type: "IdentityObject",
+            identityType: "name",
+            hashed: false,
+            identityHash: registration.name,
+          },
+        ],
+        achievement: {
+          id: `${eventUrl}#achievement`,
+          type: ["Achievement"],
+          achievementType: "Certificate",
+          name: event.title,
+          description: event.description || `Participation in ${event.title}`,
+          criteria: {
+            id: eventUrl,
+            narrative: `Attended ${event.title} (${new Date(
+              event.start_date
+            ).toDateString()} to ${new Date(event.end_date).toDateString()}).`,
+          },
+          creator: {
+            id: getIssuerUrl(organizer.id),
+            type: ["Profile"],
+            name: organizer.organization_name || organizer.name,
+          },
+        },
+      },
+    };
+
+    return { status: getCertificateStatus(certificate), credential };
+  }
+
+  // VC-JWT form: the credential plus registered claims, signed ES256
+  static toJwt(credential: Record<string, any>): string {
+    return CertificateSigningService.signJwt({
+      ...credential,
+      iss: credential.issuer.id,
+      jti: credential.id,
+      nbf: Math.floor(new Date(credential.validFrom).getTime() / 1000),
+    });
+  }
+}
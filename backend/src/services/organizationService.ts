@@ -0,0 +1,380 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { getFreshAccessToken } from "../routes/emailAuth.js";
+import type {
+  CreateOrganization,
+  OrganizationRole,
+  UpdateOrganization,
+} from "../../../shared/dist/schemas.js";
+
+export interface Organization {
+  id: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  brand_color: string | null;
+  gmail_sender_user_id: string | null;
+  stripe_account_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  created_at: string;
+  user?: { id: string; name: string | null; email: string };
+}
+
+const ORGANIZATION_COLUMNS = `
+  id, name, description, logo_url, brand_color, gmail_sender_user_id,
+  stripe_account_id, created_by, created_at, updated_at
+`;
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+export const hasOrganizationRole = (
+  role: OrganizationRole | null,
+  minimum: OrganizationRole
+): boolean => role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+/**
+ * Organizations own events on behalf of a team. Members are owners, admins
+ * or members; owners and admins can run every event the organization owns
+ * (see EventPermissionService). Events keep an individual organizer_id for
+ * the person who created them, but when a member leaves, their
+ * organization events pass to an owner so they stay with the team.
+ */
+export class OrganizationService {
+  static async getOrganization(
+    organizationId: string
+  ): Promise<Organization | null> {
+    const { data, error } = await supabaseAdmin
+      .from("organizations")
+      .select(ORGANIZATION_COLUMNS)
+      .eq("id", organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch organization: ${error.message}`);
+    }
+
+    return data as Organization | null;
+  }
+
+  static async getMemberRole(
+    organizationId: string,
+    userId: string
+  ): Promise<OrganizationRole | null> {
+    const { data, error } = await supabaseAdmin
+      .from("organization_members")
+      .select("role")
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch membership: ${error.message}`);
+    }
+
+    return (data?.role as OrganizationRole) || null;
+  }
+
+  // Organizations the user belongs to, with their role in each
+  static async getUserOrganizations(userId: string) {
+    const { data, error } = await supabaseAdmin
+      .from("organization_members")
+      .select(`role, organization:organization_id(${ORGANIZATION_COLUMNS})`)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch organizations: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+      ...(row.organization as Organization),
+      role: row.role as OrganizationRole,
+    }));
+  }
+
+  static async createOrganization(
+    userId: string,
+    input: CreateOrganization
+  ): Promise<Organization> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from("organizations")
+      .insert({
+        name: input.name,
+        description: input.description,
+        logo_url: input.logoUrl,
+        brand_color: input.brandColor,
+        created_by: userId,
+        created_at: now,
+        updated_at: now,
+      })
+      .select(ORGANIZATION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create organization: ${error.message}`);
+    }
+
+    const { error: memberError } = await supabaseAdmin
+      .from("organization_members")
+      .insert({
+        organization_id: data.id,
+        user_id: userId,
+        role: "owner",
+        created_at: now,
+      });
+
+    if (memberError) {
+      throw new Error(
+        `Failed to add organization owner: ${memberError.message}`
+      );
+    }
+
+    return data as Organization;
+  }
+
+  static async updateOrganization(
+    organizationId: string,
+    input: UpdateOrganization
+  ): Promise<Organization> {
+    const changes: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (input.name !== undefined) changes.name = input.name;
+    if (input.description !== undefined) {
+      changes.description = input.description;
+    }
+    if (input.logoUrl !== undefined) changes.logo_url = input.logoUrl;
+    if (input.brandColor !== undefined) changes.brand_color = input.brandColor;
+    if (input.gmailSenderUserId !== undefined) {
+      changes.gmail_sender_user_id = input.gmailSenderUserId;
+    }
+    if (input.stripeAccountId !== undefined) {
+      changes.stripe_account_id = input.stripeAccountId;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("organizations")
+      .update(changes)
+      .eq("id", organizationId)
+      .select(ORGANIZATION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update organization: ${error.message}`);
+    }
+
+    return data as Organization;
+  }
+
+  static async getMembers(
+    organizationId: string
+  ): Promise<OrganizationMember[]> {
+    const { data, error } = await supabaseAdmin
+      .from("organization_members")
+      .select(
+        "id, organization_id, user_id, role, created_at, user:user_id(id, name, email)"
+      )
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch members: ${error.message}`);
+    }
+
+    return (data || []) as unknown as OrganizationMember[];
+  }
+
+  // Every event the organization owns, for the organization dashboard
+  static async getEvents(organizationId: string) {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select(
+        `
+        id, title, start_date, end_date, location, visibility, is_paid,
+        created_at,
+        organizer:organizer_id(id, name, email),
+        registrations:registrations(count)
+      `
+      )
+      .eq("organization_id", organizationId)
+      .order("start_date", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch organization events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async addMember(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<void> {
+    const { error } = await supabaseAdmin.from("organization_members").insert({
+      organization_id: organizationId,
+      user_id: userId,
+      role,
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to add member: ${error.message}`);
+    }
+  }
+
+  static async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("organization_members")
+      .update({ role })
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to update member: ${error.message}`);
+    }
+  }
+
+  // Owners other than the given user, longest-standing first
+  static async getOtherOwners(
+    organizationId: string,
+    userId: string
+  ): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from("organization_members")
+      .select("user_id")
+      .eq("organization_id", organizationId)
+      .eq("role", "owner")
+      .neq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch owners: ${error.message}`);
+    }
+
+    return (data || []).map((row) => row.user_id);
+  }
+
+  /**
+   * Take a member off the team. Organization events they organize pass to
+   * the longest-standing remaining owner, their co-organizer access to
+   * those events ends, and they stop being the organization's email sender.
+   * Callers make sure another owner remains.
+   */
+  static async removeMember(
+    organization: Organization,
+    userId: string
+  ): Promise<void> {
+    const [successorId] = await this.getOtherOwners(organization.id, userId);
+    if (!successorId) {
+      throw new Error("Failed to remove member: no other owner remains");
+    }
+
+    const { data: events, error: eventsError } = await supabaseAdmin
+      .from("events")
+      .select("id")
+      .eq("organization_id", organization.id);
+
+    if (eventsError) {
+      throw new Error(
+        `Failed to fetch organization events: ${eventsError.message}`
+      );
+    }
+
+    const eventIds = (events || []).map((event) => event.id);
+    if (eventIds.length > 0) {
+      const { error: reassignError } = await supabaseAdmin
+        .from("events")
+        .update({
+          organizer_id: successorId,
+          updated_at: new Date().toISOString(),
+        })
+        .in("id", eventIds)
+        .eq("organizer_id", userId);
+
+      if (reassignError) {
+        throw new Error(`Failed to reassign events: ${reassignError.message}`);
+      }
+
+      const { error: accessError } = await supabaseAdmin
+        .from("event_users")
+        .delete()
+        .in("event_id", eventIds)
+        .eq("user_id", userId)
+        .eq("role", "organizer");
+
+      if (accessError) {
+        throw new Error(
+          `Failed to remove event access: ${accessError.message}`
+        );
+      }
+    }
+
+    if (organization.gmail_sender_user_id === userId) {
+      await this.updateOrganization(organization.id, {
+        gmailSenderUserId: null,
+      });
+    }
+
+    const { error } = await supabaseAdmin
+      .from("organization_members")
+      .delete()
+      .eq("organization_id", organization.id)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  }
+
+  // The organization an event belongs to, if any
+  static async getEventOrganization(
+    eventId: string
+  ): Promise<Organization | null> {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select(`organization:organization_id(${ORGANIZATION_COLUMNS})`)
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch event organization: ${error.message}`);
+    }
+
+    return (data?.organization as unknown as Organization) || null;
+  }
+
+  /**
+   * Gmail tokens for an event's emails: the organization's chosen sender
+   * when the event belongs to one, otherwise the event organizer.
+   */
+  static async getEventSenderToken(event: {
+    id: string;
+    organizer_id: string;
+  }) {
+    // A failed lookup only costs the organization sender, never the email
+    const organization = await this.getEventOrganization(event.id).catch(
+      () => null
+    );
+    return getFreshAccessToken(
+      organization?.gmail_sender_user_id || event.organizer_id
+    );
+  }
+}
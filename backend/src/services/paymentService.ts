@@ -1,7 +1,11 @@
 import Stripe from "stripe";
 import { supabaseAdmin } from "../config/supabase.js";
 import { EmailService, EmailTemplateData } from "./emailService.js";
-import { getFreshAccessToken } from "../routes/emailAuth.js";
+import { OrganizationService } from "./organizationService.js";
+import {
+  RefundService,
+  REFUNDABLE_PAYMENT_COLUMNS,
+} from "./refundService.js";
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -21,6 +25,12 @@ export interface PaymentVerificationData {
   paymentMethodId?: string;
 }
 
+export interface RefundRequestData {
+  amount: number; // In dollars, like payments.amount
+  reason?: string;
+  initiatedBy: string;
+}
+
 export class PaymentService {
   // Create a payment intent
   static async createPaymentIntent(paymentData: PaymentData) {
@@ -87,6 +97,11 @@ export class PaymentService {
             title,
             price,
             is_paid
+          ),
+          ticket_tier:ticket_tier_id (
+            id,
+            name,
+            price
           )
         `
         )
@@ -115,6 +130,11 @@ export class PaymentService {
                 title,
                 price,
                 is_paid
+              ),
+              ticket_tier:ticket_tier_id (
+                id,
+                name,
+                price
               )
             `
               )
@@ -155,10 +175,41 @@ export class PaymentService {
         throw new Error("Registration not found");
       }
 
-      if (!registration.events?.is_paid) {
+      // Charge the price of the ticket tier the registration holds, falling
+      // back to the event price for events without tiers
+      const ticketTier = Array.isArray(registration.ticket_tier)
+        ? registration.ticket_tier[0]
+        : registration.ticket_tier;
+
+      if (ticketTier) {
+        if (Number(ticketTier.price) <= 0) {
+          throw new Error("This ticket type is free");
+        }
+      } else if (!registration.events?.is_paid) {
         throw new Error("This is a free event");
       }
 
+      const listPrice = ticketTier
+        ? Number(ticketTier.price)
+        : Number(registration.events?.price) || amount;
+
+      // Apply the promo code discount locked in at registration time
+      const discountAmount = Math.min(
+        Number(registration.discount_amount) || 0,
+        listPrice
+      );
+      const chargeAmount = Math.round((listPrice - discountAmount) * 100) / 100;
+
+      if (chargeAmount <= 0) {
+        throw new Error("Nothing to pay for this registration");
+      }
+
+      if (chargeAmount !== amount) {
+        console.log(
+          `⚠️ Client amount $${amount} differs from ticket price $${chargeAmount}, charging ticket price`
+        );
+      }
+
       // Fetch user details
       const { data: userData, error: userError } = await supabaseAdmin
         .from("users")
@@ -177,7 +228,10 @@ export class PaymentService {
           registration_id: registrationId,
           event_id: eventId,
           user_id: userId,
-          amount: amount,
+          amount: chargeAmount,
+          original_amount: listPrice,
+          discount_amount: discountAmount,
+          promo_code_id: registration.promo_code_id || null,
           currency: currency,
           status: "pending",
         })
@@ -194,10 +248,16 @@ export class PaymentService {
       }
 
       // Convert amount to cents for Stripe (assuming amount is in dollars)
-      const amountInCents = Math.round(amount * 100);
+      const amountInCents = Math.round(chargeAmount * 100);
 
       console.log(
-        `💰 Payment amount conversion: $${amount} -> ${amountInCents} cents`
+        `💰 Payment amount conversion: $${chargeAmount} -> ${amountInCents} cents`
+      );
+
+      // Ticket money for organization events goes to the organization's
+      // connected Stripe account
+      const organization = await OrganizationService.getEventOrganization(
+        eventId
       );
 
       // Create Stripe payment intent
@@ -209,9 +269,16 @@ export class PaymentService {
           registrationId: registrationId,
           eventId: eventId,
           userId: userId,
+          ticketTierId: ticketTier?.id || "",
+          promoCodeId: registration.promo_code_id || "",
         },
-        description: `Event Registration: ${registration.events.title}`,
+        description: ticketTier
+          ? `Event Registration: ${registration.events.title} (${ticketTier.name})`
+          : `Event Registration: ${registration.events.title}`,
         receipt_email: userData.email,
+        ...(organization?.stripe_account_id
+          ? { transfer_data: { destination: organization.stripe_account_id } }
+          : {}),
       });
 
       // Update payment record with Stripe payment intent ID
@@ -230,6 +297,9 @@ export class PaymentService {
         currency: currency,
         publishableKey: process.env.STRIPE_PUBLISHABLE_KEY!,
         eventTitle: registration.events.title,
+        ticketTierName: ticketTier?.name || null,
+        originalAmount: Math.round(listPrice * 100),
+        discountAmount: Math.round(discountAmount * 100),
         participantName: userData.name,
         participantEmail: userData.email,
       };
@@ -296,6 +366,8 @@ export class PaymentService {
         .update({
           payment_status: "completed",
           status: "confirmed",
+          waitlist_position: null,
+          waitlist_offer_expires_at: null,
           updated_at: new Date().toISOString(),
         })
         .eq("id", payment.registration_id);
@@ -411,6 +483,74 @@ export class PaymentService {
     }
   }
 
+  // Refund part or all of a completed payment through Stripe
+  static async refundPayment(paymentId: string, refundData: RefundRequestData) {
+    try {
+      const { data: payment, error: paymentError } = await supabaseAdmin
+        .from("payments")
+        .select(REFUNDABLE_PAYMENT_COLUMNS)
+        .eq("id", paymentId)
+        .single();
+
+      if (paymentError || !payment) {
+        throw new Error("Payment record not found");
+      }
+
+      if (!payment.gateway_payment_id) {
+        throw new Error("Payment has no Stripe payment intent to refund");
+      }
+
+      const remaining = RefundService.remainingAmount(payment);
+      const amountInCents = Math.round(refundData.amount * 100);
+
+      if (amountInCents <= 0 || amountInCents > Math.round(remaining * 100)) {
+        throw new Error(
+          `Refund amount must be between $0.01 and $${remaining.toFixed(2)}`
+        );
+      }
+
+      console.log(
+        `💸 Refunding $${refundData.amount} of payment ${paymentId} (initiated by ${refundData.initiatedBy})`
+      );
+
+      // Payments forwarded to an organization's account are pulled back
+      // from it, so the platform balance isn't left covering the refund
+      const paymentIntent = await stripe.paymentIntents.retrieve(
+        payment.gateway_payment_id
+      );
+
+      const refund = await stripe.refunds.create({
+        payment_intent: payment.gateway_payment_id,
+        amount: amountInCents,
+        reverse_transfer: !!paymentIntent.transfer_data,
+        metadata: {
+          paymentId: payment.id,
+          registrationId: payment.registration_id,
+          initiatedBy: refundData.initiatedBy,
+        },
+      });
+
+      const totalRefunded =
+        (Math.round((Number(payment.refunded_amount) || 0) * 100) +
+          amountInCents) /
+        100;
+
+      await this.recordRefund(payment.id, totalRefunded, refundData.reason);
+
+      return {
+        refundId: refund.id,
+        paymentId: payment.id,
+        registrationId: payment.registration_id,
+        amount: amountInCents / 100,
+        totalRefunded,
+        status: refund.status,
+      };
+    } catch (error) {
+      console.error("Refund payment error:", error);
+      throw error;
+    }
+  }
+
   // Handle Stripe webhook
   static async handleWebhook(body: string | Buffer, signature: string) {
     try {
@@ -431,6 +571,11 @@ export class PaymentService {
           await this.handlePaymentFailure(failedPayment);
           break;
 
+        case "charge.refunded":
+          const refundedCharge = event.data.object as Stripe.Charge;
+          await this.handleChargeRefunded(refundedCharge);
+          break;
+
         default:
           console.log(`Unhandled event type: ${event.type}`);
       }
@@ -481,6 +626,8 @@ export class PaymentService {
           .update({
             payment_status: "completed",
             status: "confirmed",
+            waitlist_position: null,
+            waitlist_offer_expires_at: null,
             updated_at: new Date().toISOString(),
           })
           .eq("id", registrationId);
@@ -542,6 +689,109 @@ export class PaymentService {
     }
   }
 
+  // Handle refunds from webhook, including ones issued from the Stripe dashboard
+  private static async handleChargeRefunded(charge: Stripe.Charge) {
+    try {
+      const paymentIntentId =
+        typeof charge.payment_intent === "string"
+          ? charge.payment_intent
+          : charge.payment_intent?.id;
+
+      if (!paymentIntentId) {
+        console.error("No payment intent on refunded charge");
+        return;
+      }
+
+      const { data: payment, error } = await supabaseAdmin
+        .from("payments")
+        .select("id")
+        .eq("gateway_payment_id", paymentIntentId)
+        .single();
+
+      if (error || !payment) {
+        console.error(
+          `💥 No payment record for refunded payment intent ${paymentIntentId}`
+        );
+        return;
+      }
+
+      // Stripe's running total is authoritative, so replays are harmless
+      await this.recordRefund(payment.id, charge.amount_refunded / 100);
+    } catch (error) {
+      console.error("Handle charge refunded error:", error);
+    }
+  }
+
+  /**
+   * Bring the payments row and its registration in line with the total
+   * refunded so far. A registration is marked refunded once its payment is
+   * fully refunded; a cancelled one is marked partially_refunded when only
+   * part of the money went back.
+   */
+  private static async recordRefund(
+    paymentId: string,
+    totalRefunded: number,
+    reason?: string
+  ) {
+    const { data: payment, error: paymentError } = await supabaseAdmin
+      .from("payments")
+      .select("id, registration_id, amount")
+      .eq("id", paymentId)
+      .single();
+
+    if (paymentError || !payment) {
+      throw new Error("Payment record not found");
+    }
+
+    const fullyRefunded =
+      Math.round(totalRefunded * 100) >=
+      Math.round(Number(payment.amount) * 100);
+
+    const paymentUpdates: Record<string, any> = {
+      status: fullyRefunded ? "refunded" : "partially_refunded",
+      refunded_amount: totalRefunded,
+      refunded_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    if (reason) paymentUpdates.refund_reason = reason;
+
+    const { error: updateError } = await supabaseAdmin
+      .from("payments")
+      .update(paymentUpdates)
+      .eq("id", paymentId);
+
+    if (updateError) {
+      throw new Error(
+        `Failed to record refund on payment: ${updateError.message}`
+      );
+    }
+
+    const { data: registration } = await supabaseAdmin
+      .from("registrations")
+      .select("id, status")
+      .eq("id", payment.registration_id)
+      .single();
+
+    if (
+      registration &&
+      (fullyRefunded || registration.status === "cancelled")
+    ) {
+      const { error: regUpdateError } = await supabaseAdmin
+        .from("registrations")
+        .update({
+          payment_status: fullyRefunded ? "refunded" : "partially_refunded",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", registration.id);
+
+      if (regUpdateError) {
+        throw new Error(
+          `Failed to update registration payment status: ${regUpdateError.message}`
+        );
+      }
+    }
+  }
+
   // Send confirmation email after successful payment
   private static async sendPaymentConfirmationEmail(registrationId: string) {
     try {
@@ -590,7 +840,10 @@ export class PaymentService {
       }
 
       const freshTokenData = organizerUserId
-        ? await getFreshAccessToken(organizerUserId)
+        ? await OrganizationService.getEventSenderToken({
+            id: event.id,
+            organizer_id: organizerUserId,
+          })
         : null;
 
       if (freshTokenData) {
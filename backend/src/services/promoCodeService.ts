@@ -0,0 +1,165 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { roundCurrency } from "../utils/common.js";
+
+export type PromoDiscountType = "percentage" | "fixed";
+
+export interface PromoCode {
+  id: string;
+  event_id: string;
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  tier_ids: string[] | null;
+  max_uses: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  single_use_per_user: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromoCodeValidationResult {
+  valid: boolean;
+  promoCode?: PromoCode;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  error?: string;
+}
+
+export const PROMO_CODE_COLUMNS = `
+  id, event_id, code, discount_type, discount_value, tier_ids, max_uses,
+  valid_from, valid_until, single_use_per_user, is_active, created_by,
+  created_at, updated_at
+`;
+
+export class PromoCodeService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static async findByCode(
+    eventId: string,
+    code: string
+  ): Promise<PromoCode | null> {
+    const { data: promoCode, error } = await supabaseAdmin
+      .from("promo_codes")
+      .select(PROMO_CODE_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("code", this.normalizeCode(code))
+      .single();
+
+    if (error || !promoCode) {
+      return null;
+    }
+
+    return promoCode as PromoCode;
+  }
+
+  /**
+   * Redemptions are registrations that hold the code. Cancelling frees a use
+   * towards max_uses, but a user's own count includes cancelled
+   * registrations so single-use codes can't be reused by re-registering.
+   */
+  static async countRedemptions(
+    promoCodeId: string,
+    userId?: string
+  ): Promise<number> {
+    let query = supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("promo_code_id", promoCodeId);
+
+    if (userId) {
+      query = query.eq("user_id", userId);
+    } else {
+      query = query.neq("status", "cancelled");
+    }
+
+    const { count } = await query;
+    return count || 0;
+  }
+
+  static calculateDiscount(promoCode: PromoCode, amount: number): number {
+    const discount =
+      promoCode.discount_type === "percentage"
+        ? (amount * Number(promoCode.discount_value)) / 100
+        : Number(promoCode.discount_value);
+
+    return roundCurrency(Math.min(Math.max(discount, 0), amount));
+  }
+
+  /**
+   * Check a code against an event, ticket tier and user and work out the
+   * discounted price. Used both to preview a code and at registration time.
+   */
+  static async validate(
+    eventId: string,
+    code: string,
+    amount: number,
+    userId: string,
+    tierId?: string | null
+  ): Promise<PromoCodeValidationResult> {
+    const invalid = (error: string): PromoCodeValidationResult => ({
+      valid: false,
+      originalAmount: amount,
+      discountAmount: 0,
+      finalAmount: amount,
+      error,
+    });
+
+    const promoCode = await this.findByCode(eventId, code);
+    if (!promoCode || !promoCode.is_active) {
+      return invalid("Promo code is not valid for this event");
+    }
+
+    const now = new Date();
+    if (promoCode.valid_from && now < new Date(promoCode.valid_from)) {
+      return invalid("Promo code is not active yet");
+    }
+    if (promoCode.valid_until && now > new Date(promoCode.valid_until)) {
+      return invalid("Promo code has expired");
+    }
+
+    if (
+      promoCode.tier_ids &&
+      promoCode.tier_ids.length > 0 &&
+      (!tierId || !promoCode.tier_ids.includes(tierId))
+    ) {
+      return invalid("Promo code does not apply to this ticket type");
+    }
+
+    if (amount <= 0) {
+      return invalid("Promo codes only apply to paid tickets");
+    }
+
+    if (promoCode.max_uses !== null) {
+      const redemptions = await this.countRedemptions(promoCode.id);
+      if (redemptions >= promoCode.max_uses) {
+        return invalid("Promo code has reached its usage limit");
+      }
+    }
+
+    if (promoCode.single_use_per_user) {
+      const userRedemptions = await this.countRedemptions(
+        promoCode.id,
+        userId
+      );
+      if (userRedemptions > 0) {
+        return invalid("You have already used this promo code");
+      }
+    }
+
+    const discountAmount = this.calculateDiscount(promoCode, amount);
+
+    return {
+      valid: true,
+      promoCode,
+      originalAmount: amount,
+      discountAmount,
+      finalAmount: roundCurrency(amount - discountAmount),
+    };
+  }
+}
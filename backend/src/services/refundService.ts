@@ -0,0 +1,200 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { roundCurrency } from "../utils/common.js";
+
+export type RefundPolicyType = "full" | "partial" | "none";
+
+export interface RefundPolicy {
+  event_id: string;
+  policy_type: RefundPolicyType;
+  refund_percentage: number;
+  refund_deadline: string | null; // null = refunds allowed until the event starts
+  updated_at: string | null;
+}
+
+export interface RefundablePayment {
+  id: string;
+  registration_id: string;
+  amount: number;
+  refunded_amount: number;
+  currency: string;
+  status: string;
+  gateway_payment_id: string | null;
+}
+
+export interface RefundQuote {
+  eligible: boolean;
+  amount: number;
+  paidAmount: number;
+  percentage: number;
+  reason?: string;
+}
+
+export const REFUND_POLICY_COLUMNS = `
+  event_id, policy_type, refund_percentage, refund_deadline, updated_at
+`;
+
+export const REFUNDABLE_PAYMENT_COLUMNS = `
+  id, registration_id, amount, refunded_amount, currency, status,
+  gateway_payment_id
+`;
+
+export class RefundService {
+  // Events without a saved policy do not refund automatically on cancellation
+  static defaultPolicy(eventId: string): RefundPolicy {
+    return {
+      event_id: eventId,
+      policy_type: "none",
+      refund_percentage: 0,
+      refund_deadline: null,
+      updated_at: null,
+    };
+  }
+
+  static async getPolicy(eventId: string): Promise<RefundPolicy> {
+    const { data: policy, error } = await supabaseAdmin
+      .from("event_refund_policies")
+      .select(REFUND_POLICY_COLUMNS)
+      .eq("event_id", eventId)
+      .single();
+
+    if (error || !policy) {
+      return this.defaultPolicy(eventId);
+    }
+
+    return policy as RefundPolicy;
+  }
+
+  static async savePolicy(
+    eventId: string,
+    policyType: RefundPolicyType,
+    refundPercentage: number | undefined,
+    refundDeadline: Date | null | undefined
+  ): Promise<RefundPolicy> {
+    const percentage =
+      policyType === "full"
+        ? 100
+        : policyType === "partial"
+        ? refundPercentage ?? 0
+        : 0;
+
+    const { data: policy, error } = await supabaseAdmin
+      .from("event_refund_policies")
+      .upsert(
+        {
+          event_id: eventId,
+          policy_type: policyType,
+          refund_percentage: percentage,
+          refund_deadline:
+            policyType === "none" ? null : refundDeadline ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "event_id" }
+      )
+      .select(REFUND_POLICY_COLUMNS)
+      .single();
+
+    if (error || !policy) {
+      throw new Error(
+        `Failed to save refund policy: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    return policy as RefundPolicy;
+  }
+
+  // The completed payment for a registration that still has money to return
+  static async getRefundablePayment(
+    registrationId: string
+  ): Promise<RefundablePayment | null> {
+    const { data: payment, error } = await supabaseAdmin
+      .from("payments")
+      .select(REFUNDABLE_PAYMENT_COLUMNS)
+      .eq("registration_id", registrationId)
+      .in("status", ["completed", "partially_refunded"])
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error || !payment) {
+      return null;
+    }
+
+    return payment as RefundablePayment;
+  }
+
+  /**
+   * Flag a cancelled registration whose refund Stripe refused, so organizers
+   * can see it and retry from the registrations list.
+   */
+  static async markRefundFailed(registrationId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("registrations")
+      .update({
+        payment_status: "refund_failed",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", registrationId);
+
+    if (error) {
+      console.error("Failed to flag refund failure:", error);
+    }
+  }
+
+  static remainingAmount(payment: RefundablePayment): number {
+    return roundCurrency(
+      Math.max(
+        Number(payment.amount) - (Number(payment.refunded_amount) || 0),
+        0
+      )
+    );
+  }
+
+  /**
+   * Work out what an attendee gets back for cancelling under a policy. The
+   * percentage applies to what they paid, never more than is left to refund,
+   * and nothing is refunded after the cut-off or once the event has started.
+   */
+  static quote(
+    policy: RefundPolicy,
+    eventStartDate: string,
+    payment: RefundablePayment,
+    now: Date = new Date()
+  ): RefundQuote {
+    const paidAmount = Number(payment.amount);
+    const notEligible = (reason: string): RefundQuote => ({
+      eligible: false,
+      amount: 0,
+      paidAmount,
+      percentage: 0,
+      reason,
+    });
+
+    if (policy.policy_type === "none") {
+      return notEligible("This event does not offer refunds on cancellation");
+    }
+
+    const cutoff = policy.refund_deadline
+      ? new Date(
+          Math.min(
+            new Date(policy.refund_deadline).getTime(),
+            new Date(eventStartDate).getTime()
+          )
+        )
+      : new Date(eventStartDate);
+
+    if (now > cutoff) {
+      return notEligible("The refund deadline for this event has passed");
+    }
+
+    const percentage = Number(policy.refund_percentage);
+    const amount = roundCurrency(
+      Math.min((paidAmount * percentage) / 100, this.remainingAmount(payment))
+    );
+
+    if (amount <= 0) {
+      return notEligible("Nothing is left to refund for this registration");
+    }
+
+    return { eligible: true, amount, paidAmount, percentage };
+  }
+}
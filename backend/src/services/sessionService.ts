@@ -0,0 +1,417 @@
+import { supabaseAdmin } from "../config/supabase.js";
+
+export interface EventSession {
+  id: string;
+  event_id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  room: string | null;
+  speaker: string | null;
+  capacity: number | null;
+  signup_required: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventSessionWithAvailability extends EventSession {
+  signed_up: number;
+  remaining: number | null; // null = no session capacity
+}
+
+export interface CertificateEligibility {
+  event_id: string;
+  min_sessions: number | null;
+  min_hours: number | null;
+  updated_at: string | null;
+}
+
+// Sessions a registration attended, for certificate eligibility
+export interface SessionAttendanceTotals {
+  sessions: number;
+  hours: number;
+}
+
+export interface SessionSelectionResult {
+  sessions: EventSession[];
+  error?: string;
+}
+
+export const SESSION_COLUMNS = `
+  id, event_id, title, description, start_time, end_time, room, speaker,
+  capacity, signup_required, sort_order, created_at, updated_at
+`;
+
+export const CERTIFICATE_ELIGIBILITY_COLUMNS = `
+  event_id, min_sessions, min_hours, updated_at
+`;
+
+const sessionHours = (session: Pick<EventSession, "start_time" | "end_time">) =>
+  (new Date(session.end_time).getTime() -
+    new Date(session.start_time).getTime()) /
+  3600000;
+
+const overlaps = (a: EventSession, b: EventSession) =>
+  new Date(a.start_time) < new Date(b.end_time) &&
+  new Date(b.start_time) < new Date(a.end_time);
+
+/**
+ * Agenda sessions split an event into timed blocks (talks, workshops) that
+ * attendees can sign up for and are scanned into at the room door. Signing
+ * up is only enforced at the door for sessions marked signup_required.
+ */
+export class SessionService {
+  static async getSession(sessionId: string): Promise<EventSession | null> {
+    const { data: session, error } = await supabaseAdmin
+      .from("event_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("id", sessionId)
+      .single();
+
+    if (error || !session) {
+      return null;
+    }
+
+    return session as EventSession;
+  }
+
+  static async getEventSessions(eventId: string): Promise<EventSession[]> {
+    const { data: sessions, error } = await supabaseAdmin
+      .from("event_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("event_id", eventId)
+      .order("start_time", { ascending: true })
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch sessions: ${error.message}`);
+    }
+
+    return (sessions || []) as EventSession[];
+  }
+
+  static async countSignups(sessionId: string): Promise<number> {
+    const { count } = await supabaseAdmin
+      .from("session_registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("session_id", sessionId);
+
+    return count || 0;
+  }
+
+  static async withAvailability(
+    sessions: EventSession[]
+  ): Promise<EventSessionWithAvailability[]> {
+    return Promise.all(
+      sessions.map(async (session) => {
+        const signedUp = await this.countSignups(session.id);
+        return {
+          ...session,
+          signed_up: signedUp,
+          remaining:
+            session.capacity === null
+              ? null
+              : Math.max(session.capacity - signedUp, 0),
+        };
+      })
+    );
+  }
+
+  /**
+   * Check a set of sessions an attendee wants to join: they must belong to
+   * the event, must not overlap each other and must have room left. Seats
+   * the registration already holds don't count against capacity.
+   */
+  static async validateSelection(
+    eventId: string,
+    sessionIds: string[],
+    registrationId?: string
+  ): Promise<SessionSelectionResult> {
+    const uniqueIds = Array.from(new Set(sessionIds));
+    if (uniqueIds.length === 0) {
+      return { sessions: [] };
+    }
+
+    const { data: sessions, error } = await supabaseAdmin
+      .from("event_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("event_id", eventId)
+      .in("id", uniqueIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch sessions: ${error.message}`);
+    }
+
+    const selected = (sessions || []) as EventSession[];
+    if (selected.length !== uniqueIds.length) {
+      return { sessions: [], error: "One or more sessions were not found" };
+    }
+
+    for (let i = 0; i < selected.length; i++) {
+      for (let j = i + 1; j < selected.length; j++) {
+        if (overlaps(selected[i], selected[j])) {
+          return {
+            sessions: [],
+            error: `"${selected[i].title}" and "${selected[j].title}" run at the same time`,
+          };
+        }
+      }
+    }
+
+    const held = new Set<string>();
+    if (registrationId) {
+      const { data: existing } = await supabaseAdmin
+        .from("session_registrations")
+        .select("session_id")
+        .eq("registration_id", registrationId);
+      (existing || []).forEach((row) => held.add(row.session_id));
+    }
+
+    for (const session of selected) {
+      if (session.capacity === null || held.has(session.id)) continue;
+      if ((await this.countSignups(session.id)) >= session.capacity) {
+        return { sessions: [], error: `"${session.title}" is full` };
+      }
+    }
+
+    return { sessions: selected };
+  }
+
+  static async getSignups(registrationId: string): Promise<string[]> {
+    const { data: signups, error } = await supabaseAdmin
+      .from("session_registrations")
+      .select("session_id")
+      .eq("registration_id", registrationId);
+
+    if (error) {
+      throw new Error(`Failed to fetch session sign-ups: ${error.message}`);
+    }
+
+    return (signups || []).map((row) => row.session_id);
+  }
+
+  // Replace a registration's sign-ups with an already validated selection
+  static async replaceSignups(
+    eventId: string,
+    registrationId: string,
+    sessionIds: string[]
+  ): Promise<void> {
+    const { error: deleteError } = await supabaseAdmin
+      .from("session_registrations")
+      .delete()
+      .eq("registration_id", registrationId);
+
+    if (deleteError) {
+      throw new Error(
+        `Failed to clear session sign-ups: ${deleteError.message}`
+      );
+    }
+
+    if (sessionIds.length === 0) return;
+
+    const { error } = await supabaseAdmin.from("session_registrations").insert(
+      sessionIds.map((sessionId) => ({
+        session_id: sessionId,
+        registration_id: registrationId,
+        event_id: eventId,
+        created_at: new Date().toISOString(),
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to save session sign-ups: ${error.message}`);
+    }
+  }
+
+  // Cancelled registrations give their session seats back
+  static async releaseSignups(registrationId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("session_registrations")
+      .delete()
+      .eq("registration_id", registrationId);
+
+    if (error) {
+      console.error("Failed to release session sign-ups:", error);
+    }
+  }
+
+  static async isSignedUp(
+    sessionId: string,
+    registrationId: string
+  ): Promise<boolean> {
+    const { data } = await supabaseAdmin
+      .from("session_registrations")
+      .select("id")
+      .eq("session_id", sessionId)
+      .eq("registration_id", registrationId)
+      .single();
+
+    return !!data;
+  }
+
+  static async getSessionCheckIn(sessionId: string, registrationId: string) {
+    const { data } = await supabaseAdmin
+      .from("session_attendance")
+      .select("id, checked_in_at")
+      .eq("session_id", sessionId)
+      .eq("registration_id", registrationId)
+      .single();
+
+    return data;
+  }
+
+  static async checkIn(
+    session: EventSession,
+    registrationId: string,
+    userId: string,
+    method: "qr_code" | "manual"
+  ) {
+    const { data: attendance, error } = await supabaseAdmin
+      .from("session_attendance")
+      .insert({
+        session_id: session.id,
+        registration_id: registrationId,
+        event_id: session.event_id,
+        checked_in_by: userId,
+        checked_in_at: new Date().toISOString(),
+        method,
+      })
+      .select("id, session_id, registration_id, checked_in_at, method")
+      .single();
+
+    if (error || !attendance) {
+      throw new Error(
+        `Failed to check in to session: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    return attendance;
+  }
+
+  static async getSessionAttendance(sessionId: string) {
+    const { data: rows, error } = await supabaseAdmin
+      .from("session_attendance")
+      .select(
+        "id, checked_in_at, method, registration:registration_id(id, name, email)"
+      )
+      .eq("session_id", sessionId)
+      .order("checked_in_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch session attendance: ${error.message}`);
+    }
+
+    return (rows || []).map((row: any) => ({
+      ...row,
+      registration: Array.isArray(row.registration)
+        ? row.registration[0]
+        : row.registration,
+    }));
+  }
+
+  // Events without a saved rule issue certificates to anyone checked in
+  static defaultEligibility(eventId: string): CertificateEligibility {
+    return {
+      event_id: eventId,
+      min_sessions: null,
+      min_hours: null,
+      updated_at: null,
+    };
+  }
+
+  static async getEligibility(
+    eventId: string
+  ): Promise<CertificateEligibility> {
+    const { data: rule, error } = await supabaseAdmin
+      .from("certificate_eligibility_rules")
+      .select(CERTIFICATE_ELIGIBILITY_COLUMNS)
+      .eq("event_id", eventId)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      throw new Error(
+        `Failed to fetch certificate eligibility: ${error.message}`
+      );
+    }
+
+    return (rule as CertificateEligibility) || this.defaultEligibility(eventId);
+  }
+
+  static async saveEligibility(
+    eventId: string,
+    rule: { minSessions?: number | null; minHours?: number | null }
+  ): Promise<CertificateEligibility> {
+    const { data: saved, error } = await supabaseAdmin
+      .from("certificate_eligibility_rules")
+      .upsert(
+        {
+          event_id: eventId,
+          min_sessions: rule.minSessions ?? null,
+          min_hours: rule.minHours ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "event_id" }
+      )
+      .select(CERTIFICATE_ELIGIBILITY_COLUMNS)
+      .single();
+
+    if (error || !saved) {
+      throw new Error(
+        `Failed to save certificate eligibility: ${
+          error?.message || "Unknown error"
+        }`
+      );
+    }
+
+    return saved as CertificateEligibility;
+  }
+
+  static usesSessionRule(rule: CertificateEligibility): boolean {
+    return rule.min_sessions !== null || rule.min_hours !== null;
+  }
+
+  static meetsRule(
+    rule: CertificateEligibility,
+    totals: SessionAttendanceTotals
+  ): boolean {
+    if (rule.min_sessions !== null && totals.sessions < rule.min_sessions) {
+      return false;
+    }
+    if (rule.min_hours !== null && totals.hours < Number(rule.min_hours)) {
+      return false;
+    }
+    return true;
+  }
+
+  // Sessions attended and hours spent in them, per registration
+  static async getAttendanceTotals(
+    eventId: string
+  ): Promise<Map<string, SessionAttendanceTotals>> {
+    const { data: rows, error } = await supabaseAdmin
+      .from("session_attendance")
+      .select("registration_id, session:session_id(start_time, end_time)")
+      .eq("event_id", eventId);
+
+    if (error) {
+      throw new Error(`Failed to fetch session attendance: ${error.message}`);
+    }
+
+    const totals = new Map<string, SessionAttendanceTotals>();
+    (rows || []).forEach((row: any) => {
+      const session = Array.isArray(row.session) ? row.session[0] : row.session;
+      if (!session) return;
+
+      const current = totals.get(row.registration_id) || {
+        sessions: 0,
+        hours: 0,
+      };
+      current.sessions += 1;
+      current.hours += sessionHours(session);
+      totals.set(row.registration_id, current);
+    });
+
+    return totals;
+  }
+}
@@ -0,0 +1,261 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { EmailService, StaffAccessChange } from "./emailService.js";
+import { OrganizationService } from "./organizationService.js";
+import {
+  EVENT_PERMISSIONS,
+  normalizePermissions,
+  type EventPermission,
+} from "../../../shared/dist/permissions.js";
+
+// Assignments made before staff could respond have no status and count as
+// accepted
+export type StaffAssignmentStatus = "pending" | "accepted" | "declined";
+
+export interface StaffAssignment {
+  id: string;
+  event_id: string;
+  user_id: string;
+  permissions: EventPermission[];
+  is_active: boolean;
+  status: StaffAssignmentStatus | null;
+  responded_at: string | null;
+  assigned_by: string;
+  created_at: string;
+}
+
+interface StaffEvent {
+  id: string;
+  title: string;
+  organizer_id: string;
+}
+
+export const STAFF_ASSIGNMENT_COLUMNS = `
+  id, event_id, user_id, permissions, is_active, status, responded_at,
+  assigned_by, created_at
+`;
+
+export const getAssignmentStatus = (assignment: {
+  status?: StaffAssignmentStatus | null;
+}): StaffAssignmentStatus => assignment.status || "accepted";
+
+// PostgREST filter for assignments that grant access to the event
+export const ACCEPTED_ASSIGNMENT_FILTER = "status.is.null,status.eq.accepted";
+
+const getLoginUrl = () =>
+  `${process.env.FRONTEND_URL || "http://localhost:5173"}/login`;
+
+/**
+ * Changes to a staff member's access after they've been added to an event:
+ * managers edit permissions, suspend (is_active = false), reactivate and
+ * remove; staff accept or decline. Declining also deactivates the assignment
+ * so every check that requires is_active shuts them out. Each change emails
+ * the other party, from the organizer's Gmail when they've granted it.
+ */
+export class StaffAssignmentService {
+  static async getEvent(eventId: string): Promise<StaffEvent | null> {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select("id, title, organizer_id")
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch event: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getAssignment(
+    eventId: string,
+    assignmentId: string
+  ): Promise<StaffAssignment | null> {
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .select(STAFF_ASSIGNMENT_COLUMNS)
+      .eq("id", assignmentId)
+      .eq("event_id", eventId)
+      .eq("role", "staff")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch staff assignment: ${error.message}`);
+    }
+
+    return data as StaffAssignment | null;
+  }
+
+  static async updatePermissions(
+    event: StaffEvent,
+    assignment: StaffAssignment,
+    permissions: EventPermission[]
+  ): Promise<StaffAssignment> {
+    const updated = await this.update(assignment.id, { permissions });
+    await this.notifyStaff(event, updated, "permissions-updated");
+    return updated;
+  }
+
+  /**
+   * Suspend or reactivate an assignment. Returns null when it is already in
+   * that state, or when reactivating one the staff member declined.
+   */
+  static async setActive(
+    event: StaffEvent,
+    assignment: StaffAssignment,
+    isActive: boolean
+  ): Promise<StaffAssignment | null> {
+    if (
+      assignment.is_active === isActive ||
+      getAssignmentStatus(assignment) === "declined"
+    ) {
+      return null;
+    }
+
+    const updated = await this.update(assignment.id, { is_active: isActive });
+    await this.notifyStaff(
+      event,
+      updated,
+      isActive ? "reactivated" : "suspended"
+    );
+    return updated;
+  }
+
+  static async remove(
+    event: StaffEvent,
+    assignment: StaffAssignment
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("event_users")
+      .delete()
+      .eq("id", assignment.id);
+
+    if (error) {
+      throw new Error(`Failed to remove staff member: ${error.message}`);
+    }
+
+    await this.notifyStaff(event, assignment, "removed");
+  }
+
+  /**
+   * The staff member's answer to a pending assignment. The update only
+   * matches pending rows, so a second answer returns null instead of
+   * overwriting the first.
+   */
+  static async respond(
+    eventId: string,
+    userId: string,
+    accept: boolean
+  ): Promise<StaffAssignment | null> {
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .update({
+        status: accept ? "accepted" : "declined",
+        responded_at: new Date().toISOString(),
+        ...(accept ? {} : { is_active: false }),
+      })
+      .eq("event_id", eventId)
+      .eq("user_id", userId)
+      .eq("role", "staff")
+      .eq("status", "pending")
+      .select(STAFF_ASSIGNMENT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to respond to assignment: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const assignment = data as StaffAssignment;
+    await this.notifyOrganizer(assignment, accept);
+    return assignment;
+  }
+
+  private static async update(
+    assignmentId: string,
+    changes: Partial<Pick<StaffAssignment, "permissions" | "is_active">>
+  ): Promise<StaffAssignment> {
+    const { data, error } = await supabaseAdmin
+      .from("event_users")
+      .update(changes)
+      .eq("id", assignmentId)
+      .select(STAFF_ASSIGNMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update staff assignment: ${error.message}`);
+    }
+
+    return data as StaffAssignment;
+  }
+
+  // Emails never fail the change they report
+  private static async notifyStaff(
+    event: StaffEvent,
+    assignment: StaffAssignment,
+    change: StaffAccessChange
+  ): Promise<void> {
+    try {
+      const { data: staffUser } = await supabaseAdmin
+        .from("users")
+        .select("name, email")
+        .eq("id", assignment.user_id)
+        .maybeSingle();
+      if (!staffUser?.email) return;
+
+      const tokenData = await OrganizationService.getEventSenderToken(event);
+      await EmailService.sendStaffAccessUpdate(
+        staffUser.email,
+        {
+          staffName: staffUser.name || "there",
+          eventTitle: event.title,
+          change,
+          permissions: normalizePermissions(assignment.permissions).map(
+            (permission) => EVENT_PERMISSIONS[permission]
+          ),
+          loginUrl: getLoginUrl(),
+        },
+        tokenData?.email,
+        tokenData?.accessToken,
+        tokenData?.refreshToken
+      );
+    } catch (error) {
+      console.error("📧 Staff access email failed:", error);
+    }
+  }
+
+  private static async notifyOrganizer(
+    assignment: StaffAssignment,
+    accepted: boolean
+  ): Promise<void> {
+    try {
+      const [{ data: event }, { data: staffUser }, { data: assigner }] =
+        await Promise.all([
+          supabaseAdmin
+            .from("events")
+            .select("title")
+            .eq("id", assignment.event_id)
+            .maybeSingle(),
+          supabaseAdmin
+            .from("users")
+            .select("name, email")
+            .eq("id", assignment.user_id)
+            .maybeSingle(),
+          supabaseAdmin
+            .from("users")
+            .select("name, email")
+            .eq("id", assignment.assigned_by)
+            .maybeSingle(),
+        ]);
+      if (!event || !staffUser || !assigner?.email) return;
+
+      await EmailService.sendStaffAssignmentResponse(assigner.email, {
+        organizerName: assigner.name || "there",
+        staffName: staffUser.name || staffUser.email,
+        eventTitle: event.title,
+        accepted,
+      });
+    } catch (error) {
+      console.error("📧 Staff response email failed:", error);
+    }
+  }
+}
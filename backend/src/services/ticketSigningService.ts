@@ -0,0 +1,364 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { supabaseAdmin } from "../config/supabase.js";
+
+export type TicketKeyStatus = "active" | "retired" | "revoked";
+
+export interface TicketSigningKey {
+  id: string;
+  event_id: string;
+  kid: string;
+  status: TicketKeyStatus;
+  created_by: string | null;
+  created_at: string;
+  retired_at: string | null;
+}
+
+// Claims carried inside a ticket QR code
+export interface TicketPayload {
+  k: string; // Signing key id
+  e: string; // Event id
+  r: string; // Registration id
+  t: string | null; // Ticket tier id
+  i: number; // Issued at (unix seconds)
+}
+
+export interface TicketVerificationResult {
+  valid: boolean;
+  payload?: TicketPayload;
+  error?: string;
+}
+
+export interface TicketRegistration {
+  id: string;
+  event_id: string;
+  ticket_tier_id?: string | null;
+}
+
+// A registration's current ticket and the ones reissues replaced
+export interface IssuedTickets extends TicketRegistration {
+  qr_code: string | null;
+  previous_qr_codes?: string[] | null;
+}
+
+export const TICKET_KEY_COLUMNS = `
+  id, event_id, kid, status, created_by, created_at, retired_at
+`;
+
+const TOKEN_VERSION = "v1";
+
+const base64url = (input: Buffer | string) =>
+  Buffer.from(input).toString("base64url");
+
+/**
+ * Ticket QR codes are HMAC-SHA256 signed tokens: "v1.<payload>.<signature>".
+ * Each event has its own signing keys. Key material is never stored; it is
+ * derived from TICKET_SIGNING_SECRET and the key id, so the database only
+ * records which keys exist and whether they are still trusted. Retired keys
+ * keep verifying tickets that were already sent until they are revoked.
+ */
+export class TicketSigningService {
+  private static getMasterSecret(): string {
+    const secret = process.env.TICKET_SIGNING_SECRET;
+    if (!secret) {
+      throw new Error("TICKET_SIGNING_SECRET is not configured");
+    }
+    return secret;
+  }
+
+  private static deriveKey(eventId: string, kid: string): Buffer {
+    return crypto
+      .createHmac("sha256", this.getMasterSecret())
+      .update(`${eventId}:${kid}`)
+      .digest();
+  }
+
+  private static sign(eventId: string, kid: string, data: string): string {
+    return crypto
+      .createHmac("sha256", this.deriveKey(eventId, kid))
+      .update(data)
+      .digest("base64url");
+  }
+
+  static isSignedTicket(code: string): boolean {
+    return code.startsWith(`${TOKEN_VERSION}.`);
+  }
+
+  /**
+   * Tickets emailed before signing was introduced carry a plain
+   * "eventId:registrationId" code. They are still honoured at the door; the
+   * caller must check the registration is still confirmed.
+   */
+  static parseLegacyTicket(
+    code: string
+  ): Pick<TicketPayload, "e" | "r"> | null {
+    const [eventId, registrationId, ...rest] = code.trim().split(":");
+    const uuid = z.string().uuid();
+    if (
+      rest.length > 0 ||
+      !uuid.safeParse(eventId).success ||
+      !uuid.safeParse(registrationId).success
+    ) {
+      return null;
+    }
+
+    return { e: eventId, r: registrationId };
+  }
+
+  static async getEventKeys(eventId: string): Promise<TicketSigningKey[]> {
+    const { data: keys, error } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .select(TICKET_KEY_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch ticket signing keys: ${error.message}`);
+    }
+
+    return (keys || []) as TicketSigningKey[];
+  }
+
+  private static async createKey(
+    eventId: string,
+    createdBy: string | null
+  ): Promise<TicketSigningKey> {
+    const { data: key, error } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .insert({
+        event_id: eventId,
+        kid: crypto.randomBytes(6).toString("base64url"),
+        status: "active",
+        created_by: createdBy,
+        created_at: new Date().toISOString(),
+      })
+      .select(TICKET_KEY_COLUMNS)
+      .single();
+
+    if (error || !key) {
+      throw new Error(
+        `Failed to create ticket signing key: ${
+          error?.message || "Unknown error"
+        }`
+      );
+    }
+
+    return key as TicketSigningKey;
+  }
+
+  // The key new tickets are signed with, created on first use
+  static async getActiveKey(eventId: string): Promise<TicketSigningKey> {
+    const { data: key } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .select(TICKET_KEY_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("status", "active")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .single();
+
+    if (key) {
+      return key as TicketSigningKey;
+    }
+
+    return this.createKey(eventId, null);
+  }
+
+  static async signTicket(registration: TicketRegistration): Promise<string> {
+    const key = await this.getActiveKey(registration.event_id);
+    return this.signWithKey(registration, key);
+  }
+
+  private static signWithKey(
+    registration: TicketRegistration,
+    key: TicketSigningKey
+  ): string {
+    const payload: TicketPayload = {
+      k: key.kid,
+      e: registration.event_id,
+      r: registration.id,
+      t: registration.ticket_tier_id || null,
+      i: Math.floor(Date.now() / 1000),
+    };
+    const data = `${TOKEN_VERSION}.${base64url(JSON.stringify(payload))}`;
+    return `${data}.${this.sign(key.event_id, key.kid, data)}`;
+  }
+
+  /**
+   * Read a signed ticket's claims without checking its signature. Only for
+   * tickets the server issued itself, such as those stored on registrations.
+   */
+  static decodeTicket(code: string): TicketPayload | null {
+    const parts = code.trim().split(".");
+    if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+      return payload?.k && payload.e && payload.r ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Every QR code that still checks a registration in, by the same rules as
+   * verifyTicket: its current ticket and any a reissue replaced, unless
+   * their key was revoked or the tier has since changed, plus the
+   * pre-signing "eventId:registrationId" code.
+   */
+  static acceptedTicketCodes(
+    registration: IssuedTickets,
+    keys: TicketSigningKey[]
+  ): string[] {
+    const trustedKids = new Set(
+      keys.filter((key) => key.status !== "revoked").map((key) => key.kid)
+    );
+    const signed = [
+      ...(registration.previous_qr_codes || []),
+      registration.qr_code,
+    ].filter((code): code is string => {
+      const payload = code ? this.decodeTicket(code) : null;
+      return (
+        !!payload &&
+        trustedKids.has(payload.k) &&
+        payload.e === registration.event_id &&
+        payload.r === registration.id &&
+        (payload.t || null) === (registration.ticket_tier_id || null)
+      );
+    });
+
+    return [...signed, `${registration.event_id}:${registration.id}`];
+  }
+
+  static async verifyTicket(code: string): Promise<TicketVerificationResult> {
+    const parts = code.trim().split(".");
+    if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) {
+      return { valid: false, error: "Unrecognised ticket format" };
+    }
+
+    let payload: TicketPayload;
+    try {
+      payload = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    } catch {
+      return { valid: false, error: "Ticket payload could not be read" };
+    }
+
+    if (!payload?.k || !payload.e || !payload.r) {
+      return { valid: false, error: "Ticket payload is incomplete" };
+    }
+
+    const { data: key } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .select(TICKET_KEY_COLUMNS)
+      .eq("event_id", payload.e)
+      .eq("kid", payload.k)
+      .single();
+
+    if (!key) {
+      return { valid: false, error: "Ticket was signed with an unknown key" };
+    }
+
+    if (key.status === "revoked") {
+      return {
+        valid: false,
+        error: "Ticket was signed with a revoked key and must be reissued",
+      };
+    }
+
+    const expected = Buffer.from(
+      this.sign(payload.e, payload.k, `${parts[0]}.${parts[1]}`)
+    );
+    const provided = Buffer.from(parts[2]);
+    if (
+      expected.length !== provided.length ||
+      !crypto.timingSafeEqual(expected, provided)
+    ) {
+      return { valid: false, error: "Ticket signature is invalid" };
+    }
+
+    return { valid: true, payload };
+  }
+
+  /**
+   * Start signing with a fresh key. The previous key is retired rather than
+   * revoked so tickets already in attendees' inboxes keep scanning.
+   */
+  static async rotateKey(
+    eventId: string,
+    userId: string
+  ): Promise<TicketSigningKey> {
+    const { error } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .update({ status: "retired", retired_at: new Date().toISOString() })
+      .eq("event_id", eventId)
+      .eq("status", "active");
+
+    if (error) {
+      throw new Error(`Failed to retire signing key: ${error.message}`);
+    }
+
+    return this.createKey(eventId, userId);
+  }
+
+  /**
+   * Re-sign every live ticket for an event with the active key. Replaced
+   * tickets are kept on the registration: they still scan until their key
+   * is revoked, and offline manifests need to recognise them too.
+   */
+  static async reissueTickets(eventId: string): Promise<number> {
+    const key = await this.getActiveKey(eventId);
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from("registrations")
+      .select("id, event_id, ticket_tier_id, qr_code, previous_qr_codes")
+      .eq("event_id", eventId)
+      .neq("status", "cancelled");
+
+    if (error) {
+      throw new Error(`Failed to fetch registrations: ${error.message}`);
+    }
+
+    for (const registration of registrations || []) {
+      const { error: updateError } = await supabaseAdmin
+        .from("registrations")
+        .update({
+          qr_code: this.signWithKey(registration, key),
+          previous_qr_codes:
+            registration.qr_code && this.isSignedTicket(registration.qr_code)
+              ? [
+                  ...(registration.previous_qr_codes || []),
+                  registration.qr_code,
+                ]
+              : registration.previous_qr_codes || [],
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", registration.id);
+
+      if (updateError) {
+        throw new Error(
+          `Failed to reissue ticket ${registration.id}: ${updateError.message}`
+        );
+      }
+    }
+
+    return registrations?.length || 0;
+  }
+
+  // Stop accepting tickets signed with retired keys
+  static async revokeRetiredKeys(eventId: string): Promise<number> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from("ticket_signing_keys")
+      .update({ status: "revoked" })
+      .eq("event_id", eventId)
+      .eq("status", "retired")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to revoke signing keys: ${error.message}`);
+    }
+
+    return revoked?.length || 0;
+  }
+}
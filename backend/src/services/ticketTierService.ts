@@ -0,0 +1,199 @@
+import { supabaseAdmin } from "../config/supabase.js";
+
+export type TicketTierVisibility = "public" | "hidden";
+
+export interface TicketTier {
+  id: string;
+  event_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  quantity: number | null;
+  sales_start: string | null;
+  sales_end: string | null;
+  visibility: TicketTierVisibility;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TicketTierWithAvailability extends TicketTier {
+  sold: number;
+  remaining: number | null; // null = limited only by event capacity
+  on_sale: boolean;
+}
+
+export interface TierSelectionResult {
+  tier: TicketTier | null;
+  error?: string;
+}
+
+export const TICKET_TIER_COLUMNS = `
+  id, event_id, name, description, price, quantity, sales_start, sales_end,
+  visibility, sort_order, created_at, updated_at
+`;
+
+export class TicketTierService {
+  static async getTier(tierId: string): Promise<TicketTier | null> {
+    const { data: tier, error } = await supabaseAdmin
+      .from("ticket_tiers")
+      .select(TICKET_TIER_COLUMNS)
+      .eq("id", tierId)
+      .single();
+
+    if (error || !tier) {
+      return null;
+    }
+
+    return tier as TicketTier;
+  }
+
+  static async getEventTiers(eventId: string): Promise<TicketTier[]> {
+    const { data: tiers, error } = await supabaseAdmin
+      .from("ticket_tiers")
+      .select(TICKET_TIER_COLUMNS)
+      .eq("event_id", eventId)
+      .order("sort_order", { ascending: true })
+      .order("price", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch ticket tiers: ${error.message}`);
+    }
+
+    return (tiers || []) as TicketTier[];
+  }
+
+  /**
+   * Tickets taken from a tier: confirmed seats, registrations waiting on
+   * payment, and waitlist offers whose claim window is still open.
+   */
+  static async countSold(tierId: string): Promise<number> {
+    const { count: takenCount } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("ticket_tier_id", tierId)
+      .or(
+        "status.eq.confirmed,and(status.eq.pending,waitlist_offer_expires_at.is.null)"
+      );
+
+    const { count: offeredCount } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("ticket_tier_id", tierId)
+      .in("status", ["waitlisted", "pending"])
+      .gt("waitlist_offer_expires_at", new Date().toISOString());
+
+    return (takenCount || 0) + (offeredCount || 0);
+  }
+
+  static isOnSale(tier: TicketTier, now: Date = new Date()): boolean {
+    if (tier.sales_start && now < new Date(tier.sales_start)) {
+      return false;
+    }
+    if (tier.sales_end && now > new Date(tier.sales_end)) {
+      return false;
+    }
+    return true;
+  }
+
+  static async withAvailability(
+    tiers: TicketTier[]
+  ): Promise<TicketTierWithAvailability[]> {
+    return Promise.all(
+      tiers.map(async (tier) => {
+        const sold = await this.countSold(tier.id);
+        return {
+          ...tier,
+          sold,
+          remaining:
+            tier.quantity === null ? null : Math.max(tier.quantity - sold, 0),
+          on_sale: this.isOnSale(tier),
+        };
+      })
+    );
+  }
+
+  /**
+   * Resolve the tier a new registration will hold. Events without tiers keep
+   * the legacy single price; events with tiers require a tier that is on sale
+   * and not sold out. Hidden tiers (e.g. sponsor comps) can be used by anyone
+   * holding their direct link but are never listed publicly.
+   */
+  static async selectTierForRegistration(
+    eventId: string,
+    tierId?: string
+  ): Promise<TierSelectionResult> {
+    if (!tierId) {
+      const { count } = await supabaseAdmin
+        .from("ticket_tiers")
+        .select("*", { count: "exact", head: true })
+        .eq("event_id", eventId);
+
+      if (count && count > 0) {
+        return { tier: null, error: "Please select a ticket type" };
+      }
+
+      return { tier: null };
+    }
+
+    const tier = await this.getTier(tierId);
+    if (!tier || tier.event_id !== eventId) {
+      return { tier: null, error: "Ticket type not found for this event" };
+    }
+
+    const now = new Date();
+    if (tier.sales_start && now < new Date(tier.sales_start)) {
+      return {
+        tier: null,
+        error: `${tier.name} tickets go on sale ${new Date(
+          tier.sales_start
+        ).toLocaleString()}`,
+      };
+    }
+    if (tier.sales_end && now > new Date(tier.sales_end)) {
+      return {
+        tier: null,
+        error: `${tier.name} ticket sales have ended`,
+      };
+    }
+
+    if (tier.quantity !== null) {
+      const sold = await this.countSold(tier.id);
+      if (sold >= tier.quantity) {
+        return { tier: null, error: `${tier.name} tickets are sold out` };
+      }
+    }
+
+    return { tier };
+  }
+
+  /**
+   * Keep the event-level is_paid/price in step with its tiers so listings
+   * and older clients show a sensible "from" price.
+   */
+  static async syncEventPricing(eventId: string): Promise<void> {
+    const tiers = await this.getEventTiers(eventId);
+    if (tiers.length === 0) {
+      return;
+    }
+
+    const publicTiers = tiers.filter((tier) => tier.visibility === "public");
+    const priced = (publicTiers.length > 0 ? publicTiers : tiers).map(
+      (tier) => Number(tier.price)
+    );
+    const lowestPrice = Math.min(...priced);
+
+    const { error } = await supabaseAdmin
+      .from("events")
+      .update({
+        is_paid: tiers.some((tier) => Number(tier.price) > 0),
+        price: lowestPrice,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", eventId);
+
+    if (error) {
+      console.error("Failed to sync event pricing with tiers:", error);
+    }
+  }
+}
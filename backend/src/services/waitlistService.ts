@@ -0,0 +1,408 @@
+import { supabaseAdmin } from "../config/supabase.js";
+import { EmailService, EmailTemplateData } from "./emailService.js";
+import { OrganizationService } from "./organizationService.js";
+import { SessionService } from "./sessionService.js";
+import { TicketTierService } from "./ticketTierService.js";
+
+// How long a promoted attendee has to claim their seat
+const CLAIM_WINDOW_HOURS = Number(process.env.WAITLIST_CLAIM_HOURS || 24);
+
+// How often expired offers are swept and rolled to the next person
+const EXPIRY_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ClaimResult {
+  registrationId: string;
+  status: "confirmed" | "pending";
+  requiresPayment: boolean;
+  amount: number;
+}
+
+export class WaitlistService {
+  /**
+   * Count seats currently taken: confirmed registrations plus promoted
+   * waitlist entries whose claim window (or payment window) is still open.
+   */
+  static async countHeldSeats(eventId: string): Promise<number> {
+    const { count: confirmedCount } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .eq("status", "confirmed");
+
+    const { count: offeredCount } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .in("status", ["waitlisted", "pending"])
+      .gt("waitlist_offer_expires_at", new Date().toISOString());
+
+    return (confirmedCount || 0) + (offeredCount || 0);
+  }
+
+  // Number of people still queued (not yet offered a seat)
+  static async countQueued(eventId: string): Promise<number> {
+    const { count } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .eq("status", "waitlisted")
+      .is("waitlist_offer_expires_at", null);
+
+    return count || 0;
+  }
+
+  // Next position at the back of an event's queue
+  static async nextPosition(eventId: string): Promise<number> {
+    const { data: last } = await supabaseAdmin
+      .from("registrations")
+      .select("waitlist_position")
+      .eq("event_id", eventId)
+      .not("waitlist_position", "is", null)
+      .order("waitlist_position", { ascending: false })
+      .limit(1)
+      .single();
+
+    return (last?.waitlist_position || 0) + 1;
+  }
+
+  // 1-based place in line for a queued registration
+  static async getQueuePosition(
+    eventId: string,
+    waitlistPosition: number
+  ): Promise<number> {
+    const { count } = await supabaseAdmin
+      .from("registrations")
+      .select("*", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .eq("status", "waitlisted")
+      .is("waitlist_offer_expires_at", null)
+      .lt("waitlist_position", waitlistPosition);
+
+    return (count || 0) + 1;
+  }
+
+  /**
+   * Offer free seats to the people at the front of the queue.
+   * Called when a seat is released (cancellation, expired offer) or the
+   * organizer raises the event capacity.
+   */
+  static async promoteNext(eventId: string): Promise<number> {
+    try {
+      const { data: event, error: eventError } = await supabaseAdmin
+        .from("events")
+        .select("id, title, capacity, start_date, is_paid, organizer_id")
+        .eq("id", eventId)
+        .single();
+
+      if (eventError || !event) {
+        return 0;
+      }
+
+      // No point offering seats for an event that has already started
+      if (new Date() > new Date(event.start_date)) {
+        return 0;
+      }
+
+      const freeSeats = event.capacity - (await this.countHeldSeats(eventId));
+      if (freeSeats <= 0) {
+        return 0;
+      }
+
+      const { data: nextInLine } = await supabaseAdmin
+        .from("registrations")
+        .select(
+          "id, name, email, ticket_tier:ticket_tier_id (id, price, quantity)"
+        )
+        .eq("event_id", eventId)
+        .eq("status", "waitlisted")
+        .is("waitlist_offer_expires_at", null)
+        .order("waitlist_position", { ascending: true });
+
+      if (!nextInLine || nextInLine.length === 0) {
+        return 0;
+      }
+
+      const expiresAt = new Date(
+        Date.now() + CLAIM_WINDOW_HOURS * 60 * 60 * 1000
+      );
+      // Never let the claim window run past the event start
+      const eventStart = new Date(event.start_date);
+      const offerExpiresAt = expiresAt > eventStart ? eventStart : expiresAt;
+
+      const freshTokenData =
+        await OrganizationService.getEventSenderToken(event);
+      const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+
+      // Seats left per tier; people queued for a sold-out tier keep their place
+      const tierStock = new Map<string, number>();
+      let promoted = 0;
+
+      for (const registration of nextInLine as any[]) {
+        if (promoted >= freeSeats) {
+          break;
+        }
+
+        const tier = Array.isArray(registration.ticket_tier)
+          ? registration.ticket_tier[0]
+          : registration.ticket_tier;
+
+        if (tier && tier.quantity !== null) {
+          if (!tierStock.has(tier.id)) {
+            const sold = await TicketTierService.countSold(tier.id);
+            tierStock.set(tier.id, tier.quantity - sold);
+          }
+          if ((tierStock.get(tier.id) || 0) <= 0) {
+            continue;
+          }
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from("registrations")
+          .update({
+            waitlist_offer_expires_at: offerExpiresAt.toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", registration.id)
+          .eq("status", "waitlisted");
+
+        if (updateError) {
+          console.error("Failed to promote waitlisted registration:", updateError);
+          continue;
+        }
+
+        promoted++;
+        if (tier && tier.quantity !== null) {
+          tierStock.set(tier.id, (tierStock.get(tier.id) || 0) - 1);
+        }
+
+        console.log(
+          `🎟️ Offered seat for event ${eventId} to registration ${registration.id}`
+        );
+
+        try {
+          await EmailService.sendWaitlistOffer(
+            registration.email,
+            {
+              participantName: registration.name || "Participant",
+              eventTitle: event.title,
+              claimUrl: `${frontendUrl}/my-registrations`,
+              expiresAt: offerExpiresAt.toLocaleString(),
+              requiresPayment: tier ? Number(tier.price) > 0 : event.is_paid,
+            },
+            freshTokenData?.email,
+            freshTokenData?.accessToken,
+            freshTokenData?.refreshToken
+          );
+        } catch (emailError) {
+          console.error("📧 Waitlist offer email failed:", emailError);
+          // The offer stands even if the email could not be delivered
+        }
+      }
+
+      return promoted;
+    } catch (error) {
+      console.error("Waitlist promotion error:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Claim a promoted seat. Free events are confirmed immediately; paid events
+   * move to pending payment and keep the seat held until the offer expires.
+   */
+  static async claim(registrationId: string, userId: string): Promise<ClaimResult> {
+    const { data: registration, error } = await supabaseAdmin
+      .from("registrations")
+      .select(
+        `
+        id, user_id, event_id, status, waitlist_offer_expires_at, discount_amount,
+        events (id, title, start_date, location, is_paid, price, organizer_id),
+        ticket_tier:ticket_tier_id (id, price)
+      `
+      )
+      .eq("id", registrationId)
+      .single();
+
+    if (error || !registration) {
+      throw new Error("Registration not found");
+    }
+
+    if (registration.user_id !== userId) {
+      throw new Error("You can only claim your own waitlist spot");
+    }
+
+    if (registration.status !== "waitlisted") {
+      throw new Error("This registration is not on the waitlist");
+    }
+
+    if (
+      !registration.waitlist_offer_expires_at ||
+      new Date() > new Date(registration.waitlist_offer_expires_at)
+    ) {
+      throw new Error("No seat is currently being held for you");
+    }
+
+    const event: any = Array.isArray(registration.events)
+      ? registration.events[0]
+      : registration.events;
+    const tier: any = Array.isArray(registration.ticket_tier)
+      ? registration.ticket_tier[0]
+      : registration.ticket_tier;
+
+    // The held ticket tier decides the price when the event has tiers, less
+    // any promo code discount applied when joining the waitlist
+    const listPrice = tier ? Number(tier.price) : event?.price || 0;
+    const price = Math.max(
+      listPrice - (Number(registration.discount_amount) || 0),
+      0
+    );
+    const requiresPayment = (tier ? listPrice > 0 : !!event?.is_paid) && price > 0;
+
+    if (requiresPayment) {
+      const { error: updateError } = await supabaseAdmin
+        .from("registrations")
+        .update({
+          status: "pending",
+          payment_status: "pending",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", registrationId);
+
+      if (updateError) {
+        throw new Error("Failed to claim waitlist spot");
+      }
+
+      return {
+        registrationId,
+        status: "pending",
+        requiresPayment: true,
+        amount: price,
+      };
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("registrations")
+      .update({
+        status: "confirmed",
+        waitlist_position: null,
+        waitlist_offer_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", registrationId);
+
+    if (updateError) {
+      throw new Error("Failed to claim waitlist spot");
+    }
+
+    await this.sendClaimConfirmation(registrationId);
+
+    return {
+      registrationId,
+      status: "confirmed",
+      requiresPayment: false,
+      amount: 0,
+    };
+  }
+
+  /**
+   * Release seats whose claim window lapsed and roll them to the next person.
+   * Paid claims whose payment already completed are left alone.
+   */
+  static async expireOffers(): Promise<void> {
+    try {
+      const { data: expired, error } = await supabaseAdmin
+        .from("registrations")
+        .select("id, event_id, payment_status")
+        .in("status", ["waitlisted", "pending"])
+        .lt("waitlist_offer_expires_at", new Date().toISOString());
+
+      if (error || !expired || expired.length === 0) {
+        return;
+      }
+
+      const affectedEvents = new Set<string>();
+      for (const registration of expired) {
+        if (registration.payment_status === "completed") {
+          continue;
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from("registrations")
+          .update({
+            status: "cancelled",
+            waitlist_offer_expires_at: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", registration.id);
+
+        if (!updateError) {
+          await SessionService.releaseSignups(registration.id);
+          affectedEvents.add(registration.event_id);
+        }
+      }
+
+      for (const eventId of affectedEvents) {
+        await this.promoteNext(eventId);
+      }
+    } catch (error) {
+      console.error("Waitlist expiry sweep error:", error);
+    }
+  }
+
+  // Periodically roll expired offers to the next person in line
+  static startExpiryScheduler(): NodeJS.Timeout {
+    return setInterval(() => {
+      this.expireOffers();
+    }, EXPIRY_SWEEP_INTERVAL_MS);
+  }
+
+  // Send the regular registration confirmation once a free seat is claimed
+  private static async sendClaimConfirmation(registrationId: string) {
+    try {
+      const { data: registration } = await supabaseAdmin
+        .from("registrations")
+        .select(
+          `
+          id, name, email, qr_code,
+          events (id, title, start_date, location, organizer_id)
+        `
+        )
+        .eq("id", registrationId)
+        .single();
+
+      const event: any = Array.isArray(registration?.events)
+        ? registration?.events[0]
+        : registration?.events;
+
+      if (!registration || !event) {
+        return;
+      }
+
+      const freshTokenData = event.organizer_id
+        ? await OrganizationService.getEventSenderToken(event)
+        : null;
+      const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+
+      const emailData: EmailTemplateData = {
+        participantName: registration.name || "Participant",
+        eventTitle: event.title,
+        eventDate: new Date(event.start_date).toLocaleDateString(),
+        eventTime: new Date(event.start_date).toLocaleTimeString(),
+        eventLocation: event.location || "TBA",
+        qrCode: registration.qr_code,
+        registrationId: registration.id,
+        ticketUrl: `${frontendUrl}/ticket/${registration.id}`,
+      };
+
+      await EmailService.sendRegistrationConfirmation(
+        registration.email,
+        emailData,
+        freshTokenData?.email,
+        freshTokenData?.accessToken,
+        freshTokenData?.refreshToken
+      );
+    } catch (error) {
+      console.error("📧 Waitlist claim confirmation failed:", error);
+    }
+  }
+}
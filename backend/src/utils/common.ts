@@ -0,0 +1,6 @@
+// Round to cents so Stripe and the payments record always agree
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Supabase returns embedded relations as an object or a one-element array
+export const pickOne = (value: any) =>
+  Array.isArray(value) ? value[0] : value;
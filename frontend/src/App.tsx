@@ -27,6 +27,9 @@ import EventsPage from "./pages/EventsPage";
 import QRScannerPage from "./pages/QRScannerPage";
 import PaymentPage from "./pages/PaymentPage";
 import EmailVerificationPage from "./pages/EmailVerificationPage";
+import InvitePage from "./pages/InvitePage";
+import OrganizationsPage from "./pages/OrganizationsPage";
+import OrganizationDashboardPage from "./pages/OrganizationDashboardPage";
 
 function App() {
   const validateToken = useAuthStore((state) => state.validateToken);
@@ -138,6 +141,24 @@ function App() {
           element={<CertificateVerificationPage />}
         />
 
+        {/* Organizations that own events */}
+        <Route
+          path="/organizations"
+          element={
+            <ProtectedRoute>
+              <OrganizationsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/organizations/:id"
+          element={
+            <ProtectedRoute>
+              <OrganizationDashboardPage />
+            </ProtectedRoute>
+          }
+        />
+
         {/* Admin Dashboard */}
         <Route
           path="/admin"
@@ -187,6 +208,9 @@ function App() {
           }
         />
 
+        {/* Invitation links for private and invite-only events */}
+        <Route path="/invite/:token" element={<InvitePage />} />
+
         {/* Public registration form */}
         <Route path="/events/:id/register" element={<RegistrationFormPage />} />
 
@@ -0,0 +1,139 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export type AttendanceMethod = "qr_code" | "manual";
+
+export interface AttendanceRecord {
+  id: string;
+  registration_id: string;
+  event_id: string;
+  checked_in_at: string;
+  checked_in_by: string;
+  method: AttendanceMethod;
+  location: string | null;
+  checked_out_at: string | null;
+  checked_out_by: string | null;
+  registration: {
+    id: string;
+    name: string;
+    email: string;
+    ticket_tier: string | null;
+  };
+  checked_in_by_user: {
+    name: string;
+  };
+}
+
+export interface AttendanceSummary {
+  total_registrations: number;
+  total_check_ins: number;
+  checked_out: number;
+  check_in_rate: string;
+}
+
+export interface AttendancePagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface AttendanceQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: "all" | "checked_in" | "checked_out";
+  method?: AttendanceMethod;
+  ticketTierId?: string;
+}
+
+// A confirmed registration found for manual check-in
+export interface CheckInCandidate {
+  id: string;
+  name: string;
+  email: string;
+  ticket_tier: string | null;
+  attendance: {
+    id: string;
+    checked_in_at: string;
+    checked_out_at: string | null;
+  } | null;
+}
+
+export interface AttendanceAuditEntry {
+  id: string;
+  event_id: string;
+  registration_id: string;
+  attendance_id: string;
+  action: "check_in" | "check_out" | "undo_check_in";
+  reason: string | null;
+  performed_by: string;
+  snapshot: Record<string, any> | null;
+  created_at: string;
+  performed_by_user: { name: string } | null;
+}
+
+export const AttendanceService = {
+  // Paginated, filterable attendance for an event
+  async getEventAttendance(
+    eventId: string,
+    query: AttendanceQuery = {}
+  ): Promise<
+    ApiResponse<{
+      attendance: AttendanceRecord[];
+      pagination: AttendancePagination;
+      summary: AttendanceSummary;
+    }>
+  > {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.append(key, String(value));
+      }
+    });
+
+    return apiClient.get(`/attendance/event/${eventId}?${params.toString()}`);
+  },
+
+  // Find registrations by name or email for manual check-in
+  async searchRegistrations(
+    eventId: string,
+    search: string
+  ): Promise<ApiResponse<{ registrations: CheckInCandidate[] }>> {
+    return apiClient.get(
+      `/attendance/event/${eventId}/search?q=${encodeURIComponent(search)}`
+    );
+  },
+
+  // Check-ins, check-outs and undone check-ins for an event
+  async getAuditLog(
+    eventId: string
+  ): Promise<ApiResponse<{ entries: AttendanceAuditEntry[] }>> {
+    return apiClient.get(`/attendance/event/${eventId}/audit`);
+  },
+
+  // Check in an attendee without scanning their ticket
+  async manualCheckIn(
+    eventId: string,
+    registrationId: string,
+    location?: string
+  ): Promise<ApiResponse<{ attendance: AttendanceRecord }>> {
+    return apiClient.post(`/attendance/checkin`, {
+      eventId,
+      registrationId,
+      location,
+    });
+  },
+
+  // Record that an attendee has left
+  async checkOut(
+    attendanceId: string
+  ): Promise<ApiResponse<{ attendance: AttendanceRecord }>> {
+    return apiClient.post(`/attendance/${attendanceId}/checkout`, {});
+  },
+
+  // Remove a mistaken check-in; the reason is kept in the audit log
+  async undoCheckIn(attendanceId: string, reason: string): Promise<ApiResponse> {
+    return apiClient.post(`/attendance/${attendanceId}/undo`, { reason });
+  },
+};
@@ -0,0 +1,62 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  color: string;
+  icon: string | null; // A lucide icon name
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface CategoryData {
+  name: string;
+  slug?: string;
+  color: string;
+  icon?: string | null;
+  description?: string | null;
+}
+
+export const CategoryService = {
+  // Get every category
+  async getCategories(): Promise<ApiResponse<{ categories: Category[] }>> {
+    return apiClient.get("/categories");
+  },
+
+  // Get tags in use on upcoming public events, most used first
+  async getPopularTags(
+    limit?: number
+  ): Promise<ApiResponse<{ tags: TagUsage[] }>> {
+    return apiClient.get(
+      limit ? `/categories/tags?limit=${limit}` : "/categories/tags"
+    );
+  },
+
+  // Create a category (admins only)
+  async createCategory(
+    data: CategoryData
+  ): Promise<ApiResponse<{ category: Category }>> {
+    return apiClient.post("/categories", data);
+  },
+
+  // Update a category (admins only)
+  async updateCategory(
+    id: string,
+    data: Partial<CategoryData>
+  ): Promise<ApiResponse<{ category: Category }>> {
+    return apiClient.put(`/categories/${id}`, data);
+  },
+
+  // Delete a category; its events become uncategorized (admins only)
+  async deleteCategory(id: string): Promise<ApiResponse> {
+    return apiClient.delete(`/categories/${id}`);
+  },
+};
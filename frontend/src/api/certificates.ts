@@ -11,32 +11,95 @@ export interface Certificate {
   event_id: string;
 }
 
+export type CertificateStatus = "valid" | "revoked" | "superseded";
+
 export interface CertificateVerification {
   valid: boolean;
+  status: CertificateStatus;
   certificate?: {
     code: string;
     participantName: string;
     participantEmail: string;
     issuedAt: string;
-    fileUrl: string;
+    fileUrl: string | null; // Only for valid certificates
     event: {
       title: string;
       date: string;
       location: string;
     };
+    issuer: string | null; // Organizer's organization or name
   };
+  revokedAt: string | null;
+  revocationReason: string | null;
+  supersededAt: string | null;
+  replacement: { code: string; issuedAt: string } | null;
+}
+
+// Claims signed into a certificate's QR code
+export interface CertificateClaims {
+  v: 1;
+  k: string; // Signing key id
+  c: string; // Certificate code
+  n: string; // Participant name
+  e: string; // Event id
+  t: string; // Event title
+  s: string; // Event start date
+  f: string; // Event end date
+  i: string; // Issued at
+}
+
+export interface CertificateSigningKey {
+  key_id: string;
+  algorithm: "ES256";
+  jwk: JsonWebKey;
+  pem: string;
 }
 
-export interface CertificateGeneration {
-  generated: number;
+export interface CertificateAuditEntry {
+  id: string;
+  certificate_id: string;
+  event_id: string;
+  action: "revoked" | "reissued";
+  reason: string | null;
+  replacement_id: string | null; // The certificate issued by a reissue
+  details: { previousName?: string; participantName?: string };
+  actor: { id: string; name: string; email: string } | null;
+  created_at: string;
+}
+
+export type CertificateJobItemStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface CertificateJob {
+  id: string;
+  event_id: string;
+  template_id: string;
+  created_by: string;
+  status: "queued" | "running" | "completed" | "cancelled";
   total: number;
-  certificates: Array<{
-    participant: string;
-    email: string;
-    certificateCode: string;
-    fileUrl: string;
-  }>;
-  errors?: string[];
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+  progress?: Record<CertificateJobItemStatus, number>;
+}
+
+export interface CertificateJobItem {
+  id: string;
+  job_id: string;
+  registration_id: string;
+  participant_name: string;
+  serial_number: number;
+  status: CertificateJobItemStatus;
+  attempts: number;
+  error: string | null;
+  certificate_code: string | null;
+  certificate_url: string | null;
+  updated_at: string;
 }
 
 export class CertificateService {
@@ -68,20 +131,48 @@ export class CertificateService {
     return apiClient.get(`/certificates/event/${eventId}`);
   }
 
-  // Generate certificates for event participants (organizer only)
+  // Queue certificate generation for event participants (organizer only)
   static async generateCertificates(
     eventId: string,
     options?: {
       participantIds?: string[];
       templateId?: string;
     }
-  ): Promise<ApiResponse<CertificateGeneration>> {
+  ): Promise<ApiResponse<{ job: CertificateJob }>> {
     return apiClient.post(`/certificates/events/${eventId}/generate`, {
       participantIds: options?.participantIds,
       templateId: options?.templateId,
     });
   }
 
+  // Recent generation jobs for an event, with progress counts
+  static async getGenerationJobs(
+    eventId: string
+  ): Promise<ApiResponse<{ jobs: CertificateJob[] }>> {
+    return apiClient.get(`/certificates/events/${eventId}/jobs`);
+  }
+
+  // One generation job with per-participant status
+  static async getGenerationJob(
+    jobId: string
+  ): Promise<
+    ApiResponse<{ job: CertificateJob; items: CertificateJobItem[] }>
+  > {
+    return apiClient.get(`/certificates/jobs/${jobId}`);
+  }
+
+  // Stop a generation job; issued certificates are kept
+  static async cancelGenerationJob(jobId: string): Promise<ApiResponse> {
+    return apiClient.post(`/certificates/jobs/${jobId}/cancel`);
+  }
+
+  // Requeue failed certificates (and cancelled ones for a cancelled job)
+  static async retryGenerationJob(
+    jobId: string
+  ): Promise<ApiResponse<{ requeued: number }>> {
+    return apiClient.post(`/certificates/jobs/${jobId}/retry`);
+  }
+
   // Get all certificates for an event
   static async getCertificates(
     eventId: string
@@ -118,6 +209,29 @@ export class CertificateService {
     });
   }
 
+  // Revoke a certificate so it no longer verifies
+  static async revokeCertificate(
+    certificateId: string,
+    reason: string
+  ): Promise<ApiResponse> {
+    return apiClient.post(`/certificates/${certificateId}/revoke`, { reason });
+  }
+
+  // Replace a certificate with a new code, optionally correcting the name
+  static async reissueCertificate(
+    certificateId: string,
+    data: { reason: string; participantName?: string }
+  ): Promise<ApiResponse> {
+    return apiClient.post(`/certificates/${certificateId}/reissue`, data);
+  }
+
+  // Revocations and reissues recorded for a certificate
+  static async getCertificateHistory(
+    certificateId: string
+  ): Promise<ApiResponse<{ history: CertificateAuditEntry[] }>> {
+    return apiClient.get(`/certificates/${certificateId}/history`);
+  }
+
   // Verify a certificate by code (public)
   static async verifyCertificate(
     code: string
@@ -125,9 +239,22 @@ export class CertificateService {
     return apiClient.get(`/certificates/verify/${code}`);
   }
 
+  // Public key for checking certificate signatures (public)
+  static async getSigningKey(): Promise<ApiResponse<CertificateSigningKey>> {
+    return apiClient.get(`/certificates/signing-key`);
+  }
+
   // Download certificate by code (public)
   static downloadCertificate(code: string): string {
     const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
     return `${apiUrl}/certificates/download/${code}`;
   }
+
+  // Open Badges 3.0 credential for a certificate (public)
+  static getCredentialUrl(code: string, format: "json" | "jwt" = "json") {
+    const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
+    return `${apiUrl}/certificates/credentials/${code}${
+      format === "jwt" ? "?format=jwt" : ""
+    }`;
+  }
 }
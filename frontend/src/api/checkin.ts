@@ -0,0 +1,113 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export interface ManifestAttendee {
+  registration_id: string;
+  name: string;
+  email: string;
+  ticket_tier: string | null;
+  ticket_hashes: string[]; // SHA-256 (hex) of every QR code that still scans
+  checked_in_at: string | null;
+}
+
+export interface CheckInManifest {
+  version: 2;
+  key_id: string;
+  event_id: string;
+  event_title: string;
+  generated_at: string;
+  expires_at: string;
+  attendees: ManifestAttendee[];
+}
+
+// The manifest exactly as signed, plus its ECDSA signature
+export interface SignedManifest {
+  manifest: string;
+  signature: string;
+  key_id: string;
+}
+
+export interface ManifestKey {
+  key_id: string;
+  jwk: JsonWebKey;
+}
+
+export interface OfflineCheckInRecord {
+  client_id: string;
+  qr_code: string;
+  scanned_at: string;
+  location?: string;
+}
+
+export type BatchCheckInStatus =
+  | "checked_in"
+  | "already_synced"
+  | "conflict"
+  | "rejected";
+
+export interface BatchCheckInResult {
+  client_id: string;
+  status: BatchCheckInStatus;
+  registration_id?: string;
+  name?: string;
+  checked_in_at?: string;
+  resolution?: "kept_existing" | "replaced_later_scan";
+  error?: string;
+}
+
+export interface BatchCheckInSummary {
+  checked_in: number;
+  already_synced: number;
+  conflicts: number;
+  rejected: number;
+}
+
+export interface CheckInConflict {
+  id: string;
+  event_id: string;
+  registration_id: string;
+  attendance_id: string;
+  device_id: string;
+  scanned_at: string;
+  existing_checked_in_at: string;
+  resolution: "kept_existing" | "replaced_later_scan";
+  resolved_by: string;
+  created_at: string;
+  registration?: { name: string; email: string } | null;
+}
+
+export const CheckInService = {
+  // Public key for verifying offline manifests
+  async getManifestKey(): Promise<ApiResponse<ManifestKey>> {
+    return apiClient.get(`/checkin/manifest-key`);
+  },
+
+  // Download the signed attendee manifest for offline scanning
+  async getManifest(eventId: string): Promise<ApiResponse<SignedManifest>> {
+    return apiClient.get(`/checkin/events/${eventId}/manifest`);
+  },
+
+  // Upload check-ins recorded while offline
+  async syncBatch(
+    eventId: string,
+    deviceId: string,
+    records: OfflineCheckInRecord[]
+  ): Promise<
+    ApiResponse<{
+      results: BatchCheckInResult[];
+      summary: BatchCheckInSummary;
+    }>
+  > {
+    return apiClient.post(`/checkin/events/${eventId}/batch`, {
+      device_id: deviceId,
+      records,
+    });
+  },
+
+  // Duplicate scans resolved during sync
+  async getConflicts(
+    eventId: string
+  ): Promise<ApiResponse<{ conflicts: CheckInConflict[] }>> {
+    return apiClient.get(`/checkin/events/${eventId}/conflicts`);
+  },
+};
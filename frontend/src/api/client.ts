@@ -10,6 +10,7 @@ export interface ApiResponse<T = any> {
   error?: string;
   message?: string;
   details?: any[];
+  fieldErrors?: Record<string, string>; // Field id -> message
 }
 
 export class ApiError extends Error {
@@ -198,6 +199,33 @@ export class ApiClient {
   async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { method: "DELETE" });
   }
+
+  // For endpoints that return a file instead of JSON
+  async getBlob(endpoint: string): Promise<Blob> {
+    const token = this.getStoredToken();
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseURL}${endpoint}`, {
+        credentials: "include",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+    } catch {
+      throw new ApiError(0, {
+        success: false,
+        error: "Network error or server unavailable",
+      });
+    }
+
+    if (!response.ok) {
+      const data = await response
+        .json()
+        .catch(() => ({ success: false, error: "Download failed" }));
+      throw new ApiError(response.status, data);
+    }
+
+    return response.blob();
+  }
 }
 
 export const apiClient = new ApiClient();
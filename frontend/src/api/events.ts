@@ -28,8 +28,17 @@ export interface Event {
   category?: {
     id: string;
     name: string;
+    slug?: string;
     color: string;
+    icon?: string | null;
   };
+  tags?: string[];
+  organization?: {
+    id: string;
+    name: string;
+    logo_url: string | null;
+    brand_color: string | null;
+  } | null;
   registrations?: any[] | { count: number }[];
 }
 
@@ -43,11 +52,13 @@ export interface CreateEventData {
   longitude?: number;
   capacity: number;
   categoryId?: string;
+  tags?: string[];
   bannerUrl?: string;
   visibility: "public" | "private" | "invite-only";
   registrationDeadline?: string;
   isPaid: boolean;
   price?: number;
+  organizationId?: string;
 }
 
 export interface UpdateEventData {
@@ -60,6 +71,7 @@ export interface UpdateEventData {
   longitude?: number;
   capacity?: number;
   categoryId?: string;
+  tags?: string[];
   bannerUrl?: string;
   visibility?: "public" | "private" | "invite-only";
   registrationDeadline?: string;
@@ -77,11 +89,40 @@ export interface EventsResponse {
   };
 }
 
+export interface EventOrganizer {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface OwnershipTransfer {
+  id: string;
+  event_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: "pending" | "accepted" | "declined" | "cancelled";
+  created_at: string;
+  responded_at: string | null;
+}
+
+export interface EventOrganizers {
+  owner: EventOrganizer | null;
+  coOrganizers: (EventOrganizer & { assignment_id: string })[];
+  pendingTransfer: (OwnershipTransfer & { to_user: EventOrganizer }) | null;
+}
+
+export interface PendingOwnershipTransfer extends OwnershipTransfer {
+  event: { id: string; title: string; start_date: string };
+  from_user: EventOrganizer;
+}
+
 export interface GetEventsParams {
   page?: number;
   limit?: number;
   visibility?: string;
   categoryId?: string;
+  categoryIds?: string[]; // Events in any of these categories
+  tags?: string[]; // Events with any of these tags
   organizerId?: string;
   search?: string;
   upcoming?: boolean;
@@ -107,6 +148,9 @@ export const EventService = {
     if (params?.limit) queryParams.append("limit", params.limit.toString());
     if (params?.visibility) queryParams.append("visibility", params.visibility);
     if (params?.categoryId) queryParams.append("categoryId", params.categoryId);
+    if (params?.categoryIds?.length)
+      queryParams.append("categoryId", params.categoryIds.join(","));
+    if (params?.tags?.length) queryParams.append("tags", params.tags.join(","));
     if (params?.organizerId)
       queryParams.append("organizerId", params.organizerId);
     if (params?.search) queryParams.append("search", params.search);
@@ -152,4 +196,49 @@ export const EventService = {
       : "/events/my/events";
     return apiClient.get(url);
   },
+
+  // Get the owner, co-organizers and pending transfer for an event
+  async getOrganizers(id: string): Promise<ApiResponse<EventOrganizers>> {
+    return apiClient.get(`/events/${id}/organizers`);
+  },
+
+  // Add an existing user as a co-organizer
+  async addCoOrganizer(id: string, email: string): Promise<ApiResponse> {
+    return apiClient.post(`/events/${id}/organizers`, { email });
+  },
+
+  // Remove a co-organizer
+  async removeCoOrganizer(id: string, userId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/events/${id}/organizers/${userId}`);
+  },
+
+  // Offer ownership of an event to another user
+  async requestOwnershipTransfer(
+    id: string,
+    email: string
+  ): Promise<ApiResponse<{ transfer: OwnershipTransfer }>> {
+    return apiClient.post(`/events/${id}/transfer`, { email });
+  },
+
+  // Withdraw a pending ownership transfer
+  async cancelOwnershipTransfer(id: string): Promise<ApiResponse> {
+    return apiClient.delete(`/events/${id}/transfer`);
+  },
+
+  // Get ownership transfers waiting on the current user
+  async getPendingTransfers(): Promise<
+    ApiResponse<{ transfers: PendingOwnershipTransfer[] }>
+  > {
+    return apiClient.get("/events/transfers/pending");
+  },
+
+  // Accept or decline an ownership transfer
+  async respondToTransfer(
+    transferId: string,
+    accept: boolean
+  ): Promise<ApiResponse<{ transfer: OwnershipTransfer }>> {
+    return apiClient.post(`/events/transfers/${transferId}/respond`, {
+      accept,
+    });
+  },
 };
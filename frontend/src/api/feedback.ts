@@ -0,0 +1,124 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+import type { FieldType } from "./forms";
+
+export interface FeedbackSubmission {
+  id: string;
+  event_id: string;
+  form_id: string;
+  responses: Record<string, any>;
+  is_anonymous: boolean;
+  submitted_at: string;
+  attendee: { name: string; email: string } | null; // null when anonymous
+}
+
+export interface FeedbackStatus {
+  attended: boolean;
+  hasSubmitted: boolean;
+  canSubmit: boolean;
+}
+
+export interface OptionCount {
+  option: string;
+  count: number;
+  percentage: number;
+}
+
+// Net Promoter Score: % promoters (9-10) minus % detractors (0-6)
+export interface NpsBreakdown {
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+export interface LikertRowSummary {
+  row: string;
+  responseCount: number;
+  distribution: OptionCount[];
+}
+
+export interface RankingSummary {
+  option: string;
+  averagePosition: number | null; // 1 = ranked first
+}
+
+export interface QuestionSummary {
+  fieldId: string;
+  label: string;
+  type: FieldType;
+  responseCount: number;
+  distribution?: OptionCount[];
+  average?: number | null;
+  textAnswers?: string[];
+  nps?: NpsBreakdown | null;
+  rows?: LikertRowSummary[];
+  ranking?: RankingSummary[]; // Best average position first
+}
+
+export interface FeedbackSummary {
+  totalSubmissions: number;
+  attendeeCount: number;
+  responseRate: number;
+  questions: QuestionSummary[];
+}
+
+// Automatic feedback emails sent after the event ends
+export interface FeedbackSchedule {
+  enabled: boolean;
+  sendAfterHours: number;
+  reminderAfterHours: number; // After the first request, non-responders only
+  windowDays: number; // Counted from the end of the event
+}
+
+export interface FeedbackScheduleStatus extends FeedbackSchedule {
+  opensAt: string | null;
+  closesAt: string | null;
+  requestsSent: number;
+  remindersSent: number;
+}
+
+export const FeedbackService = {
+  // Submit feedback for an event you attended
+  async submitFeedback(
+    eventId: string,
+    data: { responses: Record<string, any>; isAnonymous: boolean }
+  ): Promise<ApiResponse> {
+    return apiClient.post(`/feedback/events/${eventId}`, data);
+  },
+
+  // Whether the current user can (still) leave feedback
+  async getFeedbackStatus(
+    eventId: string
+  ): Promise<ApiResponse<FeedbackStatus>> {
+    return apiClient.get(`/feedback/events/${eventId}/status`);
+  },
+
+  // Individual submissions (organizer only)
+  async getSubmissions(
+    eventId: string
+  ): Promise<ApiResponse<{ submissions: FeedbackSubmission[] }>> {
+    return apiClient.get(`/feedback/events/${eventId}/submissions`);
+  },
+
+  // Per-question aggregates (organizer only)
+  async getSummary(
+    eventId: string
+  ): Promise<ApiResponse<{ summary: FeedbackSummary }>> {
+    return apiClient.get(`/feedback/events/${eventId}/summary`);
+  },
+
+  // Automatic feedback email settings (organizer only)
+  async getSchedule(
+    eventId: string
+  ): Promise<ApiResponse<{ schedule: FeedbackScheduleStatus }>> {
+    return apiClient.get(`/feedback/events/${eventId}/schedule`);
+  },
+
+  async updateSchedule(
+    eventId: string,
+    schedule: FeedbackSchedule
+  ): Promise<ApiResponse<{ schedule: FeedbackScheduleStatus }>> {
+    return apiClient.put(`/feedback/events/${eventId}/schedule`, schedule);
+  },
+};
@@ -12,7 +12,21 @@ export type FieldType =
   | "file"
   | "date"
   | "number"
-  | "url";
+  | "url"
+  | "rating"
+  | "nps"
+  | "likert"
+  | "ranking"
+  | "slider";
+
+export type ConditionType = "equals" | "not_equals" | "contains";
+
+// Show a field only when another field's answer matches
+export interface ConditionalLogic {
+  dependsOn: string; // Field ID
+  condition: ConditionType;
+  value: string;
+}
 
 export interface FormField {
   id: string;
@@ -20,13 +34,27 @@ export interface FormField {
   label: string;
   placeholder?: string;
   required?: boolean;
-  options?: string[]; // For select, radio, checkbox
+  options?: string[]; // Choices; Likert scale columns; items to rank
+  rows?: string[]; // Likert statements
+  scale?: number; // Rating fields: number of stars
+  step?: number; // Slider fields
   validation?: {
-    min?: number;
+    min?: number; // Also the slider range
     max?: number;
     pattern?: string;
     message?: string;
+    allowedFileTypes?: string[]; // File fields, e.g. "application/pdf"
+    maxFileSizeMb?: number;
   };
+  conditionalLogic?: ConditionalLogic;
+}
+
+// A file field's answer: the upload is stored first and referenced here
+export interface FileAnswer {
+  attachmentId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
 }
 
 export interface FormStep {
@@ -44,6 +72,7 @@ export interface Form {
   fields: FormField[];
   is_multi_step: boolean;
   steps?: FormStep[];
+  current_version_id?: string | null;
   created_at: string;
   updated_at: string;
   event?: {
@@ -53,6 +82,27 @@ export interface Form {
   };
 }
 
+// A published snapshot of a form; registrations record the one they answered
+export interface FormVersion {
+  id: string;
+  form_id: string;
+  version: number;
+  title: string;
+  fields: FormField[];
+  is_multi_step: boolean;
+  steps: FormStep[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A field an edit would remove or retype that already has answers
+export interface OrphanedField {
+  fieldId: string;
+  label: string;
+  change: "removed" | "retyped";
+  responseCount: number;
+}
+
 export interface FormTemplate {
   id: string;
   name: string;
@@ -112,8 +162,55 @@ export const FormService = {
     return apiClient.put(`/forms/events/${eventId}/form/${formId}`, data);
   },
 
+  // Fields the given edit would orphan existing answers for
+  async checkEditImpact(
+    eventId: string,
+    formId: string,
+    fields: FormField[]
+  ): Promise<ApiResponse<{ orphanedFields: OrphanedField[] }>> {
+    return apiClient.post(`/forms/events/${eventId}/form/${formId}/impact`, {
+      fields,
+    });
+  },
+
+  // Published versions of an event's form, newest first
+  async getFormVersions(
+    eventId: string,
+    formType: "registration" | "feedback" = "registration"
+  ): Promise<
+    ApiResponse<{ currentVersionId: string | null; versions: FormVersion[] }>
+  > {
+    return apiClient.get(
+      `/forms/events/${eventId}/form/versions?type=${formType}`
+    );
+  },
+
   // Delete form
   async deleteForm(eventId: string, formId: string): Promise<ApiResponse> {
     return apiClient.delete(`/forms/events/${eventId}/form/${formId}`);
   },
+
+  // Upload a file for a form's file field
+  async uploadAttachment(
+    eventId: string,
+    fieldId: string,
+    file: File,
+    formType: "registration" | "feedback" = "registration"
+  ): Promise<ApiResponse<{ attachment: FileAnswer }>> {
+    const formData = new FormData();
+    formData.append("formType", formType);
+    formData.append("fieldId", fieldId);
+    formData.append("file", file);
+    return apiClient.post(`/forms/events/${eventId}/attachments`, formData);
+  },
+
+  // Download a file answer
+  async downloadAttachment(
+    eventId: string,
+    attachmentId: string
+  ): Promise<Blob> {
+    return apiClient.getBlob(
+      `/forms/events/${eventId}/attachments/${attachmentId}`
+    );
+  },
 };
@@ -0,0 +1,102 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+import type { Event } from "./events";
+
+export type InvitationStatus = "sent" | "opened" | "accepted" | "revoked";
+
+export interface Invitation {
+  id: string;
+  event_id: string;
+  type: "email" | "link";
+  email: string | null;
+  name: string | null;
+  token: string;
+  status: InvitationStatus;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  invited_by: string;
+  accepted_by: string | null;
+  opened_at: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  invite_url?: string;
+}
+
+export interface InvitationSummary {
+  sent: number;
+  opened: number;
+  accepted: number;
+  revoked: number;
+}
+
+export interface CreateInvitationsData {
+  invitees?: { email: string; name?: string }[];
+  csv?: string; // Raw CSV text, one "email,name" per line
+  message?: string;
+  expiresAt?: string;
+}
+
+export interface CreateInviteLinkData {
+  maxUses?: number;
+  expiresAt?: string;
+}
+
+export interface InvitationPreview {
+  invitation: {
+    id: string;
+    type: "email" | "link";
+    email: string | null;
+    name: string | null;
+    expires_at: string | null;
+  };
+  event: Event;
+}
+
+export const InvitationService = {
+  // Get all invitations for an event (organizers only)
+  async getEventInvitations(eventId: string): Promise<
+    ApiResponse<{
+      visibility: Event["visibility"];
+      invitations: Invitation[];
+      summary: InvitationSummary;
+    }>
+  > {
+    return apiClient.get(`/invitations/events/${eventId}`);
+  },
+
+  // Invite people by email or CSV upload
+  async createInvitations(
+    eventId: string,
+    data: CreateInvitationsData
+  ): Promise<
+    ApiResponse<{
+      invitations: Invitation[];
+      skipped: string[];
+      failedEmails: string[];
+    }>
+  > {
+    return apiClient.post(`/invitations/events/${eventId}`, data);
+  },
+
+  // Create a shareable invite link
+  async createInviteLink(
+    eventId: string,
+    data: CreateInviteLinkData
+  ): Promise<ApiResponse<{ invitation: Invitation; inviteUrl: string }>> {
+    return apiClient.post(`/invitations/events/${eventId}/links`, data);
+  },
+
+  // Revoke an invitation
+  async revokeInvitation(invitationId: string): Promise<ApiResponse> {
+    return apiClient.put(`/invitations/${invitationId}/revoke`);
+  },
+
+  // Resolve an invite token to its event (public)
+  async getInvitationByToken(
+    token: string
+  ): Promise<ApiResponse<InvitationPreview>> {
+    return apiClient.get(`/invitations/token/${token}`);
+  },
+};
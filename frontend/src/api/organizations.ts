@@ -0,0 +1,123 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export type OrganizationRole = "owner" | "admin" | "member";
+
+export interface Organization {
+  id: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  brand_color: string | null;
+  gmail_sender_user_id: string | null;
+  stripe_account_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  role: OrganizationRole | null; // The current user's role
+}
+
+export interface OrganizationMember {
+  id: string;
+  user_id: string;
+  role: OrganizationRole;
+  created_at: string;
+  user: { id: string; name: string | null; email: string };
+}
+
+export interface OrganizationEvent {
+  id: string;
+  title: string;
+  start_date: string;
+  end_date: string;
+  location: string;
+  visibility: string;
+  is_paid: boolean;
+  created_at: string;
+  organizer: { id: string; name: string | null; email: string } | null;
+  registrations: { count: number }[];
+}
+
+export interface CreateOrganizationData {
+  name: string;
+  description?: string;
+  logoUrl?: string;
+  brandColor?: string;
+}
+
+export interface UpdateOrganizationData {
+  name?: string;
+  description?: string | null;
+  logoUrl?: string | null;
+  brandColor?: string | null;
+  gmailSenderUserId?: string | null;
+  stripeAccountId?: string | null;
+}
+
+export const OrganizationService = {
+  // Get the organizations the current user belongs to
+  async getMyOrganizations(): Promise<
+    ApiResponse<{ organizations: Organization[] }>
+  > {
+    return apiClient.get("/organizations");
+  },
+
+  // Create an organization owned by the current user
+  async createOrganization(
+    data: CreateOrganizationData
+  ): Promise<ApiResponse<{ organization: Organization }>> {
+    return apiClient.post("/organizations", data);
+  },
+
+  // Get an organization and the current user's role in it
+  async getOrganization(
+    id: string
+  ): Promise<ApiResponse<{ organization: Organization }>> {
+    return apiClient.get(`/organizations/${id}`);
+  },
+
+  // Update branding, the email sender or the Stripe account
+  async updateOrganization(
+    id: string,
+    data: UpdateOrganizationData
+  ): Promise<ApiResponse<{ organization: Organization }>> {
+    return apiClient.put(`/organizations/${id}`, data);
+  },
+
+  // Get every event the organization owns
+  async getEvents(
+    id: string
+  ): Promise<ApiResponse<{ events: OrganizationEvent[] }>> {
+    return apiClient.get(`/organizations/${id}/events`);
+  },
+
+  // Get members and their roles
+  async getMembers(
+    id: string
+  ): Promise<ApiResponse<{ members: OrganizationMember[] }>> {
+    return apiClient.get(`/organizations/${id}/members`);
+  },
+
+  // Add an existing user to the organization
+  async addMember(
+    id: string,
+    email: string,
+    role: OrganizationRole
+  ): Promise<ApiResponse> {
+    return apiClient.post(`/organizations/${id}/members`, { email, role });
+  },
+
+  // Change a member's role
+  async updateMember(
+    id: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<ApiResponse> {
+    return apiClient.put(`/organizations/${id}/members/${userId}`, { role });
+  },
+
+  // Remove a member, or leave when userId is the current user
+  async removeMember(id: string, userId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/organizations/${id}/members/${userId}`);
+  },
+};
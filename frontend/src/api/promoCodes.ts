@@ -0,0 +1,115 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export type PromoDiscountType = "percentage" | "fixed";
+
+export interface PromoCode {
+  id: string;
+  event_id: string;
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  tier_ids: string[] | null; // null = applies to every ticket type
+  max_uses: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  single_use_per_user: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  redemptions: number;
+}
+
+export interface PromoCodeData {
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  tierIds?: string[] | null;
+  maxUses?: number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  singleUsePerUser?: boolean;
+  isActive?: boolean;
+}
+
+export interface PromoCodeRedemption {
+  registration_id: string;
+  name: string;
+  email: string;
+  status: string;
+  payment_status: string | null;
+  ticket_tier: string | null;
+  discount_amount: number;
+  amount_paid: number;
+  redeemed_at: string;
+}
+
+export interface PromoCodeReport {
+  promoCode: PromoCode;
+  redemptions: PromoCodeRedemption[];
+  summary: {
+    total_redemptions: number;
+    completed_redemptions: number;
+    total_discount: number;
+    total_revenue: number;
+  };
+}
+
+export interface PromoCodePreview {
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+export const PromoCodeService = {
+  // Get all promo codes for an event (organizer only)
+  async getEventPromoCodes(
+    eventId: string
+  ): Promise<ApiResponse<{ promoCodes: PromoCode[] }>> {
+    return apiClient.get(`/promo-codes/events/${eventId}`);
+  },
+
+  // Create a promo code
+  async createPromoCode(
+    eventId: string,
+    data: PromoCodeData
+  ): Promise<ApiResponse<{ promoCode: PromoCode }>> {
+    return apiClient.post(`/promo-codes/events/${eventId}`, data);
+  },
+
+  // Update a promo code
+  async updatePromoCode(
+    promoCodeId: string,
+    data: Partial<PromoCodeData>
+  ): Promise<ApiResponse<{ promoCode: PromoCode }>> {
+    return apiClient.put(`/promo-codes/${promoCodeId}`, data);
+  },
+
+  // Delete a promo code that has not been redeemed
+  async deletePromoCode(promoCodeId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/promo-codes/${promoCodeId}`);
+  },
+
+  // Get the redemption report for a promo code
+  async getRedemptions(
+    promoCodeId: string
+  ): Promise<ApiResponse<PromoCodeReport>> {
+    return apiClient.get(`/promo-codes/${promoCodeId}/redemptions`);
+  },
+
+  // Preview the discount a code gives before registering
+  async validatePromoCode(
+    eventId: string,
+    code: string,
+    ticketTierId?: string
+  ): Promise<ApiResponse<PromoCodePreview>> {
+    return apiClient.post(`/promo-codes/events/${eventId}/validate`, {
+      code,
+      ticketTierId,
+    });
+  },
+};
@@ -0,0 +1,80 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+import type { Registration } from "./registrations";
+
+export type RefundPolicyType = "full" | "partial" | "none";
+
+export interface RefundPolicy {
+  event_id: string;
+  policy_type: RefundPolicyType;
+  refund_percentage: number;
+  refund_deadline: string | null; // null = until the event starts
+  updated_at: string | null;
+}
+
+export interface RefundPolicyData {
+  policyType: RefundPolicyType;
+  refundPercentage?: number;
+  refundDeadline?: string | null;
+}
+
+export interface RefundQuote {
+  eligible: boolean;
+  amount: number;
+  paidAmount: number;
+  percentage: number;
+  reason?: string;
+}
+
+export interface RefundData {
+  amount?: number; // Defaults to everything left to refund
+  reason?: string;
+  cancelRegistration?: boolean;
+}
+
+export interface RefundResult {
+  refundId: string;
+  paymentId: string;
+  registrationId: string;
+  amount: number;
+  totalRefunded: number;
+  status: string | null;
+}
+
+export const RefundService = {
+  // Get the refund policy for an event
+  async getRefundPolicy(
+    eventId: string
+  ): Promise<ApiResponse<{ policy: RefundPolicy }>> {
+    return apiClient.get(`/refunds/events/${eventId}/policy`);
+  },
+
+  // Set the refund policy for an event (organizer only)
+  async updateRefundPolicy(
+    eventId: string,
+    data: RefundPolicyData
+  ): Promise<ApiResponse<{ policy: RefundPolicy }>> {
+    return apiClient.put(`/refunds/events/${eventId}/policy`, data);
+  },
+
+  // Preview what cancelling a registration now would refund
+  async getRefundQuote(
+    registrationId: string
+  ): Promise<ApiResponse<{ policy: RefundPolicy; quote: RefundQuote }>> {
+    return apiClient.get(`/refunds/registrations/${registrationId}/quote`);
+  },
+
+  // Refund a registration (organizer only)
+  async refundRegistration(
+    registrationId: string,
+    data: RefundData
+  ): Promise<
+    ApiResponse<{
+      refund: RefundResult;
+      registrationStatus: string;
+      paymentStatus: Registration["payment_status"];
+    }>
+  > {
+    return apiClient.post(`/refunds/registrations/${registrationId}`, data);
+  },
+};
@@ -3,11 +3,29 @@ import type { ApiResponse } from "./client";
 
 export interface Registration {
   id: string;
-  status: "pending" | "confirmed" | "cancelled" | "attended";
-  payment_status?: null | "pending" | "completed" | "failed" | "refunded";
+  status: "pending" | "confirmed" | "cancelled" | "attended" | "waitlisted";
+  payment_status?:
+    | null
+    | "pending"
+    | "completed"
+    | "failed"
+    | "refunded"
+    | "partially_refunded"
+    | "refund_failed"; // Cancelled but Stripe refused the refund
+  waitlist_position?: number | null;
+  waitlist_offer_expires_at?: string | null; // Set once a seat is offered
+  ticket_tier_id?: string | null;
+  ticket_tier?: {
+    id: string;
+    name: string;
+    description?: string | null;
+    price: number;
+  } | null;
+  discount_amount?: number | null; // Promo code discount off the ticket price
   email: string;
   name: string;
   responses?: Record<string, any>; // Changed from form_data to responses
+  form_version_id?: string | null; // Form version the answers were given for
   qr_code?: string;
   created_at: string;
   updated_at: string;
@@ -36,6 +54,10 @@ export interface RegistrationFormData {
 
 export interface RegisterForEventData {
   formData: RegistrationFormData;
+  inviteToken?: string; // Required for private/invite-only events
+  ticketTierId?: string; // Required when the event has ticket tiers
+  promoCode?: string;
+  sessionIds?: string[]; // Agenda sessions to sign up for
 }
 
 export const RegistrationService = {
@@ -48,6 +70,10 @@ export const RegistrationService = {
       registration: Registration;
       requiresPayment?: boolean;
       amount?: number;
+      originalAmount?: number;
+      discountAmount?: number;
+      waitlisted?: boolean;
+      waitlistPosition?: number;
     }>
   > {
     return apiClient.post(`/registrations/events/${eventId}/register`, data);
@@ -85,8 +111,25 @@ export const RegistrationService = {
     return apiClient.get(url);
   },
 
-  // Cancel a registration
-  async cancelRegistration(registrationId: string): Promise<ApiResponse> {
+  // Cancel a registration. Paid registrations are refunded per the event's
+  // refund policy.
+  async cancelRegistration(registrationId: string): Promise<
+    ApiResponse<{
+      refund: { amount: number; refundId: string } | null;
+    }>
+  > {
     return apiClient.put(`/registrations/${registrationId}/cancel`);
   },
+
+  // Claim a seat offered from the waitlist
+  async claimWaitlistSpot(registrationId: string): Promise<
+    ApiResponse<{
+      registrationId: string;
+      status: "confirmed" | "pending";
+      requiresPayment: boolean;
+      amount: number;
+    }>
+  > {
+    return apiClient.post(`/registrations/${registrationId}/claim`);
+  },
 };
@@ -0,0 +1,120 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export interface EventSession {
+  id: string;
+  event_id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  room: string | null;
+  speaker: string | null;
+  capacity: number | null; // null = no session limit
+  signup_required: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  signed_up: number;
+  remaining: number | null;
+}
+
+export interface EventSessionData {
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+  speaker?: string;
+  capacity?: number | null;
+  signupRequired?: boolean;
+  sortOrder?: number;
+}
+
+export interface SessionAttendance {
+  id: string;
+  checked_in_at: string;
+  method: "qr_code" | "manual";
+  registration: { id: string; name: string; email: string } | null;
+}
+
+export interface CertificateEligibilityRule {
+  event_id: string;
+  min_sessions: number | null;
+  min_hours: number | null;
+  updated_at: string | null;
+}
+
+export const SessionService = {
+  // Get the agenda for an event
+  async getEventSessions(
+    eventId: string
+  ): Promise<ApiResponse<{ sessions: EventSession[] }>> {
+    return apiClient.get(`/sessions/events/${eventId}`);
+  },
+
+  // Add a session to the agenda (organizer only)
+  async createSession(
+    eventId: string,
+    data: EventSessionData
+  ): Promise<ApiResponse<{ session: EventSession }>> {
+    return apiClient.post(`/sessions/events/${eventId}`, data);
+  },
+
+  // Update a session (organizer only)
+  async updateSession(
+    sessionId: string,
+    data: Partial<EventSessionData>
+  ): Promise<ApiResponse<{ session: EventSession }>> {
+    return apiClient.put(`/sessions/${sessionId}`, data);
+  },
+
+  // Delete a session nobody has been scanned into (organizer only)
+  async deleteSession(sessionId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/sessions/${sessionId}`);
+  },
+
+  // Sessions a registration is signed up for
+  async getRegistrationSessions(
+    registrationId: string
+  ): Promise<ApiResponse<{ sessionIds: string[] }>> {
+    return apiClient.get(`/sessions/registrations/${registrationId}`);
+  },
+
+  // Change which sessions a registration is signed up for
+  async updateRegistrationSessions(
+    registrationId: string,
+    sessionIds: string[]
+  ): Promise<ApiResponse<{ sessionIds: string[] }>> {
+    return apiClient.put(`/sessions/registrations/${registrationId}`, {
+      sessionIds,
+    });
+  },
+
+  // Attendees scanned into a session
+  async getSessionAttendance(
+    sessionId: string
+  ): Promise<ApiResponse<{ attendance: SessionAttendance[] }>> {
+    return apiClient.get(`/sessions/${sessionId}/attendance`);
+  },
+
+  // Session attendance required for a certificate (organizer only)
+  async getCertificateEligibility(
+    eventId: string
+  ): Promise<ApiResponse<{ rule: CertificateEligibilityRule }>> {
+    return apiClient.get(
+      `/sessions/events/${eventId}/certificate-eligibility`
+    );
+  },
+
+  // Require a number of sessions or hours for a certificate
+  async updateCertificateEligibility(
+    eventId: string,
+    data: { minSessions: number | null; minHours: number | null }
+  ): Promise<ApiResponse<{ rule: CertificateEligibilityRule }>> {
+    return apiClient.put(
+      `/sessions/events/${eventId}/certificate-eligibility`,
+      data
+    );
+  },
+};
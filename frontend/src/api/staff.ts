@@ -2,6 +2,21 @@
 import { apiClient } from "./client";
 import type { ApiResponse } from "./client";
 
+export type StaffAssignmentStatus = "pending" | "accepted" | "declined";
+
+export interface RoleTemplate {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+// The backend's permission registry: permission name -> label, and the
+// role templates built from it
+export interface StaffRoles {
+  permissions: Record<string, string>;
+  templates: Record<string, RoleTemplate>;
+}
+
 export interface StaffEvent {
   id: string;
   title: string;
@@ -13,10 +28,15 @@ export interface StaffEvent {
     can_check_in?: boolean;
     can_view_stats?: boolean;
   };
+  status: StaffAssignmentStatus;
   assigned_at: string;
 }
 
 export const StaffService = {
+  async getRoles(): Promise<ApiResponse<StaffRoles>> {
+    return apiClient.get("/checkin/roles");
+  },
+
   async getAssignedEvents(options?: {
     limit?: number;
   }): Promise<ApiResponse<{ events: StaffEvent[] }>> {
@@ -29,4 +49,12 @@ export const StaffService = {
       : "/staff/assigned-events";
     return apiClient.get(url);
   },
+
+  // Accept or decline a pending assignment; declining removes access
+  async respondToAssignment(
+    eventId: string,
+    accept: boolean
+  ): Promise<ApiResponse<{ status: StaffAssignmentStatus }>> {
+    return apiClient.post(`/staff/events/${eventId}/respond`, { accept });
+  },
 };
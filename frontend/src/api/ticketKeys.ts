@@ -0,0 +1,44 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export type TicketKeyStatus = "active" | "retired" | "revoked";
+
+export interface TicketSigningKey {
+  id: string;
+  event_id: string;
+  kid: string;
+  status: TicketKeyStatus;
+  created_by: string | null;
+  created_at: string;
+  retired_at: string | null;
+}
+
+export const TicketKeyService = {
+  // List the keys an event's tickets are signed with (organizer only)
+  async getEventKeys(
+    eventId: string
+  ): Promise<ApiResponse<{ keys: TicketSigningKey[] }>> {
+    return apiClient.get(`/ticket-keys/events/${eventId}`);
+  },
+
+  // Start signing new tickets with a fresh key
+  async rotateKey(
+    eventId: string
+  ): Promise<ApiResponse<{ key: TicketSigningKey }>> {
+    return apiClient.post(`/ticket-keys/events/${eventId}/rotate`);
+  },
+
+  // Re-sign every ticket for the event with the active key
+  async reissueTickets(
+    eventId: string
+  ): Promise<ApiResponse<{ reissued: number }>> {
+    return apiClient.post(`/ticket-keys/events/${eventId}/reissue`);
+  },
+
+  // Stop accepting tickets signed with retired keys
+  async revokeRetiredKeys(
+    eventId: string
+  ): Promise<ApiResponse<{ revoked: number }>> {
+    return apiClient.post(`/ticket-keys/events/${eventId}/revoke-retired`);
+  },
+};
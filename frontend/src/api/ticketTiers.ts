@@ -0,0 +1,69 @@
+import { apiClient } from "./client";
+import type { ApiResponse } from "./client";
+
+export type TicketTierVisibility = "public" | "hidden";
+
+export interface TicketTier {
+  id: string;
+  event_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  quantity: number | null; // null = limited only by event capacity
+  sales_start: string | null;
+  sales_end: string | null;
+  visibility: TicketTierVisibility;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  sold: number;
+  remaining: number | null;
+  on_sale: boolean;
+}
+
+export interface TicketTierData {
+  name: string;
+  description?: string;
+  price: number;
+  quantity?: number | null;
+  salesStart?: string | null;
+  salesEnd?: string | null;
+  visibility?: TicketTierVisibility;
+  sortOrder?: number;
+}
+
+export const TicketTierService = {
+  // Get ticket tiers for an event. Hidden tiers are only returned to
+  // organizers, or when requested by id from a direct tier link.
+  async getEventTiers(
+    eventId: string,
+    tierId?: string
+  ): Promise<ApiResponse<{ tiers: TicketTier[] }>> {
+    return apiClient.get(
+      tierId
+        ? `/ticket-tiers/events/${eventId}?tier=${encodeURIComponent(tierId)}`
+        : `/ticket-tiers/events/${eventId}`
+    );
+  },
+
+  // Create a ticket tier
+  async createTier(
+    eventId: string,
+    data: TicketTierData
+  ): Promise<ApiResponse<{ tier: TicketTier }>> {
+    return apiClient.post(`/ticket-tiers/events/${eventId}`, data);
+  },
+
+  // Update a ticket tier
+  async updateTier(
+    tierId: string,
+    data: Partial<TicketTierData>
+  ): Promise<ApiResponse<{ tier: TicketTier }>> {
+    return apiClient.put(`/ticket-tiers/${tierId}`, data);
+  },
+
+  // Delete a ticket tier that has no registrations
+  async deleteTier(tierId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/ticket-tiers/${tierId}`);
+  },
+};
@@ -10,6 +10,7 @@ import {
   User,
   LogOut,
   UserCheck,
+  Building2,
 } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
 import { useUserPermissions } from "../hooks/useUserPermissions";
@@ -79,6 +80,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     ...(canAccessCertificates
       ? [{ name: "Certificates", href: "/certificates", icon: Award }]
       : []),
+    { name: "Organizations", href: "/organizations", icon: Building2 },
   ];
 
   const navigation = isAuthenticated
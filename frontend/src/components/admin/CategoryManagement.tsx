@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { CategoryService, Category, CategoryData } from "../../api/categories";
+import { CATEGORY_ICONS, CategoryIcon } from "../events/CategoryIcon";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+const EMPTY_FORM: CategoryData = {
+  name: "",
+  slug: "",
+  color: "#7c3aed",
+  icon: "Tag",
+  description: "",
+};
+
+// Platform-wide event categories, managed by admins
+export function CategoryManagement() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [form, setForm] = useState<CategoryData>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await CategoryService.getCategories();
+      if (response.success && response.data) {
+        setCategories(response.data.categories);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  // Runs a change, reports it and reloads the list
+  const runAction = async (
+    action: () => Promise<{ success: boolean; message?: string }>
+  ) => {
+    setSaving(true);
+    try {
+      const response = await action();
+      if (response.success) {
+        showSuccessToast(response.message || "Saved");
+      }
+      await fetchCategories();
+      return response.success;
+    } catch (err) {
+      showErrorToast(err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      slug: category.slug,
+      color: category.color,
+      icon: category.icon || "Tag",
+      description: category.description || "",
+    });
+  };
+
+  const saveCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data: CategoryData = {
+      ...form,
+      slug: form.slug || undefined,
+      description: form.description || (editingId ? null : undefined),
+    };
+    const saved = await runAction(() =>
+      editingId
+        ? CategoryService.updateCategory(editingId, data)
+        : CategoryService.createCategory(data)
+    );
+    if (saved) resetForm();
+  };
+
+  const deleteCategory = (category: Category) => {
+    if (
+      !confirm(
+        `Delete "${category.name}"? Its events will stay but become uncategorized.`
+      )
+    ) {
+      return;
+    }
+    runAction(() => CategoryService.deleteCategory(category.id));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Event Categories</h3>
+        <p className="text-sm text-gray-600">
+          Categories organizers can file events under and attendees can browse
+        </p>
+      </div>
+
+      {categories.length === 0 ? (
+        <p className="px-6 py-6 text-center text-gray-500">
+          No categories yet.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {categories.map((category) => (
+            <li
+              key={category.id}
+              className="px-6 py-3 flex items-center justify-between"
+            >
+              <div className="flex items-center space-x-3 min-w-0">
+                <div
+                  className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: `${category.color}1a` }}
+                >
+                  <CategoryIcon
+                    icon={category.icon}
+                    className="w-5 h-5"
+                    color={category.color}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {category.name}{" "}
+                    <span className="text-xs text-gray-500">
+                      /{category.slug}
+                    </span>
+                  </p>
+                  {category.description && (
+                    <p className="text-xs text-gray-500 truncate">
+                      {category.description}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => startEditing(category)}
+                  disabled={saving}
+                  className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                  title="Edit category"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deleteCategory(category)}
+                  disabled={saving}
+                  className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                  title="Delete category"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        onSubmit={saveCategory}
+        className="px-6 py-4 border-t border-gray-200 grid grid-cols-1 md:grid-cols-2 gap-3"
+      >
+        <input
+          type="text"
+          required
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name, e.g. Music"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="text"
+          value={form.slug}
+          onChange={(e) => setForm({ ...form, slug: e.target.value })}
+          placeholder="Slug (optional), e.g. music"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <div className="flex items-center space-x-3">
+          <input
+            type="color"
+            value={form.color}
+            onChange={(e) => setForm({ ...form, color: e.target.value })}
+            className="h-9 w-14 border border-gray-300 rounded-md"
+            title="Color"
+          />
+          <select
+            value={form.icon || "Tag"}
+            onChange={(e) => setForm({ ...form, icon: e.target.value })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            title="Icon"
+          >
+            {Object.keys(CATEGORY_ICONS).map((icon) => (
+              <option key={icon} value={icon}>
+                {icon}
+              </option>
+            ))}
+          </select>
+          <CategoryIcon
+            icon={form.icon}
+            className="w-5 h-5"
+            color={form.color}
+          />
+        </div>
+        <input
+          type="text"
+          value={form.description || ""}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="Description (optional)"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <div className="md:col-span-2 flex space-x-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center space-x-1 px-4 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{editingId ? "Save Category" : "Add Category"}</span>
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
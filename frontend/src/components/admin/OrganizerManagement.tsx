@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Crown, Trash2, UserPlus } from "lucide-react";
+import { useAuthStore } from "../../store/authStore";
+import { EventService, EventOrganizers } from "../../api/events";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface OrganizerManagementProps {
+  eventId: string;
+}
+
+export function OrganizerManagement({ eventId }: OrganizerManagementProps) {
+  const { user } = useAuthStore();
+  const [organizers, setOrganizers] = useState<EventOrganizers | null>(null);
+  const [coOrganizerEmail, setCoOrganizerEmail] = useState("");
+  const [transferEmail, setTransferEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchOrganizers = async () => {
+    try {
+      const response = await EventService.getOrganizers(eventId);
+      if (response.success && response.data) {
+        setOrganizers(response.data);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganizers();
+  }, [eventId]);
+
+  // Runs a change, reports it and reloads the list
+  const runAction = async (
+    action: () => Promise<{ success: boolean; message?: string }>
+  ) => {
+    setSaving(true);
+    try {
+      const response = await action();
+      if (response.success) {
+        showSuccessToast(response.message || "Saved");
+      }
+      await fetchOrganizers();
+      return response.success;
+    } catch (err) {
+      showErrorToast(err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addCoOrganizer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await runAction(() =>
+      EventService.addCoOrganizer(eventId, coOrganizerEmail)
+    );
+    if (added) setCoOrganizerEmail("");
+  };
+
+  const removeCoOrganizer = (userId: string, name: string) => {
+    if (!confirm(`Remove ${name} as a co-organizer?`)) return;
+    runAction(() => EventService.removeCoOrganizer(eventId, userId));
+  };
+
+  const requestTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      !confirm(
+        `Transfer ownership to ${transferEmail}? Once they accept, they'll own the event and you'll stay on as a co-organizer.`
+      )
+    ) {
+      return;
+    }
+    const requested = await runAction(() =>
+      EventService.requestOwnershipTransfer(eventId, transferEmail)
+    );
+    if (requested) setTransferEmail("");
+  };
+
+  if (!organizers) return null;
+
+  const isOwner = organizers.owner?.id === user?.id || user?.role === "admin";
+  const { owner, coOrganizers, pendingTransfer } = organizers;
+  const recipient = pendingTransfer?.to_user;
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Organizers</h3>
+        <p className="text-sm text-gray-600">
+          Co-organizers can do everything the owner can except delete the event
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {owner && (
+          <li className="px-6 py-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {owner.name || owner.email}
+              </p>
+              <p className="text-sm text-gray-500">{owner.email}</p>
+            </div>
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+              <Crown className="h-3 w-3 mr-1" />
+              Owner
+            </span>
+          </li>
+        )}
+        {coOrganizers.map((organizer) => (
+          <li
+            key={organizer.id}
+            className="px-6 py-4 flex items-center justify-between"
+          >
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {organizer.name || organizer.email}
+              </p>
+              <p className="text-sm text-gray-500">{organizer.email}</p>
+            </div>
+            <button
+              onClick={() =>
+                removeCoOrganizer(organizer.id, organizer.name || organizer.email)
+              }
+              disabled={saving}
+              className="text-red-600 hover:text-red-700 disabled:opacity-50"
+              title="Remove co-organizer"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form
+        onSubmit={addCoOrganizer}
+        className="px-6 py-4 border-t border-gray-200 flex flex-col md:flex-row gap-3"
+      >
+        <input
+          type="email"
+          required
+          value={coOrganizerEmail}
+          onChange={(e) => setCoOrganizerEmail(e.target.value)}
+          placeholder="co-organizer@example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <UserPlus className="h-4 w-4" />
+          <span>Add Co-organizer</span>
+        </button>
+      </form>
+
+      {isOwner && (
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            Transfer Ownership
+          </h4>
+          {recipient ? (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Waiting for {recipient.name || recipient.email} to accept
+                ownership.
+              </p>
+              <button
+                onClick={() =>
+                  runAction(() => EventService.cancelOwnershipTransfer(eventId))
+                }
+                disabled={saving}
+                className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+              >
+                Cancel Transfer
+              </button>
+            </div>
+          ) : (
+            <form
+              onSubmit={requestTransfer}
+              className="flex flex-col md:flex-row gap-3"
+            >
+              <input
+                type="email"
+                required
+                value={transferEmail}
+                onChange={(e) => setTransferEmail(e.target.value)}
+                placeholder="new-owner@example.com"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 disabled:opacity-50"
+              >
+                Request Transfer
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,18 +4,23 @@ import {
   Mail,
   Trash2,
   Shield,
-  Eye,
   MoreHorizontal,
+  Pencil,
+  PauseCircle,
+  PlayCircle,
 } from "lucide-react";
 import { useAuthStore } from "../../store/authStore";
+import { StaffService, StaffRoles } from "../../api/staff";
+import { showErrorToast } from "../../utils/toast";
+import { StaffAccess, StaffPermissionPicker } from "./StaffPermissionPicker";
 
 interface Staff {
   id: string;
-  permissions: {
-    can_check_in: boolean;
-    can_view_stats: boolean;
-    can_create_certificate?: boolean;
-  };
+  permissions: string[];
+  role_template: string | null;
+  is_active: boolean;
+  status: "pending" | "accepted" | "declined";
+  responded_at: string | null;
   assigned_at: string;
   user: {
     id: string;
@@ -33,6 +38,62 @@ interface StaffManagementProps {
   eventId: string;
 }
 
+const DEFAULT_ACCESS: StaffAccess = {
+  roleTemplate: "door-staff",
+  permissions: ["check-in", "view-stats"],
+};
+
+// Templates are sent by name so the backend applies its own permission list
+const toAccessBody = (access: StaffAccess) =>
+  access.roleTemplate
+    ? { roleTemplate: access.roleTemplate }
+    : { permissions: access.permissions };
+
+function StaffRoleBadge({
+  member,
+  roles,
+}: {
+  member: Staff;
+  roles: StaffRoles | null;
+}) {
+  const template = member.role_template
+    ? roles?.templates[member.role_template]
+    : null;
+
+  return (
+    <span
+      title={member.permissions
+        .map((permission) => roles?.permissions[permission] || permission)
+        .join(", ")}
+      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+    >
+      {template
+        ? template.name
+        : `Custom (${member.permissions.length} permissions)`}
+    </span>
+  );
+}
+
+function StaffStatusBadge({ member }: { member: Staff }) {
+  const badge =
+    member.status === "declined"
+      ? { label: "Declined", className: "bg-red-100 text-red-800" }
+      : !member.is_active
+      ? { label: "Suspended", className: "bg-gray-200 text-gray-700" }
+      : member.status === "pending"
+      ? { label: "Pending", className: "bg-amber-100 text-amber-800" }
+      : null;
+  if (!badge) return null;
+
+  return (
+    <span
+      className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}
+    >
+      {badge.label}
+    </span>
+  );
+}
+
 export function StaffManagement({ eventId }: StaffManagementProps) {
   const { accessToken } = useAuthStore();
   const [staff, setStaff] = useState<Staff[]>([]);
@@ -42,14 +103,15 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
   const [hasGmailPermission, setHasGmailPermission] = useState(false);
   const [checkingGmailPermission, setCheckingGmailPermission] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{
+    id: string;
+    access: StaffAccess;
+  } | null>(null);
+  const [roles, setRoles] = useState<StaffRoles | null>(null);
   const [newStaff, setNewStaff] = useState({
     email: "",
     name: "",
-    permissions: {
-      can_check_in: true,
-      can_view_stats: true,
-      can_create_certificate: false,
-    },
+    access: DEFAULT_ACCESS,
   });
 
   useEffect(() => {
@@ -57,6 +119,21 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
     checkGmailPermission();
   }, [eventId]);
 
+  useEffect(() => {
+    const fetchRoles = async () => {
+      try {
+        const response = await StaffService.getRoles();
+        if (response.success && response.data) {
+          setRoles(response.data);
+        }
+      } catch (err) {
+        showErrorToast(err);
+      }
+    };
+
+    fetchRoles();
+  }, []);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -163,22 +240,10 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
     e.preventDefault();
 
     try {
-      // Convert permissions object to array format for backend
-      const permissionsArray = [];
-      if (newStaff.permissions.can_check_in) {
-        permissionsArray.push("check-in");
-      }
-      if (newStaff.permissions.can_view_stats) {
-        permissionsArray.push("view-stats");
-      }
-      if (newStaff.permissions.can_create_certificate) {
-        permissionsArray.push("create-certificate");
-      }
-
       const staffData = {
         email: newStaff.email,
         name: newStaff.name,
-        permissions: permissionsArray,
+        ...toAccessBody(newStaff.access),
       };
 
       const response = await fetch(`/api/checkin/events/${eventId}/staff`, {
@@ -192,15 +257,7 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
 
       if (response.ok) {
         await fetchStaff(); // Refresh the list
-        setNewStaff({
-          email: "",
-          name: "",
-          permissions: {
-            can_check_in: true,
-            can_view_stats: true,
-            can_create_certificate: false,
-          },
-        });
+        setNewStaff({ email: "", name: "", access: DEFAULT_ACCESS });
         setShowAddForm(false);
         alert(
           "Staff member added successfully! Login credentials will be sent via email."
@@ -303,6 +360,73 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
     }
   };
 
+  const updatePermissions = async () => {
+    if (!editing) return;
+
+    try {
+      const response = await fetch(
+        `/api/checkin/events/${eventId}/staff/${editing.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(toAccessBody(editing.access)),
+        }
+      );
+
+      if (response.ok) {
+        await fetchStaff(); // Refresh the list
+        setEditing(null);
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to update staff permissions");
+      }
+    } catch (error) {
+      console.error("Error updating staff:", error);
+      alert(
+        "Unable to connect to the server. Please check your internet connection and try again."
+      );
+    }
+  };
+
+  const toggleSuspended = async (member: Staff) => {
+    const action = member.is_active ? "suspend" : "reactivate";
+    if (
+      member.is_active &&
+      !confirm(
+        "Suspend this staff member? They will lose access to the event until you reactivate them."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/checkin/events/${eventId}/staff/${member.id}/${action}`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        await fetchStaff(); // Refresh the list
+      } else {
+        const error = await response.json();
+        alert(error.error || `Failed to ${action} staff member`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} staff:`, error);
+      alert(
+        "Unable to connect to the server. Please check your internet connection and try again."
+      );
+    }
+  };
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
@@ -418,67 +542,15 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Permissions
+                Role
               </label>
-              <div className="space-y-2">
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={newStaff.permissions.can_check_in}
-                    onChange={(e) =>
-                      setNewStaff({
-                        ...newStaff,
-                        permissions: {
-                          ...newStaff.permissions,
-                          can_check_in: e.target.checked,
-                        },
-                      })
-                    }
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">
-                    Can check-in participants
-                  </span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={newStaff.permissions.can_view_stats}
-                    onChange={(e) =>
-                      setNewStaff({
-                        ...newStaff,
-                        permissions: {
-                          ...newStaff.permissions,
-                          can_view_stats: e.target.checked,
-                        },
-                      })
-                    }
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">
-                    Can view check-in statistics
-                  </span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={newStaff.permissions.can_create_certificate}
-                    onChange={(e) =>
-                      setNewStaff({
-                        ...newStaff,
-                        permissions: {
-                          ...newStaff.permissions,
-                          can_create_certificate: e.target.checked,
-                        },
-                      })
-                    }
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">
-                    Can manage certificates
-                  </span>
-                </label>
-              </div>
+              {roles && (
+                <StaffPermissionPicker
+                  roles={roles}
+                  value={newStaff.access}
+                  onChange={(access) => setNewStaff({ ...newStaff, access })}
+                />
+              )}
             </div>
 
             <div className="flex space-x-3">
@@ -546,6 +618,7 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                     <div>
                       <p className="text-sm font-medium text-gray-900">
                         {member.user?.name || "Unknown User"}
+                        <StaffStatusBadge member={member} />
                       </p>
                       <p className="text-sm text-gray-600">
                         {member.user?.email || "No email"}
@@ -562,24 +635,7 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                 {/* Desktop Layout - hidden on mobile */}
                 <div className="hidden md:flex items-center space-x-4">
                   {/* Permissions */}
-                  <div className="flex space-x-2">
-                    {member.permissions.can_check_in && (
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                        Check-in
-                      </span>
-                    )}
-                    {member.permissions.can_view_stats && (
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                        <Eye className="h-3 w-3 mr-1" />
-                        Stats
-                      </span>
-                    )}
-                    {member.permissions.can_create_certificate ? (
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                        Certificates
-                      </span>
-                    ) : null}
-                  </div>
+                  <StaffRoleBadge member={member} roles={roles} />
 
                   {/* Last Login */}
                   <div className="text-xs text-gray-500">
@@ -619,7 +675,37 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                       <Mail className="h-4 w-4" />
                     </button>
                     <button
-                      onClick={() => removeStaff(member.user?.id || member.id)}
+                      onClick={() =>
+                        setEditing({
+                          id: member.id,
+                          access: {
+                            roleTemplate: member.role_template,
+                            permissions: member.permissions,
+                          },
+                        })
+                      }
+                      className="text-gray-600 hover:text-gray-700"
+                      title="Edit permissions"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    {member.status !== "declined" && (
+                      <button
+                        onClick={() => toggleSuspended(member)}
+                        className="text-amber-600 hover:text-amber-700"
+                        title={
+                          member.is_active ? "Suspend staff" : "Reactivate staff"
+                        }
+                      >
+                        {member.is_active ? (
+                          <PauseCircle className="h-4 w-4" />
+                        ) : (
+                          <PlayCircle className="h-4 w-4" />
+                        )}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => removeStaff(member.id)}
                       className="text-red-600 hover:text-red-700"
                       title="Remove staff"
                     >
@@ -648,26 +734,9 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                         {/* Permissions */}
                         <div>
                           <p className="text-xs font-medium text-gray-700 mb-2">
-                            Permissions:
+                            Role:
                           </p>
-                          <div className="flex flex-wrap gap-1">
-                            {member.permissions.can_check_in && (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Check-in
-                              </span>
-                            )}
-                            {member.permissions.can_view_stats && (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                                <Eye className="h-3 w-3 mr-1" />
-                                Stats
-                              </span>
-                            )}
-                            {member.permissions.can_create_certificate ? (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                                Certificates
-                              </span>
-                            ) : null}
-                          </div>
+                          <StaffRoleBadge member={member} roles={roles} />
                         </div>
 
                         {/* Last Login */}
@@ -710,7 +779,41 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                           </button>
                           <button
                             onClick={() => {
-                              removeStaff(member.user?.id || member.id);
+                              setEditing({
+                                id: member.id,
+                                access: {
+                                  roleTemplate: member.role_template,
+                                  permissions: member.permissions,
+                                },
+                              });
+                              setOpenDropdown(null);
+                            }}
+                            className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-50 rounded-md"
+                          >
+                            <Pencil className="h-4 w-4" />
+                            <span>Edit</span>
+                          </button>
+                          {member.status !== "declined" && (
+                            <button
+                              onClick={() => {
+                                toggleSuspended(member);
+                                setOpenDropdown(null);
+                              }}
+                              className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 text-sm text-amber-600 hover:bg-amber-50 rounded-md"
+                            >
+                              {member.is_active ? (
+                                <PauseCircle className="h-4 w-4" />
+                              ) : (
+                                <PlayCircle className="h-4 w-4" />
+                              )}
+                              <span>
+                                {member.is_active ? "Suspend" : "Reactivate"}
+                              </span>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => {
+                              removeStaff(member.id);
                               setOpenDropdown(null);
                             }}
                             className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-md"
@@ -724,6 +827,33 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
                   )}
                 </div>
               </div>
+
+              {/* Edit Permissions */}
+              {editing?.id === member.id && (
+                <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-md space-y-3">
+                  {roles && (
+                    <StaffPermissionPicker
+                      roles={roles}
+                      value={editing.access}
+                      onChange={(access) => setEditing({ ...editing, access })}
+                    />
+                  )}
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={updatePermissions}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      Save Permissions
+                    </button>
+                    <button
+                      onClick={() => setEditing(null)}
+                      className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           ))
         )}
@@ -744,7 +874,11 @@ export function StaffManagement({ eventId }: StaffManagementProps) {
               <li>
                 • Staff accounts are created automatically if they don't exist
               </li>
-              <li>• You can modify or revoke access at any time</li>
+              <li>
+                • Staff can accept or decline an assignment, and are emailed
+                whenever you change their access
+              </li>
+              <li>• Suspend access temporarily, or remove it at any time</li>
             </ul>
           </div>
         </div>
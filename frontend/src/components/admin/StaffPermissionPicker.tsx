@@ -0,0 +1,82 @@
+import { StaffRoles } from "../../api/staff";
+
+// A role template, or a custom permission set when roleTemplate is null
+export interface StaffAccess {
+  roleTemplate: string | null;
+  permissions: string[];
+}
+
+interface StaffPermissionPickerProps {
+  roles: StaffRoles;
+  value: StaffAccess;
+  onChange: (value: StaffAccess) => void;
+}
+
+export function StaffPermissionPicker({
+  roles,
+  value,
+  onChange,
+}: StaffPermissionPickerProps) {
+  const template = value.roleTemplate
+    ? roles.templates[value.roleTemplate]
+    : null;
+
+  const togglePermission = (permission: string, granted: boolean) =>
+    onChange({
+      roleTemplate: null,
+      permissions: granted
+        ? [...value.permissions, permission]
+        : value.permissions.filter((p) => p !== permission),
+    });
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value.roleTemplate || "custom"}
+        onChange={(e) =>
+          onChange(
+            e.target.value === "custom"
+              ? { roleTemplate: null, permissions: value.permissions }
+              : {
+                  roleTemplate: e.target.value,
+                  permissions: roles.templates[e.target.value].permissions,
+                }
+          )
+        }
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+      >
+        {Object.entries(roles.templates).map(([id, { name }]) => (
+          <option key={id} value={id}>
+            {name}
+          </option>
+        ))}
+        <option value="custom">Custom permissions</option>
+      </select>
+
+      {template ? (
+        <p className="text-sm text-gray-600">
+          {template.description}:{" "}
+          {template.permissions
+            .map((permission) => roles.permissions[permission])
+            .join(", ")}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {Object.entries(roles.permissions).map(([permission, label]) => (
+            <label key={permission} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={value.permissions.includes(permission)}
+                onChange={(e) =>
+                  togglePermission(permission, e.target.checked)
+                }
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2 text-sm text-gray-700">{label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,49 @@
 import { useState, useEffect } from "react";
-import { Users, Clock, TrendingUp, UserCheck, Search } from "lucide-react";
+import {
+  Users,
+  Clock,
+  TrendingUp,
+  UserCheck,
+  Search,
+  Wifi,
+  WifiOff,
+  Download,
+  RefreshCw,
+  AlertTriangle,
+} from "lucide-react";
 import { QRScanner } from "./QRScanner";
 import { useAuthStore } from "../../store/authStore";
 import { Loader } from "../common/Loader";
+import {
+  CheckInService,
+  BatchCheckInResult,
+  CheckInConflict,
+} from "../../api/checkin";
+import { SessionService, EventSession } from "../../api/sessions";
+import {
+  StoredManifest,
+  getDeviceId,
+  getQueuedCheckIns,
+  getStoredManifest,
+  recordOfflineCheckIn,
+  removeQueuedCheckIns,
+  saveManifest,
+  verifyManifest,
+} from "../../utils/offlineCheckIn";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface TierCheckInStats {
+  tier_id: string;
+  tier_name: string;
+  registrations: number;
+  check_ins: number;
+}
 
 interface CheckInStats {
   total_registrations: number;
   total_check_ins: number;
   check_in_rate: string;
+  by_tier?: TierCheckInStats[];
 }
 
 interface RecentCheckIn {
@@ -16,6 +52,7 @@ interface RecentCheckIn {
   registration: {
     name: string;
     email: string;
+    ticket_tier?: string | null;
   };
   checked_in_by_user: {
     name: string;
@@ -23,6 +60,8 @@ interface RecentCheckIn {
   location?: string;
 }
 
+const SCAN_LOCATION = "Main Entrance";
+
 interface CheckInDashboardProps {
   eventId: string;
 }
@@ -41,7 +80,21 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
   const [lastCheckIn, setLastCheckIn] = useState<{
     name: string;
     time: string;
+    ticketTier?: string | null;
+    offline?: boolean;
   } | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [manifest, setManifest] = useState<StoredManifest | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [downloading, setDownloading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<CheckInConflict[]>([]);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  // Empty means scanning at the event entrance rather than a session door
+  const [scanSessionId, setScanSessionId] = useState("");
+  const [rejectedSyncs, setRejectedSyncs] = useState<
+    (BatchCheckInResult & { name: string; scanned_at: string })[]
+  >([]);
 
   useEffect(() => {
     // Validate token before making requests
@@ -55,11 +108,161 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
     }
 
     fetchStats();
+    fetchConflicts();
+    fetchSessions();
+    loadOfflineState();
     // Refresh stats every 30 seconds
     const interval = setInterval(fetchStats, 30000);
     return () => clearInterval(interval);
   }, [eventId]);
 
+  // Upload queued scans as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPending();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    if (navigator.onLine) {
+      syncPending();
+    }
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [eventId]);
+
+  const loadOfflineState = async () => {
+    try {
+      const [stored, queued] = await Promise.all([
+        getStoredManifest(eventId),
+        getQueuedCheckIns(eventId),
+      ]);
+      setManifest(stored || null);
+      setPendingCount(queued.length);
+    } catch (error) {
+      console.error("Error loading offline check-in data:", error);
+    }
+  };
+
+  const fetchConflicts = async () => {
+    if (!navigator.onLine) return;
+
+    try {
+      const response = await CheckInService.getConflicts(eventId);
+      if (response.success && response.data) {
+        setConflicts(response.data.conflicts);
+      }
+    } catch (error) {
+      console.error("Error fetching check-in conflicts:", error);
+    }
+  };
+
+  const handleDownloadManifest = async () => {
+    try {
+      setDownloading(true);
+      const [keyResponse, manifestResponse] = await Promise.all([
+        CheckInService.getManifestKey(),
+        CheckInService.getManifest(eventId),
+      ]);
+      if (!keyResponse.data || !manifestResponse.data) {
+        throw new Error("Failed to download attendee list");
+      }
+
+      const verified = await verifyManifest(
+        manifestResponse.data,
+        keyResponse.data
+      );
+      setManifest(await saveManifest(eventId, manifestResponse.data));
+      showSuccessToast(
+        `${verified.attendees.length} attendees saved for offline check-in`
+      );
+    } catch (error) {
+      showErrorToast(error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const syncPending = async () => {
+    const queued = await getQueuedCheckIns(eventId);
+    setPendingCount(queued.length);
+    if (queued.length === 0) return;
+
+    try {
+      setSyncing(true);
+      const response = await CheckInService.syncBatch(
+        eventId,
+        getDeviceId(),
+        queued.map(({ client_id, qr_code, scanned_at, location }) => ({
+          client_id,
+          qr_code,
+          scanned_at,
+          location,
+        }))
+      );
+      if (!response.success || !response.data) return;
+
+      const { results, summary } = response.data;
+      await removeQueuedCheckIns(results.map((result) => result.client_id));
+      setPendingCount(queued.length - results.length);
+
+      // Scans the server refused were let in offline; staff should follow up
+      const rejected = results
+        .filter((result) => result.status === "rejected")
+        .map((result) => {
+          const record = queued.find(
+            (item) => item.client_id === result.client_id
+          );
+          return {
+            ...result,
+            name: record?.name || "Unknown attendee",
+            scanned_at: record?.scanned_at || "",
+          };
+        });
+      setRejectedSyncs((previous) => [...rejected, ...previous]);
+
+      showSuccessToast(
+        `Synced ${results.length} offline check-in${
+          results.length === 1 ? "" : "s"
+        }` +
+          (summary.conflicts ? ` · ${summary.conflicts} duplicate` : "") +
+          (summary.rejected ? ` · ${summary.rejected} rejected` : "")
+      );
+
+      fetchStats();
+      fetchConflicts();
+    } catch (error) {
+      // Still offline or the server is down; the queue is kept for next time
+      console.error("Error syncing offline check-ins:", error);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleOfflineScan = async (qrCode: string) => {
+    const { attendee } = await recordOfflineCheckIn(
+      eventId,
+      qrCode,
+      SCAN_LOCATION
+    );
+
+    setLastCheckIn({
+      name: attendee.name,
+      time: new Date().toLocaleTimeString(),
+      ticketTier: attendee.ticket_tier,
+      offline: true,
+    });
+    setPendingCount((count) => count + 1);
+    setManifest((await getStoredManifest(eventId)) || null);
+
+    return { participant: attendee, offline: true };
+  };
+
   const fetchStats = async () => {
     try {
       if (!accessToken) {
@@ -92,6 +295,17 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
     }
   };
 
+  const fetchSessions = async () => {
+    try {
+      const response = await SessionService.getEventSessions(eventId);
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+    }
+  };
+
   const handleScan = async (qrCode: string) => {
     if (!accessToken) {
       throw new Error(
@@ -99,25 +313,47 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
       );
     }
 
+    // Offline manifests only cover the event entrance
+    if (!navigator.onLine) {
+      if (scanSessionId) {
+        throw new Error("Session check-in needs a connection");
+      }
+      return handleOfflineScan(qrCode);
+    }
+
     const API_BASE_URL =
       import.meta.env.VITE_API_URL || "http://localhost:3001/api";
-    const fullUrl = `${API_BASE_URL}/checkin/events/${eventId}`;
-
-    const response = await fetch(fullUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        qr_code: qrCode,
-        location: "Main Entrance",
-        device_info: {
-          userAgent: navigator.userAgent,
-          timestamp: new Date().toISOString(),
+    const fullUrl = scanSessionId
+      ? `${API_BASE_URL}/sessions/${scanSessionId}/checkin`
+      : `${API_BASE_URL}/checkin/events/${eventId}`;
+    const body = scanSessionId
+      ? { qrCode }
+      : {
+          qr_code: qrCode,
+          location: SCAN_LOCATION,
+          device_info: {
+            userAgent: navigator.userAgent,
+            timestamp: new Date().toISOString(),
+          },
+        };
+
+    let response: Response;
+    try {
+      response = await fetch(fullUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
         },
-      }),
-    });
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      // The browser thinks it's online but the request never got through
+      if (manifest && !scanSessionId) {
+        return handleOfflineScan(qrCode);
+      }
+      throw error;
+    }
 
     if (!response.ok) {
       if (response.status === 401) {
@@ -127,8 +363,13 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
       }
 
       const error = await response.json();
+      const message =
+        error.error || error.message || "Failed to check in participant";
+      // Ticket verification failures explain themselves in `details`
       throw new Error(
-        error.error || error.message || "Failed to check in participant"
+        typeof error.details === "string"
+          ? `${message}: ${error.details}`
+          : message
       );
     }
 
@@ -139,6 +380,7 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
     setLastCheckIn({
       name: result.participant.name,
       time: new Date().toLocaleTimeString(),
+      ticketTier: result.participant.ticket_tier,
     });
 
     // Refresh stats
@@ -202,6 +444,67 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
           </p>
         </div>
 
+        {/* Offline Mode */}
+        <div className="mb-6 bg-white rounded-lg shadow p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div
+              className={`p-2 rounded-md ${
+                isOnline ? "bg-green-100" : "bg-yellow-100"
+              }`}
+            >
+              {isOnline ? (
+                <Wifi className="h-5 w-5 text-green-600" />
+              ) : (
+                <WifiOff className="h-5 w-5 text-yellow-600" />
+              )}
+            </div>
+            <div>
+              <p className="font-medium text-gray-900">
+                {isOnline
+                  ? "Online"
+                  : "Offline — scans are saved on this device"}
+              </p>
+              <p className="text-sm text-gray-600">
+                {manifest
+                  ? `Attendee list downloaded ${new Date(
+                      manifest.downloaded_at
+                    ).toLocaleString()}`
+                  : "Download the attendee list to keep scanning without a connection"}
+                {pendingCount > 0 &&
+                  ` · ${pendingCount} check-in${
+                    pendingCount === 1 ? "" : "s"
+                  } waiting to sync`}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleDownloadManifest}
+              disabled={!isOnline || downloading}
+              className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              {downloading
+                ? "Downloading..."
+                : manifest
+                ? "Refresh Offline List"
+                : "Download for Offline"}
+            </button>
+            {pendingCount > 0 && (
+              <button
+                onClick={syncPending}
+                disabled={!isOnline || syncing}
+                className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                <RefreshCw
+                  className={`h-4 w-4 ${syncing ? "animate-spin" : ""}`}
+                />
+                {syncing ? "Syncing..." : "Sync Now"}
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* Success Message */}
         {lastCheckIn && (
           <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
@@ -210,8 +513,12 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
               <div>
                 <p className="text-green-800 font-medium">
                   ✅ {lastCheckIn.name} checked in successfully
+                  {lastCheckIn.offline && " (saved offline)"}
+                </p>
+                <p className="text-green-600 text-sm">
+                  at {lastCheckIn.time}
+                  {lastCheckIn.ticketTier && ` · ${lastCheckIn.ticketTier}`}
                 </p>
-                <p className="text-green-600 text-sm">at {lastCheckIn.time}</p>
               </div>
             </div>
           </div>
@@ -266,9 +573,57 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
           </div>
         </div>
 
+        {/* Per-tier breakdown */}
+        {stats.by_tier && stats.by_tier.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Check-ins by Ticket Type
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.by_tier.map((tier) => (
+                <div
+                  key={tier.tier_id}
+                  className="bg-gray-50 rounded-lg p-4 border border-gray-200"
+                >
+                  <p className="text-sm font-medium text-gray-600 truncate">
+                    {tier.tier_name}
+                  </p>
+                  <p className="text-xl font-bold text-gray-900">
+                    {tier.check_ins}
+                    <span className="text-sm font-normal text-gray-500">
+                      {" "}
+                      / {tier.registrations}
+                    </span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* QR Scanner */}
-          <div>
+          <div className="space-y-4">
+            {sessions.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Scanning for
+                </label>
+                <select
+                  value={scanSessionId}
+                  onChange={(e) => setScanSessionId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Event entrance</option>
+                  {sessions.map((session) => (
+                    <option key={session.id} value={session.id}>
+                      {session.title}
+                      {session.room ? ` (${session.room})` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <QRScanner
               onScan={handleScan}
               isScanning={isScanning}
@@ -322,6 +677,11 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
                           <p className="text-sm text-gray-600">
                             {checkIn.registration.email}
                           </p>
+                          {checkIn.registration.ticket_tier && (
+                            <p className="text-xs text-blue-600">
+                              {checkIn.registration.ticket_tier}
+                            </p>
+                          )}
                           {checkIn.location && (
                             <p className="text-xs text-gray-500">
                               📍 {checkIn.location}
@@ -350,6 +710,53 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
           </div>
         </div>
 
+        {/* Sync Conflicts */}
+        {(conflicts.length > 0 || rejectedSyncs.length > 0) && (
+          <div className="mt-8 bg-white rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200 flex items-center space-x-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              <h3 className="text-lg font-medium text-gray-900">
+                Offline Sync Issues
+              </h3>
+            </div>
+            <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+              {rejectedSyncs.map((item) => (
+                <div key={item.client_id} className="p-4">
+                  <p className="font-medium text-gray-900">{item.name}</p>
+                  <p className="text-sm text-red-600">
+                    Rejected when synced: {item.error}
+                  </p>
+                  {item.scanned_at && (
+                    <p className="text-xs text-gray-500">
+                      Scanned offline at{" "}
+                      {new Date(item.scanned_at).toLocaleTimeString()}
+                    </p>
+                  )}
+                </div>
+              ))}
+              {conflicts.map((conflict) => (
+                <div key={conflict.id} className="p-4">
+                  <p className="font-medium text-gray-900">
+                    {conflict.registration?.name || "Unknown attendee"}
+                  </p>
+                  <p className="text-sm text-yellow-700">
+                    Scanned twice:{" "}
+                    {new Date(
+                      conflict.existing_checked_in_at
+                    ).toLocaleTimeString()}{" "}
+                    and {new Date(conflict.scanned_at).toLocaleTimeString()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {conflict.resolution === "replaced_later_scan"
+                      ? "Kept the earlier offline scan as the check-in time"
+                      : "Kept the earlier check-in; the later scan was ignored"}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Instructions */}
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h4 className="text-lg font-medium text-blue-900 mb-3">
@@ -363,6 +770,7 @@ export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
                 <li>• Point camera at participant's QR code</li>
                 <li>• Wait for automatic scan and confirmation</li>
                 <li>• Monitor real-time check-in statistics</li>
+                <li>• Download the attendee list before going offline</li>
               </ul>
             </div>
             <div>
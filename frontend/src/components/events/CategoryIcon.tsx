@@ -0,0 +1,47 @@
+import {
+  Briefcase,
+  Code,
+  Dumbbell,
+  GraduationCap,
+  Heart,
+  Mic,
+  Music,
+  Palette,
+  PartyPopper,
+  Tag,
+  Trophy,
+  Users,
+  Utensils,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icons admins can pick for a category, keyed by the name stored on it
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Briefcase,
+  Code,
+  Dumbbell,
+  GraduationCap,
+  Heart,
+  Mic,
+  Music,
+  Palette,
+  PartyPopper,
+  Tag,
+  Trophy,
+  Users,
+  Utensils,
+};
+
+// Unknown or missing icon names fall back to a tag
+export function CategoryIcon({
+  icon,
+  className,
+  color,
+}: {
+  icon?: string | null;
+  className?: string;
+  color?: string;
+}) {
+  const Icon = (icon && CATEGORY_ICONS[icon]) || Tag;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
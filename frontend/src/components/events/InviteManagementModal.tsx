@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import {
+  X,
+  Mail,
+  Link2,
+  Upload,
+  Copy,
+  Check,
+  Ban,
+  Send,
+} from "lucide-react";
+import {
+  InvitationService,
+  Invitation,
+  InvitationStatus,
+  InvitationSummary,
+} from "../../api/invitations";
+import type { Event } from "../../api/events";
+import { formatDate } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface InviteManagementModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+}
+
+const statusStyles: Record<InvitationStatus, string> = {
+  sent: "bg-blue-100 text-blue-800",
+  opened: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  revoked: "bg-gray-200 text-gray-700",
+};
+
+export function InviteManagementModal({
+  eventId,
+  eventTitle,
+  onClose,
+}: InviteManagementModalProps) {
+  const [activeTab, setActiveTab] = useState<"email" | "link">("email");
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [summary, setSummary] = useState<InvitationSummary | null>(null);
+  const [visibility, setVisibility] = useState<Event["visibility"] | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Email invite form
+  const [emailsText, setEmailsText] = useState("");
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvFileName, setCsvFileName] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  // Invite link form
+  const [maxUses, setMaxUses] = useState("");
+  const [linkExpiresAt, setLinkExpiresAt] = useState("");
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await InvitationService.getEventInvitations(eventId);
+      if (response.success && response.data) {
+        setInvitations(response.data.invitations);
+        setSummary(response.data.summary);
+        setVisibility(response.data.visibility);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [eventId]);
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    setCsvFileName(file.name);
+  };
+
+  const handleSendInvites = async () => {
+    const invitees = emailsText
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean)
+      .map((email) => ({ email }));
+
+    if (invitees.length === 0 && !csvText) {
+      showErrorToast("Enter at least one email or upload a CSV file");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await InvitationService.createInvitations(eventId, {
+        invitees,
+        csv: csvText || undefined,
+        message: message || undefined,
+      });
+
+      if (response.success && response.data) {
+        const { invitations: created, skipped, failedEmails } = response.data;
+        showSuccessToast(
+          `${created.length} invitation(s) sent${
+            skipped.length ? `, ${skipped.length} already invited` : ""
+          }`
+        );
+        if (failedEmails.length) {
+          showErrorToast(
+            `Email delivery failed for: ${failedEmails.join(", ")}`
+          );
+        }
+        setEmailsText("");
+        setCsvText(null);
+        setCsvFileName(null);
+        setMessage("");
+        await fetchInvitations();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    try {
+      setSubmitting(true);
+      const response = await InvitationService.createInviteLink(eventId, {
+        maxUses: maxUses ? Number(maxUses) : undefined,
+        expiresAt: linkExpiresAt
+          ? new Date(linkExpiresAt).toISOString()
+          : undefined,
+      });
+
+      if (response.success && response.data) {
+        await navigator.clipboard.writeText(response.data.inviteUrl);
+        showSuccessToast("Invite link created and copied to clipboard");
+        setMaxUses("");
+        setLinkExpiresAt("");
+        await fetchInvitations();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      const response = await InvitationService.revokeInvitation(invitation.id);
+      if (response.success) {
+        showSuccessToast("Invitation revoked");
+        await fetchInvitations();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  const copyLink = async (invitation: Invitation) => {
+    if (!invitation.invite_url) return;
+    try {
+      await navigator.clipboard.writeText(invitation.invite_url);
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Mail className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Invitations
+                </h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                  {visibility && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      {visibility}
+                    </span>
+                  )}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {summary && (
+            <div className="mt-4 grid grid-cols-4 gap-3">
+              {(Object.keys(summary) as InvitationStatus[]).map((status) => (
+                <div
+                  key={status}
+                  className="bg-gray-50 rounded-lg p-3 text-center border border-gray-200"
+                >
+                  <div className="text-lg font-semibold text-gray-900">
+                    {summary[status]}
+                  </div>
+                  <div className="text-xs text-gray-600 capitalize">
+                    {status}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {visibility === "public" && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+              This event is public, so anyone can register without an
+              invitation. Change its visibility to private or invite-only to
+              restrict registration to invitees.
+            </div>
+          )}
+
+          {/* Tabs */}
+          <nav className="flex gap-6 border-b border-gray-200">
+            {[
+              { key: "email", label: "Email Invites", icon: Mail },
+              { key: "link", label: "Invite Links", icon: Link2 },
+            ].map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key as typeof activeTab)}
+                className={`flex items-center gap-2 py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === tab.key
+                    ? "border-primary-500 text-primary-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <tab.icon className="h-4 w-4" />
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+
+          {activeTab === "email" ? (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Email addresses
+                </label>
+                <textarea
+                  value={emailsText}
+                  onChange={(e) => setEmailsText(e.target.value)}
+                  rows={3}
+                  placeholder="alice@example.com, bob@example.com"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                  <Upload className="h-4 w-4" />
+                  Upload CSV
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={handleCsvUpload}
+                  />
+                </label>
+                <span className="text-xs text-gray-500">
+                  {csvFileName || "One email per row, optional name column"}
+                </span>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Personal message (optional)
+                </label>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={2}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleSendInvites}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                <Send className="h-4 w-4" />
+                {submitting ? "Sending..." : "Send Invitations"}
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Maximum uses (optional)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxUses}
+                    onChange={(e) => setMaxUses(e.target.value)}
+                    placeholder="Unlimited"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Expires at (optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={linkExpiresAt}
+                    onChange={(e) => setLinkExpiresAt(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleCreateLink}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                <Link2 className="h-4 w-4" />
+                {submitting ? "Creating..." : "Create Invite Link"}
+              </button>
+            </div>
+          )}
+
+          {/* Invitations list */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              All invitations
+            </h3>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading invitations...</p>
+            ) : invitations.length === 0 ? (
+              <p className="text-sm text-gray-500">No invitations yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {invitations.map((invitation) => (
+                  <li
+                    key={invitation.id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {invitation.type === "email"
+                            ? invitation.name
+                              ? `${invitation.name} <${invitation.email}>`
+                              : invitation.email
+                            : "Shareable link"}
+                        </span>
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            statusStyles[invitation.status]
+                          }`}
+                        >
+                          {invitation.status}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Created {formatDate(invitation.created_at)}
+                        {invitation.type === "link" &&
+                          ` · ${invitation.use_count}${
+                            invitation.max_uses ? `/${invitation.max_uses}` : ""
+                          } uses`}
+                        {invitation.expires_at &&
+                          ` · Expires ${formatDate(invitation.expires_at)}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => copyLink(invitation)}
+                        className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                        title="Copy invite link"
+                      >
+                        {copiedId === invitation.id ? (
+                          <Check className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
+                      </button>
+                      {invitation.status !== "revoked" && (
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                          title="Revoke invitation"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Crown } from "lucide-react";
+import { EventService, PendingOwnershipTransfer } from "../../api/events";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+// Ownership transfers waiting on the current user, shown on the dashboard
+export function OwnershipTransferRequests() {
+  const [transfers, setTransfers] = useState<PendingOwnershipTransfer[]>([]);
+  const [responding, setResponding] = useState<string | null>(null);
+
+  const fetchTransfers = async () => {
+    try {
+      const response = await EventService.getPendingTransfers();
+      if (response.success && response.data) {
+        setTransfers(response.data.transfers);
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to fetch ownership transfers:", err);
+      }
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfers();
+  }, []);
+
+  const respond = async (
+    transfer: PendingOwnershipTransfer,
+    accept: boolean
+  ) => {
+    if (
+      accept &&
+      !confirm(
+        `Become the owner of "${transfer.event.title}"? You'll be responsible for the event from now on.`
+      )
+    ) {
+      return;
+    }
+
+    setResponding(transfer.id);
+    try {
+      const response = await EventService.respondToTransfer(
+        transfer.id,
+        accept
+      );
+      if (response.success) {
+        showSuccessToast(response.message || "Response saved");
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setResponding(null);
+      await fetchTransfers();
+    }
+  };
+
+  if (transfers.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-2xl p-6 mb-8">
+      <h2 className="flex items-center font-semibold text-lg text-amber-800 mb-4">
+        <Crown className="w-5 h-5 mr-2" />
+        Ownership Transfer Requests
+      </h2>
+      <ul className="space-y-3">
+        {transfers.map((transfer) => (
+          <li
+            key={transfer.id}
+            className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 bg-white rounded-xl p-4"
+          >
+            <div>
+              <Link
+                to={`/events/${transfer.event.id}`}
+                className="font-semibold text-gray-900 hover:underline"
+              >
+                {transfer.event.title}
+              </Link>
+              <p className="text-sm text-gray-600">
+                {transfer.from_user.name || transfer.from_user.email} wants to
+                make you the owner of this event.
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => respond(transfer, true)}
+                disabled={responding === transfer.id}
+                className="px-4 py-2 bg-amber-600 text-white text-sm rounded-md hover:bg-amber-700 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => respond(transfer, false)}
+                disabled={responding === transfer.id}
+                className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-md hover:bg-gray-300 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
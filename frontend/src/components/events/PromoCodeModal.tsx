@@ -0,0 +1,566 @@
+import { useEffect, useState } from "react";
+import {
+  X,
+  Tag,
+  Plus,
+  Pencil,
+  Trash2,
+  BarChart3,
+  ArrowLeft,
+} from "lucide-react";
+import {
+  PromoCodeService,
+  PromoCode,
+  PromoCodeData,
+  PromoCodeReport,
+  PromoDiscountType,
+} from "../../api/promoCodes";
+import { TicketTierService, TicketTier } from "../../api/ticketTiers";
+import { formatDate, toLocalInput } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface PromoCodeModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+}
+
+const emptyForm = {
+  code: "",
+  discountType: "percentage" as PromoDiscountType,
+  discountValue: "",
+  tierIds: [] as string[],
+  maxUses: "",
+  validFrom: "",
+  validUntil: "",
+  singleUsePerUser: false,
+};
+
+const formatDiscount = (promoCode: PromoCode) =>
+  promoCode.discount_type === "percentage"
+    ? `${Number(promoCode.discount_value)}% off`
+    : `$${Number(promoCode.discount_value).toFixed(2)} off`;
+
+export function PromoCodeModal({
+  eventId,
+  eventTitle,
+  onClose,
+}: PromoCodeModalProps) {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [tiers, setTiers] = useState<TicketTier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [report, setReport] = useState<PromoCodeReport | null>(null);
+
+  const fetchPromoCodes = async () => {
+    try {
+      const response = await PromoCodeService.getEventPromoCodes(eventId);
+      if (response.success && response.data) {
+        setPromoCodes(response.data.promoCodes);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTiers = async () => {
+    try {
+      const response = await TicketTierService.getEventTiers(eventId);
+      if (response.success && response.data) {
+        setTiers(response.data.tiers);
+      }
+    } catch (err) {
+      console.error("Failed to fetch ticket tiers:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromoCodes();
+    fetchTiers();
+  }, [eventId]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEditing = (promoCode: PromoCode) => {
+    setEditingId(promoCode.id);
+    setForm({
+      code: promoCode.code,
+      discountType: promoCode.discount_type,
+      discountValue: String(promoCode.discount_value),
+      tierIds: promoCode.tier_ids || [],
+      maxUses: promoCode.max_uses ? String(promoCode.max_uses) : "",
+      validFrom: toLocalInput(promoCode.valid_from),
+      validUntil: toLocalInput(promoCode.valid_until),
+      singleUsePerUser: promoCode.single_use_per_user,
+    });
+  };
+
+  const toggleTier = (tierId: string) => {
+    setForm({
+      ...form,
+      tierIds: form.tierIds.includes(tierId)
+        ? form.tierIds.filter((id) => id !== tierId)
+        : [...form.tierIds, tierId],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim()) {
+      showErrorToast("Promo code is required");
+      return;
+    }
+    if (!(Number(form.discountValue) > 0)) {
+      showErrorToast("Discount must be greater than zero");
+      return;
+    }
+
+    const data: PromoCodeData = {
+      code: form.code.trim(),
+      discountType: form.discountType,
+      discountValue: Number(form.discountValue),
+      tierIds: form.tierIds.length > 0 ? form.tierIds : null,
+      maxUses: form.maxUses ? Number(form.maxUses) : null,
+      validFrom: form.validFrom
+        ? new Date(form.validFrom).toISOString()
+        : null,
+      validUntil: form.validUntil
+        ? new Date(form.validUntil).toISOString()
+        : null,
+      singleUsePerUser: form.singleUsePerUser,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = editingId
+        ? await PromoCodeService.updatePromoCode(editingId, data)
+        : await PromoCodeService.createPromoCode(eventId, data);
+
+      if (response.success) {
+        showSuccessToast(
+          editingId ? "Promo code updated" : "Promo code created"
+        );
+        resetForm();
+        await fetchPromoCodes();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (promoCode: PromoCode) => {
+    try {
+      const response = await PromoCodeService.updatePromoCode(promoCode.id, {
+        isActive: !promoCode.is_active,
+      });
+      if (response.success) {
+        showSuccessToast(
+          promoCode.is_active ? "Promo code deactivated" : "Promo code activated"
+        );
+        await fetchPromoCodes();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  const handleDelete = async (promoCode: PromoCode) => {
+    if (!window.confirm(`Delete the promo code "${promoCode.code}"?`)) return;
+
+    try {
+      const response = await PromoCodeService.deletePromoCode(promoCode.id);
+      if (response.success) {
+        showSuccessToast("Promo code deleted");
+        if (editingId === promoCode.id) resetForm();
+        await fetchPromoCodes();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  const openReport = async (promoCode: PromoCode) => {
+    try {
+      const response = await PromoCodeService.getRedemptions(promoCode.id);
+      if (response.success && response.data) {
+        setReport(response.data);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  const tierName = (tierId: string) =>
+    tiers.find((tier) => tier.id === tierId)?.name || "Unknown ticket type";
+
+  const inputClass =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <Tag className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Promo Codes
+                </h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {report ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <button
+              onClick={() => setReport(null)}
+              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to promo codes
+            </button>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {report.promoCode.code}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {formatDiscount(report.promoCode)}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-gray-900">
+                  {report.summary.total_redemptions}
+                </div>
+                <div className="text-xs text-gray-600">Redemptions</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-gray-900">
+                  {report.summary.completed_redemptions}
+                </div>
+                <div className="text-xs text-gray-600">Completed</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-gray-900">
+                  ${report.summary.total_discount.toFixed(2)}
+                </div>
+                <div className="text-xs text-gray-600">Total discount</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-gray-900">
+                  ${report.summary.total_revenue.toFixed(2)}
+                </div>
+                <div className="text-xs text-gray-600">Revenue</div>
+              </div>
+            </div>
+
+            {report.redemptions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                This code has not been redeemed yet.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {report.redemptions.map((redemption) => (
+                  <li
+                    key={redemption.registration_id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">
+                        {redemption.name}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {redemption.email}
+                        {redemption.ticket_tier &&
+                          ` · ${redemption.ticket_tier}`}
+                        {` · ${formatDate(redemption.redeemed_at)}`}
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-sm text-gray-900">
+                        -${redemption.discount_amount.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {redemption.status === "cancelled"
+                          ? "cancelled"
+                          : redemption.payment_status || redemption.status}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* Promo code form */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-gray-900">
+                {editingId ? "Edit promo code" : "Add a promo code"}
+              </h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Code
+                  </label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) =>
+                      setForm({ ...form, code: e.target.value.toUpperCase() })
+                    }
+                    placeholder="EARLYBIRD"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900 mb-2">
+                      Type
+                    </label>
+                    <select
+                      value={form.discountType}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          discountType: e.target.value as PromoDiscountType,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="percentage">Percent</option>
+                      <option value="fixed">Fixed ($)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900 mb-2">
+                      Discount
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={form.discountType === "percentage" ? 100 : undefined}
+                      step="0.01"
+                      value={form.discountValue}
+                      onChange={(e) =>
+                        setForm({ ...form, discountValue: e.target.value })
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Max uses (optional)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.maxUses}
+                    onChange={(e) =>
+                      setForm({ ...form, maxUses: e.target.value })
+                    }
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.singleUsePerUser}
+                      onChange={(e) =>
+                        setForm({ ...form, singleUsePerUser: e.target.checked })
+                      }
+                      className="rounded border-gray-300"
+                    />
+                    One use per attendee
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Valid from (optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={form.validFrom}
+                    onChange={(e) =>
+                      setForm({ ...form, validFrom: e.target.value })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Valid until (optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={form.validUntil}
+                    onChange={(e) =>
+                      setForm({ ...form, validUntil: e.target.value })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                {tiers.length > 0 && (
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-900 mb-2">
+                      Applies to (leave empty for all ticket types)
+                    </label>
+                    <div className="flex flex-wrap gap-4">
+                      {tiers.map((tier) => (
+                        <label
+                          key={tier.id}
+                          className="inline-flex items-center gap-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={form.tierIds.includes(tier.id)}
+                            onChange={() => toggleTier(tier.id)}
+                            className="rounded border-gray-300"
+                          />
+                          {tier.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={submitting}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                >
+                  <Plus className="h-4 w-4" />
+                  {submitting
+                    ? "Saving..."
+                    : editingId
+                    ? "Save Changes"
+                    : "Add Promo Code"}
+                </button>
+                {editingId && (
+                  <button
+                    onClick={resetForm}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Promo codes list */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">
+                All promo codes
+              </h3>
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading promo codes...</p>
+              ) : promoCodes.length === 0 ? (
+                <p className="text-sm text-gray-500">No promo codes yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {promoCodes.map((promoCode) => (
+                    <li
+                      key={promoCode.id}
+                      className="px-4 py-3 flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-mono font-medium text-gray-900 truncate">
+                            {promoCode.code}
+                          </span>
+                          <span className="text-sm text-gray-700">
+                            {formatDiscount(promoCode)}
+                          </span>
+                          <button
+                            onClick={() => handleToggleActive(promoCode)}
+                            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                              promoCode.is_active
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-200 text-gray-700"
+                            }`}
+                            title={
+                              promoCode.is_active
+                                ? "Click to deactivate"
+                                : "Click to activate"
+                            }
+                          >
+                            {promoCode.is_active ? "active" : "inactive"}
+                          </button>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {promoCode.redemptions}
+                          {promoCode.max_uses ? `/${promoCode.max_uses}` : ""}{" "}
+                          used
+                          {promoCode.single_use_per_user &&
+                            " · One per attendee"}
+                          {promoCode.tier_ids &&
+                            promoCode.tier_ids.length > 0 &&
+                            ` · ${promoCode.tier_ids.map(tierName).join(", ")}`}
+                          {promoCode.valid_from &&
+                            ` · From ${formatDate(promoCode.valid_from)}`}
+                          {promoCode.valid_until &&
+                            ` · Until ${formatDate(promoCode.valid_until)}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => openReport(promoCode)}
+                          className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                          title="View redemptions"
+                        >
+                          <BarChart3 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => startEditing(promoCode)}
+                          className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                          title="Edit promo code"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(promoCode)}
+                          className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                          title="Delete promo code"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { X, RotateCcw } from "lucide-react";
+import {
+  RefundService,
+  RefundPolicy,
+  RefundPolicyType,
+} from "../../api/refunds";
+import { formatDate, toLocalInput } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface RefundPolicyModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+  onPolicyChanged?: (policy: RefundPolicy) => void;
+}
+
+// One-line summary shown to attendees and organizers
+export const describeRefundPolicy = (policy: RefundPolicy) => {
+  if (policy.policy_type === "none") {
+    return "No refunds on cancellation";
+  }
+
+  const share =
+    policy.policy_type === "full"
+      ? "Full refund"
+      : `${Number(policy.refund_percentage)}% refund`;
+
+  return policy.refund_deadline
+    ? `${share} if cancelled before ${formatDate(policy.refund_deadline)}`
+    : `${share} if cancelled before the event starts`;
+};
+
+const policyOptions: {
+  value: RefundPolicyType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "full",
+    label: "Full refund",
+    description: "Attendees get everything they paid back",
+  },
+  {
+    value: "partial",
+    label: "Partial refund",
+    description: "Attendees get a percentage of what they paid back",
+  },
+  {
+    value: "none",
+    label: "No refunds",
+    description: "Cancelling does not refund anything",
+  },
+];
+
+export function RefundPolicyModal({
+  eventId,
+  eventTitle,
+  onClose,
+  onPolicyChanged,
+}: RefundPolicyModalProps) {
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [policyType, setPolicyType] = useState<RefundPolicyType>("none");
+  const [percentage, setPercentage] = useState("50");
+  const [deadline, setDeadline] = useState("");
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const response = await RefundService.getRefundPolicy(eventId);
+        if (response.success && response.data) {
+          const { policy } = response.data;
+          setPolicyType(policy.policy_type);
+          if (policy.policy_type === "partial") {
+            setPercentage(String(policy.refund_percentage));
+          }
+          setDeadline(toLocalInput(policy.refund_deadline));
+        }
+      } catch (err) {
+        showErrorToast(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPolicy();
+  }, [eventId]);
+
+  const handleSave = async () => {
+    if (
+      policyType === "partial" &&
+      !(Number(percentage) > 0 && Number(percentage) <= 100)
+    ) {
+      showErrorToast("Refund percentage must be between 1 and 100");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await RefundService.updateRefundPolicy(eventId, {
+        policyType,
+        refundPercentage:
+          policyType === "partial" ? Number(percentage) : undefined,
+        refundDeadline:
+          policyType !== "none" && deadline
+            ? new Date(deadline).toISOString()
+            : null,
+      });
+
+      if (response.success && response.data) {
+        showSuccessToast("Refund policy saved");
+        onPolicyChanged?.(response.data.policy);
+        onClose();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <RotateCcw className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Refund Policy
+                </h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="p-6 text-sm text-gray-500">Loading refund policy...</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div className="space-y-3">
+              {policyOptions.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer hover:bg-gray-50 ${
+                    policyType === option.value
+                      ? "border-blue-500 ring-1 ring-blue-500"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="refundPolicy"
+                    value={option.value}
+                    checked={policyType === option.value}
+                    onChange={() => setPolicyType(option.value)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {option.label}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {option.description}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {policyType === "partial" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Refund percentage
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={percentage}
+                  onChange={(e) => setPercentage(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {policyType !== "none" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Refund cut-off (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave empty to allow refunds until the event starts.
+                </p>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              You can always refund an attendee yourself from the
+              registrations page, whatever the policy says.
+            </p>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || submitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {submitting ? "Saving..." : "Save Policy"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
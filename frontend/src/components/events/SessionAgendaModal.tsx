@@ -0,0 +1,485 @@
+import { useEffect, useState } from "react";
+import {
+  X,
+  CalendarClock,
+  Plus,
+  Pencil,
+  Trash2,
+  Award,
+  MapPin,
+  User,
+} from "lucide-react";
+import {
+  SessionService,
+  EventSession,
+  EventSessionData,
+} from "../../api/sessions";
+import { toLocalInput } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface SessionAgendaModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+  onSessionsChanged?: () => void;
+}
+
+const emptyForm = {
+  title: "",
+  description: "",
+  startTime: "",
+  endTime: "",
+  room: "",
+  speaker: "",
+  capacity: "",
+  signupRequired: false,
+};
+
+export const formatSessionTime = (session: EventSession) => {
+  const start = new Date(session.start_time);
+  const end = new Date(session.end_time);
+  const time = (date: Date) =>
+    date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  return `${start.toLocaleDateString()} · ${time(start)} – ${time(end)}`;
+};
+
+export function SessionAgendaModal({
+  eventId,
+  eventTitle,
+  onClose,
+  onSessionsChanged,
+}: SessionAgendaModalProps) {
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [minSessions, setMinSessions] = useState("");
+  const [minHours, setMinHours] = useState("");
+  const [savingRule, setSavingRule] = useState(false);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await SessionService.getEventSessions(eventId);
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+
+    const fetchRule = async () => {
+      try {
+        const response = await SessionService.getCertificateEligibility(
+          eventId
+        );
+        if (response.success && response.data) {
+          const { rule } = response.data;
+          setMinSessions(rule.min_sessions ? String(rule.min_sessions) : "");
+          setMinHours(rule.min_hours ? String(rule.min_hours) : "");
+        }
+      } catch (err) {
+        showErrorToast(err);
+      }
+    };
+
+    fetchRule();
+  }, [eventId]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEditing = (session: EventSession) => {
+    setEditingId(session.id);
+    setForm({
+      title: session.title,
+      description: session.description || "",
+      startTime: toLocalInput(session.start_time),
+      endTime: toLocalInput(session.end_time),
+      room: session.room || "",
+      speaker: session.speaker || "",
+      capacity: session.capacity ? String(session.capacity) : "",
+      signupRequired: session.signup_required,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      showErrorToast("Session title is required");
+      return;
+    }
+    if (!form.startTime || !form.endTime) {
+      showErrorToast("Session start and end times are required");
+      return;
+    }
+
+    const data: EventSessionData = {
+      title: form.title.trim(),
+      description: form.description.trim(),
+      startTime: new Date(form.startTime).toISOString(),
+      endTime: new Date(form.endTime).toISOString(),
+      room: form.room.trim(),
+      speaker: form.speaker.trim(),
+      capacity: form.capacity ? Number(form.capacity) : null,
+      signupRequired: form.signupRequired,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = editingId
+        ? await SessionService.updateSession(editingId, data)
+        : await SessionService.createSession(eventId, {
+            ...data,
+            sortOrder: sessions.length,
+          });
+
+      if (response.success) {
+        showSuccessToast(editingId ? "Session updated" : "Session created");
+        resetForm();
+        await fetchSessions();
+        onSessionsChanged?.();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (session: EventSession) => {
+    if (!window.confirm(`Delete the "${session.title}" session?`)) return;
+
+    try {
+      const response = await SessionService.deleteSession(session.id);
+      if (response.success) {
+        showSuccessToast("Session deleted");
+        if (editingId === session.id) resetForm();
+        await fetchSessions();
+        onSessionsChanged?.();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  const handleSaveRule = async () => {
+    try {
+      setSavingRule(true);
+      const response = await SessionService.updateCertificateEligibility(
+        eventId,
+        {
+          minSessions: minSessions ? Number(minSessions) : null,
+          minHours: minHours ? Number(minHours) : null,
+        }
+      );
+      if (response.success) {
+        showSuccessToast("Certificate eligibility saved");
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSavingRule(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-indigo-100 rounded-lg">
+                <CalendarClock className="h-5 w-5 text-indigo-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Agenda</h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Session form */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">
+              {editingId ? "Edit session" : "Add a session"}
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="Opening keynote"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Starts
+                </label>
+                <input
+                  type="datetime-local"
+                  value={form.startTime}
+                  onChange={(e) =>
+                    setForm({ ...form, startTime: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Ends
+                </label>
+                <input
+                  type="datetime-local"
+                  value={form.endTime}
+                  onChange={(e) =>
+                    setForm({ ...form, endTime: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Room (optional)
+                </label>
+                <input
+                  type="text"
+                  value={form.room}
+                  onChange={(e) => setForm({ ...form, room: e.target.value })}
+                  placeholder="Hall A"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Speaker (optional)
+                </label>
+                <input
+                  type="text"
+                  value={form.speaker}
+                  onChange={(e) =>
+                    setForm({ ...form, speaker: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Description (optional)
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm({ ...form, description: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Capacity (optional)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.capacity}
+                  onChange={(e) =>
+                    setForm({ ...form, capacity: e.target.value })
+                  }
+                  placeholder="No limit"
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex items-end">
+                <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.signupRequired}
+                    onChange={(e) =>
+                      setForm({ ...form, signupRequired: e.target.checked })
+                    }
+                    className="rounded border-gray-300"
+                  />
+                  Only admit attendees who signed up
+                </label>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                <Plus className="h-4 w-4" />
+                {submitting
+                  ? "Saving..."
+                  : editingId
+                  ? "Save Changes"
+                  : "Add Session"}
+              </button>
+              {editingId && (
+                <button
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Sessions list */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              Sessions
+            </h3>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading agenda...</p>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No sessions yet. The event runs as a single block.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {sessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {session.title}
+                        </span>
+                        {session.signup_required && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                            sign-up only
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                        <span>{formatSessionTime(session)}</span>
+                        {session.room && (
+                          <span className="inline-flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {session.room}
+                          </span>
+                        )}
+                        {session.speaker && (
+                          <span className="inline-flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {session.speaker}
+                          </span>
+                        )}
+                        <span>
+                          {session.signed_up}
+                          {session.capacity ? `/${session.capacity}` : ""}{" "}
+                          signed up
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => startEditing(session)}
+                        className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                        title="Edit session"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session)}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                        title="Delete session"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Certificate eligibility */}
+          <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Award className="h-4 w-4 text-yellow-600" />
+              <h3 className="text-sm font-medium text-gray-900">
+                Certificate eligibility
+              </h3>
+            </div>
+            <p className="text-xs text-gray-500">
+              Leave both empty to give certificates to everyone checked in at
+              the entrance. Otherwise attendees need to be scanned into enough
+              sessions.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Minimum sessions
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={minSessions}
+                  onChange={(e) => setMinSessions(e.target.value)}
+                  placeholder="Any"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Minimum hours
+                </label>
+                <input
+                  type="number"
+                  min={0.5}
+                  step="0.5"
+                  value={minHours}
+                  onChange={(e) => setMinHours(e.target.value)}
+                  placeholder="Any"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <button
+              onClick={handleSaveRule}
+              disabled={savingRule}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {savingRule ? "Saving..." : "Save Eligibility"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
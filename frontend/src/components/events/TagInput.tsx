@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// Free-form event tags, entered with Enter or a comma and stored lowercased
+export function TagInput({
+  id,
+  tags,
+  onChange,
+  suggestions = [],
+}: {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+}) {
+  const [draft, setDraft] = useState("");
+
+  const addTag = (value: string) => {
+    const tag = value.trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.includes(tag) && tags.length < MAX_TAGS) {
+      onChange([...tags, tag]);
+    }
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <div className="input flex flex-wrap items-center gap-2">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="ml-1 text-gray-500 hover:text-gray-700"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft && addTag(draft)}
+          list={id ? `${id}-suggestions` : undefined}
+          disabled={tags.length >= MAX_TAGS}
+          placeholder={tags.length === 0 ? "e.g. networking, beginner" : ""}
+          className="flex-1 min-w-[8rem] border-none p-0 focus:ring-0 focus:outline-none text-sm"
+        />
+      </div>
+      {id && (
+        <datalist id={`${id}-suggestions`}>
+          {suggestions
+            .filter((tag) => !tags.includes(tag))
+            .map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+        </datalist>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        Press Enter or comma to add a tag (up to {MAX_TAGS}).
+      </p>
+    </div>
+  );
+}
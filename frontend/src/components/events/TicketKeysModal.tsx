@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { X, ShieldCheck, RefreshCw, Send, Ban } from "lucide-react";
+import { TicketKeyService, TicketSigningKey } from "../../api/ticketKeys";
+import { formatDate } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface TicketKeysModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+}
+
+const statusStyles: Record<TicketSigningKey["status"], string> = {
+  active: "bg-green-100 text-green-800",
+  retired: "bg-yellow-100 text-yellow-800",
+  revoked: "bg-gray-200 text-gray-700",
+};
+
+export function TicketKeysModal({
+  eventId,
+  eventTitle,
+  onClose,
+}: TicketKeysModalProps) {
+  const [keys, setKeys] = useState<TicketSigningKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const fetchKeys = async () => {
+    try {
+      const response = await TicketKeyService.getEventKeys(eventId);
+      if (response.success && response.data) {
+        setKeys(response.data.keys);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, [eventId]);
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; message?: string }>,
+    confirmMessage: string
+  ) => {
+    if (!window.confirm(confirmMessage)) return;
+
+    try {
+      setWorking(true);
+      const response = await action();
+      if (response.success) {
+        showSuccessToast(response.message || "Done");
+        await fetchKeys();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const hasRetiredKeys = keys.some((key) => key.status === "retired");
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <ShieldCheck className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Ticket Security
+                </h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <p className="text-sm text-gray-600">
+            Ticket QR codes are signed so they can't be forged. If you think a
+            key has leaked, rotate it, reissue tickets so attendees get new QR
+            codes, then revoke the old key once everyone has their new ticket.
+          </p>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() =>
+                runAction(
+                  () => TicketKeyService.rotateKey(eventId),
+                  "Start signing new tickets with a fresh key? Existing tickets keep working."
+                )
+              }
+              disabled={working}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Rotate Key
+            </button>
+            <button
+              onClick={() =>
+                runAction(
+                  () => TicketKeyService.reissueTickets(eventId),
+                  "Re-sign every ticket with the active key? Attendees will see the new QR code next time they open their ticket."
+                )
+              }
+              disabled={working}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              Reissue Tickets
+            </button>
+            {hasRetiredKeys && (
+              <button
+                onClick={() =>
+                  runAction(
+                    () => TicketKeyService.revokeRetiredKeys(eventId),
+                    "Revoke retired keys? Tickets signed with them will stop scanning."
+                  )
+                }
+                disabled={working}
+                className="inline-flex items-center gap-2 px-4 py-2 border border-red-300 rounded-lg text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <Ban className="h-4 w-4" />
+                Revoke Retired Keys
+              </button>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              Signing keys
+            </h3>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading keys...</p>
+            ) : keys.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No keys yet. One is created when the first ticket is issued.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {keys.map((key) => (
+                  <li
+                    key={key.id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-mono text-gray-900">
+                        {key.kid}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Created {formatDate(key.created_at)}
+                        {key.retired_at &&
+                          ` · Retired ${formatDate(key.retired_at)}`}
+                      </div>
+                    </div>
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                        statusStyles[key.status]
+                      }`}
+                    >
+                      {key.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
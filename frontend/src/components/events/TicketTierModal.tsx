@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import {
+  X,
+  Ticket,
+  Plus,
+  Pencil,
+  Trash2,
+  Copy,
+  Check,
+  EyeOff,
+} from "lucide-react";
+import {
+  TicketTierService,
+  TicketTier,
+  TicketTierData,
+} from "../../api/ticketTiers";
+import { formatDate, toLocalInput } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface TicketTierModalProps {
+  eventId: string;
+  eventTitle: string;
+  onClose: () => void;
+  onTiersChanged?: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  price: "0",
+  quantity: "",
+  salesStart: "",
+  salesEnd: "",
+  hidden: false,
+};
+
+export function TicketTierModal({
+  eventId,
+  eventTitle,
+  onClose,
+  onTiersChanged,
+}: TicketTierModalProps) {
+  const [tiers, setTiers] = useState<TicketTier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchTiers = async () => {
+    try {
+      const response = await TicketTierService.getEventTiers(eventId);
+      if (response.success && response.data) {
+        setTiers(response.data.tiers);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTiers();
+  }, [eventId]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEditing = (tier: TicketTier) => {
+    setEditingId(tier.id);
+    setForm({
+      name: tier.name,
+      description: tier.description || "",
+      price: String(tier.price),
+      quantity: tier.quantity ? String(tier.quantity) : "",
+      salesStart: toLocalInput(tier.sales_start),
+      salesEnd: toLocalInput(tier.sales_end),
+      hidden: tier.visibility === "hidden",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showErrorToast("Ticket type name is required");
+      return;
+    }
+
+    const data: TicketTierData = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      price: Number(form.price) || 0,
+      quantity: form.quantity ? Number(form.quantity) : null,
+      salesStart: form.salesStart
+        ? new Date(form.salesStart).toISOString()
+        : null,
+      salesEnd: form.salesEnd ? new Date(form.salesEnd).toISOString() : null,
+      visibility: form.hidden ? "hidden" : "public",
+    };
+
+    try {
+      setSubmitting(true);
+      const response = editingId
+        ? await TicketTierService.updateTier(editingId, data)
+        : await TicketTierService.createTier(eventId, {
+            ...data,
+            sortOrder: tiers.length,
+          });
+
+      if (response.success) {
+        showSuccessToast(
+          editingId ? "Ticket type updated" : "Ticket type created"
+        );
+        resetForm();
+        await fetchTiers();
+        onTiersChanged?.();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (tier: TicketTier) => {
+    if (!window.confirm(`Delete the "${tier.name}" ticket type?`)) return;
+
+    try {
+      const response = await TicketTierService.deleteTier(tier.id);
+      if (response.success) {
+        showSuccessToast("Ticket type deleted");
+        if (editingId === tier.id) resetForm();
+        await fetchTiers();
+        onTiersChanged?.();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
+  // Hidden tiers (e.g. sponsor comps) are only reachable via a direct link
+  const copyTierLink = async (tier: TicketTier) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/events/${eventId}/register?tier=${tier.id}`
+      );
+      setCopiedId(tier.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Ticket className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Ticket Types
+                </h2>
+                <p className="text-sm text-gray-600 truncate max-w-xs">
+                  {eventTitle}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Tier form */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">
+              {editingId ? "Edit ticket type" : "Add a ticket type"}
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Early Bird"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Price ($)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Description (optional)
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm({ ...form, description: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Quantity (optional)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.quantity}
+                  onChange={(e) =>
+                    setForm({ ...form, quantity: e.target.value })
+                  }
+                  placeholder="Limited by event capacity"
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex items-end">
+                <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.hidden}
+                    onChange={(e) =>
+                      setForm({ ...form, hidden: e.target.checked })
+                    }
+                    className="rounded border-gray-300"
+                  />
+                  Hidden (only available via direct link)
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Sales start (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={form.salesStart}
+                  onChange={(e) =>
+                    setForm({ ...form, salesStart: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Sales end (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={form.salesEnd}
+                  onChange={(e) =>
+                    setForm({ ...form, salesEnd: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                <Plus className="h-4 w-4" />
+                {submitting
+                  ? "Saving..."
+                  : editingId
+                  ? "Save Changes"
+                  : "Add Ticket Type"}
+              </button>
+              {editingId && (
+                <button
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Tiers list */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              All ticket types
+            </h3>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading ticket types...</p>
+            ) : tiers.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No ticket types yet. Registrations use the event price and
+                capacity.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {tiers.map((tier) => (
+                  <li
+                    key={tier.id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {tier.name}
+                        </span>
+                        <span className="text-sm text-gray-700">
+                          {Number(tier.price) > 0
+                            ? `$${Number(tier.price).toFixed(2)}`
+                            : "Free"}
+                        </span>
+                        {tier.visibility === "hidden" && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            <EyeOff className="h-3 w-3" />
+                            hidden
+                          </span>
+                        )}
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            tier.on_sale
+                              ? "bg-green-100 text-green-800"
+                              : "bg-yellow-100 text-yellow-800"
+                          }`}
+                        >
+                          {tier.on_sale ? "on sale" : "not on sale"}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {tier.sold}
+                        {tier.quantity ? `/${tier.quantity}` : ""} sold
+                        {tier.sales_start &&
+                          ` · From ${formatDate(tier.sales_start)}`}
+                        {tier.sales_end &&
+                          ` · Until ${formatDate(tier.sales_end)}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {tier.visibility === "hidden" && (
+                        <button
+                          onClick={() => copyTierLink(tier)}
+                          className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                          title="Copy registration link"
+                        >
+                          {copiedId === tier.id ? (
+                            <Check className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <Copy className="h-4 w-4" />
+                          )}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => startEditing(tier)}
+                        className="p-2 text-gray-400 hover:text-blue-600 rounded-lg"
+                        title="Edit ticket type"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tier)}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                        title="Delete ticket type"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
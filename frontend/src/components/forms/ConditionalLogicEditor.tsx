@@ -0,0 +1,148 @@
+import type {
+  ConditionalLogic,
+  ConditionType,
+  FieldType,
+  FormField,
+} from "../../api/forms";
+import { CONDITION_LABELS } from "../../utils/formLogic";
+
+interface ConditionalLogicEditorProps {
+  field: FormField;
+  fields: FormField[];
+  onChange: (logic: ConditionalLogic | undefined) => void;
+}
+
+const UNMATCHABLE_TYPES: FieldType[] = ["file", "likert", "ranking"];
+
+// Whether candidate's visibility hangs on fieldId, directly or via a chain
+const dependsOnField = (
+  fields: FormField[],
+  candidate: FormField,
+  fieldId: string
+): boolean => {
+  const seen = new Set<string>();
+  let current: FormField | undefined = candidate;
+
+  while (current?.conditionalLogic && !seen.has(current.id)) {
+    const parentId: string = current.conditionalLogic.dependsOn;
+    if (parentId === fieldId) return true;
+    seen.add(current.id);
+    current = fields.find((f) => f.id === parentId);
+  }
+
+  return false;
+};
+
+export function ConditionalLogicEditor({
+  field,
+  fields,
+  onChange,
+}: ConditionalLogicEditorProps) {
+  const logic = field.conditionalLogic;
+
+  // A field can't depend on itself or on a field it already controls.
+  // Files, Likert grids and rankings have no single answer to match.
+  const sourceFields = fields.filter(
+    (f) =>
+      f.id !== field.id &&
+      !UNMATCHABLE_TYPES.includes(f.type) &&
+      !dependsOnField(fields, f, field.id)
+  );
+  const source = fields.find((f) => f.id === logic?.dependsOn);
+
+  const enableLogic = () => {
+    const first = sourceFields[0];
+    if (!first) return;
+    onChange({
+      dependsOn: first.id,
+      condition: "equals",
+      value: first.options?.[0] || "",
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!!logic}
+          disabled={!logic && sourceFields.length === 0}
+          onChange={(e) =>
+            e.target.checked ? enableLogic() : onChange(undefined)
+          }
+          className="mr-2"
+        />
+        <label className="text-sm font-medium text-gray-700">
+          Only show when another answer matches
+        </label>
+      </div>
+      {!logic && sourceFields.length === 0 && (
+        <p className="mt-1 text-xs text-gray-500">
+          Add another field first to make this one conditional.
+        </p>
+      )}
+
+      {logic && (
+        <div className="mt-3 space-y-2">
+          <select
+            value={logic.dependsOn}
+            onChange={(e) => {
+              const next = fields.find((f) => f.id === e.target.value);
+              onChange({
+                ...logic,
+                dependsOn: e.target.value,
+                value: next?.options?.[0] || "",
+              });
+            }}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {sourceFields.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={logic.condition}
+            onChange={(e) =>
+              onChange({
+                ...logic,
+                condition: e.target.value as ConditionType,
+              })
+            }
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(
+              (condition) => (
+                <option key={condition} value={condition}>
+                  {CONDITION_LABELS[condition]}
+                </option>
+              )
+            )}
+          </select>
+          {source?.options && source.options.length > 0 ? (
+            <select
+              value={logic.value}
+              onChange={(e) => onChange({ ...logic, value: e.target.value })}
+              className="w-full p-2 text-sm border border-gray-300 rounded-md"
+            >
+              {source.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={logic.value}
+              onChange={(e) => onChange({ ...logic, value: e.target.value })}
+              placeholder="Answer to match"
+              className="w-full p-2 text-sm border border-gray-300 rounded-md"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
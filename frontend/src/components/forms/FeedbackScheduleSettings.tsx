@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Mail } from "lucide-react";
+import {
+  FeedbackService,
+  FeedbackSchedule,
+  FeedbackScheduleStatus,
+} from "../../api/feedback";
+import { formatDate } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface FeedbackScheduleSettingsProps {
+  eventId: string;
+}
+
+const toSchedule = (status: FeedbackScheduleStatus): FeedbackSchedule => ({
+  enabled: status.enabled,
+  sendAfterHours: status.sendAfterHours,
+  reminderAfterHours: status.reminderAfterHours,
+  windowDays: status.windowDays,
+});
+
+// Emails the feedback link to checked-in attendees after the event ends
+export function FeedbackScheduleSettings({
+  eventId,
+}: FeedbackScheduleSettingsProps) {
+  const [status, setStatus] = useState<FeedbackScheduleStatus | null>(null);
+  const [schedule, setSchedule] = useState<FeedbackSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await FeedbackService.getSchedule(eventId);
+        if (response.success && response.data) {
+          setStatus(response.data.schedule);
+          setSchedule(toSchedule(response.data.schedule));
+        }
+      } catch (err) {
+        showErrorToast(err);
+      }
+    };
+
+    fetchSchedule();
+  }, [eventId]);
+
+  if (!schedule || !status) return null;
+
+  const updateNumber = (key: keyof FeedbackSchedule, value: string) =>
+    setSchedule({ ...schedule, [key]: Number(value) });
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await FeedbackService.updateSchedule(eventId, schedule);
+      if (response.success && response.data) {
+        setStatus(response.data.schedule);
+        setSchedule(toSchedule(response.data.schedule));
+        showSuccessToast(response.message || "Feedback emails updated");
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-900 mb-3">
+        Automatic Feedback Emails
+      </label>
+      <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gray-100 rounded-md">
+              <Mail className="h-6 w-6 text-gray-600" />
+            </div>
+            <div>
+              <p className="font-medium text-gray-900">
+                Email attendees after the event
+              </p>
+              <p className="text-sm text-gray-600">
+                Sent to checked-in attendees, with one reminder for anyone who
+                hasn't responded
+              </p>
+            </div>
+          </div>
+          <input
+            type="checkbox"
+            checked={schedule.enabled}
+            onChange={(e) =>
+              setSchedule({ ...schedule, enabled: e.target.checked })
+            }
+            className="h-5 w-5 text-blue-600 rounded focus:ring-blue-500"
+          />
+        </div>
+
+        {schedule.enabled && (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Send after (hours)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={168}
+                value={schedule.sendAfterHours}
+                onChange={(e) => updateNumber("sendAfterHours", e.target.value)}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Remind after (hours)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={336}
+                value={schedule.reminderAfterHours}
+                onChange={(e) =>
+                  updateNumber("reminderAfterHours", e.target.value)
+                }
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Open for (days)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={schedule.windowDays}
+                onChange={(e) => updateNumber("windowDays", e.target.value)}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+        )}
+
+        {status.enabled && status.opensAt && status.closesAt && (
+          <p className="text-sm text-gray-600">
+            Sending from {formatDate(status.opensAt)} until{" "}
+            {formatDate(status.closesAt)}. {status.requestsSent} sent,{" "}
+            {status.remindersSent} reminders.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
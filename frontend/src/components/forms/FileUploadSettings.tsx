@@ -0,0 +1,88 @@
+import type { FormField } from "../../api/forms";
+
+interface FileUploadSettingsProps {
+  field: FormField;
+  onChange: (validation: FormField["validation"]) => void;
+}
+
+// Presets map to MIME types; leaving all unchecked accepts any file
+const FILE_TYPE_PRESETS = [
+  { label: "PDF", types: ["application/pdf"] },
+  { label: "Images", types: ["image/*"] },
+  {
+    label: "Word documents",
+    types: [
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+  },
+  { label: "Text / CSV", types: ["text/plain", "text/csv"] },
+];
+
+const MAX_FILE_SIZE_MB = 25;
+
+export function FileUploadSettings({
+  field,
+  onChange,
+}: FileUploadSettingsProps) {
+  const allowedTypes = field.validation?.allowedFileTypes || [];
+
+  const togglePreset = (types: string[], checked: boolean) => {
+    const next = checked
+      ? [...allowedTypes, ...types.filter((t) => !allowedTypes.includes(t))]
+      : allowedTypes.filter((t) => !types.includes(t));
+    onChange({
+      ...field.validation,
+      allowedFileTypes: next.length > 0 ? next : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Allowed File Types
+        </label>
+        <div className="space-y-1">
+          {FILE_TYPE_PRESETS.map((preset) => (
+            <label key={preset.label} className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={preset.types.every((t) => allowedTypes.includes(t))}
+                onChange={(e) => togglePreset(preset.types, e.target.checked)}
+                className="mr-2"
+              />
+              {preset.label}
+            </label>
+          ))}
+        </div>
+        {allowedTypes.length === 0 && (
+          <p className="mt-1 text-xs text-gray-500">
+            Any file type is allowed.
+          </p>
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Max File Size (MB)
+        </label>
+        <input
+          type="number"
+          min={1}
+          max={MAX_FILE_SIZE_MB}
+          value={field.validation?.maxFileSizeMb || ""}
+          onChange={(e) =>
+            onChange({
+              ...field.validation,
+              maxFileSizeMb: e.target.value
+                ? Math.min(Number(e.target.value), MAX_FILE_SIZE_MB)
+                : undefined,
+            })
+          }
+          placeholder="10"
+          className="w-full p-2 text-sm border border-gray-300 rounded-md"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,20 @@
 import { useState } from "react";
 import { X, Plus, Trash2 } from "lucide-react";
 import type { FormField } from "../../api/forms";
+import { ConditionalLogicEditor } from "./ConditionalLogicEditor";
+import { FileUploadSettings } from "./FileUploadSettings";
+import { StructuredFieldSettings } from "./StructuredFieldSettings";
 
 interface FormFieldEditorProps {
   field: FormField;
+  fields?: FormField[]; // The whole form, for conditional logic
   onUpdate: (updates: Partial<FormField>) => void;
   onClose: () => void;
 }
 
 export function FormFieldEditor({
   field,
+  fields = [],
   onUpdate,
   onClose,
 }: FormFieldEditorProps) {
@@ -39,7 +44,19 @@ export function FormFieldEditor({
     onUpdate({ options: updatedOptions });
   };
 
-  const needsOptions = ["select", "radio", "checkbox"].includes(field.type);
+  const needsOptions = [
+    "select",
+    "radio",
+    "checkbox",
+    "likert",
+    "ranking",
+  ].includes(field.type);
+  const optionsLabel =
+    field.type === "likert"
+      ? "Scale Options"
+      : field.type === "ranking"
+      ? "Items to Rank"
+      : "Options";
 
   return (
     <div className="bg-white rounded-lg shadow-sm border">
@@ -97,11 +114,11 @@ export function FormFieldEditor({
           </label>
         </div>
 
-        {/* Options for select, radio, checkbox */}
+        {/* Options for choice, Likert and ranking fields */}
         {needsOptions && (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Options
+              {optionsLabel}
             </label>
 
             <div className="space-y-2">
@@ -276,6 +293,24 @@ export function FormFieldEditor({
             />
           </div>
         </div>
+
+        {/* File Upload Rules */}
+        {field.type === "file" && (
+          <FileUploadSettings
+            field={field}
+            onChange={(validation) => onUpdate({ validation })}
+          />
+        )}
+
+        {/* Rating scale, Likert statements, slider range */}
+        <StructuredFieldSettings field={field} onUpdate={onUpdate} />
+
+        {/* Conditional Logic */}
+        <ConditionalLogicEditor
+          field={field}
+          fields={fields}
+          onChange={(conditionalLogic) => onUpdate({ conditionalLogic })}
+        />
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import type { Form, FormField } from "../../api/forms";
+import { StructuredFieldInput } from "./StructuredFieldInput";
 
 interface FormPreviewProps {
   form: Form;
@@ -170,6 +171,19 @@ export function FormPreview({ form }: FormPreviewProps) {
           />
         );
 
+      case "rating":
+      case "nps":
+      case "likert":
+      case "ranking":
+      case "slider":
+        return (
+          <StructuredFieldInput
+            field={field}
+            value={formData[field.id]}
+            onChange={(next) => handleInputChange(field.id, next)}
+          />
+        );
+
       default:
         return null;
     }
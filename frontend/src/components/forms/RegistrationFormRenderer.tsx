@@ -1,32 +1,131 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
-import type { Form, FormField } from "../../api/forms";
+import { FormService } from "../../api/forms";
+import type { FileAnswer, Form, FormField } from "../../api/forms";
+import { ApiError } from "../../api/client";
+import {
+  getVisibleFieldIds,
+  getVisibleStepIndexes,
+} from "../../utils/formLogic";
+import { StructuredFieldInput } from "./StructuredFieldInput";
 
 interface RegistrationFormRendererProps {
   form: Form;
   onDataChange: (data: Record<string, any>) => void;
   initialData?: Record<string, any>;
+  errors?: Record<string, string>; // Field id -> message from the server
 }
 
+// Shared default so the errors effect doesn't re-run on every render
+const NO_ERRORS: Record<string, string> = {};
+
 export function RegistrationFormRenderer({
   form,
   onDataChange,
   initialData = {},
+  errors = NO_ERRORS,
 }: RegistrationFormRendererProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [formData, setFormData] = useState<Record<string, any>>(initialData);
+  // Fields changed since the errors arrived no longer show them
+  const [editedFields, setEditedFields] = useState<string[]>([]);
+  // Files upload as soon as they're picked; the answer is the stored file
+  const [uploadingFields, setUploadingFields] = useState<string[]>([]);
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>(
+    {}
+  );
 
   // Update parent component when form data changes
   useEffect(() => {
     onDataChange(formData);
   }, [formData, onDataChange]);
 
+  // Conditional fields appear and disappear as answers change
+  const visibleFieldIds = useMemo(
+    () => getVisibleFieldIds(form.fields, formData),
+    [form.fields, formData]
+  );
+  const visibleSteps = useMemo(
+    () =>
+      form.steps ? getVisibleStepIndexes(form.steps, visibleFieldIds) : [],
+    [form.steps, visibleFieldIds]
+  );
+  const stepPosition = visibleSteps.indexOf(currentStep);
+
+  // If an answer hides the current step, move on to the next shown one
+  useEffect(() => {
+    if (!form.is_multi_step || visibleSteps.length === 0) return;
+    if (stepPosition === -1) {
+      const next = visibleSteps.find((index) => index > currentStep);
+      setCurrentStep(next ?? visibleSteps[visibleSteps.length - 1]);
+    }
+  }, [stepPosition, visibleSteps]);
+
+  // Jump to the first step that has a field the server rejected
+  useEffect(() => {
+    setEditedFields([]);
+    if (!form.is_multi_step || !form.steps) return;
+
+    const stepIndex = form.steps.findIndex((step) =>
+      step.fields.some((fieldId) => errors[fieldId])
+    );
+    if (stepIndex >= 0) {
+      setCurrentStep(stepIndex);
+    }
+  }, [errors]);
+
   const handleInputChange = (fieldId: string, value: any) => {
     setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    setEditedFields((prev) =>
+      prev.includes(fieldId) ? prev : [...prev, fieldId]
+    );
   };
 
+  const handleFileChange = async (field: FormField, file?: File) => {
+    setUploadErrors((prev) => ({ ...prev, [field.id]: "" }));
+    handleInputChange(field.id, undefined);
+    if (!file) return;
+
+    const maxSizeMb = field.validation?.maxFileSizeMb;
+    if (maxSizeMb && file.size > maxSizeMb * 1024 * 1024) {
+      setUploadErrors((prev) => ({
+        ...prev,
+        [field.id]: `${field.label} must be smaller than ${maxSizeMb} MB`,
+      }));
+      return;
+    }
+
+    setUploadingFields((prev) => [...prev, field.id]);
+    try {
+      const response = await FormService.uploadAttachment(
+        form.event_id,
+        field.id,
+        file,
+        form.form_type
+      );
+      if (response.success && response.data) {
+        handleInputChange(field.id, response.data.attachment);
+      }
+    } catch (err) {
+      const message =
+        err instanceof ApiError
+          ? err.response.fieldErrors?.[field.id] || err.message
+          : "Upload failed";
+      setUploadErrors((prev) => ({ ...prev, [field.id]: message }));
+    } finally {
+      setUploadingFields((prev) => prev.filter((id) => id !== field.id));
+    }
+  };
+
+  const fieldError = (field: FormField) =>
+    uploadErrors[field.id] ||
+    (editedFields.includes(field.id) ? undefined : errors[field.id]);
+
   const renderField = (field: FormField) => {
     const value = formData[field.id] || "";
+    const inputClass = `w-full p-3 border ${
+      fieldError(field) ? "border-red-500" : "border-gray-300"
+    } rounded-md focus:ring-blue-500 focus:border-blue-500`;
 
     switch (field.type) {
       case "text":
@@ -46,7 +145,7 @@ export function RegistrationFormRenderer({
             onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={field.placeholder}
             required={field.required}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            className={inputClass}
           />
         );
 
@@ -60,7 +159,7 @@ export function RegistrationFormRenderer({
             required={field.required}
             min={field.validation?.min}
             max={field.validation?.max}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            className={inputClass}
           />
         );
 
@@ -71,7 +170,7 @@ export function RegistrationFormRenderer({
             value={value}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
             required={field.required}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            className={inputClass}
           />
         );
 
@@ -83,7 +182,7 @@ export function RegistrationFormRenderer({
             placeholder={field.placeholder}
             required={field.required}
             rows={4}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            className={inputClass}
           />
         );
 
@@ -93,7 +192,7 @@ export function RegistrationFormRenderer({
             value={value}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
             required={field.required}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            className={inputClass}
           >
             <option value="">Select an option</option>
             {field.options?.map((option) => (
@@ -152,16 +251,40 @@ export function RegistrationFormRenderer({
           </div>
         );
 
-      case "file":
+      case "file": {
+        const uploaded = value as FileAnswer | "";
         return (
-          <input
-            type="file"
-            onChange={(e) => {
-              const file = e.target.files?.[0];
-              handleInputChange(field.id, file);
-            }}
-            required={field.required}
-            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          <div>
+            <input
+              type="file"
+              accept={field.validation?.allowedFileTypes?.join(",")}
+              onChange={(e) => handleFileChange(field, e.target.files?.[0])}
+              disabled={uploadingFields.includes(field.id)}
+              className={inputClass}
+            />
+            {uploadingFields.includes(field.id) ? (
+              <p className="mt-1 text-sm text-gray-500">Uploading...</p>
+            ) : (
+              uploaded && (
+                <p className="mt-1 text-sm text-gray-600">
+                  Uploaded {uploaded.fileName}
+                </p>
+              )
+            )}
+          </div>
+        );
+      }
+
+      case "rating":
+      case "nps":
+      case "likert":
+      case "ranking":
+      case "slider":
+        return (
+          <StructuredFieldInput
+            field={field}
+            value={formData[field.id]}
+            onChange={(next) => handleInputChange(field.id, next)}
           />
         );
 
@@ -176,7 +299,8 @@ export function RegistrationFormRenderer({
     const currentStepData = form.steps[currentStep];
     const stepFields = currentStepData.fields
       .map((fieldId) => form.fields.find((f) => f.id === fieldId))
-      .filter((field): field is FormField => field !== undefined);
+      .filter((field): field is FormField => field !== undefined)
+      .filter((field) => visibleFieldIds.has(field.id));
 
     return stepFields.every((field) => {
       if (!field.required) return true;
@@ -184,6 +308,9 @@ export function RegistrationFormRenderer({
       if (field.type === "checkbox") {
         return Array.isArray(value) && value.length > 0;
       }
+      if (field.type === "likert") {
+        return (field.rows || []).every((row) => value?.[row]);
+      }
       return value !== undefined && value !== "" && value !== null;
     });
   };
@@ -192,28 +319,30 @@ export function RegistrationFormRenderer({
     return validateCurrentStep();
   };
 
+  // Steps whose fields are all hidden are skipped in both directions
   const nextStep = () => {
     if (
       form.is_multi_step &&
-      form.steps &&
-      currentStep < form.steps.length - 1 &&
+      stepPosition < visibleSteps.length - 1 &&
       canProceedToNext()
     ) {
-      setCurrentStep(currentStep + 1);
+      setCurrentStep(visibleSteps[stepPosition + 1]);
     }
   };
 
   const prevStep = () => {
-    if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
+    if (stepPosition > 0) {
+      setCurrentStep(visibleSteps[stepPosition - 1]);
     }
   };
 
-  if (form.is_multi_step && form.steps) {
+  if (form.is_multi_step && form.steps && visibleSteps.length > 0) {
     const currentStepData = form.steps[currentStep];
     const stepFields = currentStepData.fields
       .map((fieldId) => form.fields.find((f) => f.id === fieldId))
-      .filter((field): field is FormField => field !== undefined);
+      .filter((field): field is FormField => field !== undefined)
+      .filter((field) => visibleFieldIds.has(field.id));
+    const stepNumber = Math.max(stepPosition, 0) + 1;
 
     return (
       <div>
@@ -221,18 +350,17 @@ export function RegistrationFormRenderer({
         <div className="mb-6">
           <div className="flex justify-between items-center text-sm text-gray-600 mb-2">
             <span>
-              Step {currentStep + 1} of {form.steps.length}
+              Step {stepNumber} of {visibleSteps.length}
             </span>
             <span>
-              {Math.round(((currentStep + 1) / form.steps.length) * 100)}%
-              Complete
+              {Math.round((stepNumber / visibleSteps.length) * 100)}% Complete
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
             <div
               className="bg-blue-600 h-2 rounded-full transition-all duration-300"
               style={{
-                width: `${((currentStep + 1) / form.steps.length) * 100}%`,
+                width: `${(stepNumber / visibleSteps.length) * 100}%`,
               }}
             />
           </div>
@@ -257,6 +385,11 @@ export function RegistrationFormRenderer({
                   )}
                 </label>
                 {renderField(field)}
+                {fieldError(field) && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {fieldError(field)}
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -267,14 +400,14 @@ export function RegistrationFormRenderer({
           <button
             type="button"
             onClick={prevStep}
-            disabled={currentStep === 0}
+            disabled={stepPosition <= 0}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
           >
             <ChevronLeft className="h-4 w-4 mr-1" />
             Previous
           </button>
 
-          {currentStep < form.steps.length - 1 ? (
+          {stepPosition < visibleSteps.length - 1 ? (
             <button
               type="button"
               onClick={nextStep}
@@ -295,15 +428,20 @@ export function RegistrationFormRenderer({
   // Single step form
   return (
     <div className="space-y-4">
-      {form.fields.map((field) => (
-        <div key={field.id}>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            {field.label}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
-          </label>
-          {renderField(field)}
-        </div>
-      ))}
+      {form.fields
+        .filter((field) => visibleFieldIds.has(field.id))
+        .map((field) => (
+          <div key={field.id}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}
+              {field.required && <span className="text-red-500 ml-1">*</span>}
+            </label>
+            {renderField(field)}
+            {fieldError(field) && (
+              <p className="mt-1 text-sm text-red-600">{fieldError(field)}</p>
+            )}
+          </div>
+        ))}
     </div>
   );
 }
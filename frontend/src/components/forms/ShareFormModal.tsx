@@ -2,6 +2,7 @@ import { useState } from "react";
 import { X, Copy, ExternalLink, Check, Share2, QrCode } from "lucide-react";
 import QRCode from "react-qr-code";
 import type { Form } from "../../api/forms";
+import { FeedbackScheduleSettings } from "./FeedbackScheduleSettings";
 
 interface ShareFormModalProps {
   form: Form;
@@ -118,6 +119,8 @@ export function ShareFormModal({
             </p>
           </div>
 
+          {isFeedbackForm && <FeedbackScheduleSettings eventId={eventId} />}
+
           {/* QR Code Section */}
           <div>
             <label className="block text-sm font-medium text-gray-900 mb-3">
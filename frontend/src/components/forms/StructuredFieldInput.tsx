@@ -0,0 +1,249 @@
+import { ChevronDown, ChevronUp, Star } from "lucide-react";
+import type { FieldType, FormField } from "../../api/forms";
+
+export const DEFAULT_RATING_SCALE = 5;
+export const DEFAULT_SLIDER_RANGE = { min: 0, max: 100 };
+
+export const STRUCTURED_FIELD_TYPES: FieldType[] = [
+  "rating",
+  "nps",
+  "likert",
+  "ranking",
+  "slider",
+];
+
+// Starting config for a newly added field, so it renders something usable
+export function getStructuredFieldDefaults(
+  type: FieldType
+): Partial<FormField> {
+  switch (type) {
+    case "rating":
+      return { scale: DEFAULT_RATING_SCALE };
+    case "likert":
+      return {
+        rows: ["Statement 1"],
+        options: [
+          "Strongly disagree",
+          "Disagree",
+          "Neutral",
+          "Agree",
+          "Strongly agree",
+        ],
+      };
+    case "ranking":
+      return { options: ["Option 1", "Option 2", "Option 3"] };
+    case "slider":
+      return { validation: { ...DEFAULT_SLIDER_RANGE }, step: 1 };
+    default:
+      return {};
+  }
+}
+
+interface StructuredFieldInputProps {
+  field: FormField;
+  value: any;
+  onChange?: (value: any) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for rating, NPS, Likert matrix, ranking and slider fields. Used by
+ * the renderer, the preview and the builder canvas (disabled) so all three
+ * look the same.
+ */
+export function StructuredFieldInput({
+  field,
+  value,
+  onChange = () => {},
+  disabled = false,
+}: StructuredFieldInputProps) {
+  switch (field.type) {
+    case "rating": {
+      const scale = field.scale || DEFAULT_RATING_SCALE;
+      return (
+        <div className="flex items-center gap-1">
+          {Array.from({ length: scale }, (_, i) => i + 1).map((score) => (
+            <button
+              key={score}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(score)}
+              title={`${score} of ${scale}`}
+              className="p-1 disabled:cursor-default"
+            >
+              <Star
+                className={`h-7 w-7 ${
+                  value >= score
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-gray-300"
+                }`}
+              />
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case "nps":
+      return (
+        <div>
+          <div className="grid grid-cols-11 gap-1">
+            {Array.from({ length: 11 }, (_, score) => (
+              <button
+                key={score}
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange(score)}
+                className={`py-2 text-sm rounded-md border ${
+                  value === score
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                } disabled:cursor-default`}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-500">
+            <span>Not at all likely</span>
+            <span>Extremely likely</span>
+          </div>
+        </div>
+      );
+
+    case "likert": {
+      const answers: Record<string, string> =
+        value && typeof value === "object" ? value : {};
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th />
+                {field.options?.map((option) => (
+                  <th
+                    key={option}
+                    className="px-2 pb-2 font-normal text-gray-600 text-center"
+                  >
+                    {option}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {field.rows?.map((row) => (
+                <tr key={row} className="border-t">
+                  <td className="py-2 pr-4 text-gray-700">{row}</td>
+                  {field.options?.map((option) => (
+                    <td key={option} className="text-center">
+                      <input
+                        type="radio"
+                        name={`${field.id}-${row}`}
+                        checked={answers[row] === option}
+                        disabled={disabled}
+                        onChange={() => onChange({ ...answers, [row]: option })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    case "ranking": {
+      // Shown in listed order until the respondent moves something
+      const order: string[] = Array.isArray(value)
+        ? value
+        : field.options || [];
+      const move = (index: number, offset: number) => {
+        const next = [...order];
+        [next[index], next[index + offset]] = [
+          next[index + offset],
+          next[index],
+        ];
+        onChange(next);
+      };
+      return (
+        <div>
+          <ol className="space-y-2">
+            {order.map((item, index) => (
+              <li
+                key={item}
+                className="flex items-center gap-3 p-2 border border-gray-300 rounded-md"
+              >
+                <span className="w-6 text-sm font-medium text-gray-500">
+                  {index + 1}.
+                </span>
+                <span className="flex-1 text-sm text-gray-700">{item}</span>
+                <button
+                  type="button"
+                  disabled={disabled || index === 0}
+                  onClick={() => move(index, -1)}
+                  className="p-1 text-gray-400 hover:text-blue-500 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  disabled={disabled || index === order.length - 1}
+                  onClick={() => move(index, 1)}
+                  className="p-1 text-gray-400 hover:text-blue-500 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+          {!Array.isArray(value) && !disabled && (
+            <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+              <span>Put your top choice first.</span>
+              <button
+                type="button"
+                onClick={() => onChange(order)}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Keep this order
+              </button>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case "slider": {
+      const min = field.validation?.min ?? DEFAULT_SLIDER_RANGE.min;
+      const max = field.validation?.max ?? DEFAULT_SLIDER_RANGE.max;
+      const answered = typeof value === "number";
+      return (
+        <div>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-gray-500">{min}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={field.step || 1}
+              value={answered ? value : min}
+              disabled={disabled}
+              onChange={(e) => onChange(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-sm text-gray-500">{max}</span>
+          </div>
+          <p className="mt-1 text-sm text-gray-700 text-center">
+            {answered ? value : "Not answered yet"}
+          </p>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
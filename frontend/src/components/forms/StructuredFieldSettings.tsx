@@ -0,0 +1,147 @@
+import { Trash2 } from "lucide-react";
+import type { FormField } from "../../api/forms";
+import {
+  DEFAULT_RATING_SCALE,
+  DEFAULT_SLIDER_RANGE,
+} from "./StructuredFieldInput";
+
+interface StructuredFieldSettingsProps {
+  field: FormField;
+  onUpdate: (updates: Partial<FormField>) => void;
+}
+
+const parseNumber = (value: string) =>
+  value === "" ? undefined : Number(value);
+
+// Scale, statements and range settings for the structured field types.
+// Likert columns and ranking items use the regular options editor.
+export function StructuredFieldSettings({
+  field,
+  onUpdate,
+}: StructuredFieldSettingsProps) {
+  if (field.type === "rating") {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Number of Stars
+        </label>
+        <select
+          value={field.scale || DEFAULT_RATING_SCALE}
+          onChange={(e) => onUpdate({ scale: Number(e.target.value) })}
+          className="w-full p-2 text-sm border border-gray-300 rounded-md"
+        >
+          {[3, 4, 5, 6, 7, 8, 9, 10].map((scale) => (
+            <option key={scale} value={scale}>
+              {scale}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  if (field.type === "likert") {
+    const rows = field.rows || [];
+    return (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Statements
+        </label>
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={row}
+                onChange={(e) =>
+                  onUpdate({
+                    rows: rows.map((r, i) =>
+                      i === index ? e.target.value : r
+                    ),
+                  })
+                }
+                className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  onUpdate({ rows: rows.filter((_, i) => i !== index) })
+                }
+                className="p-2 text-gray-400 hover:text-red-500"
+                title="Remove statement"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              onUpdate({ rows: [...rows, `Statement ${rows.length + 1}`] })
+            }
+            className="w-full py-2 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded border border-blue-200"
+          >
+            Add Statement
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Each statement is answered on the scale set by the options.
+        </p>
+      </div>
+    );
+  }
+
+  if (field.type === "slider") {
+    return (
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Min</label>
+          <input
+            type="number"
+            value={field.validation?.min ?? DEFAULT_SLIDER_RANGE.min}
+            onChange={(e) =>
+              onUpdate({
+                validation: {
+                  ...field.validation,
+                  min: parseNumber(e.target.value),
+                },
+              })
+            }
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Max</label>
+          <input
+            type="number"
+            value={field.validation?.max ?? DEFAULT_SLIDER_RANGE.max}
+            onChange={(e) =>
+              onUpdate({
+                validation: {
+                  ...field.validation,
+                  max: parseNumber(e.target.value),
+                },
+              })
+            }
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Step</label>
+          <input
+            type="number"
+            min={0}
+            value={field.step ?? 1}
+            onChange={(e) => {
+              const step = parseNumber(e.target.value);
+              onUpdate({ step: step && step > 0 ? step : undefined });
+            }}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
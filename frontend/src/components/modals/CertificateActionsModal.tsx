@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { X, Ban, RefreshCw, History } from "lucide-react";
+import {
+  CertificateService,
+  CertificateAuditEntry,
+  CertificateStatus,
+} from "../../api/certificates";
+import { formatDate } from "../../utils/dateUtils";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
+
+interface CertificateActionsModalProps {
+  certificate: {
+    id: string;
+    certificate_code: string;
+    status?: CertificateStatus | null;
+    created_at: string;
+    registrations: { name: string; email: string };
+  };
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const certificateStatusStyles: Record<CertificateStatus, string> = {
+  valid: "bg-green-100 text-green-800",
+  revoked: "bg-red-100 text-red-800",
+  superseded: "bg-yellow-100 text-yellow-800",
+};
+
+const describeEntry = (entry: CertificateAuditEntry, certificateId: string) => {
+  if (entry.action === "revoked") return "Revoked";
+  if (entry.replacement_id === certificateId) return "Issued as a replacement";
+  return entry.details.participantName
+    ? `Reissued with name changed from "${entry.details.previousName}" to "${entry.details.participantName}"`
+    : "Reissued";
+};
+
+export function CertificateActionsModal({
+  certificate,
+  onClose,
+  onChanged,
+}: CertificateActionsModalProps) {
+  const [history, setHistory] = useState<CertificateAuditEntry[]>([]);
+  const [action, setAction] = useState<"revoke" | "reissue" | null>(null);
+  const [reason, setReason] = useState("");
+  const [participantName, setParticipantName] = useState(
+    certificate.registrations?.name || ""
+  );
+  const [working, setWorking] = useState(false);
+
+  const status = certificate.status || "valid";
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await CertificateService.getCertificateHistory(
+          certificate.id
+        );
+        if (response.success && response.data) {
+          setHistory(response.data.history);
+        }
+      } catch (err) {
+        showErrorToast(err);
+      }
+    };
+
+    fetchHistory();
+  }, [certificate.id]);
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      showErrorToast("Please give a reason");
+      return;
+    }
+
+    try {
+      setWorking(true);
+      const trimmedName = participantName.trim();
+      const response =
+        action === "revoke"
+          ? await CertificateService.revokeCertificate(certificate.id, reason)
+          : await CertificateService.reissueCertificate(certificate.id, {
+              reason,
+              participantName:
+                trimmedName && trimmedName !== certificate.registrations?.name
+                  ? trimmedName
+                  : undefined,
+            });
+      if (response.success) {
+        showSuccessToast(response.message || "Certificate updated");
+        onChanged();
+        onClose();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {certificate.registrations?.name || "Certificate"}
+            </h2>
+            <p className="text-sm text-gray-600 font-mono">
+              {certificate.certificate_code}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <span
+              className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${certificateStatusStyles[status]}`}
+            >
+              {status === "superseded" ? "Replaced" : status}
+            </span>
+            {status === "valid" && !action && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setAction("reissue")}
+                  className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 flex items-center"
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Reissue
+                </button>
+                <button
+                  onClick={() => setAction("revoke")}
+                  className="px-3 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 flex items-center"
+                >
+                  <Ban className="h-4 w-4 mr-1" />
+                  Revoke
+                </button>
+              </div>
+            )}
+          </div>
+
+          {action && (
+            <div className="space-y-3 border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-600">
+                {action === "revoke"
+                  ? "The certificate will show as revoked to anyone who verifies it."
+                  : "A new certificate with a new code replaces this one, which will show as replaced."}
+              </p>
+              {action === "reissue" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Participant Name
+                  </label>
+                  <input
+                    type="text"
+                    value={participantName}
+                    onChange={(e) => setParticipantName(e.target.value)}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setAction(null)}
+                  className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={working}
+                  className={`px-3 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50 ${
+                    action === "revoke"
+                      ? "bg-red-600 hover:bg-red-700"
+                      : "bg-blue-600 hover:bg-blue-700"
+                  }`}
+                >
+                  {working
+                    ? "Saving..."
+                    : action === "revoke"
+                    ? "Revoke Certificate"
+                    : "Reissue Certificate"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Audit History */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+              <History className="h-4 w-4 mr-1" />
+              History
+            </h3>
+            <ul className="space-y-3 text-sm">
+              <li className="text-gray-600">
+                Generated {formatDate(certificate.created_at)}
+              </li>
+              {history.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-gray-200 pl-3">
+                  <p className="text-gray-900">
+                    {describeEntry(entry, certificate.id)}
+                  </p>
+                  {entry.reason && (
+                    <p className="text-gray-600">Reason: {entry.reason}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {formatDate(entry.created_at)}
+                    {entry.actor && ` by ${entry.actor.name}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
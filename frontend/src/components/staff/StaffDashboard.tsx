@@ -4,6 +4,8 @@ import { useAuthStore } from "../../store/authStore";
 import { CheckInDashboard } from "../checkin/CheckInDashboard";
 import { Users, Calendar, BarChart3, QrCode, AlertCircle } from "lucide-react";
 import { Loader } from "../common/Loader";
+import { StaffService, StaffAssignmentStatus } from "../../api/staff";
+import { showErrorToast, showSuccessToast } from "../../utils/toast";
 
 interface AssignedEvent {
   id: string;
@@ -16,6 +18,7 @@ interface AssignedEvent {
     can_check_in?: boolean;
     can_view_stats?: boolean;
   };
+  status: StaffAssignmentStatus;
   assigned_at: string;
 }
 
@@ -65,6 +68,27 @@ export function StaffDashboard() {
     }
   };
 
+  const handleRespond = async (eventId: string, accept: boolean) => {
+    if (
+      !accept &&
+      !confirm(
+        "Decline this assignment? You will lose access to the event and the organizer will be notified."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await StaffService.respondToAssignment(eventId, accept);
+      if (response.success) {
+        showSuccessToast(response.message || "Response saved");
+        await fetchAssignedEvents();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
   const handleEventSelect = (eventId: string) => {
     setSelectedEvent(eventId);
     setShowQRScanner(true);
@@ -214,7 +238,27 @@ export function StaffDashboard() {
                   </div>
 
                   <div className="mt-6">
-                    {event.permissions?.can_check_in ? (
+                    {event.status === "pending" ? (
+                      <div className="space-y-2">
+                        <p className="text-sm text-gray-600">
+                          You've been added as staff for this event.
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleRespond(event.id, true)}
+                            className="flex-1 px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                          >
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => handleRespond(event.id, false)}
+                            className="flex-1 px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 transition-colors"
+                          >
+                            Decline
+                          </button>
+                        </div>
+                      </div>
+                    ) : event.permissions?.can_check_in ? (
                       <button
                         onClick={() => handleEventSelect(event.id)}
                         className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
@@ -9,11 +9,10 @@ export const feedbackTemplates: FormTemplate[] = [
     fields: [
       {
         id: "overall-rating",
-        type: "select",
-        label: "Overall Event Rating (1-5)",
-        placeholder: "Select rating",
+        type: "rating",
+        label: "Overall Event Rating",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "what-liked",
@@ -52,38 +51,38 @@ export const feedbackTemplates: FormTemplate[] = [
     fields: [
       {
         id: "content-quality",
-        type: "select",
-        label: "Content Quality (1-5)",
+        type: "rating",
+        label: "Content Quality",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "speaker-rating",
-        type: "select",
-        label: "Speaker Rating (1-5)",
+        type: "rating",
+        label: "Speaker Rating",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "venue-rating",
-        type: "select",
-        label: "Venue & Facilities (1-5)",
+        type: "rating",
+        label: "Venue & Facilities",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "organization-rating",
-        type: "select",
-        label: "Organization (1-5)",
+        type: "rating",
+        label: "Organization",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "value-for-money",
-        type: "select",
-        label: "Value for Money (1-5)",
+        type: "rating",
+        label: "Value for Money",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "highlights",
@@ -115,11 +114,9 @@ export const feedbackTemplates: FormTemplate[] = [
     fields: [
       {
         id: "nps-score",
-        type: "select",
-        label: "NPS Score (0-10)",
-        placeholder: "Select score",
+        type: "nps",
+        label: "How likely are you to recommend this event to a friend?",
         required: true,
-        options: ["10", "9", "8", "7", "6", "5", "4", "3", "2", "1", "0"],
       },
       {
         id: "nps-reason",
@@ -130,10 +127,10 @@ export const feedbackTemplates: FormTemplate[] = [
       },
       {
         id: "overall-experience",
-        type: "select",
-        label: "Overall Experience (1-5)",
+        type: "rating",
+        label: "Overall Experience",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "met-expectations",
@@ -165,10 +162,10 @@ export const feedbackTemplates: FormTemplate[] = [
       },
       {
         id: "session-rating",
-        type: "select",
-        label: "Overall Session Rating (1-5)",
+        type: "rating",
+        label: "Overall Session Rating",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "content-relevance",
@@ -184,10 +181,10 @@ export const feedbackTemplates: FormTemplate[] = [
       },
       {
         id: "presenter-effectiveness",
-        type: "select",
-        label: "Presenter Effectiveness (1-5)",
+        type: "rating",
+        label: "Presenter Effectiveness",
         required: true,
-        options: ["5", "4", "3", "2", "1"],
+        scale: 5,
       },
       {
         id: "key-takeaways",
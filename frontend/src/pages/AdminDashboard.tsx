@@ -4,6 +4,7 @@ import { useAuthStore } from "../store/authStore";
 import { Link } from "react-router-dom";
 import { Users, Calendar, Settings, BarChart3 } from "lucide-react";
 import { truncateText, isTruncated } from "../utils/textUtils";
+import { CategoryManagement } from "../components/admin/CategoryManagement";
 
 interface Event {
   id: string;
@@ -225,6 +226,11 @@ export function AdminDashboard() {
           )}
         </div>
 
+        {/* Event Categories */}
+        <div className="mt-8">
+          <CategoryManagement />
+        </div>
+
         {/* Quick Actions */}
         <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <div className="bg-white rounded-lg shadow p-6">
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   ArrowLeft,
@@ -11,50 +11,71 @@ import {
   Search,
   Download,
   QrCode,
+  LogOut,
+  Undo2,
+  UserPlus,
+  X,
 } from "lucide-react";
 import { EventService, Event } from "../api/events";
+import {
+  AttendanceService,
+  AttendanceRecord,
+  AttendanceSummary,
+  AttendancePagination,
+  AttendanceQuery,
+  CheckInCandidate,
+} from "../api/attendance";
 import { formatDate } from "../utils/dateUtils";
-import { useAuthStore } from "../store/authStore";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
 import Loader from "@/components/common/Loader";
 
-interface AttendanceRecord {
-  id: string;
-  checked_in_at: string;
-  location: string;
-  registration: {
-    name: string;
-    email: string;
-  };
-  checked_in_by_user: {
-    name: string;
-  };
-}
-
-interface AttendanceStats {
-  total_registrations: number;
-  total_check_ins: number;
-  check_in_rate: string;
-}
+const PAGE_SIZE = 25;
 
 const AttendancePage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { accessToken } = useAuthStore();
   const [event, setEvent] = useState<Event | null>(null);
-  const [stats, setStats] = useState<AttendanceStats>({
+  const [stats, setStats] = useState<AttendanceSummary>({
     total_registrations: 0,
     total_check_ins: 0,
+    checked_out: 0,
     check_in_rate: "0",
   });
   const [attendanceRecords, setAttendanceRecords] = useState<
     AttendanceRecord[]
   >([]);
+  const [pagination, setPagination] = useState<AttendancePagination>({
+    page: 1,
+    limit: PAGE_SIZE,
+    total: 0,
+    pages: 0,
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [statusFilter, setStatusFilter] =
+    useState<NonNullable<AttendanceQuery["status"]>>("all");
+  const [methodFilter, setMethodFilter] = useState<
+    AttendanceQuery["method"] | ""
+  >("");
+  const [page, setPage] = useState(1);
+  const [exporting, setExporting] = useState(false);
+
+  // Manual check-in
+  const [manualSearch, setManualSearch] = useState("");
+  const [candidates, setCandidates] = useState<CheckInCandidate[] | null>(
+    null
+  );
+  const [searchingCandidates, setSearchingCandidates] = useState(false);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  // Undo check-in
+  const [undoRecord, setUndoRecord] = useState<AttendanceRecord | null>(null);
+  const [undoReason, setUndoReason] = useState("");
 
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchEvent = async () => {
       if (!id) {
         setError("Event ID is required");
         setIsLoading(false);
@@ -62,71 +83,191 @@ const AttendancePage: React.FC = () => {
       }
 
       try {
-        setIsLoading(true);
-        setError(null);
-
-        // Fetch event details
         const eventResponse = await EventService.getEventById(id);
         if (eventResponse.success && eventResponse.data) {
           setEvent(eventResponse.data.event);
         } else {
           setError(eventResponse.error || "Event not found");
           setIsLoading(false);
-          return;
         }
-
-        // Fetch attendance stats
-        const API_BASE_URL =
-          import.meta.env.VITE_API_URL || "http://localhost:3001/api";
-        const response = await fetch(
-          `${API_BASE_URL}/checkin/events/${id}/stats?all=true`,
-          {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error("Failed to fetch attendance data");
-        }
-
-        const data = await response.json();
-        setStats(data.stats);
-        setAttendanceRecords(data.recent_check_ins || []);
       } catch (err) {
         setError("Failed to load attendance data");
-        console.error("Attendance page error:", err);
-      } finally {
         setIsLoading(false);
+        console.error("Attendance page error:", err);
       }
     };
 
-    fetchData();
-  }, [id, accessToken]);
+    fetchEvent();
+  }, [id]);
 
-  const filteredRecords = attendanceRecords.filter(
-    (record) =>
-      record.registration.name
-        .toLowerCase()
-        .includes(searchTerm.toLowerCase()) ||
-      record.registration.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const fetchAttendance = useCallback(async () => {
+    if (!id) return;
 
-  const exportToCSV = () => {
-    if (!attendanceRecords.length) return;
+    try {
+      const response = await AttendanceService.getEventAttendance(id, {
+        page,
+        limit: PAGE_SIZE,
+        search: debouncedSearch || undefined,
+        status: statusFilter,
+        method: methodFilter || undefined,
+      });
+
+      if (response.success && response.data) {
+        setAttendanceRecords(response.data.attendance);
+        setPagination(response.data.pagination);
+        setStats(response.data.summary);
+      }
+    } catch (err) {
+      setError("Failed to load attendance data");
+      console.error("Attendance page error:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, page, debouncedSearch, statusFilter, methodFilter]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const handleSearchCandidates = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || manualSearch.trim().length < 2) return;
+
+    try {
+      setSearchingCandidates(true);
+      const response = await AttendanceService.searchRegistrations(
+        id,
+        manualSearch.trim()
+      );
+      if (response.success && response.data) {
+        setCandidates(response.data.registrations);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSearchingCandidates(false);
+    }
+  };
+
+  const handleManualCheckIn = async (candidate: CheckInCandidate) => {
+    if (!id) return;
+
+    try {
+      setWorkingId(candidate.id);
+      const response = await AttendanceService.manualCheckIn(id, candidate.id);
+      if (response.success && response.data) {
+        showSuccessToast(`${candidate.name} checked in`);
+        setCandidates(
+          (previous) =>
+            previous?.map((item) =>
+              item.id === candidate.id
+                ? { ...item, attendance: response.data!.attendance }
+                : item
+            ) || null
+        );
+        await fetchAttendance();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleCheckOut = async (record: AttendanceRecord) => {
+    try {
+      setWorkingId(record.id);
+      const response = await AttendanceService.checkOut(record.id);
+      if (response.success) {
+        showSuccessToast(`${record.registration.name} checked out`);
+        await fetchAttendance();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleUndoCheckIn = async () => {
+    if (!undoRecord) return;
+    if (undoReason.trim().length < 3) {
+      showErrorToast("Please give a reason for undoing this check-in");
+      return;
+    }
+
+    try {
+      setWorkingId(undoRecord.id);
+      const response = await AttendanceService.undoCheckIn(
+        undoRecord.id,
+        undoReason.trim()
+      );
+      if (response.success) {
+        showSuccessToast("Check-in undone");
+        setUndoRecord(null);
+        setUndoReason("");
+        setCandidates(null);
+        await fetchAttendance();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const exportToCSV = async () => {
+    if (!id || !pagination.total) return;
+
+    // Page through the API rather than relying on what's on screen
+    const allRecords: AttendanceRecord[] = [];
+    try {
+      setExporting(true);
+      let exportPage = 1;
+      let pages = 1;
+      do {
+        const response = await AttendanceService.getEventAttendance(id, {
+          page: exportPage,
+          limit: 100,
+        });
+        if (!response.success || !response.data) break;
+        allRecords.push(...response.data.attendance);
+        pages = response.data.pagination.pages;
+        exportPage += 1;
+      } while (exportPage <= pages);
+    } catch (err) {
+      showErrorToast(err);
+      return;
+    } finally {
+      setExporting(false);
+    }
 
     const headers = [
       "Name",
       "Email",
       "Check-in Time",
+      "Check-out Time",
+      "Method",
       "Location",
       "Checked In By",
     ];
-    const rows = attendanceRecords.map((record) => [
+    const rows = allRecords.map((record) => [
       record.registration.name,
       record.registration.email,
       new Date(record.checked_in_at).toLocaleString(),
+      record.checked_out_at
+        ? new Date(record.checked_out_at).toLocaleString()
+        : "",
+      record.method === "manual" ? "Manual" : "QR code",
       record.location || "N/A",
       record.checked_in_by_user.name,
     ]);
@@ -199,11 +340,11 @@ const AttendancePage: React.FC = () => {
             </button>
             <button
               onClick={exportToCSV}
-              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-              disabled={!attendanceRecords.length}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              disabled={!pagination.total || exporting}
             >
               <Download className="h-4 w-4 mr-2" />
-              Export CSV
+              {exporting ? "Exporting..." : "Export CSV"}
             </button>
           </div>
         </div>
@@ -264,6 +405,11 @@ const AttendancePage: React.FC = () => {
               <p className="text-2xl font-bold text-gray-900">
                 {stats.total_check_ins}
               </p>
+              {stats.checked_out > 0 && (
+                <p className="text-xs text-gray-500">
+                  {stats.checked_out} checked out
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -283,9 +429,81 @@ const AttendancePage: React.FC = () => {
         </div>
       </div>
 
-      {/* Search Bar */}
-      <div className="mb-6">
-        <div className="relative">
+      {/* Manual Check-in */}
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <UserPlus className="h-5 w-5 text-primary-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">
+            Manual Check-in
+          </h3>
+        </div>
+        <form onSubmit={handleSearchCandidates} className="flex gap-3">
+          <input
+            type="text"
+            placeholder="Find an attendee by name or email..."
+            value={manualSearch}
+            onChange={(e) => setManualSearch(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md bg-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          />
+          <button
+            type="submit"
+            disabled={searchingCandidates || manualSearch.trim().length < 2}
+            className="px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+          >
+            {searchingCandidates ? "Searching..." : "Search"}
+          </button>
+        </form>
+
+        {candidates && (
+          <div className="mt-4">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No confirmed registrations match that search.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {candidates.map((candidate) => (
+                  <li
+                    key={candidate.id}
+                    className="px-4 py-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {candidate.name}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {candidate.email}
+                        {candidate.ticket_tier &&
+                          ` · ${candidate.ticket_tier}`}
+                      </p>
+                    </div>
+                    {candidate.attendance ? (
+                      <span className="text-xs text-green-700 whitespace-nowrap">
+                        Checked in{" "}
+                        {new Date(
+                          candidate.attendance.checked_in_at
+                        ).toLocaleTimeString()}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleManualCheckIn(candidate)}
+                        disabled={workingId === candidate.id}
+                        className="px-3 py-1.5 bg-green-600 text-white rounded-md text-xs font-medium hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Check In
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Search and Filters */}
+      <div className="mb-6 flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
             <Search className="h-5 w-5 text-gray-400" />
           </div>
@@ -297,17 +515,43 @@ const AttendancePage: React.FC = () => {
             className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
           />
         </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          <option value="all">All attendees</option>
+          <option value="checked_in">Still here</option>
+          <option value="checked_out">Checked out</option>
+        </select>
+        <select
+          value={methodFilter}
+          onChange={(e) => {
+            setMethodFilter(e.target.value as typeof methodFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          <option value="">Any method</option>
+          <option value="qr_code">QR code</option>
+          <option value="manual">Manual</option>
+        </select>
       </div>
 
       {/* Attendance Records */}
-      {filteredRecords.length === 0 ? (
+      {attendanceRecords.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-12 text-center">
           <UserCheck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            {searchTerm ? "No matching records found" : "No check-ins yet"}
+            {debouncedSearch || statusFilter !== "all" || methodFilter
+              ? "No matching records found"
+              : "No check-ins yet"}
           </h3>
           <p className="text-gray-500">
-            {searchTerm
+            {debouncedSearch || statusFilter !== "all" || methodFilter
               ? "Try adjusting your search terms"
               : "Participants will appear here once they check in"}
           </p>
@@ -316,11 +560,11 @@ const AttendancePage: React.FC = () => {
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
           <div className="px-6 py-4 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900">
-              Check-in Records ({filteredRecords.length})
+              Check-in Records ({pagination.total})
             </h3>
           </div>
           <ul className="divide-y divide-gray-200">
-            {filteredRecords.map((record) => (
+            {attendanceRecords.map((record) => (
               <li key={record.id} className="px-6 py-4">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center min-w-0 flex-1">
@@ -335,9 +579,20 @@ const AttendancePage: React.FC = () => {
                         <p className="text-sm font-medium text-gray-900 truncate">
                           {record.registration.name}
                         </p>
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                          Checked In
-                        </span>
+                        {record.checked_out_at ? (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            Checked Out
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Checked In
+                          </span>
+                        )}
+                        {record.method === "manual" && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            Manual
+                          </span>
+                        )}
                       </div>
 
                       <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
@@ -358,13 +613,121 @@ const AttendancePage: React.FC = () => {
 
                       <div className="mt-1 text-xs text-gray-400">
                         Checked in by: {record.checked_in_by_user.name}
+                        {record.checked_out_at &&
+                          ` · Left ${new Date(
+                            record.checked_out_at
+                          ).toLocaleTimeString()}`}
                       </div>
                     </div>
                   </div>
+
+                  <div className="ml-4 flex items-center space-x-2">
+                    {!record.checked_out_at && (
+                      <button
+                        onClick={() => handleCheckOut(record)}
+                        disabled={workingId === record.id}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <LogOut className="h-3.5 w-3.5 mr-1" />
+                        Check Out
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setUndoRecord(record)}
+                      disabled={workingId === record.id}
+                      className="inline-flex items-center px-3 py-1.5 border border-red-300 rounded-md text-xs font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Undo2 className="h-3.5 w-3.5 mr-1" />
+                      Undo
+                    </button>
+                  </div>
                 </div>
               </li>
             ))}
           </ul>
+
+          {pagination.pages > 1 && (
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.pages}
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setPage((current) => current - 1)}
+                  disabled={pagination.page <= 1}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((current) => current + 1)}
+                  disabled={pagination.page >= pagination.pages}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Undo Check-in Modal */}
+      {undoRecord && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Undo Check-in
+              </h2>
+              <button
+                onClick={() => {
+                  setUndoRecord(null);
+                  setUndoReason("");
+                }}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                {undoRecord.registration.name} will no longer be marked as
+                attending. The reason is kept in the attendance audit log.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Reason
+                </label>
+                <textarea
+                  value={undoReason}
+                  onChange={(e) => setUndoReason(e.target.value)}
+                  rows={3}
+                  maxLength={500}
+                  placeholder="e.g. Scanned the wrong ticket"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button
+                onClick={() => {
+                  setUndoRecord(null);
+                  setUndoReason("");
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleUndoCheckIn}
+                disabled={workingId === undoRecord.id}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+              >
+                Undo Check-in
+              </button>
+            </div>
+          </div>
         </div>
       )}
     </div>
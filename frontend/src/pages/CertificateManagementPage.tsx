@@ -8,9 +8,27 @@ import {
   Settings,
   CheckCircle,
   Edit,
+  RefreshCw,
+  XCircle,
 } from "lucide-react";
 import { apiClient } from "@/api/client";
+import {
+  CertificateService,
+  CertificateJob,
+  CertificateJobItem,
+  CertificateStatus,
+} from "@/api/certificates";
 import { Loader } from "../components/common/Loader";
+import {
+  CertificateActionsModal,
+  certificateStatusStyles,
+} from "../components/modals/CertificateActionsModal";
+
+// Stays under the API client's 20 requests per minute per endpoint
+const JOB_POLL_INTERVAL_MS = 4000;
+
+const isJobActive = (job: CertificateJob | null) =>
+  !!job && (job.status === "queued" || job.status === "running");
 
 interface CertificateTemplate {
   id: string;
@@ -50,7 +68,9 @@ interface Certificate {
   registration_id: string;
   file_url: string;
   certificate_url?: string;
+  certificate_code: string;
   verification_code: string;
+  status?: CertificateStatus | null; // null for certificates issued earlier
   issued_by_id: string;
   created_at: string;
   email_sent: boolean;
@@ -83,6 +103,10 @@ const CertificateManagementPage: React.FC = () => {
     []
   );
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationJob, setGenerationJob] = useState<CertificateJob | null>(
+    null
+  );
+  const [jobItems, setJobItems] = useState<CertificateJobItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [message, setMessage] = useState<{
     type: "success" | "error";
@@ -91,6 +115,8 @@ const CertificateManagementPage: React.FC = () => {
   const [showPlaceholderMapping, setShowPlaceholderMapping] = useState(false);
   const [mappingTemplate, setMappingTemplate] =
     useState<CertificateTemplate | null>(null);
+  const [managedCertificate, setManagedCertificate] =
+    useState<Certificate | null>(null);
 
   // File upload state
   const [uploadFile, setUploadFile] = useState<File | null>(null);
@@ -102,8 +128,23 @@ const CertificateManagementPage: React.FC = () => {
 
   useEffect(() => {
     loadData();
+    loadLatestJob();
   }, [eventId]);
 
+  // Follow a running job until every certificate has been processed
+  useEffect(() => {
+    if (!generationJob || !isJobActive(generationJob)) return;
+
+    const interval = setInterval(async () => {
+      const finished = await refreshJob(generationJob.id);
+      if (finished) {
+        await loadData();
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [generationJob?.id, generationJob?.status]);
+
   const showMessage = (type: "success" | "error", text: string) => {
     setMessage({ type, text });
     setTimeout(() => setMessage(null), 5000);
@@ -143,6 +184,73 @@ const CertificateManagementPage: React.FC = () => {
     }
   };
 
+  // Returns true once the job is no longer queued or running
+  const refreshJob = async (jobId: string): Promise<boolean> => {
+    try {
+      const response = await CertificateService.getGenerationJob(jobId);
+      if (response.success && response.data) {
+        setGenerationJob(response.data.job);
+        setJobItems(response.data.items);
+        return !isJobActive(response.data.job);
+      }
+    } catch (error) {
+      console.error("Error refreshing certificate job:", error);
+    }
+    return false;
+  };
+
+  const loadLatestJob = async () => {
+    if (!eventId) return;
+    try {
+      const response = await CertificateService.getGenerationJobs(eventId);
+      const latest = response.data?.jobs[0];
+      if (latest) {
+        await refreshJob(latest.id);
+      }
+    } catch (error) {
+      console.error("Error loading certificate jobs:", error);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!generationJob) return;
+    if (!confirm("Stop generating the remaining certificates?")) return;
+
+    try {
+      await CertificateService.cancelGenerationJob(generationJob.id);
+      showMessage("success", "Certificate generation cancelled");
+      await refreshJob(generationJob.id);
+      await loadData();
+    } catch (error: any) {
+      console.error("Error cancelling certificate job:", error);
+      showMessage(
+        "error",
+        error.response?.message || "Failed to cancel certificate generation"
+      );
+    }
+  };
+
+  const handleRetryJob = async () => {
+    if (!generationJob) return;
+
+    try {
+      const response = await CertificateService.retryGenerationJob(
+        generationJob.id
+      );
+      showMessage(
+        "success",
+        `Retrying ${response.data?.requeued || 0} certificates`
+      );
+      await refreshJob(generationJob.id);
+    } catch (error: any) {
+      console.error("Error retrying certificate job:", error);
+      showMessage(
+        "error",
+        error.response?.message || "Failed to retry certificate generation"
+      );
+    }
+  };
+
   const handleFileUpload = async () => {
     if (!uploadFile || !uploadName) {
       showMessage("error", "Please select a file and provide a template name");
@@ -231,35 +339,31 @@ const CertificateManagementPage: React.FC = () => {
       return;
     }
 
+    if (!eventId) return;
+
     try {
       setIsGenerating(true);
-      const response = await apiClient.post(
-        `/certificates/events/${eventId}/generate`,
-        {
-          templateId: selectedTemplate,
-          participantIds:
-            selectedParticipants.length > 0 ? selectedParticipants : undefined,
-        }
-      );
-
-      const responseData = response.data as any;
-      const summary = responseData?.summary;
+      const response = await CertificateService.generateCertificates(eventId, {
+        templateId: selectedTemplate,
+        participantIds:
+          selectedParticipants.length > 0 ? selectedParticipants : undefined,
+      });
 
       showMessage(
         "success",
-        `Generated ${summary?.successful || 0} certificates successfully${
-          summary?.failed > 0 ? `, ${summary.failed} failed` : ""
-        }`
+        response.message || "Certificates queued for generation"
       );
 
-      // Reset selections and reload data to show new certificates
+      // Certificates appear in the list as the background job finishes
       setSelectedParticipants([]);
-      await loadData();
+      if (response.data) {
+        await refreshJob(response.data.job.id);
+      }
     } catch (error: any) {
       console.error("Error generating certificates:", error);
       showMessage(
         "error",
-        error.response?.data?.message || "Failed to generate certificates"
+        error.response?.message || "Failed to generate certificates"
       );
     } finally {
       setIsGenerating(false);
@@ -331,6 +435,85 @@ const CertificateManagementPage: React.FC = () => {
           </div>
         )}
 
+        {/* Generation Progress */}
+        {generationJob && generationJob.progress && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {isJobActive(generationJob)
+                  ? "Generating certificates..."
+                  : `Last generation ${generationJob.status}`}
+              </h2>
+              <div className="flex gap-2">
+                {generationJob.progress.failed > 0 &&
+                  generationJob.status === "completed" && (
+                    <Button size="sm" variant="outline" onClick={handleRetryJob}>
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Retry Failed ({generationJob.progress.failed})
+                    </Button>
+                  )}
+                {generationJob.status === "cancelled" &&
+                  generationJob.progress.cancelled > 0 && (
+                    <Button size="sm" variant="outline" onClick={handleRetryJob}>
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                  )}
+                {isJobActive(generationJob) && (
+                  <Button size="sm" variant="outline" onClick={handleCancelJob}>
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{
+                  width: `${
+                    generationJob.total > 0
+                      ? Math.round(
+                          ((generationJob.progress.done +
+                            generationJob.progress.failed) /
+                            generationJob.total) *
+                            100
+                        )
+                      : 0
+                  }%`,
+                }}
+              />
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              <span>{generationJob.progress.queued} queued</span>
+              <span>{generationJob.progress.running} running</span>
+              <span className="text-green-700">
+                {generationJob.progress.done} done
+              </span>
+              <span className="text-red-700">
+                {generationJob.progress.failed} failed
+              </span>
+              {generationJob.progress.cancelled > 0 && (
+                <span>{generationJob.progress.cancelled} cancelled</span>
+              )}
+            </div>
+            {jobItems.some((item) => item.status === "failed") && (
+              <ul className="mt-4 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {jobItems
+                  .filter((item) => item.status === "failed")
+                  .map((item) => (
+                    <li key={item.id} className="px-4 py-2 text-sm">
+                      <span className="font-medium text-gray-900">
+                        {item.participant_name}
+                      </span>
+                      <span className="text-red-600 ml-2">{item.error}</span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex space-x-2 border-b mb-6">
           <button
@@ -385,6 +568,9 @@ const CertificateManagementPage: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                         Generated Date
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Status
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                         Email Status
                       </th>
@@ -412,6 +598,19 @@ const CertificateManagementPage: React.FC = () => {
                             certificate.created_at
                           ).toLocaleDateString()}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${
+                              certificateStatusStyles[
+                                certificate.status || "valid"
+                              ]
+                            }`}
+                          >
+                            {certificate.status === "superseded"
+                              ? "Replaced"
+                              : certificate.status || "valid"}
+                          </span>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {certificate.email_sent ? (
                             <div className="flex items-center">
@@ -450,32 +649,41 @@ const CertificateManagementPage: React.FC = () => {
                             >
                               View
                             </Button>
+                            {(certificate.status || "valid") === "valid" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={async () => {
+                                  try {
+                                    await apiClient.post(
+                                      `/certificates/events/${eventId}/email`,
+                                      { certificateIds: [certificate.id] }
+                                    );
+                                    showMessage(
+                                      "success",
+                                      "Certificate emailed successfully"
+                                    );
+                                  } catch (error: any) {
+                                    console.error(
+                                      "Error emailing certificate:",
+                                      error
+                                    );
+                                    showMessage(
+                                      "error",
+                                      "Failed to email certificate"
+                                    );
+                                  }
+                                }}
+                              >
+                                Email
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={async () => {
-                                try {
-                                  await apiClient.post(
-                                    `/certificates/events/${eventId}/email`,
-                                    { certificateIds: [certificate.id] }
-                                  );
-                                  showMessage(
-                                    "success",
-                                    "Certificate emailed successfully"
-                                  );
-                                } catch (error: any) {
-                                  console.error(
-                                    "Error emailing certificate:",
-                                    error
-                                  );
-                                  showMessage(
-                                    "error",
-                                    "Failed to email certificate"
-                                  );
-                                }
-                              }}
+                              onClick={() => setManagedCertificate(certificate)}
                             >
-                              Email
+                              Manage
                             </Button>
                           </div>
                         </td>
@@ -751,11 +959,12 @@ const CertificateManagementPage: React.FC = () => {
                       disabled={
                         selectedParticipants.length === 0 ||
                         !selectedTemplate ||
-                        isGenerating
+                        isGenerating ||
+                        isJobActive(generationJob)
                       }
                       onClick={handleGenerateCertificates}
                     >
-                      {isGenerating
+                      {isGenerating || isJobActive(generationJob)
                         ? "Generating..."
                         : `Generate Certificates (${selectedParticipants.length})`}
                     </Button>
@@ -834,6 +1043,15 @@ const CertificateManagementPage: React.FC = () => {
             }}
           />
         ) : null}
+
+        {/* Revoke / Reissue Modal */}
+        {managedCertificate && (
+          <CertificateActionsModal
+            certificate={managedCertificate}
+            onClose={() => setManagedCertificate(null)}
+            onChanged={loadData}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   CertificateService,
   CertificateVerification,
@@ -13,32 +14,150 @@ import {
   MapPin,
   User,
   Mail,
+  Ban,
+  RefreshCw,
+  ShieldCheck,
+  ShieldAlert,
+  BadgeCheck,
+  Linkedin,
 } from "lucide-react";
 import { Loader } from "../components/common/Loader";
+import {
+  SignatureCheck,
+  verifyCertificateSignature,
+} from "../utils/certificateSignature";
+
+// LinkedIn's "Add licence or certification" form, prefilled
+const getLinkedInUrl = (verification: CertificateVerification) => {
+  const certificate = verification.certificate!;
+  const issued = new Date(certificate.issuedAt);
+  const params = new URLSearchParams({
+    startTask: "CERTIFICATION_NAME",
+    name: certificate.event.title,
+    issueYear: String(issued.getFullYear()),
+    issueMonth: String(issued.getMonth() + 1),
+    certId: certificate.code,
+    certUrl: `${window.location.origin}/certificate/verify?code=${certificate.code}`,
+  });
+  if (certificate.issuer) {
+    params.set("organizationName", certificate.issuer);
+  }
+  return `https://www.linkedin.com/profile/add?${params}`;
+};
+
+interface VerificationStatusBannerProps {
+  verification: CertificateVerification;
+  onVerifyReplacement: (code: string) => void;
+}
+
+function VerificationStatusBanner({
+  verification,
+  onVerifyReplacement,
+}: VerificationStatusBannerProps) {
+  if (verification.status === "revoked") {
+    const revokedOn =
+      verification.revokedAt &&
+      new Date(verification.revokedAt).toLocaleDateString();
+    return (
+      <div className="bg-red-50 border-b border-red-200 p-6">
+        <div className="flex items-center">
+          <Ban className="h-8 w-8 text-red-500 mr-3" />
+          <div>
+            <h2 className="text-2xl font-bold text-red-900">
+              Certificate Revoked
+            </h2>
+            <p className="text-red-700">
+              This certificate was revoked
+              {revokedOn && ` on ${revokedOn}`} and is no longer valid
+            </p>
+            {verification.revocationReason && (
+              <p className="text-sm text-red-700 mt-1">
+                Reason: {verification.revocationReason}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (verification.status === "superseded") {
+    return (
+      <div className="bg-yellow-50 border-b border-yellow-200 p-6">
+        <div className="flex items-center">
+          <RefreshCw className="h-8 w-8 text-yellow-600 mr-3" />
+          <div>
+            <h2 className="text-2xl font-bold text-yellow-900">
+              Certificate Replaced
+            </h2>
+            <p className="text-yellow-800">
+              This certificate was reissued and is no longer valid. Only the
+              replacement should be accepted.
+            </p>
+            {verification.replacement && (
+              <button
+                onClick={() =>
+                  onVerifyReplacement(verification.replacement!.code)
+                }
+                className="mt-2 text-sm font-medium text-yellow-900 underline"
+              >
+                Verify replacement {verification.replacement.code}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-green-50 border-b border-green-200 p-6">
+      <div className="flex items-center">
+        <CheckCircle className="h-8 w-8 text-green-500 mr-3" />
+        <div>
+          <h2 className="text-2xl font-bold text-green-900">
+            Certificate Verified ✓
+          </h2>
+          <p className="text-green-700">
+            This certificate is authentic and valid
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export default function CertificateVerificationPage() {
+  const [searchParams] = useSearchParams();
   const [certificateCode, setCertificateCode] = useState("");
   const [verification, setVerification] =
     useState<CertificateVerification | null>(null);
+  const [signatureCheck, setSignatureCheck] = useState<SignatureCheck | null>(
+    null
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleVerify = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!certificateCode.trim()) {
-      setError("Please enter a certificate code");
-      return;
+  // Links from a certificate's QR code carry its signature; older links
+  // carry just the code
+  useEffect(() => {
+    const signed = searchParams.get("signed");
+    const code = searchParams.get("code");
+    if (signed) {
+      checkSignature(signed);
+    } else if (code) {
+      setCertificateCode(code);
+      verifyCode(code);
     }
+  }, []);
 
+  const verifyCode = async (code: string) => {
     try {
       setLoading(true);
       setError(null);
       setVerification(null);
 
-      const response = await CertificateService.verifyCertificate(
-        certificateCode.trim()
-      );
+      const response = await CertificateService.verifyCertificate(code);
 
       if (response.success && response.data) {
         setVerification(response.data);
@@ -53,6 +172,42 @@ export default function CertificateVerificationPage() {
     }
   };
 
+  // The signature proves who issued the certificate; the lookup that
+  // follows adds whether it has since been revoked or replaced
+  const checkSignature = async (token: string) => {
+    try {
+      const response = await CertificateService.getSigningKey();
+      if (!response.success || !response.data) return;
+
+      const check = await verifyCertificateSignature(token, response.data);
+      setSignatureCheck(check);
+      if (check.valid && check.claims) {
+        setCertificateCode(check.claims.c);
+        await verifyCode(check.claims.c);
+      }
+    } catch (err) {
+      console.error("Error checking certificate signature:", err);
+      setError("Failed to check certificate signature");
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!certificateCode.trim()) {
+      setError("Please enter a certificate code");
+      return;
+    }
+
+    setSignatureCheck(null);
+    await verifyCode(certificateCode.trim());
+  };
+
+  const handleVerifyReplacement = async (code: string) => {
+    setCertificateCode(code);
+    await verifyCode(code);
+  };
+
   const handleDownload = () => {
     if (verification?.certificate) {
       const downloadUrl = CertificateService.downloadCertificate(
@@ -123,8 +278,53 @@ export default function CertificateVerificationPage() {
           </form>
         </div>
 
+        {/* QR Signature */}
+        {signatureCheck && (
+          <div
+            className={`rounded-md p-4 mb-8 border ${
+              signatureCheck.valid
+                ? "bg-green-50 border-green-200"
+                : "bg-red-50 border-red-200"
+            }`}
+          >
+            <div className="flex items-start">
+              {signatureCheck.valid ? (
+                <ShieldCheck className="h-5 w-5 text-green-600 mr-2 mt-0.5" />
+              ) : (
+                <ShieldAlert className="h-5 w-5 text-red-500 mr-2 mt-0.5" />
+              )}
+              <div>
+                <p
+                  className={`font-semibold ${
+                    signatureCheck.valid ? "text-green-900" : "text-red-900"
+                  }`}
+                >
+                  {signatureCheck.valid
+                    ? "Authentic signature"
+                    : "Signature check failed"}
+                </p>
+                {signatureCheck.valid && signatureCheck.claims ? (
+                  <p className="text-sm text-green-800">
+                    Issued to {signatureCheck.claims.n} for{" "}
+                    {signatureCheck.claims.t} on{" "}
+                    {new Date(signatureCheck.claims.i).toLocaleDateString()}
+                  </p>
+                ) : (
+                  <p className="text-sm text-red-700">{signatureCheck.error}</p>
+                )}
+                {signatureCheck.valid && !verification && !loading && (
+                  <p className="text-sm text-green-800 mt-1">
+                    Its current status couldn't be looked up, so it may since
+                    have been revoked.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
-        {error && (
+        {error && !signatureCheck?.valid && (
           <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
             <div className="flex">
               <XCircle className="h-5 w-5 text-red-400 mr-2" />
@@ -136,22 +336,13 @@ export default function CertificateVerificationPage() {
         {/* Verification Results */}
         {verification && (
           <div className="bg-white shadow-lg rounded-lg overflow-hidden">
-            {verification.valid && verification.certificate ? (
+            {verification.certificate ? (
               <>
-                {/* Valid Certificate */}
-                <div className="bg-green-50 border-b border-green-200 p-6">
-                  <div className="flex items-center">
-                    <CheckCircle className="h-8 w-8 text-green-500 mr-3" />
-                    <div>
-                      <h2 className="text-2xl font-bold text-green-900">
-                        Certificate Verified ✓
-                      </h2>
-                      <p className="text-green-700">
-                        This certificate is authentic and valid
-                      </p>
-                    </div>
-                  </div>
-                </div>
+                {/* Valid, Revoked or Replaced */}
+                <VerificationStatusBanner
+                  verification={verification}
+                  onVerifyReplacement={handleVerifyReplacement}
+                />
 
                 {/* Certificate Details */}
                 <div className="p-6">
@@ -243,16 +434,36 @@ export default function CertificateVerificationPage() {
                     </div>
                   </div>
 
-                  {/* Download Button */}
-                  <div className="mt-8 pt-6 border-t">
-                    <button
-                      onClick={handleDownload}
-                      className="bg-blue-600 text-white px-6 py-3 rounded-md hover:bg-blue-700 flex items-center mx-auto"
-                    >
-                      <Download className="h-5 w-5 mr-2" />
-                      Download Certificate
-                    </button>
-                  </div>
+                  {/* Download and Share */}
+                  {verification.valid && (
+                    <div className="mt-8 pt-6 border-t flex flex-wrap justify-center gap-3">
+                      <button
+                        onClick={handleDownload}
+                        className="bg-blue-600 text-white px-6 py-3 rounded-md hover:bg-blue-700 flex items-center"
+                      >
+                        <Download className="h-5 w-5 mr-2" />
+                        Download Certificate
+                      </button>
+                      <a
+                        href={`${CertificateService.getCredentialUrl(
+                          verification.certificate.code
+                        )}?download=true`}
+                        className="border border-gray-300 text-gray-700 px-6 py-3 rounded-md hover:bg-gray-50 flex items-center"
+                      >
+                        <BadgeCheck className="h-5 w-5 mr-2" />
+                        Open Badge
+                      </a>
+                      <a
+                        href={getLinkedInUrl(verification)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="border border-gray-300 text-gray-700 px-6 py-3 rounded-md hover:bg-gray-50 flex items-center"
+                      >
+                        <Linkedin className="h-5 w-5 mr-2" />
+                        Add to LinkedIn
+                      </a>
+                    </div>
+                  )}
                 </div>
               </>
             ) : (
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { EventService } from "../api/events";
 import { useAuth } from "../hooks/useAuth";
 import { UserService } from "../api/user";
+import { OrganizationService, Organization } from "../api/organizations";
+import { CategoryService, Category } from "../api/categories";
+import { TagInput } from "../components/events/TagInput";
 import MapLocationPicker from "../components/ui/MapLocationPicker";
 import { OrganizerUpgradeModal } from "../components/modals/OrganizerUpgradeModal";
 import { Loader } from "../components/common/Loader";
@@ -27,16 +30,19 @@ const CreateEventFormSchema = z.object({
   longitude: z.number().optional(),
   capacity: z.number().min(1, "Capacity must be at least 1"),
   bannerUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  categoryId: z.string().optional(),
   visibility: z.enum(["public", "private", "invite-only"]),
   registrationDeadline: z.string().optional(),
   isPaid: z.boolean(),
   price: z.number().min(0, "Price must be 0 or greater").optional(),
+  organizationId: z.string().optional(),
 });
 
 type CreateEventFormData = z.infer<typeof CreateEventFormSchema>;
 
 const CreateEventPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user, updateUser } = useAuth();
   // Allow all users, but require org name and phone number
   const needsProfileInfo = !user?.organizationName || !user?.phoneNumber;
@@ -51,6 +57,38 @@ const CreateEventPage: React.FC = () => {
       }
     | undefined
   >(undefined);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+
+  // Organizations the user can create events for
+  useEffect(() => {
+    OrganizationService.getMyOrganizations()
+      .then((response) => {
+        if (response.success && response.data) {
+          setOrganizations(response.data.organizations);
+        }
+      })
+      .catch(() => {
+        // Events can still be created without an organization
+      });
+  }, []);
+
+  // Categories to pick from and tags other organizers already use
+  useEffect(() => {
+    Promise.all([
+      CategoryService.getCategories(),
+      CategoryService.getPopularTags(),
+    ])
+      .then(([categoriesRes, tagsRes]) => {
+        setCategories(categoriesRes.data?.categories || []);
+        setTagSuggestions((tagsRes.data?.tags || []).map(({ tag }) => tag));
+      })
+      .catch(() => {
+        // Both are optional
+      });
+  }, []);
 
   // Show modal if user missing org/phone
   useEffect(() => {
@@ -87,6 +125,7 @@ const CreateEventPage: React.FC = () => {
       visibility: "public",
       isPaid: false,
       capacity: 50,
+      organizationId: searchParams.get("organizationId") || "",
     },
   });
 
@@ -127,10 +166,13 @@ const CreateEventPage: React.FC = () => {
         longitude: data.longitude,
         capacity: data.capacity,
         bannerUrl: data.bannerUrl || undefined,
+        categoryId: data.categoryId || undefined,
+        tags: tags.length > 0 ? tags : undefined,
         visibility: data.visibility,
         registrationDeadline: data.registrationDeadline || undefined,
         isPaid: data.isPaid,
         price: data.isPaid ? data.price : undefined,
+        organizationId: data.organizationId || undefined,
       };
 
       const response = await EventService.createEvent(eventData);
@@ -258,6 +300,38 @@ const CreateEventPage: React.FC = () => {
                 <p className="form-error">{errors.bannerUrl.message}</p>
               )}
             </div>
+
+            {categories.length > 0 && (
+              <div>
+                <label htmlFor="categoryId" className="form-label">
+                  Category
+                </label>
+                <select
+                  {...register("categoryId")}
+                  id="categoryId"
+                  className="input"
+                >
+                  <option value="">Uncategorized</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="tags" className="form-label">
+                Tags
+              </label>
+              <TagInput
+                id="tags"
+                tags={tags}
+                onChange={setTags}
+                suggestions={tagSuggestions}
+              />
+            </div>
           </div>
 
           {/* Date and Time */}
@@ -372,6 +446,29 @@ const CreateEventPage: React.FC = () => {
                   <option value="invite-only">Invite Only</option>
                 </select>
               </div>
+
+              {organizations.length > 0 && (
+                <div>
+                  <label
+                    htmlFor="organizationId"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Organization
+                  </label>
+                  <select
+                    {...register("organizationId")}
+                    id="organizationId"
+                    className="input"
+                  >
+                    <option value="">None (just me)</option>
+                    {organizations.map((organization) => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             {/* Pricing */}
@@ -7,6 +7,7 @@ import { RegistrationService } from "../api/registrations";
 import { truncateText, isTruncated } from "../utils/textUtils";
 import { MapPin, Calendar } from "lucide-react";
 import { useCachedApi } from "../hooks/useCachedApi";
+import { OwnershipTransferRequests } from "../components/events/OwnershipTransferRequests";
 
 const DashboardPage: React.FC = () => {
   const { accessToken, isAuthenticated, clearAuth } = useAuthStore();
@@ -101,6 +102,7 @@ const DashboardPage: React.FC = () => {
   return (
     <div className="container mx-auto py-8 px-4">
       <h1 className="text-2xl font-bold mb-6">Dashboard</h1>
+      <OwnershipTransferRequests />
       {/* Stats Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <div className="bg-white rounded-2xl shadow p-6 text-center">
@@ -4,6 +4,8 @@ import { useAuthStore } from "../store/authStore";
 import { EventService, Event } from "../api/events";
 import { RegistrationService, Registration } from "../api/registrations";
 import { StaffManagement } from "../components/admin/StaffManagement";
+import { OrganizerManagement } from "../components/admin/OrganizerManagement";
+import { CategoryIcon } from "../components/events/CategoryIcon";
 import {
   Calendar,
   MapPin,
@@ -19,10 +21,31 @@ import {
   Plus,
   MessageSquare,
   ArrowLeft,
+  Send,
+  Ticket,
+  Tag,
+  RotateCcw,
+  ShieldCheck,
+  CalendarClock,
 } from "lucide-react";
 import { Loader } from "../components/common/Loader";
 import { truncateText, isTruncated } from "../utils/textUtils";
 import { ShareEventModal } from "../components/events/ShareEventModal";
+import { InviteManagementModal } from "../components/events/InviteManagementModal";
+import { TicketTierModal } from "../components/events/TicketTierModal";
+import { PromoCodeModal } from "../components/events/PromoCodeModal";
+import {
+  RefundPolicyModal,
+  describeRefundPolicy,
+} from "../components/events/RefundPolicyModal";
+import { RefundService, RefundPolicy } from "../api/refunds";
+import { TicketKeysModal } from "../components/events/TicketKeysModal";
+import {
+  SessionAgendaModal,
+  formatSessionTime,
+} from "../components/events/SessionAgendaModal";
+import { SessionService, EventSession } from "../api/sessions";
+import { TicketTierService, TicketTier } from "../api/ticketTiers";
 
 const EventDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -37,8 +60,61 @@ const EventDetailsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<
     "about" | "speakers" | "schedule" | "sponsors"
   >("about");
-  const [userEventRole, setUserEventRole] = useState<string | null>(null);
+  // Effective permissions on this event, including ones that come from
+  // ownership, co-organizing or the organization that owns it
+  const [eventPermissions, setEventPermissions] = useState<string[]>([]);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showTierModal, setShowTierModal] = useState(false);
+  const [showPromoModal, setShowPromoModal] = useState(false);
+  const [ticketTiers, setTicketTiers] = useState<TicketTier[]>([]);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [showTicketKeysModal, setShowTicketKeysModal] = useState(false);
+  const [refundPolicy, setRefundPolicy] = useState<RefundPolicy | null>(null);
+  const [showAgendaModal, setShowAgendaModal] = useState(false);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+
+  const fetchTicketTiers = async () => {
+    if (!id) return;
+    try {
+      const response = await TicketTierService.getEventTiers(id);
+      if (response.success && response.data) {
+        setTicketTiers(response.data.tiers);
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to fetch ticket tiers:", err);
+      }
+    }
+  };
+
+  const fetchSessions = async () => {
+    if (!id) return;
+    try {
+      const response = await SessionService.getEventSessions(id);
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to fetch sessions:", err);
+      }
+    }
+  };
+
+  const fetchRefundPolicy = async () => {
+    if (!id) return;
+    try {
+      const response = await RefundService.getRefundPolicy(id);
+      if (response.success && response.data) {
+        setRefundPolicy(response.data.policy);
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to fetch refund policy:", err);
+      }
+    }
+  };
 
   const fetchUserRegistrations = async () => {
     if (!user) return;
@@ -67,7 +143,7 @@ const EventDetailsPage: React.FC = () => {
       if (response.ok) {
         const result = await response.json();
         if (result.success && result.data) {
-          setUserEventRole(result.data.role);
+          setEventPermissions(result.data.permissions || []);
         }
       }
     } catch (err) {
@@ -81,12 +157,14 @@ const EventDetailsPage: React.FC = () => {
     const registration = userRegistrations.find(
       (registration) =>
         registration.event?.id === eventId &&
-        registration.status !== "cancelled"
+        registration.status !== "cancelled" &&
+        registration.status !== "waitlisted"
     );
 
     if (!registration) return false;
 
-    if (registration.event?.is_paid) {
+    // Free ticket tiers on a paid event never carry a payment status
+    if (registration.event?.is_paid && registration.payment_status) {
       return registration.payment_status === "completed";
     }
 
@@ -102,12 +180,13 @@ const EventDetailsPage: React.FC = () => {
     const registration = userRegistrations.find(
       (registration) =>
         registration.event?.id === eventId &&
-        registration.status !== "cancelled"
+        registration.status !== "cancelled" &&
+        registration.status !== "waitlisted"
     );
 
     if (!registration) return undefined;
 
-    if (registration.event?.is_paid) {
+    if (registration.event?.is_paid && registration.payment_status) {
       return registration.payment_status === "completed"
         ? registration
         : undefined;
@@ -120,6 +199,13 @@ const EventDetailsPage: React.FC = () => {
     return isValidFreeRegistration ? registration : undefined;
   };
 
+  const isUserWaitlisted = (eventId: string): boolean =>
+    userRegistrations.some(
+      (registration) =>
+        registration.event?.id === eventId &&
+        registration.status === "waitlisted"
+    );
+
   useEffect(() => {
     const fetchEvent = async () => {
       if (!id) {
@@ -179,6 +265,9 @@ const EventDetailsPage: React.FC = () => {
     fetchEvent();
     fetchUserRegistrations();
     fetchUserEventRole();
+    fetchTicketTiers();
+    fetchRefundPolicy();
+    fetchSessions();
   }, [id, user, accessToken]);
 
   const handleShare = () => {
@@ -210,8 +299,8 @@ const EventDetailsPage: React.FC = () => {
     );
   }
 
-  // Check if user is organizer for this event based on event_users table
-  const canManage = userEventRole === "organizer";
+  const canManage = eventPermissions.includes("manage-event");
+  const canManageStaff = eventPermissions.includes("manage-staff");
   const startDate = new Date(event.start_date);
   const endDate = new Date(event.end_date);
   const isUpcoming = startDate > new Date();
@@ -219,6 +308,7 @@ const EventDetailsPage: React.FC = () => {
   const registrationsCount = event.registrations?.length || 0;
   const registered = isUserRegistered(event.id);
   const userRegistration = getUserRegistrationForEvent(event.id);
+  const waitlisted = isUserWaitlisted(event.id);
 
   // Placeholder data
   const placeholderSpeakers = [
@@ -421,6 +511,13 @@ const EventDetailsPage: React.FC = () => {
                     Ticket
                   </Link>
                 </>
+              ) : waitlisted ? (
+                <Link
+                  to="/my-registrations"
+                  className="px-4 py-2 bg-white text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors font-medium shadow-sm"
+                >
+                  You're on the Waitlist
+                </Link>
               ) : isUpcoming ? (
                 <Link
                   to={`/events/${event.id}/register`}
@@ -505,6 +602,54 @@ const EventDetailsPage: React.FC = () => {
                   <MessageSquare className="w-4 h-4" />
                   <span>View Feedback</span>
                 </Link>
+                <button
+                  onClick={() => setShowTierModal(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                >
+                  <Ticket className="w-4 h-4" />
+                  <span>Ticket Types</span>
+                </button>
+                <button
+                  onClick={() => setShowAgendaModal(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                >
+                  <CalendarClock className="w-4 h-4" />
+                  <span>Agenda</span>
+                </button>
+                {event.is_paid && (
+                  <button
+                    onClick={() => setShowPromoModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                  >
+                    <Tag className="w-4 h-4" />
+                    <span>Promo Codes</span>
+                  </button>
+                )}
+                {event.is_paid && (
+                  <button
+                    onClick={() => setShowRefundModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Refund Policy</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowTicketKeysModal(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Ticket Security</span>
+                </button>
+                {event.visibility !== "public" && (
+                  <button
+                    onClick={() => setShowInviteModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium shadow-sm border border-primary-200"
+                  >
+                    <Send className="w-4 h-4" />
+                    <span>Invitations</span>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -553,12 +698,91 @@ const EventDetailsPage: React.FC = () => {
 
             {/* Sidebar */}
             <div className="space-y-6">
+              {/* Tickets Card */}
+              {ticketTiers.length > 0 && (
+                <div className="bg-white rounded-2xl p-6 border border-gray-200 shadow-sm">
+                  <h3 className="text-xl font-bold text-gray-900 mb-4">
+                    Tickets
+                  </h3>
+                  <ul className="space-y-3">
+                    {ticketTiers.map((tier) => (
+                      <li
+                        key={tier.id}
+                        className="flex items-start justify-between gap-4"
+                      >
+                        <div>
+                          <div className="font-semibold text-gray-900">
+                            {tier.name}
+                          </div>
+                          {tier.description && (
+                            <div className="text-sm text-gray-600">
+                              {tier.description}
+                            </div>
+                          )}
+                          {!tier.on_sale ? (
+                            <div className="text-xs text-yellow-700">
+                              Not on sale
+                            </div>
+                          ) : (
+                            tier.remaining === 0 && (
+                              <div className="text-xs text-red-600">
+                                Sold out
+                              </div>
+                            )
+                          )}
+                        </div>
+                        <div className="font-semibold text-gray-900 whitespace-nowrap">
+                          {Number(tier.price) > 0
+                            ? `$${Number(tier.price).toFixed(2)}`
+                            : "Free"}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Refund Policy Card */}
+              {event.is_paid && refundPolicy && (
+                <div className="bg-white rounded-2xl p-6 border border-gray-200 shadow-sm">
+                  <h3 className="text-xl font-bold text-gray-900 mb-2">
+                    Refunds
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    {describeRefundPolicy(refundPolicy)}
+                  </p>
+                </div>
+              )}
+
               {/* Event Details Card */}
               <div className="bg-white rounded-2xl p-6 border border-gray-200 shadow-sm">
                 <h3 className="text-xl font-bold text-gray-900 mb-4">
                   Event Details
                 </h3>
                 <div className="space-y-4">
+                  {event.organization && (
+                    <div
+                      className="flex items-center space-x-3 pl-3 border-l-4"
+                      style={{
+                        borderLeftColor:
+                          event.organization.brand_color || "#7c3aed",
+                      }}
+                    >
+                      {event.organization.logo_url && (
+                        <img
+                          src={event.organization.logo_url}
+                          alt=""
+                          className="w-10 h-10 rounded object-contain"
+                        />
+                      )}
+                      <div>
+                        <div className="text-sm text-gray-600">Hosted by</div>
+                        <div className="font-semibold text-gray-900">
+                          {event.organization.name}
+                        </div>
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <div className="text-sm text-gray-600 mb-1">Organizer</div>
                     <div className="font-semibold text-gray-900">
@@ -572,10 +796,40 @@ const EventDetailsPage: React.FC = () => {
                   </div>
                   <div>
                     <div className="text-sm text-gray-600 mb-1">Category</div>
-                    <div className="font-semibold text-gray-900">
-                      {event.category?.name || "General"}
-                    </div>
+                    {event.category?.slug ? (
+                      <Link
+                        to={`/events?category=${event.category.slug}`}
+                        className="inline-flex items-center font-semibold hover:underline"
+                        style={{ color: event.category.color }}
+                      >
+                        <CategoryIcon
+                          icon={event.category.icon}
+                          className="w-4 h-4 mr-1.5"
+                        />
+                        {event.category.name}
+                      </Link>
+                    ) : (
+                      <div className="font-semibold text-gray-900">
+                        {event.category?.name || "General"}
+                      </div>
+                    )}
                   </div>
+                  {event.tags && event.tags.length > 0 && (
+                    <div>
+                      <div className="text-sm text-gray-600 mb-1">Tags</div>
+                      <div className="flex flex-wrap gap-2">
+                        {event.tags.map((tag) => (
+                          <Link
+                            key={tag}
+                            to={`/events?tag=${encodeURIComponent(tag)}`}
+                            className="text-xs px-2.5 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          >
+                            #{tag}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <div className="text-sm text-gray-600 mb-1">
                       Event Duration
@@ -667,45 +921,86 @@ const EventDetailsPage: React.FC = () => {
             </div>
 
             <div className="max-w-4xl mx-auto">
-              <div className="space-y-4">
-                {placeholderSchedule.map((item, idx) => (
-                  <div
-                    key={idx}
-                    className={`flex gap-6 p-6 rounded-2xl border transition-all ${
-                      item.type === "break"
-                        ? "bg-gray-50 border-gray-200"
-                        : "bg-white border-primary-200 hover:border-primary-300 shadow-sm hover:shadow"
-                    }`}
-                  >
-                    <div className="flex-shrink-0 w-24 text-right">
-                      <div className="text-sm font-semibold text-gray-900">
-                        {item.time}
-                      </div>
-                    </div>
-                    <div className="flex-shrink-0">
-                      {item.type === "break" ? (
-                        <Coffee className="w-6 h-6 text-gray-400" />
-                      ) : (
+              {sessions.length > 0 ? (
+                <div className="space-y-4">
+                  {sessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className="flex gap-6 p-6 rounded-2xl border bg-white border-primary-200 hover:border-primary-300 shadow-sm hover:shadow transition-all"
+                    >
+                      <div className="flex-shrink-0">
                         <Mic className="w-6 h-6 text-primary-600" />
+                      </div>
+                      <div className="flex-grow">
+                        <h3 className="text-lg font-bold text-gray-900 mb-1">
+                          {session.title}
+                        </h3>
+                        <p className="text-sm text-gray-500 mb-1">
+                          {formatSessionTime(session)}
+                          {session.room && ` · ${session.room}`}
+                        </p>
+                        {session.speaker && (
+                          <p className="text-gray-600">{session.speaker}</p>
+                        )}
+                        {session.description && (
+                          <p className="text-gray-600 mt-2">
+                            {session.description}
+                          </p>
+                        )}
+                      </div>
+                      {session.capacity !== null && (
+                        <div className="flex-shrink-0 text-sm text-gray-500">
+                          {session.remaining === 0
+                            ? "Full"
+                            : `${session.remaining} seats left`}
+                        </div>
                       )}
                     </div>
-                    <div className="flex-grow">
-                      <h3 className="text-lg font-bold text-gray-900 mb-1">
-                        {item.title}
-                      </h3>
-                      {item.speaker && (
-                        <p className="text-gray-600">{item.speaker}</p>
-                      )}
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {placeholderSchedule.map((item, idx) => (
+                    <div
+                      key={idx}
+                      className={`flex gap-6 p-6 rounded-2xl border transition-all ${
+                        item.type === "break"
+                          ? "bg-gray-50 border-gray-200"
+                          : "bg-white border-primary-200 hover:border-primary-300 shadow-sm hover:shadow"
+                      }`}
+                    >
+                      <div className="flex-shrink-0 w-24 text-right">
+                        <div className="text-sm font-semibold text-gray-900">
+                          {item.time}
+                        </div>
+                      </div>
+                      <div className="flex-shrink-0">
+                        {item.type === "break" ? (
+                          <Coffee className="w-6 h-6 text-gray-400" />
+                        ) : (
+                          <Mic className="w-6 h-6 text-primary-600" />
+                        )}
+                      </div>
+                      <div className="flex-grow">
+                        <h3 className="text-lg font-bold text-gray-900 mb-1">
+                          {item.title}
+                        </h3>
+                        {item.speaker && (
+                          <p className="text-gray-600">{item.speaker}</p>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
 
-              <div className="mt-12 bg-primary-50 rounded-2xl p-8 text-center border border-primary-100">
-                <p className="text-gray-700">
-                  Detailed schedule will be announced closer to the event date
-                </p>
-              </div>
+              {sessions.length === 0 && (
+                <div className="mt-12 bg-primary-50 rounded-2xl p-8 text-center border border-primary-100">
+                  <p className="text-gray-700">
+                    Detailed schedule will be announced closer to the event date
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -804,10 +1099,11 @@ const EventDetailsPage: React.FC = () => {
         )}
       </div>
 
-      {/* Staff Management Section (for organizers) */}
-      {canManage && (
+      {/* Organizer and Staff Management Section (for organizers) */}
+      {canManageStaff && (
         <div className="border-t border-gray-200 bg-white">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+            <OrganizerManagement eventId={event.id} />
             <StaffManagement eventId={event.id} />
           </div>
         </div>
@@ -821,6 +1117,63 @@ const EventDetailsPage: React.FC = () => {
           onClose={() => setShowShareModal(false)}
         />
       )}
+
+      {/* Ticket Types Modal */}
+      {showTierModal && (
+        <TicketTierModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowTierModal(false)}
+          onTiersChanged={fetchTicketTiers}
+        />
+      )}
+
+      {/* Promo Codes Modal */}
+      {showPromoModal && (
+        <PromoCodeModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowPromoModal(false)}
+        />
+      )}
+
+      {/* Refund Policy Modal */}
+      {showRefundModal && (
+        <RefundPolicyModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowRefundModal(false)}
+          onPolicyChanged={setRefundPolicy}
+        />
+      )}
+
+      {/* Ticket Security Modal */}
+      {showTicketKeysModal && (
+        <TicketKeysModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowTicketKeysModal(false)}
+        />
+      )}
+
+      {/* Agenda Modal */}
+      {showAgendaModal && (
+        <SessionAgendaModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowAgendaModal(false)}
+          onSessionsChanged={fetchSessions}
+        />
+      )}
+
+      {/* Invitations Modal */}
+      {showInviteModal && (
+        <InviteManagementModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowInviteModal(false)}
+        />
+      )}
     </div>
   );
 };
@@ -12,12 +12,24 @@ import {
   XCircle,
   Clock,
   X,
+  Send,
+  Hourglass,
+  RotateCcw,
 } from "lucide-react";
 import { BackButton } from "../components/common/BackButton";
 import { RegistrationService, Registration } from "../api/registrations";
 import { EventService, Event } from "../api/events";
 import { formatDate } from "../utils/dateUtils";
 import { Loader } from "../components/common/Loader";
+import { InviteManagementModal } from "../components/events/InviteManagementModal";
+import { RefundService } from "../api/refunds";
+import {
+  FormService,
+  type FileAnswer,
+  type FormField,
+  type FormVersion,
+} from "../api/forms";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
 
 const EventRegistrationsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -27,12 +39,21 @@ const EventRegistrationsPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedTab, setSelectedTab] = useState<
-    "all" | "confirmed" | "pending" | "cancelled"
+    "all" | "confirmed" | "pending" | "waitlisted" | "cancelled"
   >("all");
   const [selectedFormData, setSelectedFormData] = useState<{
     name: string;
     responses: Record<string, any>;
+    version?: FormVersion;
   } | null>(null);
+  // Newest first; answers are labelled from the version they were given for
+  const [formVersions, setFormVersions] = useState<FormVersion[]>([]);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<Registration | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [cancelOnRefund, setCancelOnRefund] = useState(true);
+  const [refunding, setRefunding] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -66,6 +87,12 @@ const EventRegistrationsPage: React.FC = () => {
             registrationsResponse.error || "Failed to load registrations"
           );
         }
+
+        // Events without a registration form have no versions
+        const versionsResponse = await FormService.getFormVersions(id).catch(
+          () => null
+        );
+        setFormVersions(versionsResponse?.data?.versions || []);
       } catch (err) {
         setError("Failed to load data");
         console.error("Event registrations error:", err);
@@ -77,6 +104,101 @@ const EventRegistrationsPage: React.FC = () => {
     fetchData();
   }, [id]);
 
+  const openRefundModal = (registration: Registration) => {
+    setRefundTarget(registration);
+    setRefundAmount("");
+    setRefundReason("");
+    setCancelOnRefund(true);
+  };
+
+  const handleRefund = async () => {
+    if (!refundTarget) return;
+
+    try {
+      setRefunding(true);
+      const response = await RefundService.refundRegistration(
+        refundTarget.id,
+        {
+          amount: refundAmount ? Number(refundAmount) : undefined,
+          reason: refundReason.trim() || undefined,
+          cancelRegistration: cancelOnRefund,
+        }
+      );
+
+      if (response.success && response.data) {
+        const { refund, registrationStatus, paymentStatus } = response.data;
+        showSuccessToast(response.message || "Refund issued");
+        setRegistrations((prev) =>
+          prev.map((registration) =>
+            registration.id === refund.registrationId
+              ? {
+                  ...registration,
+                  status: registrationStatus as Registration["status"],
+                  payment_status: paymentStatus,
+                }
+              : registration
+          )
+        );
+        setRefundTarget(null);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  // File answers are stored as references to the uploaded file
+  const isFileAnswer = (value: unknown): value is FileAnswer =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as FileAnswer).attachmentId === "string";
+
+  // Registrations from before versioning answered the first version
+  const getFormVersion = (registration: Registration) =>
+    formVersions.find(
+      (version) => version.id === registration.form_version_id
+    ) || formVersions[formVersions.length - 1];
+
+  // Every question ever asked, labelled as of the newest version asking it
+  const getAnswerColumns = () => {
+    const columns = new Map<string, FormField>();
+    formVersions.forEach((version) =>
+      version.fields.forEach((field) => {
+        if (!columns.has(field.id)) columns.set(field.id, field);
+      })
+    );
+    return Array.from(columns.values());
+  };
+
+  const formatAnswer = (value: unknown): string => {
+    if (value === undefined || value === null) return "";
+    if (isFileAnswer(value)) return value.fileName;
+    if (Array.isArray(value)) return value.map(String).join("; ");
+    if (typeof value === "object") {
+      return Object.entries(value)
+        .map(([key, item]) => `${key}: ${item}`)
+        .join("; ");
+    }
+    return String(value);
+  };
+
+  const downloadAttachment = async (file: FileAnswer) => {
+    if (!id) return;
+
+    try {
+      const blob = await FormService.downloadAttachment(id, file.attachmentId);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      showErrorToast(err);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "confirmed":
@@ -85,6 +207,8 @@ const EventRegistrationsPage: React.FC = () => {
         return <Clock className="h-5 w-5 text-yellow-500" />;
       case "cancelled":
         return <XCircle className="h-5 w-5 text-red-500" />;
+      case "waitlisted":
+        return <Hourglass className="h-5 w-5 text-purple-500" />;
       default:
         return <Clock className="h-5 w-5 text-gray-500" />;
     }
@@ -98,6 +222,8 @@ const EventRegistrationsPage: React.FC = () => {
         return "bg-yellow-100 text-yellow-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
+      case "waitlisted":
+        return "bg-purple-100 text-purple-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -116,20 +242,35 @@ const EventRegistrationsPage: React.FC = () => {
   const exportToCSV = () => {
     if (!registrations.length) return;
 
-    const headers = ["Name", "Email", "Phone", "Status", "Registration Date"];
-    const csvContent = [
-      headers.join(","),
-      ...filteredRegistrations.map((registration) => {
-        const user = registration.user;
-        return [
-          user?.name || "N/A",
-          user?.email || "N/A",
-          user?.phone_number || "N/A",
-          registration.status,
-          formatDate(registration.created_at),
-        ].join(",");
-      }),
-    ].join("\n");
+    const answerColumns = getAnswerColumns();
+    const headers = [
+      "Name",
+      "Email",
+      "Phone",
+      "Status",
+      "Registration Date",
+      "Form Version",
+      ...answerColumns.map((field) => field.label),
+    ];
+    const rows = filteredRegistrations.map((registration) => {
+      const user = registration.user;
+      return [
+        user?.name || "N/A",
+        user?.email || "N/A",
+        user?.phone_number || "N/A",
+        registration.status,
+        formatDate(registration.created_at),
+        getFormVersion(registration)?.version ?? "",
+        ...answerColumns.map((field) =>
+          formatAnswer(registration.responses?.[field.id])
+        ),
+      ];
+    });
+    const csvContent = [headers, ...rows]
+      .map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+      )
+      .join("\n");
 
     const blob = new Blob([csvContent], { type: "text/csv" });
     const url = window.URL.createObjectURL(blob);
@@ -177,14 +318,25 @@ const EventRegistrationsPage: React.FC = () => {
             label="Back to Event"
           />
 
-          <button
-            onClick={exportToCSV}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-            disabled={!filteredRegistrations.length}
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </button>
+          <div className="flex items-center space-x-3">
+            {event.visibility !== "public" && (
+              <button
+                onClick={() => setShowInviteModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Invitations
+              </button>
+            )}
+            <button
+              onClick={exportToCSV}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              disabled={!filteredRegistrations.length}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </button>
+          </div>
         </div>
 
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -224,6 +376,7 @@ const EventRegistrationsPage: React.FC = () => {
             { key: "all", label: "All Registrations" },
             { key: "confirmed", label: "Confirmed" },
             { key: "pending", label: "Pending" },
+            { key: "waitlisted", label: "Waitlisted" },
             { key: "cancelled", label: "Cancelled" },
           ].map((tab) => (
             <button
@@ -279,6 +432,38 @@ const EventRegistrationsPage: React.FC = () => {
                         >
                           {registration.status}
                         </span>
+                        {registration.ticket_tier && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {registration.ticket_tier.name}
+                          </span>
+                        )}
+                        {(registration.payment_status === "refunded" ||
+                          registration.payment_status ===
+                            "partially_refunded") && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            {registration.payment_status === "refunded"
+                              ? "refunded"
+                              : "partially refunded"}
+                          </span>
+                        )}
+                        {registration.payment_status === "refund_failed" && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            refund failed
+                          </span>
+                        )}
+                        {registration.status === "waitlisted" &&
+                          (registration.waitlist_offer_expires_at ? (
+                            <span className="text-xs text-green-700">
+                              Seat offered until{" "}
+                              {formatDate(registration.waitlist_offer_expires_at)}
+                            </span>
+                          ) : (
+                            registration.waitlist_position && (
+                              <span className="text-xs text-gray-500">
+                                Queue #{registration.waitlist_position}
+                              </span>
+                            )
+                          ))}
                       </div>
 
                       <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
@@ -310,6 +495,7 @@ const EventRegistrationsPage: React.FC = () => {
                             setSelectedFormData({
                               name: registration.name,
                               responses: registration.responses || {},
+                              version: getFormVersion(registration),
                             });
                           }}
                           className="inline-flex items-center p-2 border border-gray-300 rounded-md text-gray-400 hover:text-gray-500 hover:border-blue-500 hover:text-blue-500 transition-colors"
@@ -318,6 +504,17 @@ const EventRegistrationsPage: React.FC = () => {
                           <FileText className="h-4 w-4" />
                         </button>
                       )}
+                    {(registration.payment_status === "completed" ||
+                      registration.payment_status === "partially_refunded" ||
+                      registration.payment_status === "refund_failed") && (
+                      <button
+                        onClick={() => openRefundModal(registration)}
+                        className="inline-flex items-center p-2 border border-gray-300 rounded-md text-gray-400 hover:border-purple-500 hover:text-purple-500 transition-colors"
+                        title="Refund"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </li>
@@ -326,6 +523,95 @@ const EventRegistrationsPage: React.FC = () => {
         </div>
       )}
 
+      {/* Invitations Modal */}
+      {showInviteModal && (
+        <InviteManagementModal
+          eventId={event.id}
+          eventTitle={event.title}
+          onClose={() => setShowInviteModal(false)}
+        />
+      )}
+
+      {/* Refund Modal */}
+      {refundTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full overflow-hidden flex flex-col">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-purple-50 rounded-lg">
+                  <RotateCcw className="h-6 w-6 text-purple-600" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    Refund Registration
+                  </h2>
+                  <p className="text-sm text-gray-600">{refundTarget.name}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setRefundTarget(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Amount ($)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  placeholder="Full amount paid"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reason (optional)
+                </label>
+                <input
+                  type="text"
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={cancelOnRefund}
+                  onChange={(e) => setCancelOnRefund(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Also cancel this registration
+              </label>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+              <button
+                onClick={() => setRefundTarget(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleRefund}
+                disabled={refunding}
+                className="px-4 py-2 text-sm font-medium text-white bg-purple-600 border border-transparent rounded-md hover:bg-purple-700 disabled:opacity-50 transition-colors"
+              >
+                {refunding ? "Refunding..." : "Issue Refund"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Form Data Modal */}
       {selectedFormData && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -342,6 +628,8 @@ const EventRegistrationsPage: React.FC = () => {
                   </h2>
                   <p className="text-sm text-gray-600">
                     {selectedFormData.name}
+                    {selectedFormData.version &&
+                      ` · Form version ${selectedFormData.version.version}`}
                   </p>
                 </div>
               </div>
@@ -357,38 +645,59 @@ const EventRegistrationsPage: React.FC = () => {
             <div className="flex-1 overflow-y-auto p-6">
               <div className="space-y-4">
                 {Object.entries(selectedFormData.responses).map(
-                  ([key, value]) => (
-                    <div
-                      key={key}
-                      className="bg-gray-50 rounded-lg p-4 border border-gray-200"
-                    >
-                      <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">
-                        {key.replace(/([A-Z])/g, " $1").trim()}
-                      </label>
-                      <div className="text-gray-900">
-                        {typeof value === "object" && value !== null ? (
-                          <pre className="text-sm bg-white p-3 rounded border border-gray-200 overflow-x-auto">
-                            {JSON.stringify(value, null, 2)}
-                          </pre>
-                        ) : Array.isArray(value) ? (
-                          <div className="space-y-1">
-                            {value.map((item, idx) => (
-                              <div
-                                key={idx}
-                                className="text-sm bg-white px-3 py-2 rounded border border-gray-200"
-                              >
-                                {String(item)}
-                              </div>
-                            ))}
-                          </div>
-                        ) : (
-                          <p className="text-sm bg-white px-3 py-2 rounded border border-gray-200">
-                            {String(value)}
-                          </p>
-                        )}
+                  ([key, value]) => {
+                    // Answers outside the form (e.g. prefilled details) are
+                    // labelled from their key
+                    const field = selectedFormData.version?.fields.find(
+                      (item) => item.id === key
+                    );
+                    return (
+                      <div
+                        key={key}
+                        className="bg-gray-50 rounded-lg p-4 border border-gray-200"
+                      >
+                        <label
+                          className={`block text-sm font-medium text-gray-700 mb-2 ${
+                            field ? "" : "capitalize"
+                          }`}
+                        >
+                          {field?.label ||
+                            key.replace(/([A-Z])/g, " $1").trim()}
+                        </label>
+                        <div className="text-gray-900">
+                          {isFileAnswer(value) ? (
+                            <button
+                              onClick={() => downloadAttachment(value)}
+                              className="inline-flex items-center text-sm bg-white px-3 py-2 rounded border border-gray-200 text-blue-600 hover:border-blue-500"
+                            >
+                              <Download className="h-4 w-4 mr-2" />
+                              {value.fileName} (
+                              {Math.ceil(value.size / 1024)} KB)
+                            </button>
+                          ) : typeof value === "object" && value !== null ? (
+                            <pre className="text-sm bg-white p-3 rounded border border-gray-200 overflow-x-auto">
+                              {JSON.stringify(value, null, 2)}
+                            </pre>
+                          ) : Array.isArray(value) ? (
+                            <div className="space-y-1">
+                              {value.map((item, idx) => (
+                                <div
+                                  key={idx}
+                                  className="text-sm bg-white px-3 py-2 rounded border border-gray-200"
+                                >
+                                  {String(item)}
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm bg-white px-3 py-2 rounded border border-gray-200">
+                              {String(value)}
+                            </p>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )
+                    );
+                  }
                 )}
               </div>
             </div>
@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
-import { Calendar, MapPin, Search, Plus, Users, Ticket } from "lucide-react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Calendar, MapPin, Search, Plus, Users, Ticket, X } from "lucide-react";
 import { EventService, Event } from "../api/events";
+import { CategoryService, Category, TagUsage } from "../api/categories";
+import { CategoryIcon } from "../components/events/CategoryIcon";
 import { RegistrationService, Registration } from "../api/registrations";
 import { useAuth } from "../hooks/useAuth";
 import { Loader } from "../components/common/Loader";
@@ -21,6 +23,58 @@ const EventsPage: React.FC = () => {
   const [totalPages, setTotalPages] = useState(1);
   const [showUpcomingOnly, setShowUpcomingOnly] = useState(true);
   const [filterMode, setFilterMode] = useState<"all" | "free" | "week">("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [popularTags, setPopularTags] = useState<TagUsage[]>([]);
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+
+  // Category slugs and tags live in the URL so filtered views can be linked
+  const selectedCategories = searchParams.get("category")?.split(",") || [];
+  const selectedTags = searchParams.get("tag")?.split(",") || [];
+  const tagChips = [
+    ...new Set([...selectedTags, ...popularTags.map(({ tag }) => tag)]),
+  ];
+
+  const toggleFilter = (key: "category" | "tag", value: string) => {
+    const current = key === "category" ? selectedCategories : selectedTags;
+    const next = current.includes(value)
+      ? current.filter((item) => item !== value)
+      : [...current, value];
+
+    const params = new URLSearchParams(searchParams);
+    if (next.length > 0) {
+      params.set(key, next.join(","));
+    } else {
+      params.delete(key);
+    }
+    setSearchParams(params);
+    setPage(1);
+  };
+
+  const clearCategoryAndTagFilters = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("category");
+    params.delete("tag");
+    setSearchParams(params);
+    setPage(1);
+  };
+
+  const fetchFilters = async () => {
+    try {
+      const [categoriesRes, tagsRes] = await Promise.all([
+        CategoryService.getCategories(),
+        CategoryService.getPopularTags(15),
+      ]);
+      setCategories(categoriesRes.data?.categories || []);
+      setPopularTags(tagsRes.data?.tags || []);
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to fetch categories and tags:", err);
+      }
+    } finally {
+      setFiltersLoaded(true);
+    }
+  };
 
   const fetchUserRegistrations = async () => {
     if (!user) return;
@@ -49,6 +103,10 @@ const EventsPage: React.FC = () => {
         upcoming: showUpcomingOnly,
         free: filterMode === "free" ? true : undefined,
         week: filterMode === "week" ? true : undefined,
+        categoryIds: categories
+          .filter((category) => selectedCategories.includes(category.slug))
+          .map((category) => category.id),
+        tags: selectedTags,
       });
 
       if (response.success && response.data) {
@@ -63,9 +121,15 @@ const EventsPage: React.FC = () => {
   };
 
   useEffect(() => {
+    fetchFilters();
+  }, []);
+
+  // Wait for categories so slugs in the URL can be turned into ids
+  useEffect(() => {
+    if (!filtersLoaded) return;
     fetchEvents();
     fetchUserRegistrations();
-  }, [page, showUpcomingOnly, filterMode, user]);
+  }, [page, showUpcomingOnly, filterMode, user, searchParams, filtersLoaded]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -270,6 +334,70 @@ const EventsPage: React.FC = () => {
               </button>
             </div>
           </div>
+
+          {/* Category and tag filters */}
+          {(categories.length > 0 || tagChips.length > 0) && (
+            <div className="mt-4 space-y-3">
+              {categories.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {categories.map((category) => {
+                    const selected = selectedCategories.includes(
+                      category.slug
+                    );
+                    return (
+                      <button
+                        key={category.id}
+                        onClick={() => toggleFilter("category", category.slug)}
+                        className={`inline-flex items-center text-sm px-3 py-1.5 rounded-full border transition-colors ${
+                          selected
+                            ? "text-white border-transparent"
+                            : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                        }`}
+                        style={
+                          selected
+                            ? { backgroundColor: category.color }
+                            : undefined
+                        }
+                      >
+                        <CategoryIcon
+                          icon={category.icon}
+                          className="w-4 h-4 mr-1.5"
+                          color={selected ? undefined : category.color}
+                        />
+                        {category.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              {tagChips.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {tagChips.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleFilter("tag", tag)}
+                      className={`text-xs px-2.5 py-1 rounded-full transition-colors ${
+                        selectedTags.includes(tag)
+                          ? "bg-gray-800 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {(selectedCategories.length > 0 || selectedTags.length > 0) && (
+                <button
+                  onClick={clearCategoryAndTagFilters}
+                  className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Clear category and tag filters
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -341,6 +469,19 @@ const EventsPage: React.FC = () => {
 
                     {/* Card Content */}
                     <div className="p-4">
+                      {event.category && (
+                        <div
+                          className="flex items-center text-xs font-medium mb-1"
+                          style={{ color: event.category.color }}
+                        >
+                          <CategoryIcon
+                            icon={event.category.icon}
+                            className="w-3 h-3 mr-1"
+                          />
+                          {event.category.name}
+                        </div>
+                      )}
+
                       {/* Date */}
                       <div className="text-sm font-medium text-orange-600 mb-2">
                         {new Date(event.start_date).toLocaleDateString(
@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   Download,
-  Star,
+  EyeOff,
   TrendingUp,
   Users,
   MessageSquare,
@@ -10,20 +10,155 @@ import {
 } from "lucide-react";
 import { BackButton } from "../components/common/BackButton";
 import { useEventStore } from "../store/eventStore";
-import { RegistrationService, Registration } from "../api/registrations";
+import {
+  FeedbackService,
+  FeedbackSubmission,
+  FeedbackSummary,
+  OptionCount,
+  QuestionSummary,
+} from "../api/feedback";
 import { Loader } from "../components/common/Loader";
+import { showErrorToast } from "../utils/toast";
+
+// Rankings read as "1. A, 2. B"; Likert grids as "Statement: choice"
+const formatAnswer = (value: unknown, type?: string): string => {
+  if (Array.isArray(value)) {
+    return type === "ranking"
+      ? value.map((item, index) => `${index + 1}. ${item}`).join(", ")
+      : value.map(String).join(", ");
+  }
+  if (typeof value === "object" && value !== null) {
+    const { fileName } = value as { fileName?: string };
+    return (
+      fileName ||
+      Object.entries(value)
+        .map(([row, choice]) => `${row}: ${choice}`)
+        .join("; ")
+    );
+  }
+  return String(value ?? "");
+};
 
-interface FeedbackStats {
-  totalResponses: number;
-  averageRating: number;
-  npsScore: number;
-  recommendationRate: number;
+function DistributionBars({ distribution }: { distribution: OptionCount[] }) {
+  return (
+    <div className="space-y-2">
+      {distribution.map((item) => (
+        <div key={item.option}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700">{item.option}</span>
+            <span className="text-gray-600">
+              {item.count} ({item.percentage.toFixed(1)}%)
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-primary-600 h-2 rounded-full"
+              style={{ width: `${item.percentage}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
 }
 
-interface RatingDistribution {
-  rating: string;
-  count: number;
-  percentage: number;
+function QuestionResults({ question }: { question: QuestionSummary }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-900">{question.label}</h3>
+        <span className="text-sm text-gray-500">
+          {question.responseCount} response
+          {question.responseCount !== 1 ? "s" : ""}
+          {question.average != null &&
+            ` · average ${question.average.toFixed(1)}`}
+        </span>
+      </div>
+
+      {question.nps && (
+        <div className="grid grid-cols-4 gap-3 mb-4 text-center">
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-2xl font-bold text-gray-900">
+              {question.nps.score}
+            </p>
+            <p className="text-xs text-gray-600">NPS</p>
+          </div>
+          <div className="bg-green-50 p-3 rounded-lg">
+            <p className="text-2xl font-bold text-green-700">
+              {question.nps.promoters}
+            </p>
+            <p className="text-xs text-gray-600">Promoters (9-10)</p>
+          </div>
+          <div className="bg-yellow-50 p-3 rounded-lg">
+            <p className="text-2xl font-bold text-yellow-700">
+              {question.nps.passives}
+            </p>
+            <p className="text-xs text-gray-600">Passives (7-8)</p>
+          </div>
+          <div className="bg-red-50 p-3 rounded-lg">
+            <p className="text-2xl font-bold text-red-700">
+              {question.nps.detractors}
+            </p>
+            <p className="text-xs text-gray-600">Detractors (0-6)</p>
+          </div>
+        </div>
+      )}
+
+      {question.distribution && (
+        <DistributionBars distribution={question.distribution} />
+      )}
+
+      {question.rows && (
+        <div className="space-y-6">
+          {question.rows.map((row) => (
+            <div key={row.row}>
+              <p className="text-sm font-medium text-gray-800 mb-2">
+                {row.row}
+              </p>
+              <DistributionBars distribution={row.distribution} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {question.ranking && (
+        <ol className="space-y-2">
+          {question.ranking.map((item, index) => (
+            <li
+              key={item.option}
+              className="flex items-center justify-between text-sm bg-gray-50 p-3 rounded-lg"
+            >
+              <span className="font-medium text-gray-800">
+                {index + 1}. {item.option}
+              </span>
+              <span className="text-gray-600">
+                {item.averagePosition != null
+                  ? `average position ${item.averagePosition.toFixed(1)}`
+                  : "not ranked"}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {question.textAnswers && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {question.textAnswers.length === 0 ? (
+            <p className="text-sm text-gray-500">No answers yet</p>
+          ) : (
+            question.textAnswers.map((answer, index) => (
+              <p
+                key={index}
+                className="text-sm text-gray-800 bg-gray-50 p-3 rounded-lg"
+              >
+                {answer}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function FeedbackResponsesPage() {
@@ -32,148 +167,68 @@ export default function FeedbackResponsesPage() {
   const { events, selectedEvent, loadEvent } = useEventStore();
   const event = events.find((e) => e.id === eventId) || selectedEvent;
 
-  const [responses, setResponses] = useState<Registration[]>([]);
+  const [submissions, setSubmissions] = useState<FeedbackSubmission[]>([]);
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState<FeedbackStats>({
-    totalResponses: 0,
-    averageRating: 0,
-    npsScore: 0,
-    recommendationRate: 0,
-  });
-  const [ratingDistribution, setRatingDistribution] = useState<
-    RatingDistribution[]
-  >([]);
 
   useEffect(() => {
     if (eventId) {
       loadEvent(eventId);
-      fetchFeedbackResponses();
+      fetchFeedback();
     }
   }, [eventId]);
 
-  const fetchFeedbackResponses = async () => {
+  const fetchFeedback = async () => {
     if (!eventId) return;
 
     try {
       setLoading(true);
-      const result = await RegistrationService.getEventRegistrations(eventId);
+      const [summaryResult, submissionsResult] = await Promise.all([
+        FeedbackService.getSummary(eventId),
+        FeedbackService.getSubmissions(eventId),
+      ]);
 
-      if (result.success && result.data) {
-        setResponses(result.data.registrations);
-        calculateStats(result.data.registrations);
+      if (summaryResult.success && summaryResult.data) {
+        setSummary(summaryResult.data.summary);
+      }
+      if (submissionsResult.success && submissionsResult.data) {
+        setSubmissions(submissionsResult.data.submissions);
       }
     } catch (error) {
-      console.error("Failed to fetch feedback responses:", error);
+      showErrorToast(error);
     } finally {
       setLoading(false);
     }
   };
 
-  const calculateStats = (data: Registration[]) => {
-    if (data.length === 0) return;
-
-    // Calculate average rating
-    const ratings: number[] = [];
-    const npsScores: number[] = [];
-    const recommendations: string[] = [];
-    const distribution: { [key: string]: number } = {};
-
-    data.forEach((response) => {
-      const formData = response.responses || {};
-
-      // Extract ratings (looking for fields with "rating" in the ID)
-      Object.entries(formData).forEach(([key, value]) => {
-        if (
-          key.includes("rating") &&
-          typeof value === "string" &&
-          !isNaN(Number(value))
-        ) {
-          const rating = Number(value);
-          ratings.push(rating);
-
-          // Build distribution
-          const ratingKey = `${rating} Star${rating !== 1 ? "s" : ""}`;
-          distribution[ratingKey] = (distribution[ratingKey] || 0) + 1;
-        }
-
-        // Extract NPS scores
-        if (key.includes("nps") && !isNaN(Number(value))) {
-          npsScores.push(Number(value));
-        }
-
-        // Extract recommendations
-        if (key.includes("recommend")) {
-          recommendations.push(String(value).toLowerCase());
-        }
-      });
-    });
-
-    // Calculate average rating
-    const avgRating =
-      ratings.length > 0
-        ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length
-        : 0;
-
-    // Calculate NPS (promoters - detractors) / total * 100
-    const promoters = npsScores.filter((s) => s >= 9).length;
-    const detractors = npsScores.filter((s) => s <= 6).length;
-    const nps =
-      npsScores.length > 0
-        ? ((promoters - detractors) / npsScores.length) * 100
-        : 0;
-
-    // Calculate recommendation rate
-    const yesRecommendations = recommendations.filter((r) =>
-      r.includes("yes")
-    ).length;
-    const recRate =
-      recommendations.length > 0
-        ? (yesRecommendations / recommendations.length) * 100
-        : 0;
-
-    // Build rating distribution array
-    const distArray = Object.entries(distribution)
-      .map(([rating, count]) => ({
-        rating,
-        count,
-        percentage: (count / ratings.length) * 100,
-      }))
-      .sort((a, b) => b.rating.localeCompare(a.rating));
-
-    setStats({
-      totalResponses: data.length,
-      averageRating: avgRating,
-      npsScore: nps,
-      recommendationRate: recRate,
-    });
-
-    setRatingDistribution(distArray);
-  };
+  const questions = summary?.questions || [];
+  const questionFor = (fieldId: string) =>
+    questions.find((question) => question.fieldId === fieldId);
+  const anonymousCount = submissions.filter((s) => s.is_anonymous).length;
 
   const exportToCSV = () => {
-    if (responses.length === 0) return;
-
-    // Get all unique field keys
-    const allKeys = new Set<string>();
-    responses.forEach((response) => {
-      Object.keys(response.responses || {}).forEach((key) => allKeys.add(key));
-    });
-
-    // Build CSV
-    const headers = ["Submitted At", "User Email", ...Array.from(allKeys)];
-    const rows = responses.map((response) => {
-      const formData = response.responses || {};
-      return [
-        new Date(response.created_at).toLocaleString(),
-        response.email || "N/A",
-        ...Array.from(allKeys).map((key) => formData[key] || ""),
-      ];
-    });
-
-    const csv = [
-      headers.join(","),
-      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-    ].join("\n");
+    if (submissions.length === 0) return;
+
+    const headers = [
+      "Submitted At",
+      "Attendee",
+      "Email",
+      ...questions.map((question) => question.label),
+    ];
+    const rows = submissions.map((submission) => [
+      new Date(submission.submitted_at).toLocaleString(),
+      submission.attendee?.name || "Anonymous",
+      submission.attendee?.email || "",
+      ...questions.map((question) =>
+        formatAnswer(submission.responses[question.fieldId], question.type)
+      ),
+    ]);
+
+    const csv = [headers, ...rows]
+      .map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+      )
+      .join("\n");
 
     // Download
     const blob = new Blob([csv], { type: "text/csv" });
@@ -214,7 +269,8 @@ export default function FeedbackResponsesPage() {
             </div>
             <button
               onClick={exportToCSV}
-              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+              disabled={submissions.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
             >
               <Download className="w-4 h-4" />
               Export CSV
@@ -233,11 +289,11 @@ export default function FeedbackResponsesPage() {
                   Total Responses
                 </p>
                 <p className="text-3xl font-bold text-gray-900 mt-2">
-                  {stats.totalResponses}
+                  {summary?.totalSubmissions || 0}
                 </p>
               </div>
               <div className="p-3 bg-blue-100 rounded-lg">
-                <Users className="w-6 h-6 text-blue-600" />
+                <MessageSquare className="w-6 h-6 text-blue-600" />
               </div>
             </div>
           </div>
@@ -246,17 +302,14 @@ export default function FeedbackResponsesPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">
-                  Average Rating
+                  Response Rate
+                </p>
+                <p className="text-3xl font-bold text-gray-900 mt-2">
+                  {(summary?.responseRate || 0).toFixed(0)}%
                 </p>
-                <div className="flex items-center mt-2">
-                  <p className="text-3xl font-bold text-gray-900">
-                    {stats.averageRating.toFixed(1)}
-                  </p>
-                  <Star className="w-5 h-5 text-yellow-400 ml-2 fill-current" />
-                </div>
               </div>
-              <div className="p-3 bg-yellow-100 rounded-lg">
-                <Star className="w-6 h-6 text-yellow-600" />
+              <div className="p-3 bg-green-100 rounded-lg">
+                <TrendingUp className="w-6 h-6 text-green-600" />
               </div>
             </div>
           </div>
@@ -264,20 +317,15 @@ export default function FeedbackResponsesPage() {
           <div className="bg-white rounded-lg shadow-sm p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">NPS Score</p>
-                <p className="text-3xl font-bold text-gray-900 mt-2">
-                  {stats.npsScore.toFixed(0)}
+                <p className="text-sm font-medium text-gray-600">
+                  Checked-in Attendees
                 </p>
-                <p className="text-xs text-gray-500 mt-1">
-                  {stats.npsScore >= 50
-                    ? "Excellent"
-                    : stats.npsScore >= 0
-                    ? "Good"
-                    : "Needs Improvement"}
+                <p className="text-3xl font-bold text-gray-900 mt-2">
+                  {summary?.attendeeCount || 0}
                 </p>
               </div>
-              <div className="p-3 bg-green-100 rounded-lg">
-                <TrendingUp className="w-6 h-6 text-green-600" />
+              <div className="p-3 bg-yellow-100 rounded-lg">
+                <Users className="w-6 h-6 text-yellow-600" />
               </div>
             </div>
           </div>
@@ -285,45 +333,28 @@ export default function FeedbackResponsesPage() {
           <div className="bg-white rounded-lg shadow-sm p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">
-                  Would Recommend
-                </p>
+                <p className="text-sm font-medium text-gray-600">Anonymous</p>
                 <p className="text-3xl font-bold text-gray-900 mt-2">
-                  {stats.recommendationRate.toFixed(0)}%
+                  {anonymousCount}
                 </p>
               </div>
               <div className="p-3 bg-purple-100 rounded-lg">
-                <MessageSquare className="w-6 h-6 text-purple-600" />
+                <EyeOff className="w-6 h-6 text-purple-600" />
               </div>
             </div>
           </div>
         </div>
 
-        {/* Rating Distribution */}
-        {ratingDistribution.length > 0 && (
+        {/* Per-question results */}
+        {questions.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
             <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
               <BarChart3 className="w-5 h-5 mr-2" />
-              Rating Distribution
+              Results by Question
             </h2>
-            <div className="space-y-3">
-              {ratingDistribution.map((dist) => (
-                <div key={dist.rating}>
-                  <div className="flex items-center justify-between text-sm mb-1">
-                    <span className="font-medium text-gray-700">
-                      {dist.rating}
-                    </span>
-                    <span className="text-gray-600">
-                      {dist.count} ({dist.percentage.toFixed(1)}%)
-                    </span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-primary-600 h-2 rounded-full"
-                      style={{ width: `${dist.percentage}%` }}
-                    />
-                  </div>
-                </div>
+            <div className="space-y-8">
+              {questions.map((question) => (
+                <QuestionResults key={question.fieldId} question={question} />
               ))}
             </div>
           </div>
@@ -337,43 +368,35 @@ export default function FeedbackResponsesPage() {
             </h2>
           </div>
           <div className="divide-y">
-            {responses.length === 0 ? (
+            {submissions.length === 0 ? (
               <div className="p-12 text-center">
                 <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-gray-600">No feedback responses yet</p>
               </div>
             ) : (
-              responses.map((response) => (
-                <div key={response.id} className="p-6">
+              submissions.map((submission) => (
+                <div key={submission.id} className="p-6">
                   <div className="flex items-start justify-between mb-4">
                     <div>
                       <p className="font-medium text-gray-900">
-                        {response.email || response.name || "Anonymous"}
+                        {submission.attendee
+                          ? `${submission.attendee.name} (${submission.attendee.email})`
+                          : "Anonymous"}
                       </p>
                       <p className="text-sm text-gray-500">
-                        {new Date(response.created_at).toLocaleString()}
+                        {new Date(submission.submitted_at).toLocaleString()}
                       </p>
                     </div>
                   </div>
                   <div className="space-y-3">
-                    {Object.entries(response.responses || {}).map(
-                      ([key, value]) => (
-                        <div key={key} className="bg-gray-50 p-3 rounded-lg">
+                    {Object.entries(submission.responses).map(
+                      ([fieldId, value]) => (
+                        <div key={fieldId} className="bg-gray-50 p-3 rounded-lg">
                           <p className="text-sm font-medium text-gray-700 mb-1">
-                            {key
-                              .split("-")
-                              .map(
-                                (word) =>
-                                  word.charAt(0).toUpperCase() + word.slice(1)
-                              )
-                              .join(" ")}
+                            {questionFor(fieldId)?.label || fieldId}
                           </p>
                           <p className="text-gray-900">
-                            {typeof value === "string" &&
-                            !isNaN(Number(value)) &&
-                            Number(value) <= 5
-                              ? "⭐".repeat(Number(value))
-                              : String(value)}
+                            {formatAnswer(value, questionFor(fieldId)?.type)}
                           </p>
                         </div>
                       )
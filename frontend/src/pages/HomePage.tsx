@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import {
   Calendar,
@@ -12,8 +12,20 @@ import {
   TrendingUp,
   Menu,
 } from "lucide-react";
+import { CategoryService, Category } from "../api/categories";
+import { CategoryIcon } from "../components/events/CategoryIcon";
 
 const HomePage: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    CategoryService.getCategories()
+      .then((response) => setCategories(response.data?.categories || []))
+      .catch(() => {
+        // The category section simply stays hidden
+      });
+  }, []);
+
   const features = [
     {
       icon: Calendar,
@@ -280,6 +292,41 @@ const HomePage: React.FC = () => {
         </div>
       </section>
 
+      {/* Browse by Category */}
+      {categories.length > 0 && (
+        <section className="py-16 bg-white">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h2 className="text-3xl font-bold text-gray-900 mb-8 text-center">
+              Browse events by category
+            </h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              {categories.map((category) => (
+                <Link
+                  key={category.id}
+                  to={`/events?category=${category.slug}`}
+                  className="group flex flex-col items-center p-5 rounded-2xl border-2 border-gray-200 hover:shadow-lg transition-all"
+                  style={{ borderColor: `${category.color}40` }}
+                >
+                  <div
+                    className="w-12 h-12 rounded-xl flex items-center justify-center mb-3 group-hover:scale-110 transition-transform"
+                    style={{ backgroundColor: `${category.color}1a` }}
+                  >
+                    <CategoryIcon
+                      icon={category.icon}
+                      className="w-6 h-6"
+                      color={category.color}
+                    />
+                  </div>
+                  <span className="text-sm font-medium text-gray-900 text-center">
+                    {category.name}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Features Section */}
       <section id="features" className="py-20 bg-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Calendar, MapPin, Mail, XCircle } from "lucide-react";
+import {
+  InvitationService,
+  InvitationPreview,
+} from "../api/invitations";
+import { Loader } from "../components/common/Loader";
+import { formatDate } from "../utils/dateUtils";
+import { parseError } from "../utils/toast";
+
+const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [preview, setPreview] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      if (!token) {
+        setError("Invitation link is invalid");
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await InvitationService.getInvitationByToken(token);
+        if (response.success && response.data) {
+          setPreview(response.data);
+        } else {
+          setError(response.error || "Invitation not found");
+        }
+      } catch (err) {
+        setError(parseError(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  if (loading) {
+    return <Loader size="full" text="Loading invitation..." />;
+  }
+
+  if (error || !preview) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <div className="text-center">
+          <XCircle className="mx-auto h-12 w-12 text-red-400 mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Invitation Unavailable
+          </h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <button
+            onClick={() => navigate("/events")}
+            className="btn btn-secondary"
+          >
+            Browse Events
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { event, invitation } = preview;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="bg-gradient-to-r from-primary-600 to-purple-600 p-8 text-white">
+          <div className="flex items-center gap-2 text-white/80 text-sm mb-2">
+            <Mail className="h-4 w-4" />
+            <span>
+              {invitation.name ? `${invitation.name}, you're` : "You're"}{" "}
+              invited
+            </span>
+          </div>
+          <h1 className="text-3xl font-bold">{event.title}</h1>
+          {event.organizer && (
+            <p className="mt-2 text-white/80">
+              Hosted by{" "}
+              {event.organizer.organization_name || event.organizer.name}
+            </p>
+          )}
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="space-y-3 text-gray-700">
+            <div className="flex items-center">
+              <Calendar className="h-5 w-5 mr-3 text-gray-400" />
+              {formatDate(event.start_date)}
+            </div>
+            <div className="flex items-center">
+              <MapPin className="h-5 w-5 mr-3 text-gray-400" />
+              {event.location}
+            </div>
+          </div>
+
+          {event.description && (
+            <p className="text-gray-600">{event.description}</p>
+          )}
+
+          {invitation.email && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+              This invitation was sent to <strong>{invitation.email}</strong>.
+              Please register with the account that uses this address.
+            </div>
+          )}
+
+          {invitation.expires_at && (
+            <p className="text-sm text-gray-500">
+              Invitation expires {formatDate(invitation.expires_at)}
+            </p>
+          )}
+
+          <button
+            onClick={() =>
+              navigate(`/events/${event.id}/register?invite=${token}`)
+            }
+            className="w-full px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium shadow-sm"
+          >
+            Accept Invitation & Register
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import {
   Calendar,
   MapPin,
@@ -9,8 +9,11 @@ import {
   AlertTriangle,
   Ticket,
   CreditCard,
+  Hourglass,
+  CheckCircle,
 } from "lucide-react";
 import { RegistrationService } from "../api/registrations";
+import { RefundService } from "../api/refunds";
 import { formatDate } from "../utils/dateUtils.ts";
 import { Loader } from "../components/common/Loader";
 import { truncateText, isTruncated } from "../utils/textUtils";
@@ -21,6 +24,8 @@ const MyRegistrationsPage: React.FC = () => {
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const navigate = useNavigate();
 
   const fetchRegistrations = async () => {
     try {
@@ -39,17 +44,40 @@ const MyRegistrationsPage: React.FC = () => {
     fetchRegistrations();
   }, []);
 
-  const handleCancelRegistration = async (eventId: string) => {
-    if (
-      !window.confirm(
-        "Are you sure you want to cancel your registration for this event?"
-      )
-    ) {
+  // Paid attendees are told what the refund policy gives back before confirming
+  const getCancelConfirmation = async (registration: Registration) => {
+    const message =
+      "Are you sure you want to cancel your registration for this event?";
+    if (registration.payment_status !== "completed") return message;
+
+    try {
+      const response = await RefundService.getRefundQuote(registration.id);
+      const quote = response.data?.quote;
+      if (!quote) return message;
+
+      return quote.eligible
+        ? `${message}\n\nYou will be refunded $${quote.amount.toFixed(
+            2
+          )} of the $${quote.paidAmount.toFixed(2)} you paid.`
+        : `${message}\n\nNo refund will be issued: ${quote.reason}.`;
+    } catch (error) {
+      console.error("Failed to fetch refund quote:", error);
+      return message;
+    }
+  };
+
+  const handleCancelRegistration = async (registration: Registration) => {
+    if (!window.confirm(await getCancelConfirmation(registration))) {
       return;
     }
 
     try {
-      await RegistrationService.cancelRegistration(eventId);
+      const response = await RegistrationService.cancelRegistration(
+        registration.id
+      );
+      if (response.data?.refund && response.message) {
+        alert(response.message);
+      }
       fetchRegistrations();
     } catch (error) {
       console.error("Failed to cancel registration:", error);
@@ -77,6 +105,43 @@ const MyRegistrationsPage: React.FC = () => {
     }
   };
 
+  const handleClaimSpot = async (registration: Registration) => {
+    try {
+      setClaimingId(registration.id);
+      const response = await RegistrationService.claimWaitlistSpot(
+        registration.id
+      );
+
+      if (response.data?.requiresPayment && registration.event) {
+        navigate(`/events/${registration.event.id}/payment`, {
+          state: {
+            registration: { ...registration, status: "pending" },
+            amount: response.data.amount,
+            message: "Complete your payment to confirm your waitlist seat",
+          },
+        });
+        return;
+      }
+
+      fetchRegistrations();
+    } catch (error) {
+      console.error("Failed to claim waitlist spot:", error);
+      const apiError = error as any;
+      alert(
+        apiError?.response?.error ||
+          "Failed to claim your spot. The offer may have expired."
+      );
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  // A seat is being held for this registration and can be claimed now
+  const hasActiveOffer = (registration: Registration): boolean =>
+    registration.status === "waitlisted" &&
+    !!registration.waitlist_offer_expires_at &&
+    new Date(registration.waitlist_offer_expires_at) > new Date();
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "confirmed":
@@ -85,6 +150,8 @@ const MyRegistrationsPage: React.FC = () => {
         return "bg-yellow-100 text-yellow-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
+      case "waitlisted":
+        return "bg-purple-100 text-purple-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -98,6 +165,11 @@ const MyRegistrationsPage: React.FC = () => {
         return "bg-yellow-100 text-yellow-800";
       case "failed":
         return "bg-red-100 text-red-800";
+      case "refunded":
+      case "partially_refunded":
+        return "bg-purple-100 text-purple-800";
+      case "refund_failed":
+        return "bg-red-100 text-red-800";
       case null:
         return "bg-blue-100 text-blue-800";
       default:
@@ -106,10 +178,15 @@ const MyRegistrationsPage: React.FC = () => {
   };
 
   const canAccessTicket = (registration: Registration): boolean => {
-    if (registration.status === "cancelled") return false;
+    if (
+      registration.status === "cancelled" ||
+      registration.status === "waitlisted"
+    )
+      return false;
 
-    // For paid events, payment must be completed
-    if (registration.event?.is_paid) {
+    // For paid events, payment must be completed (free ticket tiers on a
+    // paid event never carry a payment status)
+    if (registration.event?.is_paid && registration.payment_status) {
       return registration.payment_status === "completed";
     }
 
@@ -275,11 +352,44 @@ const MyRegistrationsPage: React.FC = () => {
                         </div>
                       </div>
 
-                      {/* Price info for paid events */}
-                      {event.is_paid && event.price && (
+                      {/* Waitlist info */}
+                      {registration.status === "waitlisted" &&
+                        (hasActiveOffer(registration) ? (
+                          <div className="mt-3 flex items-center text-sm text-green-700 bg-green-50 border border-green-200 rounded-md px-3 py-2">
+                            <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                            A seat opened up for you! Claim it before{" "}
+                            {formatDate(
+                              registration.waitlist_offer_expires_at as string
+                            )}
+                          </div>
+                        ) : (
+                          registration.waitlist_position && (
+                            <div className="mt-3 flex items-center text-sm text-purple-700">
+                              <Hourglass className="h-4 w-4 mr-2 flex-shrink-0" />
+                              You're #{registration.waitlist_position} on the
+                              waitlist
+                            </div>
+                          )
+                        ))}
+
+                      {/* Ticket tier and price info for paid events */}
+                      {registration.ticket_tier ? (
                         <div className="mt-3 text-sm text-gray-600">
-                          Event Price: ${event.price}
+                          Ticket: {registration.ticket_tier.name}
+                          {Number(registration.ticket_tier.price) > 0 &&
+                            ` ($${registration.ticket_tier.price})`}
+                          {Number(registration.discount_amount) > 0 &&
+                            ` · Promo -$${Number(
+                              registration.discount_amount
+                            ).toFixed(2)}`}
                         </div>
+                      ) : (
+                        event.is_paid &&
+                        event.price && (
+                          <div className="mt-3 text-sm text-gray-600">
+                            Event Price: ${event.price}
+                          </div>
+                        )
                       )}
                     </div>
 
@@ -295,13 +405,31 @@ const MyRegistrationsPage: React.FC = () => {
                         </Link>
                       )}
 
+                      {hasActiveOffer(registration) && (
+                        <button
+                          onClick={() => handleClaimSpot(registration)}
+                          disabled={claimingId === registration.id}
+                          className="inline-flex items-center px-3 py-2 border border-green-300 shadow-sm text-sm leading-4 font-medium rounded-md text-green-700 bg-white hover:bg-green-50 disabled:opacity-50"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          {claimingId === registration.id
+                            ? "Claiming..."
+                            : "Claim Spot"}
+                        </button>
+                      )}
+
                       {event.is_paid &&
                         registration.payment_status === "pending" && (
                           <Link
                             to={`/events/${event.id}/payment`}
                             state={{
                               registration: registration,
-                              amount: event.price || 0,
+                              amount:
+                                Number(
+                                  registration.ticket_tier?.price ??
+                                    event.price ??
+                                    0
+                                ) - (Number(registration.discount_amount) || 0),
                               message:
                                 "Complete your payment to confirm registration",
                             }}
@@ -321,10 +449,10 @@ const MyRegistrationsPage: React.FC = () => {
                       </Link>
 
                       {registration.status !== "cancelled" &&
-                        !canAccessTicket(registration) && (
+                        new Date(event.start_date) > new Date() && (
                           <button
                             onClick={() =>
-                              handleCancelRegistration(registration.id)
+                              handleCancelRegistration(registration)
                             }
                             className="inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
                           >
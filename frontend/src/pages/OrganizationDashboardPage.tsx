@@ -0,0 +1,487 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Building2, Calendar, Trash2, UserPlus, Users } from "lucide-react";
+import { useAuthStore } from "../store/authStore";
+import {
+  OrganizationService,
+  Organization,
+  OrganizationEvent,
+  OrganizationMember,
+  OrganizationRole,
+} from "../api/organizations";
+import { BackButton } from "../components/common/BackButton";
+import { Loader } from "../components/common/Loader";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+const OrganizationDashboardPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [events, setEvents] = useState<OrganizationEvent[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newMember, setNewMember] = useState<{
+    email: string;
+    role: OrganizationRole;
+  }>({ email: "", role: "member" });
+  const [settings, setSettings] = useState({
+    name: "",
+    description: "",
+    logoUrl: "",
+    brandColor: "",
+    stripeAccountId: "",
+  });
+
+  const fetchOrganization = async () => {
+    if (!id) return;
+    try {
+      const [organizationRes, eventsRes, membersRes] = await Promise.all([
+        OrganizationService.getOrganization(id),
+        OrganizationService.getEvents(id),
+        OrganizationService.getMembers(id),
+      ]);
+      if (organizationRes.success && organizationRes.data) {
+        const { organization } = organizationRes.data;
+        setOrganization(organization);
+        setSettings({
+          name: organization.name,
+          description: organization.description || "",
+          logoUrl: organization.logo_url || "",
+          brandColor: organization.brand_color || "",
+          stripeAccountId: organization.stripe_account_id || "",
+        });
+      }
+      setEvents(eventsRes.data?.events || []);
+      setMembers(membersRes.data?.members || []);
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [id]);
+
+  // Runs a change, reports it and reloads the page data unless told not to
+  const runAction = async (
+    action: () => Promise<{ success: boolean; message?: string }>,
+    reload = true
+  ) => {
+    setSaving(true);
+    try {
+      const response = await action();
+      if (response.success) {
+        showSuccessToast(response.message || "Saved");
+      }
+      if (reload) await fetchOrganization();
+      return response.success;
+    } catch (err) {
+      showErrorToast(err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader size="lg" text="Loading organization..." />
+      </div>
+    );
+  }
+
+  if (!id || !organization) {
+    return (
+      <div className="container mx-auto py-8 px-4 text-center text-gray-500">
+        Organization not found.
+      </div>
+    );
+  }
+
+  const isAdmin =
+    organization.role === "owner" || organization.role === "admin";
+  const isOwner = organization.role === "owner";
+  const brandColor = organization.brand_color || "#7c3aed";
+  const sendsFromMyGmail = organization.gmail_sender_user_id === user?.id;
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await runAction(() =>
+      OrganizationService.addMember(id, newMember.email, newMember.role)
+    );
+    if (added) setNewMember({ email: "", role: "member" });
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    const leaving = member.user_id === user?.id;
+    const message = leaving
+      ? `Leave ${organization.name}? Events you organize for it will stay with the organization.`
+      : `Remove ${member.user.name || member.user.email}? Events they organize for ${organization.name} will pass to an owner.`;
+    if (!confirm(message)) return;
+
+    const removed = await runAction(
+      () => OrganizationService.removeMember(id, member.user_id),
+      !leaving
+    );
+    if (removed && leaving) navigate("/organizations");
+  };
+
+  const saveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(() =>
+      OrganizationService.updateOrganization(id, {
+        name: settings.name,
+        description: settings.description || null,
+        logoUrl: settings.logoUrl || null,
+        brandColor: settings.brandColor || null,
+        ...(isOwner
+          ? { stripeAccountId: settings.stripeAccountId || null }
+          : {}),
+      })
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Branded header */}
+      <div
+        className="border-b bg-white border-t-4"
+        style={{ borderTopColor: brandColor }}
+      >
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <BackButton
+            onClick={() => navigate("/organizations")}
+            label="Organizations"
+            className="mb-4"
+          />
+          <div className="flex items-center space-x-4">
+            {organization.logo_url ? (
+              <img
+                src={organization.logo_url}
+                alt=""
+                className="w-14 h-14 rounded object-contain"
+              />
+            ) : (
+              <Building2 className="w-14 h-14" style={{ color: brandColor }} />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                {organization.name}
+              </h1>
+              {organization.description && (
+                <p className="text-sm text-gray-600">
+                  {organization.description}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Events */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Events</h2>
+            <Link
+              to={`/events/create?organizationId=${organization.id}`}
+              className="px-4 py-2 text-sm text-white rounded-md hover:opacity-90"
+              style={{ backgroundColor: brandColor }}
+            >
+              Create Event
+            </Link>
+          </div>
+          {events.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500">
+              This organization doesn't run any events yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {events.map((event) => (
+                <li key={event.id} className="px-6 py-4">
+                  <Link
+                    to={`/events/${event.id}`}
+                    className="font-medium text-gray-900 hover:underline"
+                  >
+                    {event.title}
+                  </Link>
+                  <div className="flex flex-wrap items-center gap-4 mt-1 text-xs text-gray-500">
+                    <span className="flex items-center">
+                      <Calendar className="w-3 h-3 mr-1" />
+                      {new Date(event.start_date).toLocaleDateString()}
+                    </span>
+                    <span className="flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {event.registrations?.[0]?.count || 0} registered
+                    </span>
+                    {event.organizer && (
+                      <span>
+                        Organizer:{" "}
+                        {event.organizer.name || event.organizer.email}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-8">
+          {/* Members */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Members</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {members.map((member) => (
+                <li
+                  key={member.id}
+                  className="px-6 py-3 flex items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {member.user.name || member.user.email}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {member.user.email}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {isAdmin && (isOwner || member.role !== "owner") ? (
+                      <select
+                        value={member.role}
+                        disabled={saving}
+                        onChange={(e) =>
+                          runAction(() =>
+                            OrganizationService.updateMember(
+                              id,
+                              member.user_id,
+                              e.target.value as OrganizationRole
+                            )
+                          )
+                        }
+                        className="text-xs border border-gray-300 rounded-md px-2 py-1"
+                      >
+                        {Object.entries(ROLE_LABELS)
+                          .filter(([role]) => isOwner || role !== "owner")
+                          .map(([role, label]) => (
+                            <option key={role} value={role}>
+                              {label}
+                            </option>
+                          ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-gray-600">
+                        {ROLE_LABELS[member.role]}
+                      </span>
+                    )}
+                    {(member.user_id === user?.id ||
+                      (isAdmin && (isOwner || member.role !== "owner"))) && (
+                      <button
+                        onClick={() => removeMember(member)}
+                        disabled={saving}
+                        className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        title={
+                          member.user_id === user?.id
+                            ? "Leave organization"
+                            : "Remove member"
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {isAdmin && (
+              <form
+                onSubmit={addMember}
+                className="px-6 py-4 border-t border-gray-200 space-y-2"
+              >
+                <input
+                  type="email"
+                  required
+                  value={newMember.email}
+                  onChange={(e) =>
+                    setNewMember({ ...newMember, email: e.target.value })
+                  }
+                  placeholder="teammate@example.com"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex space-x-2">
+                  <select
+                    value={newMember.role}
+                    onChange={(e) =>
+                      setNewMember({
+                        ...newMember,
+                        role: e.target.value as OrganizationRole,
+                      })
+                    }
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {Object.entries(ROLE_LABELS)
+                      .filter(([role]) => isOwner || role !== "owner")
+                      .map(([role, label]) => (
+                        <option key={role} value={role}>
+                          {label}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    <span>Add</span>
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+
+          {/* Email sender */}
+          <div className="bg-white rounded-lg shadow px-6 py-4">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">
+              Email Sender
+            </h2>
+            <p className="text-sm text-gray-600 mb-3">
+              {organization.gmail_sender_user_id
+                ? `Emails for this organization's events are sent from ${
+                    sendsFromMyGmail
+                      ? "your Gmail account"
+                      : "a teammate's Gmail account"
+                  }.`
+                : "Emails for this organization's events are sent from each event organizer's Gmail account."}
+            </p>
+            {isAdmin && (
+              <button
+                onClick={() =>
+                  runAction(() =>
+                    OrganizationService.updateOrganization(id, {
+                      gmailSenderUserId: sendsFromMyGmail ? null : user!.id,
+                    })
+                  )
+                }
+                disabled={saving}
+                className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+              >
+                {sendsFromMyGmail
+                  ? "Stop sending from my Gmail"
+                  : "Send from my Gmail"}
+              </button>
+            )}
+          </div>
+
+          {/* Settings */}
+          {isAdmin && (
+            <form
+              onSubmit={saveSettings}
+              className="bg-white rounded-lg shadow px-6 py-4 space-y-3"
+            >
+              <h2 className="text-lg font-medium text-gray-900">Settings</h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={settings.name}
+                  onChange={(e) =>
+                    setSettings({ ...settings, name: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  rows={2}
+                  value={settings.description}
+                  onChange={(e) =>
+                    setSettings({ ...settings, description: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Logo URL
+                </label>
+                <input
+                  type="url"
+                  value={settings.logoUrl}
+                  onChange={(e) =>
+                    setSettings({ ...settings, logoUrl: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Brand Color
+                </label>
+                <input
+                  type="color"
+                  value={settings.brandColor || "#7c3aed"}
+                  onChange={(e) =>
+                    setSettings({ ...settings, brandColor: e.target.value })
+                  }
+                  className="h-9 w-16 border border-gray-300 rounded-md"
+                />
+              </div>
+              {isOwner && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Stripe Account ID
+                  </label>
+                  <input
+                    type="text"
+                    value={settings.stripeAccountId}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        stripeAccountId: e.target.value,
+                      })
+                    }
+                    placeholder="acct_..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Ticket payments for this organization's events are paid
+                    out to this connected account.
+                  </p>
+                </div>
+              )}
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                Save Settings
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationDashboardPage;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Building2, Plus } from "lucide-react";
+import { useAuthStore } from "../store/authStore";
+import { OrganizationService, Organization } from "../api/organizations";
+import { Loader } from "../components/common/Loader";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
+
+const OrganizationsPage: React.FC = () => {
+  const { user } = useAuthStore();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newOrganization, setNewOrganization] = useState({
+    name: user?.organizationName || "",
+    description: "",
+  });
+
+  const fetchOrganizations = async () => {
+    try {
+      const response = await OrganizationService.getMyOrganizations();
+      if (response.success && response.data) {
+        setOrganizations(response.data.organizations);
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  const createOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await OrganizationService.createOrganization({
+        name: newOrganization.name,
+        description: newOrganization.description || undefined,
+      });
+      if (response.success) {
+        showSuccessToast(response.message || "Organization created");
+        setShowCreateForm(false);
+        setNewOrganization({ name: "", description: "" });
+        await fetchOrganizations();
+      }
+    } catch (err) {
+      showErrorToast(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader size="lg" text="Loading organizations..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Organizations</h1>
+        <button
+          onClick={() => setShowCreateForm(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700"
+        >
+          <Plus className="h-4 w-4" />
+          <span>New Organization</span>
+        </button>
+      </div>
+
+      {showCreateForm && (
+        <form
+          onSubmit={createOrganization}
+          className="bg-white rounded-2xl shadow p-6 mb-6 space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              required
+              value={newOrganization.name}
+              onChange={(e) =>
+                setNewOrganization({ ...newOrganization, name: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-purple-500 focus:border-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              rows={3}
+              value={newOrganization.description}
+              onChange={(e) =>
+                setNewOrganization({
+                  ...newOrganization,
+                  description: e.target.value,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-purple-500 focus:border-purple-500"
+            />
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving ? "Creating..." : "Create Organization"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCreateForm(false)}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {organizations.length === 0 ? (
+        <div className="bg-white rounded-2xl shadow p-12 text-center text-gray-500">
+          <Building2 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>
+            You don't belong to any organizations yet. Create one to run events
+            with your team.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {organizations.map((organization) => (
+            <Link
+              key={organization.id}
+              to={`/organizations/${organization.id}`}
+              className="bg-white rounded-2xl shadow p-6 hover:shadow-md transition-shadow border-t-4"
+              style={{
+                borderTopColor: organization.brand_color || "#7c3aed",
+              }}
+            >
+              <div className="flex items-center space-x-3 mb-2">
+                {organization.logo_url ? (
+                  <img
+                    src={organization.logo_url}
+                    alt=""
+                    className="w-10 h-10 rounded object-contain"
+                  />
+                ) : (
+                  <Building2 className="w-10 h-10 text-gray-400" />
+                )}
+                <div>
+                  <h2 className="font-semibold text-gray-900">
+                    {organization.name}
+                  </h2>
+                  <p className="text-xs text-gray-500 capitalize">
+                    {organization.role}
+                  </p>
+                </div>
+              </div>
+              {organization.description && (
+                <p className="text-sm text-gray-600 line-clamp-2">
+                  {organization.description}
+                </p>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrganizationsPage;
@@ -24,6 +24,12 @@ interface Registration {
   qr_code: string;
   status: string;
   payment_status?: string;
+  ticket_tier?: {
+    id: string;
+    name: string;
+    description?: string | null;
+    price: number;
+  } | null;
   event: {
     id: string;
     title: string;
@@ -270,22 +276,31 @@ export function ParticipantTicketPage() {
                   <div className="mt-1 font-semibold text-gray-900">
                     #{registration.id.slice(0, 8).toUpperCase()}
                   </div>
-                  {registration.event.is_paid && (
+                  {registration.ticket_tier && (
                     <div className="text-sm mt-1">
-                      <span className="text-gray-600 mr-1">Payment:</span>
-                      <span
-                        className={
-                          registration.payment_status === "completed"
-                            ? "text-green-600"
-                            : "text-yellow-700"
-                        }
-                      >
-                        {registration.payment_status === "completed"
-                          ? "Completed"
-                          : registration.payment_status || "Pending"}
+                      <span className="text-gray-600 mr-1">Ticket:</span>
+                      <span className="font-medium text-gray-900">
+                        {registration.ticket_tier.name}
                       </span>
                     </div>
                   )}
+                  {registration.event.is_paid &&
+                    registration.payment_status && (
+                      <div className="text-sm mt-1">
+                        <span className="text-gray-600 mr-1">Payment:</span>
+                        <span
+                          className={
+                            registration.payment_status === "completed"
+                              ? "text-green-600"
+                              : "text-yellow-700"
+                          }
+                        >
+                          {registration.payment_status === "completed"
+                            ? "Completed"
+                            : registration.payment_status || "Pending"}
+                        </span>
+                      </div>
+                    )}
                 </div>
               </div>
             </div>
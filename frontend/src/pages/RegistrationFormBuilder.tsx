@@ -16,11 +16,20 @@ import {
 import { BackButton } from "../components/common/BackButton";
 import { useEventStore } from "../store/eventStore.ts";
 import { useFormBuilderStore } from "../store/formBuilderStore";
-import { FormField } from "../api/forms";
+import { FieldType, FormField, FormService } from "../api/forms";
 import { FormTemplateModal } from "../components/forms/FormTemplateModal.tsx";
 import { ShareFormModal } from "../components/forms/ShareFormModal.tsx";
+import { ConditionalLogicEditor } from "../components/forms/ConditionalLogicEditor";
+import { FileUploadSettings } from "../components/forms/FileUploadSettings";
+import {
+  STRUCTURED_FIELD_TYPES,
+  StructuredFieldInput,
+  getStructuredFieldDefaults,
+} from "../components/forms/StructuredFieldInput";
+import { StructuredFieldSettings } from "../components/forms/StructuredFieldSettings";
 import { getTemplatesByType } from "../data/formTemplates";
 import { Loader } from "../components/common/Loader";
+import { showErrorToast } from "../utils/toast";
 
 export default function RegistrationFormBuilder() {
   const { id: eventId } = useParams<{ id: string }>();
@@ -102,6 +111,40 @@ export default function RegistrationFormBuilder() {
 
   const handleSaveForm = async () => {
     if (!eventId || !form) return;
+
+    // Existing answers stay tied to the version they were given for, but
+    // removed or retyped questions won't carry over to the new version
+    try {
+      const impact = await FormService.checkEditImpact(
+        eventId,
+        form.id,
+        form.fields
+      );
+      const orphaned = impact.data?.orphanedFields || [];
+      if (
+        orphaned.length > 0 &&
+        !window.confirm(
+          "These questions already have answers:\n\n" +
+            orphaned
+              .map(
+                (field) =>
+                  `• ${field.label} (${field.change}, ${
+                    field.responseCount
+                  } answer${field.responseCount !== 1 ? "s" : ""})`
+              )
+              .join("\n") +
+            "\n\nExisting answers will still show against the version " +
+            "they were given for, but won't appear on the new version. " +
+            "Save anyway?"
+        )
+      ) {
+        return;
+      }
+    } catch (error) {
+      showErrorToast(error);
+      return;
+    }
+
     await saveRegistrationForm(eventId);
   };
 
@@ -117,26 +160,14 @@ export default function RegistrationFormBuilder() {
     }
   };
 
-  const handleAddField = (
-    type:
-      | "text"
-      | "email"
-      | "phone"
-      | "textarea"
-      | "select"
-      | "radio"
-      | "checkbox"
-      | "file"
-      | "date"
-      | "number"
-      | "url"
-  ) => {
+  const handleAddField = (type: FieldType) => {
     const fieldId = `field_${Date.now()}`;
     const newField = {
       id: fieldId,
       type,
       label: `New ${type} field`,
       required: false,
+      ...getStructuredFieldDefaults(type),
     };
 
     const stepIndex = isMultiStep && form?.steps ? currentStep : undefined;
@@ -190,6 +221,11 @@ export default function RegistrationFormBuilder() {
     { type: "date", label: "Date Picker", icon: FileText },
     { type: "number", label: "Number", icon: FileText },
     { type: "url", label: "URL", icon: FileText },
+    { type: "rating", label: "Star Rating", icon: FileText },
+    { type: "nps", label: "NPS (0-10)", icon: FileText },
+    { type: "likert", label: "Likert Matrix", icon: FileText },
+    { type: "ranking", label: "Ranking", icon: FileText },
+    { type: "slider", label: "Slider", icon: FileText },
   ] as const;
 
   if (isLoading || eventLoading) {
@@ -381,7 +417,9 @@ export default function RegistrationFormBuilder() {
                       )}
                     </label>
 
-                    {field.type === "textarea" ? (
+                    {STRUCTURED_FIELD_TYPES.includes(field.type) ? (
+                      <StructuredFieldInput field={field} value={undefined} />
+                    ) : field.type === "textarea" ? (
                       <textarea
                         placeholder={field.placeholder}
                         className="w-full p-3 border border-gray-300 rounded-md"
@@ -614,6 +652,11 @@ export default function RegistrationFormBuilder() {
                                     <span className="px-2 py-1 text-xs text-gray-500 bg-gray-100 rounded-full capitalize">
                                       {field.type}
                                     </span>
+                                    {field.conditionalLogic && (
+                                      <span className="px-2 py-1 text-xs text-purple-700 bg-purple-100 rounded-full">
+                                        Conditional
+                                      </span>
+                                    )}
                                   </div>
                                   {field.placeholder && (
                                     <p className="text-xs text-gray-500 mt-1">
@@ -677,7 +720,15 @@ export default function RegistrationFormBuilder() {
 
                               {/* Field Preview */}
                               <div className="mt-3 opacity-80">
-                                {field.type === "textarea" ? (
+                                {STRUCTURED_FIELD_TYPES.includes(
+                                  field.type
+                                ) ? (
+                                  <StructuredFieldInput
+                                    field={field}
+                                    value={undefined}
+                                    disabled
+                                  />
+                                ) : field.type === "textarea" ? (
                                   <textarea
                                     placeholder={field.placeholder}
                                     className="w-full p-2 text-sm border border-gray-300 rounded-md bg-gray-50"
@@ -886,13 +937,19 @@ export default function RegistrationFormBuilder() {
                           </label>
                         </div>
 
-                        {/* Options for select, radio, checkbox */}
+                        {/* Options for choice, Likert and ranking fields */}
                         {(activeField.type === "select" ||
                           activeField.type === "radio" ||
-                          activeField.type === "checkbox") && (
+                          activeField.type === "checkbox" ||
+                          activeField.type === "likert" ||
+                          activeField.type === "ranking") && (
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                              Options
+                              {activeField.type === "likert"
+                                ? "Scale Options"
+                                : activeField.type === "ranking"
+                                ? "Items to Rank"
+                                : "Options"}
                             </label>
                             <div className="space-y-2">
                               {(activeField.options || []).map((opt, idx) => (
@@ -944,6 +1001,33 @@ export default function RegistrationFormBuilder() {
                             </div>
                           </div>
                         )}
+
+                        {/* Upload rules for file fields */}
+                        {activeField.type === "file" && (
+                          <FileUploadSettings
+                            field={activeField}
+                            onChange={(validation) =>
+                              updateField(activeFieldId, { validation })
+                            }
+                          />
+                        )}
+
+                        {/* Rating scale, Likert statements, slider range */}
+                        <StructuredFieldSettings
+                          field={activeField}
+                          onUpdate={(updates) =>
+                            updateField(activeFieldId, updates)
+                          }
+                        />
+
+                        {/* Conditional logic */}
+                        <ConditionalLogicEditor
+                          field={activeField}
+                          fields={form.fields}
+                          onChange={(conditionalLogic) =>
+                            updateField(activeFieldId, { conditionalLogic })
+                          }
+                        />
                       </div>
                     </div>
                   );
@@ -1,8 +1,14 @@
 import React, { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { EventService, Event } from "../api/events";
 import { RegistrationService } from "../api/registrations";
 import { FormService, Form } from "../api/forms";
+import { FeedbackService, FeedbackStatus } from "../api/feedback";
+import { InvitationService } from "../api/invitations";
+import { TicketTierService, TicketTier } from "../api/ticketTiers";
+import { PromoCodeService, PromoCodePreview } from "../api/promoCodes";
+import { SessionService, EventSession } from "../api/sessions";
+import { formatSessionTime } from "../components/events/SessionAgendaModal";
 import { useAuthStore } from "../store/authStore";
 import { handleError, ErrorPatterns } from "../utils/errorHandling";
 import { RegistrationFormRenderer } from "../components/forms/RegistrationFormRenderer";
@@ -14,10 +20,14 @@ import {
   dismissToast,
 } from "../utils/toast";
 import { invalidateDashboardCache } from "../utils/cacheInvalidation";
+import { ApiError } from "../api/client";
 
 const RegistrationFormPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite") || undefined;
+  const linkedTierId = searchParams.get("tier") || undefined;
   const { user } = useAuthStore();
 
   const [event, setEvent] = useState<Event | null>(null);
@@ -26,6 +36,27 @@ const RegistrationFormPage: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [isRegistered, setIsRegistered] = useState(false);
   const [formData, setFormData] = useState<Record<string, any>>({});
+  const [ticketTiers, setTicketTiers] = useState<TicketTier[]>([]);
+  const [selectedTierId, setSelectedTierId] = useState<string | undefined>(
+    linkedTierId
+  );
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<PromoCodePreview | null>(
+    null
+  );
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [feedbackStatus, setFeedbackStatus] = useState<FeedbackStatus | null>(
+    null
+  );
+  const [submitAnonymously, setSubmitAnonymously] = useState(false);
+
+  // A promo code preview is priced for one ticket type, so re-check on change
+  useEffect(() => {
+    setAppliedPromo(null);
+  }, [selectedTierId]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -38,8 +69,11 @@ const RegistrationFormPage: React.FC = () => {
       try {
         setLoading(true);
 
-        // Fetch event details
-        const eventResponse = await EventService.getEventById(id);
+        // Fetch event details - invite-only events are resolved through the
+        // invitation token since they are hidden from the public endpoint
+        const eventResponse = inviteToken
+          ? await InvitationService.getInvitationByToken(inviteToken)
+          : await EventService.getEventById(id);
         if (!eventResponse.success || !eventResponse.data) {
           showErrorToast(eventResponse.error || "Event not found");
           setLoading(false);
@@ -48,6 +82,36 @@ const RegistrationFormPage: React.FC = () => {
 
         setEvent(eventResponse.data.event);
 
+        // Fetch ticket types, including a hidden tier from a direct link
+        try {
+          const tiersResponse = await TicketTierService.getEventTiers(
+            id,
+            linkedTierId
+          );
+          if (tiersResponse.success && tiersResponse.data) {
+            const tiers = tiersResponse.data.tiers;
+            setTicketTiers(tiers);
+            const available = tiers.filter(
+              (tier) => tier.on_sale && tier.remaining !== 0
+            );
+            if (!linkedTierId && available.length === 1) {
+              setSelectedTierId(available[0].id);
+            }
+          }
+        } catch (tierError) {
+          // Events without ticket types fall back to the event price
+        }
+
+        // Fetch the agenda so attendees can sign up for sessions
+        try {
+          const sessionsResponse = await SessionService.getEventSessions(id);
+          if (sessionsResponse.success && sessionsResponse.data) {
+            setSessions(sessionsResponse.data.sessions);
+          }
+        } catch (sessionError) {
+          // Events without an agenda register for the event as a whole
+        }
+
         // Fetch custom registration form — allow loading feedback via ?type=feedback
         try {
           const searchParams = new URLSearchParams(window.location.search);
@@ -57,6 +121,16 @@ const RegistrationFormPage: React.FC = () => {
           const formResponse = await FormService.getForm(id, typeParam);
           if (formResponse.success && formResponse.data) {
             setRegistrationForm(formResponse.data.form);
+
+            // Feedback is limited to checked-in attendees, once each
+            if (user && formResponse.data.form.form_type === "feedback") {
+              const statusResponse = await FeedbackService.getFeedbackStatus(
+                id
+              );
+              if (statusResponse.success && statusResponse.data) {
+                setFeedbackStatus(statusResponse.data);
+              }
+            }
           }
         } catch (formError) {
           // No custom form found, will use default form
@@ -90,12 +164,42 @@ const RegistrationFormPage: React.FC = () => {
     };
 
     fetchData();
-  }, [id, user]);
+  }, [id, user, inviteToken, linkedTierId]);
 
   const handleInputChange = (fieldId: string, value: any) => {
     setFormData((prev) => ({ ...prev, [fieldId]: value }));
   };
 
+  const toggleSession = (sessionId: string) => {
+    setSelectedSessionIds((prev) =>
+      prev.includes(sessionId)
+        ? prev.filter((selected) => selected !== sessionId)
+        : [...prev, sessionId]
+    );
+  };
+
+  const handleApplyPromo = async () => {
+    if (!id || !promoCodeInput.trim()) return;
+
+    try {
+      setApplyingPromo(true);
+      const response = await PromoCodeService.validatePromoCode(
+        id,
+        promoCodeInput.trim(),
+        selectedTierId
+      );
+      if (response.success && response.data) {
+        setAppliedPromo(response.data);
+        showSuccessToast(`Promo code ${response.data.code} applied`);
+      }
+    } catch (err) {
+      setAppliedPromo(null);
+      showErrorToast(err);
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!event || !id || !user) return;
@@ -104,14 +208,49 @@ const RegistrationFormPage: React.FC = () => {
     const isFeedbackForm = registrationForm?.form_type === "feedback";
     let toastId: string | undefined;
 
+    if (!isFeedbackForm && ticketTiers.length > 0 && !selectedTierId) {
+      showErrorToast("Please select a ticket type");
+      return;
+    }
+
     try {
       setSubmitting(true);
       toastId = showLoadingToast(
         isFeedbackForm ? "Submitting feedback..." : "Registering for event..."
       );
 
+      if (isFeedbackForm && registrationForm) {
+        // Only the form's own answers, so prefilled profile details never
+        // end up in anonymous feedback
+        const fieldIds = new Set(registrationForm.fields.map((f) => f.id));
+        const response = await FeedbackService.submitFeedback(id, {
+          responses: Object.fromEntries(
+            Object.entries(formData).filter(([key]) => fieldIds.has(key))
+          ),
+          isAnonymous: submitAnonymously,
+        });
+        dismissToast(toastId);
+
+        if (response.success) {
+          const successMessage = "Thank you for your feedback!";
+          showSuccessToast(successMessage);
+          navigate(`/events/${id}`, {
+            state: {
+              message: successMessage,
+            },
+          });
+        } else {
+          showErrorToast(response.error || "Failed to submit feedback");
+        }
+        return;
+      }
+
       const response = await RegistrationService.registerForEvent(id, {
         formData: formData,
+        inviteToken,
+        ticketTierId: isFeedbackForm ? undefined : selectedTierId,
+        promoCode: isFeedbackForm ? undefined : appliedPromo?.code,
+        sessionIds: isFeedbackForm ? undefined : selectedSessionIds,
       });
 
       if (response.success && response.data) {
@@ -120,8 +259,16 @@ const RegistrationFormPage: React.FC = () => {
         // Invalidate dashboard cache so new registration appears immediately
         invalidateDashboardCache();
 
-        // Feedback forms don't require payment
-        if (!isFeedbackForm && response.data.requiresPayment) {
+        if (!isFeedbackForm && response.data.waitlisted) {
+          const waitlistMessage = `Event is full. You're #${response.data.waitlistPosition} on the waitlist.`;
+          showSuccessToast(waitlistMessage);
+          navigate("/my-registrations", {
+            state: {
+              message: waitlistMessage,
+            },
+          });
+        } else if (!isFeedbackForm && response.data.requiresPayment) {
+          // Feedback forms don't require payment
           showSuccessToast(
             "Registration successful! Redirecting to payment..."
           );
@@ -155,6 +302,10 @@ const RegistrationFormPage: React.FC = () => {
       }
     } catch (err) {
       if (toastId) dismissToast(toastId);
+      // The server names the form fields that failed validation
+      if (err instanceof ApiError && err.response.fieldErrors) {
+        setFieldErrors(err.response.fieldErrors);
+      }
       // Use the new error handling utility for consistent, user-friendly messages
       const errorMessage = handleError(err, ErrorPatterns.REGISTRATION);
       showErrorToast(errorMessage);
@@ -223,7 +374,6 @@ const RegistrationFormPage: React.FC = () => {
   const isFeedbackForm = registrationForm?.form_type === "feedback";
 
   // Don't show "already registered" message for feedback forms
-  // Feedback can be submitted multiple times
   if (isRegistered && !isFeedbackForm) {
     return (
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -260,6 +410,31 @@ const RegistrationFormPage: React.FC = () => {
     );
   }
 
+  if (isFeedbackForm && feedbackStatus && !feedbackStatus.canSubmit) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            {feedbackStatus.hasSubmitted
+              ? "Feedback Received"
+              : "Feedback Unavailable"}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {feedbackStatus.hasSubmitted
+              ? "Thanks, you've already shared feedback for this event."
+              : "Only attendees who checked in can leave feedback for this event."}
+          </p>
+          <button
+            onClick={() => navigate(`/events/${event.id}`)}
+            className="btn btn-secondary"
+          >
+            View Event Details
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   const startDate = new Date(event.start_date);
   const registrationDeadline = event.registration_deadline
     ? new Date(event.registration_deadline)
@@ -366,7 +541,7 @@ const RegistrationFormPage: React.FC = () => {
               {event.location}
             </span>
           </div>
-          {event.is_paid && (
+          {event.is_paid && ticketTiers.length === 0 && (
             <div className="mt-2">
               <span className="text-lg font-semibold text-gray-900">
                 ${event.price}
@@ -379,6 +554,178 @@ const RegistrationFormPage: React.FC = () => {
 
       {/* Registration Form */}
       <form onSubmit={onSubmit} className="space-y-6">
+        {!isFeedbackForm && ticketTiers.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Select a ticket
+            </h2>
+            <div className="space-y-3">
+              {ticketTiers.map((tier) => {
+                const unavailable = !tier.on_sale || tier.remaining === 0;
+                return (
+                  <label
+                    key={tier.id}
+                    className={`flex items-start justify-between gap-4 p-4 border rounded-lg ${
+                      unavailable
+                        ? "opacity-50 cursor-not-allowed"
+                        : "cursor-pointer hover:bg-gray-50"
+                    } ${
+                      selectedTierId === tier.id
+                        ? "border-primary-500 ring-1 ring-primary-500"
+                        : "border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="radio"
+                        name="ticketTier"
+                        value={tier.id}
+                        checked={selectedTierId === tier.id}
+                        disabled={unavailable}
+                        onChange={() => setSelectedTierId(tier.id)}
+                        className="mt-1"
+                      />
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {tier.name}
+                        </div>
+                        {tier.description && (
+                          <div className="text-sm text-gray-600">
+                            {tier.description}
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-500 mt-1">
+                          {!tier.on_sale
+                            ? "Not on sale"
+                            : tier.remaining === 0
+                            ? "Sold out"
+                            : tier.remaining !== null
+                            ? `${tier.remaining} left`
+                            : tier.sales_end
+                            ? `Available until ${new Date(
+                                tier.sales_end
+                              ).toLocaleDateString()}`
+                            : null}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="font-semibold text-gray-900 whitespace-nowrap">
+                      {Number(tier.price) > 0
+                        ? `$${Number(tier.price).toFixed(2)}`
+                        : "Free"}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {!isFeedbackForm && sessions.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">
+              Sessions
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Pick the sessions you plan to attend. Sessions that overlap can't
+              be combined.
+            </p>
+            <div className="space-y-3">
+              {sessions.map((session) => {
+                const selected = selectedSessionIds.includes(session.id);
+                const full = session.remaining === 0 && !selected;
+                return (
+                  <label
+                    key={session.id}
+                    className={`flex items-start gap-3 p-4 border rounded-lg ${
+                      full
+                        ? "opacity-50 cursor-not-allowed"
+                        : "cursor-pointer hover:bg-gray-50"
+                    } ${
+                      selected
+                        ? "border-primary-500 ring-1 ring-primary-500"
+                        : "border-gray-200"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected}
+                      disabled={full}
+                      onChange={() => toggleSession(session.id)}
+                      className="mt-1"
+                    />
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {session.title}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {formatSessionTime(session)}
+                        {session.room && ` · ${session.room}`}
+                        {session.speaker && ` · ${session.speaker}`}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {session.remaining === 0
+                          ? "Full"
+                          : session.remaining !== null
+                          ? `${session.remaining} seats left`
+                          : null}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {!isFeedbackForm && event.is_paid && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Promo code
+            </h2>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={promoCodeInput}
+                onChange={(e) => {
+                  setPromoCodeInput(e.target.value.toUpperCase());
+                  setAppliedPromo(null);
+                }}
+                placeholder="Enter a promo code"
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <button
+                type="button"
+                onClick={handleApplyPromo}
+                disabled={
+                  applyingPromo ||
+                  !promoCodeInput.trim() ||
+                  (ticketTiers.length > 0 && !selectedTierId)
+                }
+                className="px-4 py-2 text-sm font-medium text-primary-700 bg-white border border-primary-300 rounded-lg hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {applyingPromo ? "Applying..." : "Apply"}
+              </button>
+            </div>
+            {appliedPromo && (
+              <div className="mt-3 text-sm text-gray-700">
+                <span className="line-through text-gray-500 mr-2">
+                  ${appliedPromo.originalAmount.toFixed(2)}
+                </span>
+                <span className="font-semibold text-gray-900">
+                  {appliedPromo.finalAmount > 0
+                    ? `$${appliedPromo.finalAmount.toFixed(2)}`
+                    : "Free"}
+                </span>
+                <span className="ml-2 text-green-700">
+                  ({appliedPromo.code}: -$
+                  {appliedPromo.discountAmount.toFixed(2)})
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
         {registrationForm ? (
           // Render custom form
           <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -394,6 +741,7 @@ const RegistrationFormPage: React.FC = () => {
               form={registrationForm}
               onDataChange={setFormData}
               initialData={formData}
+              errors={fieldErrors}
             />
           </div>
         ) : (
@@ -406,7 +754,22 @@ const RegistrationFormPage: React.FC = () => {
         )}
 
         {/* Single Submit Button for both forms */}
-        <div className="flex justify-end">
+        <div
+          className={`flex items-center ${
+            isFeedbackForm ? "justify-between" : "justify-end"
+          }`}
+        >
+          {isFeedbackForm && (
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={submitAnonymously}
+                onChange={(e) => setSubmitAnonymously(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Submit anonymously
+            </label>
+          )}
           <button
             type="submit"
             disabled={submitting}
@@ -136,7 +136,14 @@ export const useFormBuilderStore = create<FormBuilderState>((set, get) => ({
     const { form } = get();
     if (!form) return;
 
-    const updatedFields = form.fields.filter((field) => field.id !== fieldId);
+    // Fields shown only for the removed field's answer become unconditional
+    const updatedFields = form.fields
+      .filter((field) => field.id !== fieldId)
+      .map((field) =>
+        field.conditionalLogic?.dependsOn === fieldId
+          ? { ...field, conditionalLogic: undefined }
+          : field
+      );
     let updatedSteps = form.steps || [];
 
     if (updatedSteps.length > 0) {
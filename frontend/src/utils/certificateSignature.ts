@@ -0,0 +1,60 @@
+import type {
+  CertificateClaims,
+  CertificateSigningKey,
+} from "../api/certificates";
+
+export interface SignatureCheck {
+  valid: boolean;
+  claims: CertificateClaims | null;
+  error?: string;
+}
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Check a certificate's QR signature ("<claims>.<signature>") against the
+ * published key. Runs entirely in the browser, so it works for a saved key
+ * even when the certificate is no longer in our database.
+ */
+export async function verifyCertificateSignature(
+  token: string,
+  key: CertificateSigningKey
+): Promise<SignatureCheck> {
+  const [encoded, signature, ...rest] = token.trim().split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, claims: null, error: "Unrecognised signature" };
+  }
+
+  let claims: CertificateClaims;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+  } catch {
+    return { valid: false, claims: null, error: "Claims could not be read" };
+  }
+
+  if (claims.k !== key.key_id) {
+    return { valid: false, claims, error: "Signed with an unknown key" };
+  }
+
+  const publicKey = await crypto.subtle.importKey(
+    "jwk",
+    key.jwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["verify"]
+  );
+  const valid = await crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    publicKey,
+    fromBase64Url(signature),
+    new TextEncoder().encode(encoded)
+  );
+
+  return valid
+    ? { valid: true, claims }
+    : { valid: false, claims, error: "Signature does not match" };
+}
@@ -63,3 +63,11 @@ export const getTimeUntilEvent = (dateString: string): string => {
     return `${minutes} minute${minutes > 1 ? "s" : ""}`;
   }
 };
+
+// datetime-local inputs need "YYYY-MM-DDTHH:mm" in local time
+export const toLocalInput = (iso: string | null): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
@@ -0,0 +1,86 @@
+import type {
+  ConditionalLogic,
+  ConditionType,
+  FormField,
+  FormStep,
+} from "../api/forms";
+
+/**
+ * Conditional logic helpers shared by the form renderer and preview. The
+ * backend applies the same rules in FormValidationService, so keep the two
+ * in step.
+ */
+
+const matchesRule = (rule: ConditionalLogic, answer: unknown): boolean => {
+  const expected = rule.value.trim().toLowerCase();
+  const values = (Array.isArray(answer) ? answer : [answer])
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => String(value).trim().toLowerCase());
+
+  switch (rule.condition) {
+    case "equals":
+      return values.includes(expected);
+    case "not_equals":
+      return !values.includes(expected);
+    case "contains":
+      return values.some((value) => value.includes(expected));
+    default:
+      return true;
+  }
+};
+
+// IDs of the fields currently shown. A field whose controlling field is
+// hidden is hidden too, so answers from a skipped branch never count.
+export function getVisibleFieldIds(
+  fields: FormField[],
+  responses: Record<string, any>
+): Set<string> {
+  const byId = new Map(fields.map((field) => [field.id, field]));
+  const visibility = new Map<string, boolean>();
+
+  const isVisible = (field: FormField, seen: Set<string>): boolean => {
+    const cached = visibility.get(field.id);
+    if (cached !== undefined) return cached;
+
+    const rule = field.conditionalLogic;
+    const parent = rule ? byId.get(rule.dependsOn) : undefined;
+    let visible = true;
+
+    // Rules pointing at missing fields (or looping back) are ignored
+    if (rule && parent && !seen.has(parent.id)) {
+      seen.add(field.id);
+      visible =
+        isVisible(parent, seen) && matchesRule(rule, responses[parent.id]);
+    }
+
+    visibility.set(field.id, visible);
+    return visible;
+  };
+
+  fields.forEach((field) => isVisible(field, new Set()));
+
+  return new Set(
+    fields.filter((field) => visibility.get(field.id)).map((field) => field.id)
+  );
+}
+
+// Steps whose fields are all hidden are skipped
+export function getVisibleStepIndexes(
+  steps: FormStep[],
+  visibleFieldIds: Set<string>
+): number[] {
+  return steps
+    .map((step, index) => ({ step, index }))
+    .filter(
+      ({ step }) =>
+        step.fields.length === 0 ||
+        step.fields.some((fieldId) => visibleFieldIds.has(fieldId))
+    )
+    .map(({ index }) => index);
+}
+
+export const CONDITION_LABELS: Record<ConditionType, string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "contains",
+};
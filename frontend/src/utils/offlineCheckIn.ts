@@ -0,0 +1,246 @@
+import type {
+  CheckInManifest,
+  ManifestAttendee,
+  ManifestKey,
+  OfflineCheckInRecord,
+  SignedManifest,
+} from "../api/checkin";
+
+/**
+ * Local storage for offline check-in. The signed manifest and every scan
+ * that hasn't reached the server yet live in IndexedDB so they survive a
+ * page reload or a dead battery.
+ */
+
+const DB_NAME = "eventhub-checkin";
+const DB_VERSION = 1;
+const MANIFEST_STORE = "manifests";
+const QUEUE_STORE = "queue";
+const DEVICE_ID_KEY = "checkin-device-id";
+
+export interface StoredManifest extends SignedManifest {
+  event_id: string;
+  downloaded_at: string;
+  // Registrations this device has checked in since downloading
+  local_check_ins: Record<string, string>;
+}
+
+export interface QueuedCheckIn extends OfflineCheckInRecord {
+  event_id: string;
+  registration_id: string;
+  name: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MANIFEST_STORE)) {
+        db.createObjectStore(MANIFEST_STORE, { keyPath: "event_id" });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const queue = db.createObjectStore(QUEUE_STORE, {
+          keyPath: "client_id",
+        });
+        queue.createIndex("event_id", "event_id");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request inside a transaction and resolve with its result
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Stable id for this browser, sent with every batch upload
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export async function hashTicket(qrCode: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(qrCode.trim())
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Check the manifest really came from the server before trusting it
+export async function verifyManifest(
+  signed: SignedManifest,
+  key: ManifestKey
+): Promise<CheckInManifest> {
+  if (signed.key_id !== key.key_id) {
+    throw new Error("Manifest was signed with an unknown key");
+  }
+
+  const publicKey = await crypto.subtle.importKey(
+    "jwk",
+    key.jwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["verify"]
+  );
+  const valid = await crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    publicKey,
+    fromBase64Url(signed.signature),
+    new TextEncoder().encode(signed.manifest)
+  );
+
+  if (!valid) {
+    throw new Error("Manifest signature is invalid");
+  }
+
+  return JSON.parse(signed.manifest) as CheckInManifest;
+}
+
+export async function saveManifest(
+  eventId: string,
+  signed: SignedManifest
+): Promise<StoredManifest> {
+  const stored: StoredManifest = {
+    ...signed,
+    event_id: eventId,
+    downloaded_at: new Date().toISOString(),
+    local_check_ins: {},
+  };
+  await withStore(MANIFEST_STORE, "readwrite", (store) => store.put(stored));
+  return stored;
+}
+
+export async function getStoredManifest(
+  eventId: string
+): Promise<StoredManifest | undefined> {
+  return withStore<StoredManifest | undefined>(
+    MANIFEST_STORE,
+    "readonly",
+    (store) => store.get(eventId)
+  );
+}
+
+async function markCheckedIn(
+  stored: StoredManifest,
+  registrationId: string,
+  checkedInAt: string
+): Promise<void> {
+  stored.local_check_ins[registrationId] = checkedInAt;
+  await withStore(MANIFEST_STORE, "readwrite", (store) => store.put(stored));
+}
+
+export async function getQueuedCheckIns(
+  eventId: string
+): Promise<QueuedCheckIn[]> {
+  return withStore<QueuedCheckIn[]>(QUEUE_STORE, "readonly", (store) =>
+    store.index("event_id").getAll(eventId)
+  );
+}
+
+export async function removeQueuedCheckIns(clientIds: string[]) {
+  if (clientIds.length === 0) return;
+
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(QUEUE_STORE, "readwrite");
+      const store = transaction.objectStore(QUEUE_STORE);
+      clientIds.forEach((clientId) => store.delete(clientId));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Validate a scan against the stored manifest and queue it for upload.
+ * Throws with a scanner-friendly message when the ticket isn't on the
+ * manifest or this device already let the attendee in.
+ */
+export async function recordOfflineCheckIn(
+  eventId: string,
+  qrCode: string,
+  location: string
+): Promise<{ attendee: ManifestAttendee; record: QueuedCheckIn }> {
+  const stored = await getStoredManifest(eventId);
+  if (!stored) {
+    throw new Error(
+      "You're offline and this device has no attendee list. Download it while online to scan offline."
+    );
+  }
+
+  const manifest = JSON.parse(stored.manifest) as CheckInManifest;
+  if (manifest.version !== 2) {
+    throw new Error(
+      "This device's attendee list is from an older version. Download it again while online to scan offline."
+    );
+  }
+
+  const ticketHash = await hashTicket(qrCode);
+  const attendee = manifest.attendees.find((candidate) =>
+    candidate.ticket_hashes.includes(ticketHash)
+  );
+
+  if (!attendee) {
+    throw new Error(
+      "Ticket not recognised: it isn't on this device's attendee list. It may be forged, out of date, or issued after the list was downloaded."
+    );
+  }
+
+  const checkedInAt =
+    stored.local_check_ins[attendee.registration_id] || attendee.checked_in_at;
+  if (checkedInAt) {
+    const time = new Date(checkedInAt).toLocaleTimeString();
+    throw new Error(
+      `Participant already checked in: ${attendee.name} was checked in at ${time}`
+    );
+  }
+
+  const record: QueuedCheckIn = {
+    client_id: crypto.randomUUID(),
+    event_id: eventId,
+    registration_id: attendee.registration_id,
+    name: attendee.name,
+    qr_code: qrCode.trim(),
+    scanned_at: new Date().toISOString(),
+    location,
+  };
+
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.put(record));
+  await markCheckedIn(stored, attendee.registration_id, record.scanned_at);
+
+  return { attendee, record };
+}
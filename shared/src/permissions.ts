@@ -0,0 +1,176 @@
+import { z } from "zod";
+
+// Every permission that can be granted on an event, with the label shown
+// when assigning it
+export const EVENT_PERMISSIONS = {
+  "manage-event": "Edit event details and settings",
+  "delete-event": "Delete the event",
+  "view-registrations": "View registrations",
+  "manage-registrations": "Manage registrations",
+  "export-registrations": "Export registrations",
+  "check-in": "Check in participants",
+  "view-stats": "View check-in statistics",
+  "manage-staff": "Add, edit and remove staff",
+  "view-reports": "View reports",
+  "manage-reports": "Manage reports",
+  "send-emails": "Send emails to participants",
+  "send-notifications": "Send notifications",
+  "view-certificates": "View issued certificates",
+  "manage-certificates": "Generate, email, revoke and reissue certificates",
+} as const;
+
+export type EventPermission = keyof typeof EVENT_PERMISSIONS;
+
+export const ALL_EVENT_PERMISSIONS = Object.keys(
+  EVENT_PERMISSIONS
+) as EventPermission[];
+
+export const EventPermissionSchema = z.enum(
+  ALL_EVENT_PERMISSIONS as [EventPermission, ...EventPermission[]]
+);
+
+// Names stored by older versions of the staff form
+const LEGACY_PERMISSIONS: Record<string, EventPermission> = {
+  "create-certificate": "manage-certificates",
+};
+
+// Assignments from before permissions were arrays stored flags instead
+const LEGACY_PERMISSION_FLAGS: Record<string, EventPermission> = {
+  can_check_in: "check-in",
+  can_view_stats: "view-stats",
+  can_create_certificate: "manage-certificates",
+};
+
+// Reusable permission sets offered when assigning someone to an event
+export const ROLE_TEMPLATES = {
+  "co-organizer": {
+    name: "Co-organizer",
+    description: "Runs the event alongside you, but can't delete it",
+    permissions: ALL_EVENT_PERMISSIONS.filter(
+      (permission) => permission !== "delete-event"
+    ),
+  },
+  "door-staff": {
+    name: "Door staff",
+    description: "Checks people in at the door",
+    permissions: ["check-in", "view-stats"],
+  },
+  "certificate-manager": {
+    name: "Certificate manager",
+    description: "Issues and maintains attendance certificates",
+    permissions: [
+      "view-registrations",
+      "view-certificates",
+      "manage-certificates",
+    ],
+  },
+  finance: {
+    name: "Finance",
+    description: "Reviews registrations, payments and reports",
+    permissions: [
+      "view-registrations",
+      "export-registrations",
+      "view-reports",
+      "manage-reports",
+    ],
+  },
+} satisfies Record<
+  string,
+  { name: string; description: string; permissions: EventPermission[] }
+>;
+
+export type RoleTemplateId = keyof typeof ROLE_TEMPLATES;
+
+// What an organizer row in event_users grants: everything but deleting the
+// event, which stays with its owner
+export const CO_ORGANIZER_PERMISSIONS: EventPermission[] =
+  ROLE_TEMPLATES["co-organizer"].permissions;
+
+export const RoleTemplateIdSchema = z.enum(
+  Object.keys(ROLE_TEMPLATES) as [RoleTemplateId, ...RoleTemplateId[]]
+);
+
+// Manage permissions imply the matching view permission
+const IMPLIED_PERMISSIONS: Partial<Record<EventPermission, EventPermission>> =
+  {
+    "manage-registrations": "view-registrations",
+    "manage-reports": "view-reports",
+    "manage-certificates": "view-certificates",
+  };
+
+/**
+ * Turn whatever is stored in event_users.permissions into known permission
+ * names: legacy names and flag objects are translated and unknown strings
+ * dropped.
+ */
+export function normalizePermissions(stored: unknown): EventPermission[] {
+  let names: string[] = [];
+  if (Array.isArray(stored)) {
+    names = stored.filter((name): name is string => typeof name === "string");
+  } else if (stored && typeof stored === "object") {
+    names = Object.entries(stored)
+      .filter(([, granted]) => granted === true)
+      .map(([flag]) => LEGACY_PERMISSION_FLAGS[flag] || flag);
+  }
+
+  const permissions = new Set<EventPermission>();
+  for (const name of names) {
+    const permission = LEGACY_PERMISSIONS[name] || name;
+    if (permission in EVENT_PERMISSIONS) {
+      permissions.add(permission as EventPermission);
+    }
+  }
+  return ALL_EVENT_PERMISSIONS.filter((permission) =>
+    permissions.has(permission)
+  );
+}
+
+export function hasEventPermission(
+  granted: readonly EventPermission[],
+  permission: EventPermission
+): boolean {
+  return (
+    granted.includes(permission) ||
+    Object.entries(IMPLIED_PERMISSIONS).some(
+      ([manage, view]) =>
+        view === permission && granted.includes(manage as EventPermission)
+    )
+  );
+}
+
+// What a staff form asks for: a role template's permissions, a custom set,
+// or door staff when neither is given
+export function resolveStaffPermissions({
+  permissions,
+  roleTemplate,
+}: {
+  permissions?: EventPermission[];
+  roleTemplate?: RoleTemplateId;
+}): EventPermission[] {
+  if (roleTemplate) return [...ROLE_TEMPLATES[roleTemplate].permissions];
+  return permissions || [...ROLE_TEMPLATES["door-staff"].permissions];
+}
+
+// Requested permissions the granter doesn't hold and so can't hand out
+export function ungrantablePermissions(
+  requested: readonly EventPermission[],
+  held: readonly EventPermission[]
+): EventPermission[] {
+  return requested.filter(
+    (permission) => !hasEventPermission(held, permission)
+  );
+}
+
+// The template whose permissions match exactly, if any
+export function findRoleTemplate(
+  permissions: readonly EventPermission[]
+): RoleTemplateId | null {
+  const match = Object.entries(ROLE_TEMPLATES).find(
+    ([, template]) =>
+      template.permissions.length === permissions.length &&
+      template.permissions.every((permission) =>
+        permissions.includes(permission)
+      )
+  );
+  return match ? (match[0] as RoleTemplateId) : null;
+}
@@ -33,6 +33,85 @@ export const LoginSchema = z.object({
   password: z.string().min(1),
 });
 
+// Organization schemas (teams that own events together)
+export const OrganizationRoleSchema = z.enum(["owner", "admin", "member"]);
+
+const BrandColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Brand color must be a hex color like #4f46e5");
+
+export const CreateOrganizationSchema = z.object({
+  name: z.string().min(1, "Organization name is required").max(100),
+  description: z.string().max(1000).optional(),
+  logoUrl: z.string().url().optional(),
+  brandColor: BrandColorSchema.optional(),
+});
+
+export const UpdateOrganizationSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  logoUrl: z.string().url().nullable().optional(),
+  brandColor: BrandColorSchema.nullable().optional(),
+  // The member whose Gmail authorization sends the organization's emails
+  gmailSenderUserId: z.string().uuid().nullable().optional(),
+  // Stripe Connect account that receives ticket payments
+  stripeAccountId: z
+    .string()
+    .regex(/^acct_[A-Za-z0-9]+$/, "Stripe account IDs start with acct_")
+    .nullable()
+    .optional(),
+});
+
+export const AddOrganizationMemberSchema = z.object({
+  email: z.string().email(),
+  role: OrganizationRoleSchema.default("member"),
+});
+
+export const UpdateOrganizationMemberSchema = z.object({
+  role: OrganizationRoleSchema,
+});
+
+// Category schemas (admin-managed, used to browse and filter events)
+export const CreateCategorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required").max(50),
+  // Derived from the name when left out
+  slug: z
+    .string()
+    .max(50)
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      "Slug may only contain lowercase letters, numbers and dashes"
+    )
+    .optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex color like #4f46e5"),
+  icon: z.string().max(50).optional(), // A lucide icon name, e.g. "Music"
+  description: z.string().max(500).optional(),
+});
+
+export const UpdateCategorySchema = CreateCategorySchema.extend({
+  icon: z.string().max(50).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+}).partial();
+
+// Free-form organizer tags, stored lowercased so filters ignore case
+export const EventTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(30)
+  .regex(
+    /^[a-z0-9][a-z0-9 &+.-]*$/,
+    "Tags may only contain letters, numbers, spaces and & + . -"
+  );
+
+const EventTagsSchema = z
+  .array(EventTagSchema)
+  .max(10, "Events can have at most 10 tags")
+  .transform((tags) => [...new Set(tags)]);
+
 // Event schemas
 export const EventSchema = z.object({
   id: z.string().uuid(),
@@ -45,6 +124,7 @@ export const EventSchema = z.object({
   longitude: z.number().optional(),
   capacity: z.number().positive(),
   categoryId: z.string().uuid().optional(),
+  tags: z.array(z.string()).default([]),
   bannerUrl: z.string().url().optional(),
   visibility: z.enum(["public", "private", "invite-only"]),
   organizerId: z.string().uuid(),
@@ -65,6 +145,7 @@ export const CreateEventSchema = z.object({
   longitude: z.number().optional(),
   capacity: z.number().positive(),
   categoryId: z.string().uuid().optional(),
+  tags: EventTagsSchema.optional(),
   bannerUrl: z.string().url().optional(),
   visibility: z.enum(["public", "private", "invite-only"]),
   registrationDeadline: z
@@ -73,6 +154,8 @@ export const CreateEventSchema = z.object({
     .optional(),
   isPaid: z.boolean().default(false),
   price: z.number().min(0).optional(),
+  // Create the event on behalf of an organization the user belongs to
+  organizationId: z.string().uuid().optional(),
 });
 
 export const UpdateEventSchema = z.object({
@@ -91,6 +174,7 @@ export const UpdateEventSchema = z.object({
   longitude: z.number().optional(),
   capacity: z.number().positive().optional(),
   categoryId: z.string().uuid().optional(),
+  tags: EventTagsSchema.optional(),
   bannerUrl: z.string().url().optional(),
   visibility: z.enum(["public", "private", "invite-only"]).optional(),
   registrationDeadline: z
@@ -101,6 +185,241 @@ export const UpdateEventSchema = z.object({
   price: z.number().min(0).optional(),
 });
 
+// Ticket tier schemas (multiple ticket types per event)
+export const TicketTierVisibilitySchema = z.enum(["public", "hidden"]);
+
+export const TicketTierSchema = z.object({
+  id: z.string().uuid(),
+  eventId: z.string().uuid(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  price: z.number().min(0),
+  quantity: z.number().int().positive().nullable(), // null = limited only by event capacity
+  salesStart: z.date().nullable().optional(),
+  salesEnd: z.date().nullable().optional(),
+  visibility: TicketTierVisibilitySchema,
+  sortOrder: z.number().int().default(0),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const CreateTicketTierSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    price: z.number().min(0).default(0),
+    quantity: z.number().int().positive().nullable().optional(),
+    salesStart: z
+      .string()
+      .transform((val) => new Date(val))
+      .nullable()
+      .optional(),
+    salesEnd: z
+      .string()
+      .transform((val) => new Date(val))
+      .nullable()
+      .optional(),
+    visibility: TicketTierVisibilitySchema.default("public"),
+    sortOrder: z.number().int().optional(),
+  })
+  .refine(
+    (tier) => !tier.salesStart || !tier.salesEnd || tier.salesStart < tier.salesEnd,
+    { message: "Sales end must be after sales start", path: ["salesEnd"] }
+  );
+
+export const UpdateTicketTierSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  price: z.number().min(0).optional(),
+  quantity: z.number().int().positive().nullable().optional(),
+  salesStart: z
+    .string()
+    .transform((val) => new Date(val))
+    .nullable()
+    .optional(),
+  salesEnd: z
+    .string()
+    .transform((val) => new Date(val))
+    .nullable()
+    .optional(),
+  visibility: TicketTierVisibilitySchema.optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// Agenda session schemas (multi-session events such as conferences)
+export const EventSessionSchema = z.object({
+  id: z.string().uuid(),
+  eventId: z.string().uuid(),
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
+  startTime: z.date(),
+  endTime: z.date(),
+  room: z.string().nullable().optional(),
+  speaker: z.string().nullable().optional(),
+  capacity: z.number().int().positive().nullable(), // null = limited only by the room
+  signupRequired: z.boolean().default(false),
+  sortOrder: z.number().int().default(0),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const CreateEventSessionSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().max(2000).optional(),
+    startTime: z.string().transform((val) => new Date(val)),
+    endTime: z.string().transform((val) => new Date(val)),
+    room: z.string().trim().max(100).optional(),
+    speaker: z.string().trim().max(200).optional(),
+    capacity: z.number().int().positive().nullable().optional(),
+    signupRequired: z.boolean().default(false),
+    sortOrder: z.number().int().optional(),
+  })
+  .refine((session) => session.startTime < session.endTime, {
+    message: "Session end must be after its start",
+    path: ["endTime"],
+  });
+
+export const UpdateEventSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+  startTime: z
+    .string()
+    .transform((val) => new Date(val))
+    .optional(),
+  endTime: z
+    .string()
+    .transform((val) => new Date(val))
+    .optional(),
+  room: z.string().trim().max(100).optional(),
+  speaker: z.string().trim().max(200).optional(),
+  capacity: z.number().int().positive().nullable().optional(),
+  signupRequired: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const SessionSignupSchema = z.object({
+  sessionIds: z.array(z.string().uuid()).max(100),
+});
+
+// Certificate eligibility based on session attendance
+export const CertificateEligibilitySchema = z.object({
+  eventId: z.string().uuid(),
+  minSessions: z.number().int().positive().nullable(),
+  minHours: z.number().positive().nullable(),
+  updatedAt: z.date().nullable(),
+});
+
+export const UpdateCertificateEligibilitySchema = z.object({
+  minSessions: z.number().int().positive().nullable().optional(),
+  minHours: z.number().positive().max(1000).nullable().optional(),
+});
+
+// Promo code schemas (discounts for paid events)
+export const PromoDiscountTypeSchema = z.enum(["percentage", "fixed"]);
+
+export const PromoCodeSchema = z.object({
+  id: z.string().uuid(),
+  eventId: z.string().uuid(),
+  code: z.string().min(1),
+  discountType: PromoDiscountTypeSchema,
+  discountValue: z.number().positive(),
+  tierIds: z.array(z.string().uuid()).nullable(), // null = all tiers
+  maxUses: z.number().int().positive().nullable(),
+  validFrom: z.date().nullable(),
+  validUntil: z.date().nullable(),
+  singleUsePerUser: z.boolean(),
+  isActive: z.boolean(),
+  createdBy: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const promoCodeFields = {
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes or underscores")
+    .transform((val) => val.toUpperCase()),
+  discountType: PromoDiscountTypeSchema,
+  discountValue: z.number().positive(),
+  tierIds: z.array(z.string().uuid()).nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+  validFrom: z
+    .string()
+    .transform((val) => new Date(val))
+    .nullable()
+    .optional(),
+  validUntil: z
+    .string()
+    .transform((val) => new Date(val))
+    .nullable()
+    .optional(),
+  singleUsePerUser: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const CreatePromoCodeSchema = z
+  .object(promoCodeFields)
+  .refine(
+    (promo) => promo.discountType !== "percentage" || promo.discountValue <= 100,
+    { message: "Percentage discounts cannot exceed 100", path: ["discountValue"] }
+  )
+  .refine(
+    (promo) =>
+      !promo.validFrom || !promo.validUntil || promo.validFrom < promo.validUntil,
+    { message: "Valid until must be after valid from", path: ["validUntil"] }
+  );
+
+export const UpdatePromoCodeSchema = z
+  .object(promoCodeFields)
+  .partial()
+  .refine(
+    (promo) =>
+      promo.discountType !== "percentage" ||
+      promo.discountValue === undefined ||
+      promo.discountValue <= 100,
+    { message: "Percentage discounts cannot exceed 100", path: ["discountValue"] }
+  );
+
+// Refund policy schemas (what attendees get back when they cancel)
+export const RefundPolicyTypeSchema = z.enum(["full", "partial", "none"]);
+
+export const RefundPolicySchema = z.object({
+  eventId: z.string().uuid(),
+  policyType: RefundPolicyTypeSchema,
+  refundPercentage: z.number().min(0).max(100),
+  refundDeadline: z.date().nullable(),
+  updatedAt: z.date(),
+});
+
+export const UpdateRefundPolicySchema = z
+  .object({
+    policyType: RefundPolicyTypeSchema,
+    refundPercentage: z.number().min(1).max(100).optional(),
+    refundDeadline: z
+      .string()
+      .transform((val) => new Date(val))
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (policy) =>
+      policy.policyType !== "partial" || policy.refundPercentage !== undefined,
+    {
+      message: "Partial refunds need a refund percentage",
+      path: ["refundPercentage"],
+    }
+  );
+
+export const CreateRefundSchema = z.object({
+  amount: z.number().positive().optional(), // Defaults to the full refundable amount
+  reason: z.string().trim().max(500).optional(),
+  cancelRegistration: z.boolean().default(true),
+});
+
 // Registration Form schemas
 export const FormFieldSchema = z.object({
   id: z.string().uuid(),
@@ -116,11 +435,19 @@ export const FormFieldSchema = z.object({
     "date",
     "number",
     "url",
+    "rating",
+    "nps",
+    "likert",
+    "ranking",
+    "slider",
   ]),
   label: z.string().min(1),
   placeholder: z.string().optional(),
   required: z.boolean().default(false),
   options: z.array(z.string()).optional(),
+  rows: z.array(z.string().min(1)).optional(),
+  scale: z.number().int().min(3).max(10).optional(),
+  step: z.number().positive().optional(),
   validation: z
     .object({
       min: z.number().optional(),
@@ -164,13 +491,25 @@ export const RegistrationSchema = z.object({
   email: z.string().email(),
   name: z.string().min(1),
   responses: z.record(z.string(), z.any()),
-  status: z.enum(["pending", "confirmed", "cancelled", "attended"]),
+  status: z.enum(["pending", "confirmed", "cancelled", "attended", "waitlisted"]),
   qrCode: z.string(),
   paymentStatus: z
-    .enum(["pending", "completed", "failed", "refunded"])
+    .enum([
+      "pending",
+      "completed",
+      "failed",
+      "refunded",
+      "partially_refunded",
+      "refund_failed",
+    ])
     .nullable()
     .optional(),
   paymentId: z.string().optional(),
+  ticketTierId: z.string().uuid().nullable().optional(),
+  promoCodeId: z.string().uuid().nullable().optional(),
+  discountAmount: z.number().min(0).optional(),
+  waitlistPosition: z.number().int().positive().nullable().optional(),
+  waitlistOfferExpiresAt: z.date().nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -180,16 +519,109 @@ export const CreateRegistrationSchema = z.object({
   responses: z.record(z.string(), z.any()),
   email: z.string().email().optional(),
   name: z.string().min(1).optional(),
+  ticketTierId: z.string().uuid().optional(),
+  promoCode: z.string().optional(),
+  sessionIds: z.array(z.string().uuid()).optional(),
+});
+
+// Feedback schemas (one submission per checked-in attendee)
+export const FeedbackSubmissionSchema = z.object({
+  id: z.string().uuid(),
+  eventId: z.string().uuid(),
+  formId: z.string().uuid(),
+  registrationId: z.string().uuid(),
+  responses: z.record(z.string(), z.any()),
+  isAnonymous: z.boolean(),
+  submittedAt: z.date(),
+});
+
+export const SubmitFeedbackSchema = z.object({
+  responses: z.record(z.string(), z.any()),
+  isAnonymous: z.boolean().default(false),
+});
+
+// Automatic feedback emails, timed from the event's end. The window is how
+// long after the end requests (and the one reminder) may still go out.
+export const FeedbackScheduleSchema = z
+  .object({
+    enabled: z.boolean(),
+    sendAfterHours: z.number().int().min(0).max(168),
+    reminderAfterHours: z.number().int().min(1).max(336),
+    windowDays: z.number().int().min(1).max(90),
+  })
+  .refine(
+    (schedule) =>
+      schedule.sendAfterHours + schedule.reminderAfterHours <
+      schedule.windowDays * 24,
+    {
+      message: "The reminder must go out before the feedback window closes",
+      path: ["reminderAfterHours"],
+    }
+  );
+
+// Invitation schemas (for private and invite-only events)
+export const InvitationStatusSchema = z.enum([
+  "sent",
+  "opened",
+  "accepted",
+  "revoked",
+]);
+
+export const InvitationSchema = z.object({
+  id: z.string().uuid(),
+  eventId: z.string().uuid(),
+  type: z.enum(["email", "link"]),
+  email: z.string().email().nullable(),
+  name: z.string().nullable(),
+  token: z.string(),
+  status: InvitationStatusSchema,
+  maxUses: z.number().int().positive().nullable(),
+  useCount: z.number().int().min(0),
+  expiresAt: z.date().nullable(),
+  invitedBy: z.string().uuid(),
+  acceptedBy: z.string().uuid().nullable(),
+  createdAt: z.date(),
 });
 
 // Attendance schemas
+export const AttendanceMethodSchema = z.enum(["qr_code", "manual"]);
+
 export const AttendanceSchema = z.object({
   id: z.string().uuid(),
   registrationId: z.string().uuid(),
   eventId: z.string().uuid(),
   checkedInAt: z.date(),
   checkedInBy: z.string().uuid(),
-  method: z.enum(["qr_code", "manual"]),
+  method: AttendanceMethodSchema,
+  location: z.string().nullable().optional(),
+  checkedOutAt: z.date().nullable().optional(),
+  checkedOutBy: z.string().uuid().nullable().optional(),
+});
+
+export const ManualCheckInSchema = z.object({
+  eventId: z.string().uuid(),
+  registrationId: z.string().uuid(),
+  location: z.string().trim().max(200).optional(),
+});
+
+export const CheckOutSchema = z.object({
+  checkedOutAt: z
+    .string()
+    .transform((val) => new Date(val))
+    .optional(), // Defaults to now
+});
+
+export const UndoCheckInSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+export const AttendanceQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  search: z.string().trim().max(100).optional(),
+  status: z.enum(["all", "checked_in", "checked_out"]).default("all"),
+  method: AttendanceMethodSchema.optional(),
+  ticketTierId: z.string().uuid().optional(),
 });
 
 export const CheckInSchema = z.object({
@@ -235,13 +667,53 @@ export const CertificateSchema = z.object({
 export type User = z.infer<typeof UserSchema>;
 export type CreateUser = z.infer<typeof CreateUserSchema>;
 export type LoginData = z.infer<typeof LoginSchema>;
+export type OrganizationRole = z.infer<typeof OrganizationRoleSchema>;
+export type CreateOrganization = z.infer<typeof CreateOrganizationSchema>;
+export type UpdateOrganization = z.infer<typeof UpdateOrganizationSchema>;
+export type AddOrganizationMember = z.infer<
+  typeof AddOrganizationMemberSchema
+>;
+export type UpdateOrganizationMember = z.infer<
+  typeof UpdateOrganizationMemberSchema
+>;
+export type CreateCategory = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategory = z.infer<typeof UpdateCategorySchema>;
 export type Event = z.infer<typeof EventSchema>;
 export type CreateEvent = z.infer<typeof CreateEventSchema>;
+export type TicketTier = z.infer<typeof TicketTierSchema>;
+export type CreateTicketTier = z.infer<typeof CreateTicketTierSchema>;
+export type UpdateTicketTier = z.infer<typeof UpdateTicketTierSchema>;
+export type EventSession = z.infer<typeof EventSessionSchema>;
+export type CreateEventSession = z.infer<typeof CreateEventSessionSchema>;
+export type UpdateEventSession = z.infer<typeof UpdateEventSessionSchema>;
+export type SessionSignup = z.infer<typeof SessionSignupSchema>;
+export type CertificateEligibility = z.infer<
+  typeof CertificateEligibilitySchema
+>;
+export type UpdateCertificateEligibility = z.infer<
+  typeof UpdateCertificateEligibilitySchema
+>;
+export type PromoCode = z.infer<typeof PromoCodeSchema>;
+export type CreatePromoCode = z.infer<typeof CreatePromoCodeSchema>;
+export type UpdatePromoCode = z.infer<typeof UpdatePromoCodeSchema>;
+export type RefundPolicy = z.infer<typeof RefundPolicySchema>;
+export type UpdateRefundPolicy = z.infer<typeof UpdateRefundPolicySchema>;
+export type CreateRefund = z.infer<typeof CreateRefundSchema>;
 export type FormField = z.infer<typeof FormFieldSchema>;
 export type RegistrationForm = z.infer<typeof RegistrationFormSchema>;
 export type Registration = z.infer<typeof RegistrationSchema>;
 export type CreateRegistration = z.infer<typeof CreateRegistrationSchema>;
+export type FeedbackSubmission = z.infer<typeof FeedbackSubmissionSchema>;
+export type SubmitFeedback = z.infer<typeof SubmitFeedbackSchema>;
+export type FeedbackSchedule = z.infer<typeof FeedbackScheduleSchema>;
+export type InvitationStatus = z.infer<typeof InvitationStatusSchema>;
+export type Invitation = z.infer<typeof InvitationSchema>;
+export type AttendanceMethod = z.infer<typeof AttendanceMethodSchema>;
 export type Attendance = z.infer<typeof AttendanceSchema>;
+export type ManualCheckIn = z.infer<typeof ManualCheckInSchema>;
+export type CheckOut = z.infer<typeof CheckOutSchema>;
+export type UndoCheckIn = z.infer<typeof UndoCheckInSchema>;
+export type AttendanceQuery = z.infer<typeof AttendanceQuerySchema>;
 export type CheckIn = z.infer<typeof CheckInSchema>;
 export type CertificateTemplate = z.infer<typeof CertificateTemplateSchema>;
 export type Certificate = z.infer<typeof CertificateSchema>;